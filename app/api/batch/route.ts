@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createZip, runBatch, type BatchInputFile } from "@/lib/batch";
+import type { ExportMode } from "@/lib/export";
+
+/**
+ * Upper bound on PDFs per request (files are processed sequentially)
+ */
+const MAX_BATCH_FILES = 50;
+
+/**
+ * POST /api/batch - run one instruction over many PDFs
+ *
+ * multipart/form-data:
+ * - pdfs: one or more PDF files
+ * - instruction: the agent instruction applied to every file
+ * - mode: "standard" | "burn-in" (default "burn-in")
+ *
+ * Responds with a zip of the exported PDFs plus report.json
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const formData = await request.formData();
+    const instruction = formData.get("instruction");
+    const mode = (formData.get("mode") as string | null) || "burn-in";
+    const uploads = formData.getAll("pdfs").filter((value): value is File => value instanceof File);
+
+    if (typeof instruction !== "string" || !instruction.trim()) {
+      return NextResponse.json({ error: "No instruction provided" }, { status: 400 });
+    }
+
+    if (mode !== "standard" && mode !== "burn-in") {
+      return NextResponse.json({ error: `Unknown export mode: ${mode}` }, { status: 400 });
+    }
+
+    if (uploads.length === 0) {
+      return NextResponse.json({ error: "No PDF files provided" }, { status: 400 });
+    }
+
+    if (uploads.length > MAX_BATCH_FILES) {
+      return NextResponse.json(
+        { error: `Too many files: ${uploads.length} (maximum ${MAX_BATCH_FILES})` },
+        { status: 400 }
+      );
+    }
+
+    const notPdf = uploads.find((file) => file.type !== "application/pdf");
+    if (notPdf) {
+      return NextResponse.json({ error: `File must be a PDF: ${notPdf.name}` }, { status: 400 });
+    }
+
+    const files: BatchInputFile[] = await Promise.all(
+      uploads.map(async (file) => ({
+        name: file.name,
+        bytes: new Uint8Array(await file.arrayBuffer()),
+      }))
+    );
+
+    const { report, entries } = await runBatch(files, instruction.trim(), mode as ExportMode);
+    console.log(
+      `[Batch] Processed ${files.length} file(s): ${report.succeeded} succeeded, ${report.failed} failed`
+    );
+
+    const zip = createZip(entries);
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": 'attachment; filename="canon-batch.zip"',
+        "X-Canon-Batch-Succeeded": String(report.succeeded),
+        "X-Canon-Batch-Failed": String(report.failed),
+      },
+    });
+  } catch (error) {
+    console.error("Batch processing error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to process batch" },
+      { status: 500 }
+    );
+  }
+}
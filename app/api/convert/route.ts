@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { writeFile, readFile, mkdir, rm } from "fs/promises";
-import { exec } from "child_process";
-import { promisify } from "util";
-import path from "path";
-import { randomUUID } from "crypto";
-
-const execAsync = promisify(exec);
-
-const PDF2HTMLEX_PATH = path.join(process.cwd(), "bin", "pdf2htmlEX");
+import { buildGDSMFromHTML } from "@/lib/gdsm/html-builder";
+import { serializeGDSM, type SerializedGDSM } from "@/lib/gdsm";
+import { createDocument } from "@/lib/workspace";
+import { convertPdfToHtml, extractAnnotations } from "@/lib/pdf";
+import type { ImportedAnnotation } from "@/lib/gdsm";
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
-  const tempDir = path.join("/tmp", `canon-${randomUUID()}`);
-
   try {
     const formData = await request.formData();
     const file = formData.get("pdf") as File | null;
@@ -30,49 +24,40 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Create temp directory
-    await mkdir(tempDir, { recursive: true });
-
-    // Write uploaded PDF to temp file
-    const pdfPath = path.join(tempDir, "input.pdf");
     const buffer = Buffer.from(await file.arrayBuffer());
-    await writeFile(pdfPath, buffer);
-
-    // Run pdf2htmlEX with all embedding enabled for self-contained HTML
-    // Using zoom 1.0 for pixel-perfect accuracy (72 DPI matches PDF standard)
-    const outputFileName = "output.html";
-    const command = [
-      PDF2HTMLEX_PATH,
-      "--zoom", "1.0",
-      "--embed-css", "1",
-      "--embed-font", "1",
-      "--embed-image", "1",
-      "--embed-javascript", "1",
-      "--embed-outline", "1",
-      "--printing", "0",
-      "--dest-dir", tempDir,
-      pdfPath,
-      outputFileName,
-    ].join(" ");
-
-    await execAsync(command, { timeout: 60000 });
+    const htmlContent = await convertPdfToHtml(new Uint8Array(buffer));
 
-    // Read the generated HTML
-    const htmlPath = path.join(tempDir, outputFileName);
-    const htmlContent = await readFile(htmlPath, "utf-8");
+    // pdf2htmlEX drops annotations - read them from the source PDF instead
+    let annotations: ImportedAnnotation[] = [];
+    try {
+      annotations = await extractAnnotations(new Uint8Array(buffer));
+    } catch (annotationError) {
+      console.error("Failed to read PDF annotations:", annotationError);
+    }
 
-    // Clean up temp directory
-    await rm(tempDir, { recursive: true, force: true });
+    // Build the canonical GDSM and stamp element IDs into the HTML
+    // Falls back to the raw HTML (client-side GDSM) if the build fails
+    let html = htmlContent;
+    let gdsm: SerializedGDSM | undefined;
+    try {
+      const built = buildGDSMFromHTML(htmlContent, { annotations });
+      html = built.html;
+      gdsm = serializeGDSM(built.gdsm);
+    } catch (buildError) {
+      console.error("Server-side GDSM build failed:", buildError);
+    }
 
-    return NextResponse.json({ html: htmlContent });
-  } catch (error) {
-    // Clean up on error
+    // Save to the workspace so the session can be reopened later
+    let documentId: string | undefined;
     try {
-      await rm(tempDir, { recursive: true, force: true });
-    } catch {
-      // Ignore cleanup errors
+      const document = await createDocument({ name: file.name, html, gdsm });
+      documentId = document.id;
+    } catch (storeError) {
+      console.error("Failed to save document to workspace:", storeError);
     }
 
+    return NextResponse.json({ html, gdsm, documentId });
+  } catch (error) {
     console.error("PDF conversion error:", error);
 
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  loadSession,
+  saveSession,
+  deleteDocument,
+  DocumentNotFoundError,
+  type SessionUpdate,
+} from "@/lib/workspace";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  if (error instanceof DocumentNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const session = await loadSession(id);
+    return NextResponse.json({ session });
+  } catch (error) {
+    return errorResponse(error, "Failed to load document");
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const update: SessionUpdate = {};
+    if (typeof body.name === "string") update.name = body.name;
+    if (typeof body.html === "string") update.html = body.html;
+    if (body.gdsm !== undefined) update.gdsm = body.gdsm;
+    if (body.journal !== undefined) update.journal = body.journal;
+    if (Array.isArray(body.changeLedger)) update.changeLedger = body.changeLedger;
+    if (Array.isArray(body.conversationHistory)) {
+      update.conversationHistory = body.conversationHistory;
+    }
+
+    const document = await saveSession(id, update);
+    return NextResponse.json({ document });
+  } catch (error) {
+    return errorResponse(error, "Failed to save document");
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+    await deleteDocument(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, "Failed to delete document");
+  }
+}
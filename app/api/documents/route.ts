@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createDocument, listDocuments } from "@/lib/workspace";
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const documents = await listDocuments();
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error("List documents error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list documents" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { name, html, gdsm } = await request.json();
+
+    if (!html || typeof html !== "string") {
+      return NextResponse.json(
+        { error: "No HTML content provided" },
+        { status: 400 }
+      );
+    }
+
+    const document = await createDocument({
+      name: typeof name === "string" && name ? name : "Untitled.pdf",
+      html,
+      gdsm: gdsm ?? null,
+    });
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    console.error("Create document error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create document" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,31 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
-import { PDFViewer, type PDFViewerRef, type SelectedElement, EditorToolbar, type EditorMode, PageThumbnails, CommandCapsule } from "@/components/editor";
-import { extractContext, executeOperations, type AgentOperation, type ExecutionResult, type ConversationMessage } from "@/lib/agent";
-import { buildGDSM } from "@/lib/gdsm";
+import { PDFViewer, type PDFViewerRef, type SelectedElement, type DrawnHighlight, type SavedComment, type OperationPreview, EditorToolbar, type EditorMode, PageThumbnails, CommandCapsule } from "@/components/editor";
+import { extractContext, toScannerElements, executeOperation, executeOperations, revertOperations, reapplyOperations, operationToMutation, formatOperationDescription, type AgentOperation, type ExecutionResult, type ConversationMessage, type ApplyReport } from "@/lib/agent";
+import { buildGDSM, refreshCoordinates, serializeGDSM, deserializeGDSM, setDocumentLocale, createJournal, recordEntry, undoEntry, redoEntry, canUndo, canRedo, type GDSM, type DocumentLocale, type GDSMMutation, type JournalEntry, type JournalOperation } from "@/lib/gdsm";
+import type { DocumentSession, DocumentSummary, SavedLedgerEntry } from "@/lib/workspace";
+import { DEFAULT_REDACTION_REASON, formatRedactionLogCSV, formatRedactionLogJSON } from "@/lib/redaction";
 import { cn } from "@/lib/utils";
 
+type ChangeType = "text-replace" | "redact" | "insert" | "delete" | "format" | "highlight" | "comment";
+
+interface LedgerEntry {
+  id: string;
+  type: ChangeType;
+  description: string;
+  page?: number;
+  timestamp: Date;
+  // Journal entry that produced this change (removed again on undo)
+  journalEntryId?: string;
+}
+
+type SaveStatus = "idle" | "saving" | "saved" | "error";
+
+// Delay before unsaved changes are written to the workspace
+const AUTOSAVE_DELAY_MS = 1000;
+
 export default function AppPage(): React.ReactElement {
   const [documentName, setDocumentName] = useState<string | null>(null);
   const [isConverting, setIsConverting] = useState(false);
@@ -14,45 +33,285 @@ export default function AppPage(): React.ReactElement {
   const [selectedElement, setSelectedElement] = useState<SelectedElement | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [editorMode, setEditorMode] = useState<EditorMode>("select");
+  const [redactionReason, setRedactionReason] = useState(DEFAULT_REDACTION_REASON);
+  // Locale of the open document's GDSM (mirrored from gdsmRef for the toolbar)
+  const [documentLocale, setDocumentLocaleState] = useState<{ locale: DocumentLocale; source: GDSM["localeSource"] } | null>(null);
   const [pdfLoaded, setPdfLoaded] = useState(false);
   const [isCommandOpen, setIsCommandOpen] = useState(false);
 
   // Agent state
   const [isProcessing, setIsProcessing] = useState(false);
   const [agentOperations, setAgentOperations] = useState<AgentOperation[]>([]);
+  // Proposed operations the user unticked during review - everything else is applied
+  const [rejectedOperationIds, setRejectedOperationIds] = useState<ReadonlySet<string>>(new Set());
   const [agentExplanation, setAgentExplanation] = useState("");
   const [agentError, setAgentError] = useState<string | null>(null);
   // Conversation history for multi-turn context
   const [conversationHistory, setConversationHistory] = useState<ConversationMessage[]>([]);
 
   // Change ledger: only tracks APPLIED changes (results of work)
-  const [changeLedger, setChangeLedger] = useState<Array<{
-    id: string;
-    type: "text-replace" | "redact" | "insert" | "delete" | "format" | "highlight" | "comment";
-    description: string;
-    page?: number;
-    timestamp: Date;
-  }>>([]);
+  const [changeLedger, setChangeLedger] = useState<LedgerEntry[]>([]);
+
+  // Mutation journal for undo/redo (one entry per agent turn or manual action)
+  const journalRef = useRef(createJournal());
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+  const isReplayingRef = useRef(false);
+
+  // Failures from the last apply, sent to the agent with the next instruction
+  const lastApplyRef = useRef<ApplyReport | null>(null);
+
+  // Workspace: saved sessions for the current and previous documents
+  const [documentId, setDocumentId] = useState<string | null>(null);
+  const [savedDocuments, setSavedDocuments] = useState<DocumentSummary[]>([]);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
+  const isDirtyRef = useRef(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const pdfViewerRef = useRef<PDFViewerRef>(null);
+  // Live GDSM for the loaded document - mutated alongside the iframe DOM
+  const gdsmRef = useRef<GDSM | null>(null);
+
+  // Get the live GDSM, building it from the iframe on first use
+  // (normally already set from the canonical GDSM returned by /api/convert)
+  const getGDSM = useCallback((): GDSM | null => {
+    if (gdsmRef.current) return gdsmRef.current;
+    const iframeDoc = pdfViewerRef.current?.getIframeRef()?.current?.contentDocument;
+    if (!iframeDoc) return null;
+    gdsmRef.current = buildGDSM(iframeDoc);
+    return gdsmRef.current;
+  }, []);
+
+  // The server's GDSM estimates element widths - replace its boxes with the
+  // ones the iframe measured (spatial, table and layout queries depend on them)
+  const handleCoordinatesReady = useCallback((): void => {
+    const gdsm = gdsmRef.current;
+    const iframeDoc = pdfViewerRef.current?.getIframeRef()?.current?.contentDocument;
+    if (!gdsm || !iframeDoc) return;
+    if (refreshCoordinates(gdsm, iframeDoc) > 0) {
+      isDirtyRef.current = true;
+    }
+  }, []);
 
   // Helper to build and log GDSM
   const logGDSM = useCallback(() => {
-    const iframeRef = pdfViewerRef.current?.getIframeRef();
-    const iframeDoc = iframeRef?.current?.contentDocument;
-    if (iframeDoc) {
-      const gdsm = buildGDSM(iframeDoc);
+    const gdsm = getGDSM();
+    if (gdsm) {
       const elementsArray = Array.from(gdsm.elementsById.values());
       console.log("[GDSM] All elements:", elementsArray);
     }
+  }, [getGDSM]);
+
+  const syncDocumentLocale = useCallback((): void => {
+    const gdsm = gdsmRef.current;
+    setDocumentLocaleState(gdsm ? { locale: gdsm.locale, source: gdsm.localeSource } : null);
+  }, []);
+
+  // Override the document locale (null goes back to the detected one) -
+  // semantic types are re-detected with the new locale's patterns
+  const handleDocumentLocaleChange = useCallback((locale: DocumentLocale | null): void => {
+    const gdsm = getGDSM();
+    if (!gdsm) return;
+    setDocumentLocale(gdsm, locale ?? undefined);
+    isDirtyRef.current = true;
+    syncDocumentLocale();
+  }, [getGDSM, syncDocumentLocale]);
+
+  const syncHistoryState = useCallback((): void => {
+    setHistoryState({
+      canUndo: canUndo(journalRef.current),
+      canRedo: canRedo(journalRef.current),
+    });
   }, []);
 
+  // Record a journal entry for changes already applied to the iframe DOM
+  const recordChange = useCallback((
+    entry: Pick<JournalEntry, "label" | "source" | "operations" | "mutations">
+  ): void => {
+    const gdsm = getGDSM();
+    if (!gdsm) return;
+
+    const recorded = recordEntry(journalRef.current, gdsm, entry);
+    isDirtyRef.current = true;
+    setChangeLedger(prev => [...buildLedgerEntries(recorded), ...prev]);
+    syncHistoryState();
+  }, [getGDSM, syncHistoryState]);
+
+  const handleUndo = useCallback(async (): Promise<void> => {
+    const gdsm = getGDSM();
+    const iframeRef = pdfViewerRef.current?.getIframeRef();
+    if (!gdsm || !iframeRef || isReplayingRef.current) return;
+
+    const entry = undoEntry(journalRef.current, gdsm);
+    if (!entry) return;
+    isDirtyRef.current = true;
+
+    isReplayingRef.current = true;
+    try {
+      const results = await revertOperations(entry.operations, iframeRef);
+      const failed = results.filter(r => !r.success);
+      if (failed.length > 0) {
+        console.error("[Undo] Some operations could not be reverted:", failed);
+      }
+      setChangeLedger(prev => prev.filter(item => item.journalEntryId !== entry.id));
+    } finally {
+      isReplayingRef.current = false;
+      syncHistoryState();
+    }
+  }, [getGDSM, syncHistoryState]);
+
+  const handleRedo = useCallback(async (): Promise<void> => {
+    const gdsm = getGDSM();
+    const iframeRef = pdfViewerRef.current?.getIframeRef();
+    if (!gdsm || !iframeRef || isReplayingRef.current) return;
+
+    const entry = redoEntry(journalRef.current, gdsm);
+    if (!entry) return;
+    isDirtyRef.current = true;
+
+    isReplayingRef.current = true;
+    try {
+      const results = await reapplyOperations(entry.operations, iframeRef);
+      const failed = results.filter(r => !r.success);
+      if (failed.length > 0) {
+        console.error("[Redo] Some operations could not be re-applied:", failed);
+      }
+      // Keep the latest DOM results so the next undo reverts the right state
+      results.forEach(r => {
+        const op = entry.operations.find(o => o.id === r.operationId);
+        if (op && r.success && r.result) {
+          op.result = { ...op.result, ...r.result };
+        }
+      });
+      setChangeLedger(prev => [...buildLedgerEntries(entry), ...prev]);
+    } finally {
+      isReplayingRef.current = false;
+      syncHistoryState();
+    }
+  }, [getGDSM, syncHistoryState]);
+
+  // Refresh the saved document list
+  const refreshDocuments = useCallback(async (): Promise<void> => {
+    try {
+      const response = await fetch("/api/documents");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to list documents");
+      }
+      setSavedDocuments(data.documents);
+    } catch (err) {
+      console.error("Failed to list documents:", err);
+    }
+  }, []);
+
+  // Write the current session (HTML, GDSM, journal, ledger, conversation) to the workspace
+  // Resolves false if the save failed
+  const saveCurrentSession = useCallback(async (): Promise<boolean> => {
+    if (!documentId) return false;
+    const html = pdfViewerRef.current?.getDocumentHtml();
+    if (!html) return false;
+
+    isDirtyRef.current = false;
+    setSaveStatus("saving");
+    try {
+      const response = await fetch(`/api/documents/${documentId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          html,
+          gdsm: gdsmRef.current ? serializeGDSM(gdsmRef.current) : null,
+          journal: journalRef.current,
+          changeLedger: changeLedger.map(toSavedLedgerEntry),
+          conversationHistory,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save document");
+      }
+
+      setSaveStatus("saved");
+      setSavedDocuments(prev => [
+        data.document,
+        ...prev.filter(doc => doc.id !== data.document.id),
+      ]);
+      return true;
+    } catch (err) {
+      console.error("Failed to save session:", err);
+      isDirtyRef.current = true;
+      setSaveStatus("error");
+      return false;
+    }
+  }, [documentId, changeLedger, conversationHistory]);
+
+  // Reopen a saved session
+  const handleOpenDocument = useCallback(async (id: string): Promise<void> => {
+    if (id === documentId || isConverting) return;
+
+    // Don't lose unsaved changes to the current document
+    if (isDirtyRef.current) {
+      await saveCurrentSession();
+    }
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to open document");
+      }
+
+      const session = data.session as DocumentSession;
+      pdfViewerRef.current?.loadHtml(session.html);
+      gdsmRef.current = session.gdsm ? deserializeGDSM(session.gdsm) : null;
+      syncDocumentLocale();
+      // Note: deleted elements can't be restored by undo after a reload
+      // (the iframe keeps detached nodes in memory only)
+      journalRef.current = session.journal ?? createJournal();
+      syncHistoryState();
+      setChangeLedger(session.changeLedger.map(fromSavedLedgerEntry));
+      setConversationHistory(session.conversationHistory);
+      setDocumentName(session.name);
+      setDocumentId(session.id);
+      setSaveStatus("saved");
+      isDirtyRef.current = false;
+      setSelectedElement(null);
+      setPdfLoaded(true);
+      setAgentOperations([]);
+      setAgentExplanation("");
+    } catch (err) {
+      console.error("Failed to open document:", err);
+      setError(err instanceof Error ? err.message : "Failed to open document");
+    }
+  }, [documentId, isConverting, saveCurrentSession, syncHistoryState, syncDocumentLocale]);
+
+  const handleDeleteDocument = useCallback(async (id: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/documents/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete document");
+      }
+      setSavedDocuments(prev => prev.filter(doc => doc.id !== id));
+      // Keep editing the open copy, it just won't be saved anymore
+      if (id === documentId) {
+        setDocumentId(null);
+        setSaveStatus("idle");
+      }
+    } catch (err) {
+      console.error("Failed to delete document:", err);
+    }
+  }, [documentId]);
+
   const handleFileUpload = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
       const file = event.target.files?.[0];
       if (!file || file.type !== "application/pdf") return;
 
+      // Flush unsaved changes to the current document before replacing it
+      if (isDirtyRef.current) {
+        await saveCurrentSession();
+      }
+
       setIsConverting(true);
       setError(null);
       setDocumentName(file.name);
@@ -74,6 +333,16 @@ export default function AppPage(): React.ReactElement {
         }
 
         pdfViewerRef.current?.loadHtml(data.html);
+        // Use the server's canonical GDSM when available (IDs are stamped into the HTML)
+        gdsmRef.current = data.gdsm ? deserializeGDSM(data.gdsm) : null;
+        syncDocumentLocale();
+        setDocumentId(data.documentId ?? null);
+        setSaveStatus(data.documentId ? "saved" : "idle");
+        isDirtyRef.current = false;
+        void refreshDocuments();
+        journalRef.current = createJournal();
+        syncHistoryState();
+        setChangeLedger([]);
         setPdfLoaded(true);
         setAgentOperations([]);
         setAgentExplanation("");
@@ -87,24 +356,83 @@ export default function AppPage(): React.ReactElement {
         setIsConverting(false);
       }
     },
-    []
+    [syncHistoryState, syncDocumentLocale, refreshDocuments, saveCurrentSession]
   );
 
   const handleUploadClick = useCallback((): void => {
     fileInputRef.current?.click();
   }, []);
 
+  // Manual redaction - executed like an agent operation so it can be undone
+  const redactManually = useCallback(async (elementId: string): Promise<void> => {
+    const iframeRef = pdfViewerRef.current?.getIframeRef();
+    if (!iframeRef) return;
+
+    // Build the GDSM before touching the DOM so it captures the pre-redaction state
+    getGDSM();
+
+    const operation: AgentOperation = {
+      id: crypto.randomUUID(),
+      tool: "redact_element",
+      input: { elementId, reason: redactionReason, author: "User" },
+    };
+    const result = await executeOperation(operation, iframeRef);
+    if (!result.success) {
+      console.error("[Redact] Manual redaction failed:", result.error);
+      return;
+    }
+
+    recordChange({
+      label: "Redact element",
+      source: "redact",
+      operations: [{ ...operation, result: result.result }],
+      mutations: [{ type: "redact", elementId }],
+    });
+  }, [getGDSM, recordChange, redactionReason]);
+
   const handleElementSelect = useCallback((element: SelectedElement | null): void => {
     // In redact mode, clicking an element redacts it
     if (editorMode === "redact" && element) {
-      pdfViewerRef.current?.redactElement(element.id);
+      void redactManually(element.id);
       setSelectedElement(null);
       return;
     }
 
     // In select mode, just select the element
     setSelectedElement(element);
-  }, [editorMode]);
+  }, [editorMode, redactManually]);
+
+  // Highlight boxes drawn in highlight mode (not tied to a GDSM element)
+  const handleHighlightCreated = useCallback((highlight: DrawnHighlight): void => {
+    recordChange({
+      label: "Draw highlight",
+      source: "highlight",
+      operations: [{
+        id: crypto.randomUUID(),
+        tool: "draw_highlight",
+        input: { highlightId: highlight.highlightId, rect: highlight.rect },
+      }],
+      mutations: [],
+    });
+  }, [recordChange]);
+
+  // Comments placed in comment mode (edits to existing comments aren't journaled)
+  const handleCommentSaved = useCallback((comment: SavedComment): void => {
+    if (!comment.isNew) return;
+    recordChange({
+      label: "Add comment",
+      source: "comment",
+      operations: [{
+        id: crypto.randomUUID(),
+        tool: "place_comment",
+        input: { commentId: comment.commentId, text: comment.text },
+      }],
+      // Comments dropped on text are attached to that element in the GDSM
+      mutations: comment.elementId
+        ? [{ type: "add_comment", elementId: comment.elementId, commentText: comment.text, commentAuthor: "User" }]
+        : [],
+    });
+  }, [recordChange]);
 
   const handleClearSelection = useCallback((): void => {
     setSelectedElement(null);
@@ -113,7 +441,7 @@ export default function AppPage(): React.ReactElement {
 
   const [showExportMenu, setShowExportMenu] = useState(false);
 
-  const handleExportPDF = useCallback(async (): Promise<void> => {
+  const handleExportPDF = useCallback(async (mode: "standard" | "burn-in" = "standard"): Promise<void> => {
     const html = pdfViewerRef.current?.getHtml();
     if (!html) return;
 
@@ -123,15 +451,22 @@ export default function AppPage(): React.ReactElement {
       const response = await fetch("/api/export", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ html }),
+        body: JSON.stringify({ html, mode }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
+        if (data.verification) {
+          console.warn("Redaction verification report:", data.verification);
+        }
         throw new Error(data.error || "Failed to export PDF");
       }
 
+      if (data.verification) {
+        console.log("Redaction verification report:", data.verification);
+      }
+
       // Convert base64 to blob and download
       const pdfBlob = new Blob(
         [Uint8Array.from(atob(data.pdf), (c) => c.charCodeAt(0))],
@@ -140,7 +475,8 @@ export default function AppPage(): React.ReactElement {
       const url = URL.createObjectURL(pdfBlob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = documentName?.replace(/\.pdf$/i, "-edited.pdf") || "exported.pdf";
+      const suffix = mode === "burn-in" ? "-redacted.pdf" : "-edited.pdf";
+      a.download = documentName?.replace(/\.pdf$/i, suffix) || "exported.pdf";
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -171,6 +507,26 @@ export default function AppPage(): React.ReactElement {
     URL.revokeObjectURL(url);
   }, [documentName]);
 
+  // Redaction log - page, position, reason and who/when for each redaction (never the text)
+  const handleExportRedactionLog = useCallback((format: "csv" | "json"): void => {
+    const entries = pdfViewerRef.current?.getRedactionLog();
+    if (!entries) return;
+
+    setShowExportMenu(false);
+
+    const logBlob = format === "csv"
+      ? new Blob([formatRedactionLogCSV(entries)], { type: "text/csv" })
+      : new Blob([formatRedactionLogJSON(entries, documentName)], { type: "application/json" });
+    const url = URL.createObjectURL(logBlob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = documentName?.replace(/\.pdf$/i, `-redaction-log.${format}`) || `redaction-log.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [documentName]);
+
   // Submit instruction to AI agent with streaming
   const handleSubmit = useCallback(async (instructionText: string): Promise<void> => {
     if (!instructionText.trim()) return;
@@ -178,11 +534,13 @@ export default function AppPage(): React.ReactElement {
     setIsProcessing(true);
     setAgentError(null);
     setAgentOperations([]);
+    setRejectedOperationIds(new Set());
     setAgentExplanation("");
 
     // Add user message to conversation history
     const userMessage: ConversationMessage = { role: "user", content: instructionText };
     const updatedHistory = [...conversationHistory, userMessage];
+    isDirtyRef.current = true;
     setConversationHistory(updatedHistory);
 
     try {
@@ -195,22 +553,25 @@ export default function AppPage(): React.ReactElement {
       // Include conversation history in context
       context.conversationHistory = updatedHistory;
 
-      // Build GDSM and include elements for scanner
-      const iframeRef = pdfViewerRef.current?.getIframeRef();
-      const iframeDoc = iframeRef?.current?.contentDocument;
-      if (iframeDoc) {
-        const gdsm = buildGDSM(iframeDoc);
-        context.gdsmElements = Array.from(gdsm.elementsById.values()).map(el => ({
-          id: el.id,
-          text: el.text,
-          page: el.page,
-          x: el.x,
-          y: el.y,
-          width: el.width,
-          height: el.height,
-          state: el.state,
-          semanticType: el.semanticType,
-        }));
+      // Report the last apply's failures once
+      if (lastApplyRef.current) {
+        context.lastApply = lastApplyRef.current;
+        lastApplyRef.current = null;
+      }
+
+      // A saved document is scanned from the server's copy - save it first so
+      // that copy is current. Only an unsaved document sends its elements
+      if (documentId) {
+        if (!(await saveCurrentSession())) {
+          throw new Error("Could not save the document before running the agent");
+        }
+      } else {
+        const gdsm = getGDSM();
+        if (gdsm) {
+          context.gdsmElements = toScannerElements(gdsm);
+          context.locale = gdsm.locale;
+          context.geometry = gdsm.geometry;
+        }
       }
 
       // Call agent API with streaming
@@ -220,6 +581,7 @@ export default function AppPage(): React.ReactElement {
         body: JSON.stringify({
           instruction: instructionText,
           context,
+          documentId: documentId ?? undefined,
           stream: true,
         }),
       });
@@ -291,9 +653,10 @@ export default function AppPage(): React.ReactElement {
                   break;
 
                 case "complete":
-                  // Final completion - use final operations array
-                  if (data.operations && data.operations.length > 0) {
-                    setAgentOperations(data.operations);
+                  // Final completion - the validated operations replace anything streamed
+                  setAgentOperations(data.operations ?? []);
+                  if (data.rejected?.length > 0) {
+                    console.log("[Agent] Rejected operations:", data.rejected);
                   }
                   if (data.explanation) {
                     setAgentExplanation(data.explanation);
@@ -334,7 +697,7 @@ export default function AppPage(): React.ReactElement {
     } finally {
       setIsProcessing(false);
     }
-  }, [selectedElement, conversationHistory]);
+  }, [selectedElement, conversationHistory, getGDSM, documentId, saveCurrentSession]);
 
   // Apply operations when user confirms
   const handleApplyChanges = useCallback(async (): Promise<void> => {
@@ -347,6 +710,15 @@ export default function AppPage(): React.ReactElement {
       return;
     }
 
+    // Only operations the user kept during review become mutations
+    const acceptedOperations = agentOperations.filter(op => !rejectedOperationIds.has(op.id));
+    if (acceptedOperations.length === 0) {
+      setAgentOperations([]);
+      setRejectedOperationIds(new Set());
+      setAgentExplanation("");
+      return;
+    }
+
     const pdfViewer = pdfViewerRef.current;
     console.log("[Apply] pdfViewerRef.current exists:", !!pdfViewer);
 
@@ -364,52 +736,109 @@ export default function AppPage(): React.ReactElement {
       return;
     }
 
-    console.log("[Apply] Executing", agentOperations.length, "operations");
+    console.log("[Apply] Executing", acceptedOperations.length, "of", agentOperations.length, "operations");
+
+    // Build the GDSM before touching the DOM so it captures the pre-apply state
+    getGDSM();
 
     // Execute all operations
-    const results: ExecutionResult[] = await executeOperations(agentOperations, iframeRef);
+    const results: ExecutionResult[] = await executeOperations(acceptedOperations, iframeRef);
     console.log("[Apply] Results:", results);
 
-    // Add successful operations to ledger
-    const newEntries = results
+    // Journal successful operations as one undoable unit (adds them to the ledger)
+    const appliedOperations: JournalOperation[] = [];
+    const mutations: GDSMMutation[] = [];
+    results
       .filter(r => r.success)
-      .map(r => {
-        const op = agentOperations.find(o => o.id === r.operationId);
-        return {
-          id: crypto.randomUUID(),
-          type: mapToolToChangeType(op?.tool || ""),
-          description: formatOperationForLedger(op),
-          timestamp: new Date(),
-        };
+      .forEach(r => {
+        const op = acceptedOperations.find(o => o.id === r.operationId);
+        if (!op) return;
+        appliedOperations.push({ ...op, result: r.result });
+        const mutation = operationToMutation(op, r.result);
+        if (mutation) mutations.push(mutation);
       });
 
-    if (newEntries.length > 0) {
-      setChangeLedger(prev => [...newEntries, ...prev]);
+    if (appliedOperations.length > 0) {
+      recordChange({
+        label: `Apply ${appliedOperations.length} change${appliedOperations.length === 1 ? "" : "s"}`,
+        source: "agent",
+        operations: appliedOperations,
+        mutations,
+      });
     }
 
-    // Check for errors
+    // Check for errors - the agent hears about them with the next instruction
     const errors = results.filter(r => !r.success);
     if (errors.length > 0) {
       console.error("Some operations failed:", errors);
+      lastApplyRef.current = {
+        applied: appliedOperations.length,
+        failed: errors.map(r => {
+          const elementId = acceptedOperations.find(o => o.id === r.operationId)?.input.elementId;
+          return {
+            tool: r.tool,
+            elementId: typeof elementId === "string" ? elementId : undefined,
+            error: r.error || "Unknown error",
+          };
+        }),
+      };
+    } else {
+      lastApplyRef.current = null;
     }
 
     // Clear operations
     setAgentOperations([]);
+    setRejectedOperationIds(new Set());
     setAgentExplanation("");
     handleClearSelection();
 
     // Log updated GDSM after changes
     setTimeout(logGDSM, 100);
-  }, [agentOperations, handleClearSelection, logGDSM]);
+  }, [agentOperations, rejectedOperationIds, handleClearSelection, logGDSM, getGDSM, recordChange]);
 
   // Dismiss operations without applying
   const handleDismissChanges = useCallback((): void => {
     setAgentOperations([]);
+    setRejectedOperationIds(new Set());
     setAgentExplanation("");
     setAgentError(null);
   }, []);
 
-  // Global Ctrl+Q handler for command capsule
+  // Accept or reject one proposed operation (from the capsule list or a viewer overlay)
+  const handleToggleOperation = useCallback((operationId: string): void => {
+    setRejectedOperationIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(operationId)) next.add(operationId);
+      return next;
+    });
+  }, []);
+
+  const handleSetAllOperations = useCallback((accepted: boolean): void => {
+    setRejectedOperationIds(accepted ? new Set() : new Set(agentOperations.map(op => op.id)));
+  }, [agentOperations]);
+
+  // Proposed operations drawn over their elements in the viewer
+  const operationPreviews = useMemo((): OperationPreview[] => {
+    const previews: OperationPreview[] = [];
+    for (const op of agentOperations) {
+      if (typeof op.input.elementId !== "string") continue;
+      previews.push({
+        operationId: op.id,
+        elementId: op.input.elementId,
+        tool: op.tool,
+        label: formatOperationDescription(op),
+        status: rejectedOperationIds.has(op.id) ? "rejected" : "accepted",
+      });
+    }
+    return previews;
+  }, [agentOperations, rejectedOperationIds]);
+
+  // Text of a proposed operation's target, for the review list
+  const getElementText = useCallback((elementId: string): string | undefined => {
+    return gdsmRef.current?.elementsById.get(elementId)?.text;
+  }, []);
+
+  // Global Ctrl+Q handler for command capsule, Ctrl+Z / Ctrl+Shift+Z for undo/redo
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent): void => {
       if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "q") {
@@ -420,15 +849,34 @@ export default function AppPage(): React.ReactElement {
           setIsCommandOpen(prev => !prev);
         }
       }
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        // Leave text undo alone while typing in the command capsule
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === "TEXTAREA" || target.tagName === "INPUT")) return;
+        if (!documentName || isConverting) return;
+        e.preventDefault();
+        if (e.shiftKey) {
+          void handleRedo();
+        } else {
+          void handleUndo();
+        }
+      }
     };
 
-    // Listen for Ctrl+Q forwarded from iframe
+    // Listen for shortcuts forwarded from iframe
     const handleMessage = (e: MessageEvent): void => {
       if (e.data?.type === "canon-ctrl-q") {
         if (documentName && !isConverting) {
           setIsCommandOpen(prev => !prev);
         }
       }
+      if (e.data?.type === "canon-undo" && documentName && !isConverting) {
+        void handleUndo();
+      }
+      if (e.data?.type === "canon-redo" && documentName && !isConverting) {
+        void handleRedo();
+      }
     };
 
     // Use capture phase to catch the event before browser handles it
@@ -440,7 +888,7 @@ export default function AppPage(): React.ReactElement {
       document.removeEventListener("keydown", handleGlobalKeyDown, { capture: true });
       window.removeEventListener("message", handleMessage);
     };
-  }, [documentName, isConverting]);
+  }, [documentName, isConverting, handleUndo, handleRedo]);
 
   // Close export menu when clicking outside
   useEffect(() => {
@@ -450,6 +898,18 @@ export default function AppPage(): React.ReactElement {
     return () => document.removeEventListener("click", handleClickOutside);
   }, [showExportMenu]);
 
+  // Load saved documents on mount
+  useEffect(() => {
+    void refreshDocuments();
+  }, [refreshDocuments]);
+
+  // Autosave after changes to the journal/ledger or conversation
+  useEffect(() => {
+    if (!documentId || !isDirtyRef.current) return;
+    const timer = setTimeout(() => void saveCurrentSession(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [documentId, changeLedger, conversationHistory, saveCurrentSession]);
+
   // Build and log GDSM when PDF is loaded
   useEffect(() => {
     if (!pdfLoaded) return;
@@ -491,10 +951,10 @@ export default function AppPage(): React.ReactElement {
                   {documentName}
                 </p>
                 <p className="text-xs text-text-tertiary mt-1">
-                  {isConverting ? "Converting..." : "Ready"}
+                  {isConverting ? "Converting..." : formatSaveStatus(saveStatus, documentId)}
                 </p>
               </div>
-            ) : (
+            ) : savedDocuments.length === 0 && (
               <div className="p-3 rounded-lg bg-surface-subtle border border-dashed border-border">
                 <p className="text-sm font-body text-text-tertiary text-center">
                   No documents yet
@@ -503,6 +963,43 @@ export default function AppPage(): React.ReactElement {
             )}
           </div>
 
+          {/* Saved sessions */}
+          {savedDocuments.some(doc => doc.id !== documentId) && (
+            <div className="mt-4">
+              <p className="text-xs font-semibold text-text-tertiary uppercase tracking-wide mb-2">
+                Saved
+              </p>
+              <div className="space-y-1">
+                {savedDocuments
+                  .filter(doc => doc.id !== documentId)
+                  .map(doc => (
+                    <div
+                      key={doc.id}
+                      className="group flex items-center gap-2 p-2 rounded-lg hover:bg-surface-subtle cursor-pointer"
+                      onClick={() => void handleOpenDocument(doc.id)}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-body text-text-primary truncate">{doc.name}</p>
+                        <p className="text-[10px] text-text-tertiary">
+                          {doc.pageCount > 0 && `${doc.pageCount} page${doc.pageCount === 1 ? "" : "s"} · `}
+                          {new Date(doc.updatedAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+                        </p>
+                      </div>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); void handleDeleteDocument(doc.id); }}
+                        className="opacity-0 group-hover:opacity-100 text-text-tertiary hover:text-red-500 transition-opacity"
+                        title="Delete saved document"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
           {/* Selected Element Info */}
           {selectedElement && (
             <div className="mt-4 p-3 rounded-lg bg-teal-50 border border-teal-200">
@@ -594,7 +1091,7 @@ export default function AppPage(): React.ReactElement {
               {showExportMenu && (
                 <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-50">
                   <button
-                    onClick={handleExportPDF}
+                    onClick={() => handleExportPDF("standard")}
                     className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
                   >
                     <svg className="w-4 h-4 text-red-500" fill="currentColor" viewBox="0 0 24 24">
@@ -603,6 +1100,16 @@ export default function AppPage(): React.ReactElement {
                     </svg>
                     Export as PDF
                   </button>
+                  <button
+                    onClick={() => handleExportPDF("burn-in")}
+                    className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4 text-gray-900" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M3 5h18v4H3zm0 6h10v4H3zm0 6h14v4H3z"/>
+                    </svg>
+                    Export redacted PDF
+                    <span className="text-xs text-gray-400 ml-auto">Verified</span>
+                  </button>
                   <button
                     onClick={handleExportHTML}
                     className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
@@ -613,6 +1120,27 @@ export default function AppPage(): React.ReactElement {
                     Export as HTML
                     <span className="text-xs text-gray-400 ml-auto">Interactive</span>
                   </button>
+                  <div className="my-1 border-t border-gray-100" />
+                  <button
+                    onClick={() => handleExportRedactionLog("csv")}
+                    className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4 text-gray-600" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M3 4h18v2H3zm0 5h18v2H3zm0 5h18v2H3zm0 5h12v2H3z"/>
+                    </svg>
+                    Redaction log
+                    <span className="text-xs text-gray-400 ml-auto">CSV</span>
+                  </button>
+                  <button
+                    onClick={() => handleExportRedactionLog("json")}
+                    className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4 text-gray-600" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M3 4h18v2H3zm0 5h18v2H3zm0 5h18v2H3zm0 5h12v2H3z"/>
+                    </svg>
+                    Redaction log
+                    <span className="text-xs text-gray-400 ml-auto">JSON</span>
+                  </button>
                 </div>
               )}
             </div>
@@ -638,7 +1166,15 @@ export default function AppPage(): React.ReactElement {
                 <EditorToolbar
                   activeMode={editorMode}
                   onModeChange={setEditorMode}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  canUndo={historyState.canUndo}
+                  canRedo={historyState.canRedo}
                   disabled={!documentName || isConverting}
+                  redactionReason={redactionReason}
+                  onRedactionReasonChange={setRedactionReason}
+                  documentLocale={documentLocale ?? undefined}
+                  onDocumentLocaleChange={handleDocumentLocaleChange}
                 />
               </div>
             )}
@@ -648,7 +1184,12 @@ export default function AppPage(): React.ReactElement {
               ref={pdfViewerRef}
               className="w-full h-full"
               editorMode={editorMode}
+              operationPreviews={operationPreviews}
               onElementSelect={handleElementSelect}
+              onHighlightCreated={handleHighlightCreated}
+              onCommentSaved={handleCommentSaved}
+              onPreviewToggle={handleToggleOperation}
+              onCoordinatesReady={handleCoordinatesReady}
             />
           </div>
 
@@ -690,6 +1231,10 @@ export default function AppPage(): React.ReactElement {
           onSubmit={handleSubmit}
           operations={agentOperations}
           explanation={agentExplanation}
+          rejectedOperationIds={rejectedOperationIds}
+          onToggleOperation={handleToggleOperation}
+          onSetAllOperations={handleSetAllOperations}
+          getElementText={getElementText}
           onApplyChanges={handleApplyChanges}
           onDismissChanges={handleDismissChanges}
           disabled={!documentName || isConverting}
@@ -794,17 +1339,56 @@ export default function AppPage(): React.ReactElement {
 }
 
 // Helper functions
-function mapToolToChangeType(tool: string): "text-replace" | "redact" | "insert" | "delete" | "format" | "highlight" | "comment" {
+function formatSaveStatus(status: SaveStatus, documentId: string | null): string {
+  if (!documentId) return "Ready (not saved)";
+  switch (status) {
+    case "saving":
+      return "Saving...";
+    case "error":
+      return "Save failed";
+    default:
+      return "Saved";
+  }
+}
+
+function toSavedLedgerEntry(entry: LedgerEntry): SavedLedgerEntry {
+  return { ...entry, timestamp: entry.timestamp.getTime() };
+}
+
+function fromSavedLedgerEntry(entry: SavedLedgerEntry): LedgerEntry {
+  return { ...entry, type: entry.type as ChangeType, timestamp: new Date(entry.timestamp) };
+}
+
+function buildLedgerEntries(entry: JournalEntry): LedgerEntry[] {
+  return entry.operations.map(op => ({
+    id: crypto.randomUUID(),
+    type: mapToolToChangeType(op.tool),
+    description: formatOperationForLedger(op),
+    timestamp: new Date(),
+    journalEntryId: entry.id,
+  }));
+}
+
+function mapToolToChangeType(tool: string): ChangeType {
   switch (tool) {
     case "replace_text":
       return "text-replace";
     case "redact_element":
+    case "redact_text_range":
+    case "redact_image_region":
+    case "unmark_redaction":
       return "redact";
     case "delete_element":
       return "delete";
     case "add_highlight":
+    case "draw_highlight":
+    case "highlight_text_range":
+    case "remove_highlight":
       return "highlight";
     case "add_comment":
+    case "place_comment":
+    case "remove_comment":
+    case "edit_comment":
       return "comment";
     default:
       return "format";
@@ -818,13 +1402,32 @@ function formatOperationForLedger(op: AgentOperation | undefined): string {
     case "replace_text":
       return `Replaced "${op.input.oldText}" with "${op.input.newText}"`;
     case "redact_element":
-      return "Redacted element";
+      return op.input.reason ? `Redacted element (${op.input.reason})` : "Redacted element";
+    case "redact_text_range":
+      // Never the redacted text - the ledger is saved with the session
+      return op.input.reason ? `Redacted part of element (${op.input.reason})` : "Redacted part of element";
+    case "redact_image_region":
+      return op.input.reason ? `Redacted image region (${op.input.reason})` : "Redacted image region";
+    case "highlight_text_range":
+      return typeof op.input.text === "string" ? `Highlighted "${op.input.text}"` : "Highlighted text";
     case "add_highlight":
       return "Highlighted element";
     case "add_comment":
       return `Added comment: "${op.input.comment}"`;
+    case "place_comment":
+      return `Added comment: "${op.input.text}"`;
+    case "draw_highlight":
+      return "Highlighted region";
     case "delete_element":
       return "Deleted element";
+    case "remove_highlight":
+      return "Removed highlight";
+    case "remove_comment":
+      return "Deleted comment";
+    case "edit_comment":
+      return `Edited comment: "${op.input.text}"`;
+    case "unmark_redaction":
+      return "Unmarked redaction";
     default:
       return `Applied ${op.tool}`;
   }
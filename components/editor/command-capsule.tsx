@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { cn } from "@/lib/utils";
 import type { SelectedElement } from "./pdf-viewer";
-import type { AgentOperation } from "@/lib/agent";
+import { formatOperationDescription, type AgentOperation } from "@/lib/agent";
 
 interface Message {
   id: string;
@@ -21,6 +21,10 @@ interface CommandCapsuleProps {
   onSubmit: (instruction: string) => void;
   operations?: AgentOperation[];
   explanation?: string;
+  rejectedOperationIds?: ReadonlySet<string>;
+  onToggleOperation?: (operationId: string) => void;
+  onSetAllOperations?: (accepted: boolean) => void;
+  getElementText?: (elementId: string) => string | undefined;
   onApplyChanges?: () => void;
   onDismissChanges?: () => void;
   disabled?: boolean;
@@ -56,6 +60,9 @@ function groupOperations(ops: AgentOperation[]): GroupedOperations[] {
       case "highlight_element":
         label = count === 1 ? "Highlight element" : `Highlight ${count} elements`;
         break;
+      case "redact_image_region":
+        label = count === 1 ? "Redact image" : `Redact ${count} images`;
+        break;
       case "add_comment":
         label = count === 1 ? "Add comment" : `Add ${count} comments`;
         break;
@@ -71,6 +78,30 @@ function groupOperations(ops: AgentOperation[]): GroupedOperations[] {
   return result;
 }
 
+// Operations listed under the element they target, in first-seen order
+interface ElementOperations {
+  elementId: string | null;
+  operations: AgentOperation[];
+}
+
+function groupOperationsByElement(ops: AgentOperation[]): ElementOperations[] {
+  const groups = new Map<string | null, AgentOperation[]>();
+
+  for (const op of ops) {
+    const elementId = typeof op.input.elementId === "string" ? op.input.elementId : null;
+    const group = groups.get(elementId);
+    if (group) {
+      group.push(op);
+    } else {
+      groups.set(elementId, [op]);
+    }
+  }
+
+  return Array.from(groups, ([elementId, operations]) => ({ elementId, operations }));
+}
+
+const NO_REJECTED_OPERATIONS: ReadonlySet<string> = new Set();
+
 export function CommandCapsule({
   isOpen,
   onToggle,
@@ -79,6 +110,10 @@ export function CommandCapsule({
   onSubmit,
   operations = [],
   explanation = "",
+  rejectedOperationIds = NO_REJECTED_OPERATIONS,
+  onToggleOperation,
+  onSetAllOperations,
+  getElementText,
   onApplyChanges,
   onDismissChanges,
   disabled = false,
@@ -243,10 +278,13 @@ export function CommandCapsule({
       const lastIdx = prev.findLastIndex(m => m.operations && m.operations.length > 0);
       if (lastIdx >= 0) {
         const updated = [...prev];
-        const appliedCount = updated[lastIdx].operations?.length || 0;
+        const proposed = updated[lastIdx].operations || [];
+        const appliedCount = proposed.filter(op => !rejectedOperationIds.has(op.id)).length;
+        const rejectedCount = proposed.length - appliedCount;
         updated[lastIdx] = {
           ...updated[lastIdx],
-          content: `Applied ${appliedCount} change${appliedCount === 1 ? "" : "s"}.`,
+          content: `Applied ${appliedCount} change${appliedCount === 1 ? "" : "s"}` +
+            (rejectedCount > 0 ? `, rejected ${rejectedCount}.` : "."),
           operations: undefined, // Remove operations to hide buttons
         };
         return updated;
@@ -262,7 +300,7 @@ export function CommandCapsule({
       console.log("[CommandCapsule] Calling onApplyChanges");
       onApplyChanges();
     }
-  }, [onApplyChanges]);
+  }, [onApplyChanges, rejectedOperationIds]);
 
   const handleDismiss = useCallback((): void => {
     onDismissChanges?.();
@@ -295,6 +333,23 @@ export function CommandCapsule({
     return text.length > 40 ? `${text.substring(0, 40)}...` : text;
   };
 
+  const countAccepted = (ops: AgentOperation[]): number =>
+    ops.filter(op => !rejectedOperationIds.has(op.id)).length;
+
+  const getApplyLabel = (ops: AgentOperation[]): string => {
+    const accepted = countAccepted(ops);
+    if (accepted < ops.length) return `Apply ${accepted} of ${ops.length}`;
+    return `Apply ${ops.length === 1 ? "Change" : `${ops.length} Changes`}`;
+  };
+
+  // Truncate target element text for the operation list
+  const getElementPreview = (elementId: string | null): string => {
+    if (!elementId) return "Document";
+    const text = getElementText?.(elementId);
+    if (!text) return elementId;
+    return text.length > 48 ? `${text.substring(0, 48)}...` : text;
+  };
+
   const hasConversation = messages.length > 0 || isProcessing;
 
   return (
@@ -408,28 +463,67 @@ export function CommandCapsule({
                       {msg.content}
                     </p>
 
-                    {/* Operations within message - grouped by type */}
+                    {/* Operations within message - summary by type, then per element for review */}
                     {msg.operations && msg.operations.length > 0 && (
                       <div className="mt-2 space-y-1.5">
-                        {groupOperations(msg.operations).map((group, idx) => (
-                          <div
-                            key={idx}
-                            className="p-2 rounded-lg bg-surface border border-border text-sm text-text-primary flex items-center gap-2"
-                          >
-                            <span className="text-primary">→</span>
-                            {group.label}
+                        <p className="text-xs text-text-secondary">
+                          {groupOperations(msg.operations).map(group => group.label).join(" · ")}
+                        </p>
+                        <div className="max-h-[160px] overflow-y-auto space-y-1.5 pr-1">
+                          {groupOperationsByElement(msg.operations).map(group => (
+                            <div
+                              key={group.elementId ?? "document"}
+                              className="p-2 rounded-lg bg-surface border border-border"
+                            >
+                              <p className="text-[11px] text-text-tertiary truncate" title={group.elementId ?? undefined}>
+                                {getElementPreview(group.elementId)}
+                              </p>
+                              {group.operations.map(op => {
+                                const accepted = !rejectedOperationIds.has(op.id);
+                                return (
+                                  <label
+                                    key={op.id}
+                                    className="mt-1 flex items-center gap-2 text-sm text-text-primary cursor-pointer"
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={accepted}
+                                      onChange={() => onToggleOperation?.(op.id)}
+                                      className="accent-primary cursor-pointer"
+                                    />
+                                    <span className={cn("truncate", !accepted && "line-through text-text-tertiary")}>
+                                      {formatOperationDescription(op)}
+                                    </span>
+                                  </label>
+                                );
+                              })}
+                            </div>
+                          ))}
+                        </div>
+                        {onSetAllOperations && msg.operations.length > 1 && (
+                          <div className="flex gap-3 text-[11px]">
+                            <button
+                              onClick={() => onSetAllOperations(true)}
+                              className="text-primary hover:underline cursor-pointer"
+                            >
+                              Accept all
+                            </button>
+                            <button
+                              onClick={() => onSetAllOperations(false)}
+                              className="text-text-secondary hover:underline cursor-pointer"
+                            >
+                              Reject all
+                            </button>
                           </div>
-                        ))}
+                        )}
                         <div className="flex gap-2 mt-2">
                           <button
                             type="button"
-                            onClick={() => {
-                              console.log("[Button] Apply clicked directly!");
-                              handleApply();
-                            }}
-                            className="flex-1 py-1.5 px-3 rounded-lg bg-primary hover:bg-primary-hover text-white text-xs font-medium transition-colors cursor-pointer"
+                            onClick={handleApply}
+                            disabled={countAccepted(msg.operations) === 0}
+                            className="flex-1 py-1.5 px-3 rounded-lg bg-primary hover:bg-primary-hover text-white text-xs font-medium transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
                           >
-                            Apply {msg.operations.length === 1 ? "Change" : `${msg.operations.length} Changes`}
+                            {getApplyLabel(msg.operations)}
                           </button>
                           <button
                             onClick={handleDismiss}
@@ -1,4 +1,4 @@
-export { PDFViewer, type PDFViewerRef, type SelectedElement } from "./pdf-viewer";
+export { PDFViewer, type PDFViewerRef, type SelectedElement, type DrawnHighlight, type SavedComment, type OperationPreview } from "./pdf-viewer";
 export { EditorToolbar, type EditorMode } from "./toolbar";
 export { PageThumbnails } from "./page-thumbnails";
 export { CommandCapsule } from "./command-capsule";
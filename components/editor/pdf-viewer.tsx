@@ -2,6 +2,7 @@
 
 import { useState, useCallback, forwardRef, useImperativeHandle, useRef, useEffect } from "react";
 import { cn } from "@/lib/utils";
+import { UNSPECIFIED_REDACTION_REASON, type RedactionLogEntry } from "@/lib/redaction";
 import type { EditorMode } from "./toolbar";
 
 export interface SelectedElement {
@@ -13,10 +14,35 @@ export interface SelectedElement {
   count?: number; // For multi-selection
 }
 
+export interface DrawnHighlight {
+  highlightId: string;
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+export interface SavedComment {
+  commentId: string;
+  elementId: string | null; // Element the comment was dropped on, if any
+  text: string;
+  isNew: boolean;
+}
+
+export interface OperationPreview {
+  operationId: string;
+  elementId: string;
+  tool: string;
+  label: string;
+  status: "accepted" | "rejected";
+}
+
 interface PDFViewerProps {
   className?: string;
   editorMode?: EditorMode;
+  operationPreviews?: OperationPreview[]; // Proposed operations drawn as overlays
   onElementSelect?: (element: SelectedElement | null) => void;
+  onHighlightCreated?: (highlight: DrawnHighlight) => void;
+  onCommentSaved?: (comment: SavedComment) => void;
+  onPreviewToggle?: (operationId: string) => void;
+  onCoordinatesReady?: () => void; // Element boxes were (re)measured in the iframe
 }
 
 export interface PDFViewerRef {
@@ -25,13 +51,17 @@ export interface PDFViewerRef {
   clearSelection: () => void;
   getSelectedElement: () => SelectedElement | null;
   getHtml: () => string | null;
-  redactElement: (elementId: string) => void;
+  // Current document HTML without the injected selection script (for saving sessions)
+  getDocumentHtml: () => string | null;
+  redactElement: (elementId: string, reason?: string) => void;
+  // Every redaction in the document, without the redacted text
+  getRedactionLog: () => RedactionLogEntry[];
   getIframeRef: () => React.RefObject<HTMLIFrameElement | null>;
 }
 
 // Script to inject into the iframe for element selection
 const SELECTION_SCRIPT = `
-<script>
+<script id="canon-selection-script">
 (function() {
   let selectedElement = null;
   let selectedElements = []; // Multi-selection support
@@ -40,6 +70,9 @@ const SELECTION_SCRIPT = `
   const HOVER_COLOR = '#EB4F34';
   const HIGHLIGHT_COLOR = 'rgba(255, 234, 0, 0.4)';
   const COMMENT_COLOR = '#3B82F6'; // Blue for comments
+  // Authors recorded on comments (exported as the PDF annotation author)
+  const USER_AUTHOR = 'User';
+  const AGENT_AUTHOR = 'Canon Agent';
 
   // Drag-to-select state (Canva-style)
   let isDragSelecting = false;
@@ -74,9 +107,10 @@ const SELECTION_SCRIPT = `
 
   // Assign unique IDs to ALL text-bearing elements (no filtering)
   // Deduplication happens when reading text, not when assigning IDs
+  // IDs assigned server-side by /api/convert are kept; new ones continue after them
   function assignCanonIds() {
     var pages = document.querySelectorAll('.pf, .pc');
-    var idCounter = 0;
+    var idCounter = document.querySelectorAll('[data-canon-id]').length;
 
     // Get all elements matching selectors
     var allElements = document.querySelectorAll(SELECTABLE_SELECTORS + ', div.t');
@@ -88,6 +122,8 @@ const SELECTION_SCRIPT = `
       if (!el.textContent || !el.textContent.trim()) return;
       // Skip page containers
       if (el.classList && (el.classList.contains('pf') || el.classList.contains('pc'))) return;
+      // Skip partial redaction/highlight wrappers (part of their element's text)
+      if (el.closest('[data-canon-range-id]')) return;
 
       var page = el.closest('.pf, .pc');
       var pageNum = page ? Array.from(pages).indexOf(page) + 1 : 0;
@@ -97,6 +133,121 @@ const SELECTION_SCRIPT = `
     if (idCounter > 0) {
       console.log('[Canon] Assigned IDs to ' + idCounter + ' elements');
     }
+    assignImageIds();
+  }
+
+  // ===========================================
+  // IMAGES (ES5 copy of lib/gdsm/images - keep in step)
+  // Images get IDs of their own ("pf1-img-0"); redacted regions are overlays
+  // with the region in fractions of the image, burned into the pixels on export
+  // ===========================================
+  const IMAGE_SELECTORS = '.pf img, .pf [style*="background-image"]';
+
+  function assignImageIds() {
+    document.querySelectorAll('.pf').forEach(function(page, pageIndex) {
+      var images = Array.from(page.querySelectorAll(IMAGE_SELECTORS)).filter(function(el) {
+        // Text elements with a background keep their text ID
+        return !el.hasAttribute('data-canon-id') || el.hasAttribute('data-canon-image');
+      });
+      images.forEach(function(el, index) {
+        if (el.hasAttribute('data-canon-id')) return;
+        el.setAttribute('data-canon-id', 'pf' + (pageIndex + 1) + '-img-' + index);
+        el.setAttribute('data-canon-image', el.tagName === 'IMG' ? 'img' : 'background');
+      });
+    });
+  }
+
+  function isImage(el) {
+    return el && el.hasAttribute && el.hasAttribute('data-canon-image');
+  }
+
+  // The image's box in GDSM coordinates (what the agent's region refers to)
+  function imageBox(el) {
+    var measured = ['x', 'y', 'width', 'height'].map(function(name) {
+      return parseFloat(el.getAttribute('data-canon-' + name) || '');
+    });
+    if (measured.every(function(value) { return isFinite(value); })) {
+      return { x: measured[0], y: measured[1], width: measured[2], height: measured[3] };
+    }
+    var page = el.closest('.pf');
+    var pageRect = page ? page.getBoundingClientRect() : { left: 0, top: 0 };
+    var rect = el.getBoundingClientRect();
+    return { x: rect.left - pageRect.left, y: rect.top - pageRect.top, width: rect.width, height: rect.height };
+  }
+
+  // Region of an image named by a page-pixel box, or the whole image without one
+  function resolveImageRegion(el, input) {
+    var values = [input.x, input.y, input.width, input.height];
+    if (values.every(function(value) { return value === undefined || value === null; })) {
+      return { region: { x: 0, y: 0, width: 1, height: 1 } };
+    }
+    if (!values.every(function(value) { return typeof value === 'number' && isFinite(value); })) {
+      return { error: 'Region needs x, y, width and height - or none of them for the whole image' };
+    }
+    if (input.width <= 0 || input.height <= 0) return { error: 'Region width and height must be positive' };
+
+    var box = imageBox(el);
+    var left = Math.max(input.x, box.x);
+    var top = Math.max(input.y, box.y);
+    var right = Math.min(input.x + input.width, box.x + box.width);
+    var bottom = Math.min(input.y + input.height, box.y + box.height);
+    if (box.width <= 0 || box.height <= 0 || right <= left || bottom <= top) {
+      return { error: 'Region is outside the image' };
+    }
+    var round = function(value) { return Math.round(value * 10000) / 10000; };
+    return {
+      region: {
+        x: round((left - box.x) / box.width),
+        y: round((top - box.y) / box.height),
+        width: round((right - left) / box.width),
+        height: round((bottom - top) / box.height)
+      }
+    };
+  }
+
+  function getImageRedactionOverlays(elementId) {
+    return Array.from(document.querySelectorAll('[data-canon-image-for]')).filter(function(overlay) {
+      return overlay.getAttribute('data-canon-image-for') === elementId;
+    });
+  }
+
+  // Black box over a region of an image, positioned in the page's own (unzoomed) pixels
+  function addImageRedaction(el, regionId, region, reason, author, timestamp) {
+    var page = el.closest('.pf');
+    if (!page) return null;
+    if (window.getComputedStyle(page).position === 'static') {
+      page.style.position = 'relative';
+    }
+    var pageRect = page.getBoundingClientRect();
+    var rect = el.getBoundingClientRect();
+    var scale = page.offsetWidth > 0 ? pageRect.width / page.offsetWidth : 1;
+
+    var overlay = document.createElement('div');
+    overlay.className = 'canon-image-redaction';
+    overlay.setAttribute('data-canon-image-for', el.getAttribute('data-canon-id'));
+    overlay.setAttribute('data-canon-image-region-id', regionId);
+    overlay.setAttribute('data-canon-image-region', [region.x, region.y, region.width, region.height].join(','));
+    overlay.setAttribute('data-canon-redacted', 'true');
+    if (reason) overlay.setAttribute('data-canon-redaction-reason', String(reason).trim());
+    overlay.setAttribute('data-canon-redaction-author', author || USER_AUTHOR);
+    overlay.setAttribute('data-canon-redaction-timestamp', String(timestamp || Date.now()));
+    overlay.style.position = 'absolute';
+    overlay.style.left = ((rect.left - pageRect.left + region.x * rect.width) / scale) + 'px';
+    overlay.style.top = ((rect.top - pageRect.top + region.y * rect.height) / scale) + 'px';
+    overlay.style.width = (region.width * rect.width / scale) + 'px';
+    overlay.style.height = (region.height * rect.height / scale) + 'px';
+    overlay.style.backgroundColor = '#000000';
+    overlay.style.pointerEvents = 'none';
+    page.appendChild(overlay);
+    return overlay;
+  }
+
+  function runImageRedaction(el, op, region) {
+    var regionId = (op.result && op.result.regionId) || newMarkId('region');
+    if (!addImageRedaction(el, regionId, region, op.input.reason, op.input.author || AGENT_AUTHOR)) {
+      return { success: false, error: 'Could not find page for image: ' + op.input.elementId };
+    }
+    return { success: true, result: { redacted: true, regionId: regionId, region: region } };
   }
 
   // Run on load and after any DOM mutations (for dynamic content)
@@ -188,6 +339,307 @@ const SELECTION_SCRIPT = `
     return el && el.hasAttribute && el.hasAttribute('data-canon-redacted');
   }
 
+  function findCanonElement(elementId) {
+    return document.querySelector('[data-canon-id="' + elementId + '"]');
+  }
+
+  // Apply true redaction - completely destroy text and use black background
+  // The reason code and who applied it are kept for the box label and redaction log
+  function redactNode(el, reason, author) {
+    // Get dimensions BEFORE any modifications using offsetWidth/Height
+    const originalText = el.textContent || '';
+    const originalWidth = el.offsetWidth;
+    const originalHeight = el.offsetHeight;
+
+    // Store original text and inline style as data attributes (for undo)
+    el.setAttribute('data-canon-redacted', 'true');
+    el.setAttribute('data-canon-original', originalText);
+    el.setAttribute('data-canon-original-style', el.getAttribute('style') || '');
+    if (reason) el.setAttribute('data-canon-redaction-reason', String(reason).trim());
+    el.setAttribute('data-canon-redaction-author', author || USER_AUTHOR);
+    el.setAttribute('data-canon-redaction-timestamp', String(Date.now()));
+
+    // Clear the text content
+    el.textContent = '';
+
+    // Apply black background with fixed dimensions
+    el.style.backgroundColor = '#000000';
+    el.style.display = 'inline-block';
+    el.style.width = originalWidth + 'px';
+    el.style.height = originalHeight + 'px';
+    el.style.overflow = 'hidden';
+    el.style.outline = '';
+    el.style.outlineOffset = '';
+
+    return originalText;
+  }
+
+  // Reverse redactNode - restore text and inline style
+  function unredactNode(el) {
+    const originalText = el.getAttribute('data-canon-original') || '';
+    const originalStyle = el.getAttribute('data-canon-original-style');
+
+    el.textContent = originalText;
+    if (originalStyle) {
+      el.setAttribute('style', originalStyle);
+    } else {
+      el.removeAttribute('style');
+    }
+
+    el.removeAttribute('data-canon-redacted');
+    el.removeAttribute('data-canon-original');
+    el.removeAttribute('data-canon-original-style');
+    el.removeAttribute('data-canon-redaction-reason');
+    el.removeAttribute('data-canon-redaction-author');
+    el.removeAttribute('data-canon-redaction-timestamp');
+
+    return originalText;
+  }
+
+  // Highlight an element or range wrapper
+  // setProperty with !important to override pdf2htmlEX styles
+  function highlightNode(el) {
+    el.style.setProperty('background-color', 'rgba(255, 234, 0, 0.5)', 'important');
+    el.style.setProperty('border-radius', '2px', 'important');
+    el.setAttribute('data-canon-highlighted', 'true');
+    el.setAttribute('data-canon-highlight-timestamp', String(Date.now()));
+  }
+
+  function unhighlightNode(el) {
+    el.style.removeProperty('background-color');
+    el.style.removeProperty('border-radius');
+    el.removeAttribute('data-canon-highlighted');
+    el.removeAttribute('data-canon-highlight-timestamp');
+  }
+
+  // What highlightNode overwrites, so undo can put back an earlier highlight
+  // or the element's own background instead of clearing it
+  const HIGHLIGHT_STYLES = ['background-color', 'border-radius'];
+  const HIGHLIGHT_ATTRIBUTES = ['data-canon-highlighted', 'data-canon-highlight-timestamp'];
+
+  function saveHighlightState(el) {
+    return {
+      styles: HIGHLIGHT_STYLES.map(function(name) {
+        return { name: name, value: el.style.getPropertyValue(name), priority: el.style.getPropertyPriority(name) };
+      }),
+      attributes: HIGHLIGHT_ATTRIBUTES.map(function(name) {
+        return { name: name, value: el.getAttribute(name) };
+      }),
+    };
+  }
+
+  function restoreHighlightState(el, saved) {
+    saved.styles.forEach(function(style) {
+      if (style.value) el.style.setProperty(style.name, style.value, style.priority);
+      else el.style.removeProperty(style.name);
+    });
+    saved.attributes.forEach(function(attribute) {
+      if (attribute.value === null) el.removeAttribute(attribute.name);
+      else el.setAttribute(attribute.name, attribute.value);
+    });
+  }
+
+  // ===========================================
+  // CHARACTER RANGES (partial redaction / highlight)
+  // Same walk as lib/gdsm/ranges.ts: offsets index the element's trimmed
+  // text, and a redacted range counts one mask character per original
+  // character so later offsets don't shift
+  // ===========================================
+  const MASK_CHAR = '█';
+
+  // New range / region ID, as createMarkId in lib/gdsm/ranges.ts
+  // A redo passes the ID from the first run in op.result, so it is reused
+  function newMarkId(kind) {
+    return kind + '-' + Date.now() + '-' + Math.random().toString(36).substring(2, 9);
+  }
+
+  function collectTextSegments(root, segments, offset) {
+    for (var i = 0; i < root.childNodes.length; i++) {
+      var node = root.childNodes[i];
+      if (node.nodeType === 3) {
+        segments.push({ node: node, start: offset.value, length: node.nodeValue.length, masked: false });
+        offset.value += node.nodeValue.length;
+      } else if (node.nodeType === 1 && node.getAttribute('data-canon-range') === 'redact') {
+        var length = (node.getAttribute('data-canon-original') || '').length;
+        segments.push({ node: node, start: offset.value, length: length, masked: true });
+        offset.value += length;
+      } else if (node.nodeType === 1) {
+        collectTextSegments(node, segments, offset);
+      }
+    }
+  }
+
+  function getTextSegments(el) {
+    var segments = [];
+    collectTextSegments(el, segments, { value: 0 });
+    var raw = segments.map(function(segment) {
+      return segment.masked ? MASK_CHAR.repeat(segment.length) : segment.node.nodeValue;
+    }).join('');
+    return { segments: segments, text: raw.trim(), lead: raw.length - raw.trimStart().length };
+  }
+
+  // Offsets from op input: start/end, or the nth occurrence of a substring
+  function resolveRange(text, input) {
+    if (typeof input.text === 'string' && input.text.length > 0) {
+      var occurrence = Math.max(1, Math.floor(input.occurrence || 1));
+      var index = -1;
+      for (var n = 0; n < occurrence; n++) {
+        index = text.indexOf(input.text, index + 1);
+        if (index === -1) {
+          return { error: 'Text "' + input.text + '" not found' + (occurrence > 1 ? ' (occurrence ' + occurrence + ')' : '') };
+        }
+      }
+      return { start: index, end: index + input.text.length };
+    }
+    if (typeof input.start === 'number' && typeof input.end === 'number') {
+      var start = Math.floor(input.start);
+      var end = Math.floor(input.end);
+      if (start < 0 || end > text.length || start >= end) {
+        return { error: 'Invalid range ' + start + '-' + end + ' for text of length ' + text.length };
+      }
+      return { start: start, end: end };
+    }
+    return { error: 'Range needs text, or start and end offsets' };
+  }
+
+  // Wrap a range in spans, splitting text nodes at its boundaries
+  // One wrapper per text node touched; already redacted characters are skipped
+  function wrapRange(el, range, rangeId, kind) {
+    var info = getTextSegments(el);
+    var start = range.start + info.lead;
+    var end = range.end + info.lead;
+    var wrappers = [];
+
+    info.segments.forEach(function(segment) {
+      if (segment.masked) return;
+      var from = Math.max(start, segment.start) - segment.start;
+      var to = Math.min(end, segment.start + segment.length) - segment.start;
+      if (from >= to) return;
+
+      var textNode = segment.node;
+      if (from > 0) textNode = textNode.splitText(from);
+      if (to - from < textNode.length) textNode.splitText(to - from);
+
+      var wrapper = document.createElement('span');
+      wrapper.setAttribute('data-canon-range-id', rangeId);
+      wrapper.setAttribute('data-canon-range', kind);
+      textNode.parentNode.insertBefore(wrapper, textNode);
+      wrapper.appendChild(textNode);
+      wrappers.push(wrapper);
+    });
+
+    return wrappers;
+  }
+
+  // Reverse wrapRange - restore redacted text, unwrap, and merge text nodes
+  function unwrapRange(rangeId) {
+    var wrappers = document.querySelectorAll('[data-canon-range-id="' + rangeId + '"]');
+    wrappers.forEach(function(wrapper) {
+      var parent = wrapper.parentNode;
+      if (wrapper.getAttribute('data-canon-range') === 'redact') {
+        parent.insertBefore(document.createTextNode(wrapper.getAttribute('data-canon-original') || ''), wrapper);
+      } else {
+        while (wrapper.firstChild) parent.insertBefore(wrapper.firstChild, wrapper);
+      }
+      parent.removeChild(wrapper);
+      parent.normalize();
+    });
+    return wrappers.length;
+  }
+
+  // Ranges of one kind inside an element, with offsets (for re-wrapping on undo)
+  function getRangeMarks(el, kind) {
+    var info = getTextSegments(el);
+    var marks = [];
+    var byId = {};
+    info.segments.forEach(function(segment) {
+      var wrapper = segment.masked ? segment.node : segment.node.parentNode;
+      while (wrapper && wrapper !== el && !(wrapper.hasAttribute && wrapper.hasAttribute('data-canon-range-id'))) {
+        wrapper = wrapper.parentNode;
+      }
+      if (!wrapper || wrapper === el || wrapper.getAttribute('data-canon-range') !== kind) return;
+
+      var rangeId = wrapper.getAttribute('data-canon-range-id');
+      var start = Math.max(0, segment.start - info.lead);
+      var end = Math.min(info.text.length, segment.start + segment.length - info.lead);
+      if (byId[rangeId]) {
+        byId[rangeId].start = Math.min(byId[rangeId].start, start);
+        byId[rangeId].end = Math.max(byId[rangeId].end, end);
+        return;
+      }
+      byId[rangeId] = {
+        rangeId: rangeId,
+        start: start,
+        end: end,
+        reason: wrapper.getAttribute('data-canon-redaction-reason'),
+        author: wrapper.getAttribute('data-canon-redaction-author')
+      };
+      marks.push(byId[rangeId]);
+    });
+    return marks;
+  }
+
+  // ===========================================
+  // COMMENTS ON ELEMENTS
+  // Markers name the element they annotate (data-canon-comment-element);
+  // imported PDF comments are also stamped on the element itself
+  // ===========================================
+  const COMMENT_ATTRIBUTES = ['data-canon-comment-id', 'data-canon-comment-text', 'data-canon-comment-timestamp', 'data-canon-comment-author'];
+
+  function getCommentMarkers(el) {
+    var elementId = el.getAttribute('data-canon-id');
+    var markers = Array.prototype.slice.call(
+      document.querySelectorAll('[data-canon-comment][data-canon-comment-element="' + elementId + '"]')
+    );
+    // Imported before markers were linked - the marker ID is derived from the element's comment
+    var commentId = el.getAttribute('data-canon-comment-id');
+    var imported = commentId && document.querySelector('[data-canon-comment][data-canon-comment-id="' + commentId + '-note"]');
+    if (imported && markers.indexOf(imported) === -1) markers.push(imported);
+    return markers;
+  }
+
+  function readCommentAttributes(el) {
+    if (!el.hasAttribute('data-canon-comment-id')) return null;
+    var attributes = {};
+    COMMENT_ATTRIBUTES.forEach(function(name) {
+      if (el.hasAttribute(name)) attributes[name] = el.getAttribute(name);
+    });
+    return attributes;
+  }
+
+  function writeCommentAttributes(el, attributes) {
+    COMMENT_ATTRIBUTES.forEach(function(name) {
+      if (attributes && attributes[name] !== undefined) {
+        el.setAttribute(name, attributes[name]);
+      } else {
+        el.removeAttribute(name);
+      }
+    });
+  }
+
+  // ===========================================
+  // UNDO / REDO SUPPORT
+  // Nodes removed by an operation (or by undoing one) are kept here,
+  // keyed by kind + ID, so they can be re-attached in place later
+  // ===========================================
+  var detachedNodes = {};
+
+  function detachNode(key, node) {
+    if (!node || !node.parentNode) return false;
+    detachedNodes[key] = { node: node, parent: node.parentNode, next: node.nextSibling };
+    node.remove();
+    return true;
+  }
+
+  function reattachNode(key) {
+    var stored = detachedNodes[key];
+    if (!stored) return false;
+    var next = stored.next && stored.next.parentNode === stored.parent ? stored.next : null;
+    stored.parent.insertBefore(stored.node, next);
+    delete detachedNodes[key];
+    return true;
+  }
+
   function getSelectableParent(el) {
     // First, check if the clicked element or any ancestor has data-canon-id
     // These are our leaf elements and should be preferred
@@ -524,6 +976,9 @@ const SELECTION_SCRIPT = `
     // Only handle clicks in select or redact mode
     if (currentMode !== 'select' && currentMode !== 'redact') return;
 
+    // Preview overlays handle their own clicks (accept/reject)
+    if (e.target.closest('.canon-preview-overlay')) return;
+
     // Skip this click if it was part of a drag
     if (skipNextClick) {
       skipNextClick = false;
@@ -822,28 +1277,7 @@ const SELECTION_SCRIPT = `
         selectedElement = null;
       }
 
-      // Apply true redaction - completely destroy text and use black background
-      const originalText = el.textContent || '';
-
-      // Get dimensions BEFORE any modifications using offsetWidth/Height
-      const originalWidth = el.offsetWidth;
-      const originalHeight = el.offsetHeight;
-
-      // Store original text as data attribute (for undo functionality later)
-      el.setAttribute('data-canon-redacted', 'true');
-      el.setAttribute('data-canon-original', originalText);
-
-      // Clear the text content
-      el.textContent = '';
-
-      // Apply black background with fixed dimensions
-      el.style.backgroundColor = '#000000';
-      el.style.display = 'inline-block';
-      el.style.width = originalWidth + 'px';
-      el.style.height = originalHeight + 'px';
-      el.style.overflow = 'hidden';
-      el.style.outline = '';
-      el.style.outlineOffset = '';
+      redactNode(el, e.data.reason, USER_AUTHOR);
 
       // Notify parent that redaction is complete
       window.parent.postMessage({
@@ -878,142 +1312,520 @@ const SELECTION_SCRIPT = `
       }, '*');
     }
 
-    // Handle agent operations (tool calls from AI)
-    if (e.data && e.data.type === 'canon-execute-operation') {
-      console.log('[Canon Iframe] Received operation:', e.data.operation);
+    // Show proposed operations as overlays until they are applied or dismissed
+    if (e.data && e.data.type === 'canon-preview-operations') {
+      renderOperationPreviews(e.data.previews || []);
+    }
+
+    // Handle agent operations (tool calls from AI), and undo/redo of recorded operations
+    if (e.data && (
+      e.data.type === 'canon-execute-operation' ||
+      e.data.type === 'canon-revert-operation' ||
+      e.data.type === 'canon-reapply-operation'
+    )) {
+      console.log('[Canon Iframe] Received operation:', e.data.type, e.data.operation);
       const op = e.data.operation;
       let result = { success: false, error: 'Unknown operation' };
 
       try {
-        switch (op.tool) {
-          case 'set_element_text': {
-            const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
-            if (el) {
-              const newText = op.input.text;
-              const originalText = el.textContent || '';
-
-              console.log('[set_element_text] Element:', op.input.elementId);
-              console.log('[set_element_text] Original:', originalText);
-              console.log('[set_element_text] New:', newText);
-              console.log('[set_element_text] Element HTML:', el.outerHTML.substring(0, 200));
-              console.log('[set_element_text] Children count:', el.children.length);
-
-              // For leaf elements (which should have no child elements with text),
-              // we can safely use textContent as it preserves the element's own classes
-              el.textContent = newText;
-
-              result = { success: true, result: { originalText: originalText, newText: newText } };
-            } else {
-              result = { success: false, error: 'Element not found: ' + op.input.elementId };
-            }
+        if (e.data.type === 'canon-revert-operation') {
+          result = revertOperation(op);
+        } else if (e.data.type === 'canon-reapply-operation') {
+          result = reapplyOperation(op);
+        } else {
+          result = runOperation(op);
+        }
+      } catch (err) {
+        result = { success: false, error: err.message || 'Operation failed' };
+      }
+
+      // Send result back to parent
+      window.parent.postMessage({
+        type: 'canon-operation-result',
+        operationId: op.id,
+        success: result.success,
+        result: result.result,
+        error: result.error
+      }, '*');
+    }
+  });
+
+  // Overlay colors per proposed operation (translucent, so the text stays readable)
+  const PREVIEW_COLORS = {
+    redact_element: 'rgba(0, 0, 0, 0.35)',
+    redact_text_range: 'rgba(0, 0, 0, 0.35)',
+    redact_image_region: 'rgba(0, 0, 0, 0.35)',
+    highlight_element: 'rgba(255, 234, 0, 0.35)',
+    highlight_text_range: 'rgba(255, 234, 0, 0.35)',
+    set_element_text: 'rgba(59, 130, 246, 0.2)',
+    add_comment: 'rgba(59, 130, 246, 0.2)',
+    edit_comment: 'rgba(59, 130, 246, 0.2)',
+    delete_element: 'rgba(239, 68, 68, 0.3)'
+  };
+  const PREVIEW_DEFAULT_COLOR = 'rgba(107, 114, 128, 0.25)';
+
+  // Draw one overlay per proposed operation over its element's box
+  // Range operations cover the whole element - the list in the capsule names the text
+  // Rejected operations keep a dashed outline so they can be accepted again
+  function renderOperationPreviews(previews) {
+    document.querySelectorAll('.canon-preview-overlay').forEach(function(overlay) {
+      overlay.remove();
+    });
+
+    previews.forEach(function(preview) {
+      const el = findCanonElement(preview.elementId);
+      if (!el) return;
+      const rect = el.getBoundingClientRect();
+      const page = el.closest('.pf') || findPageAtPoint(rect.left + rect.width / 2, rect.top + rect.height / 2);
+      if (!page) return;
+      if (window.getComputedStyle(page).position === 'static') {
+        page.style.position = 'relative';
+      }
+      const pageRect = page.getBoundingClientRect();
+      const scale = page.offsetWidth > 0 ? pageRect.width / page.offsetWidth : 1;
+      const rejected = preview.status === 'rejected';
+
+      const overlay = document.createElement('div');
+      overlay.className = 'canon-preview-overlay';
+      overlay.setAttribute('data-canon-preview-operation', preview.operationId);
+      overlay.title = (preview.label || preview.tool) + (rejected ? ' (rejected - click to accept)' : ' (click to reject)');
+      overlay.style.position = 'absolute';
+      overlay.style.left = ((rect.left - pageRect.left) / scale - 2) + 'px';
+      overlay.style.top = ((rect.top - pageRect.top) / scale - 2) + 'px';
+      overlay.style.width = (rect.width / scale + 4) + 'px';
+      overlay.style.height = (rect.height / scale + 4) + 'px';
+      overlay.style.borderRadius = '2px';
+      overlay.style.boxSizing = 'border-box';
+      overlay.style.zIndex = '999';
+      overlay.style.cursor = 'pointer';
+      overlay.style.backgroundColor = rejected ? 'transparent' : (PREVIEW_COLORS[preview.tool] || PREVIEW_DEFAULT_COLOR);
+      overlay.style.border = rejected ? '1px dashed ' + SELECTION_COLOR : '1px solid rgba(0, 0, 0, 0.2)';
+
+      overlay.addEventListener('click', function(evt) {
+        evt.preventDefault();
+        evt.stopPropagation();
+        window.parent.postMessage({
+          type: 'canon-preview-toggle',
+          operationId: preview.operationId
+        }, '*');
+      });
+
+      page.appendChild(overlay);
+    });
+  }
+
+  // Execute an agent operation against the DOM
+  function runOperation(op) {
+    let result = { success: false, error: 'Unknown operation' };
+
+    switch (op.tool) {
+      case 'set_element_text': {
+        const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
+        if (el) {
+          const newText = op.input.text;
+          const originalText = el.textContent || '';
+
+          console.log('[set_element_text] Element:', op.input.elementId);
+          console.log('[set_element_text] Original:', originalText);
+          console.log('[set_element_text] New:', newText);
+          console.log('[set_element_text] Element HTML:', el.outerHTML.substring(0, 200));
+          console.log('[set_element_text] Children count:', el.children.length);
+
+          // For leaf elements (which should have no child elements with text),
+          // we can safely use textContent as it preserves the element's own classes
+          el.textContent = newText;
+
+          result = { success: true, result: { originalText: originalText, newText: newText } };
+        } else {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+        }
+        break;
+      }
+
+      case 'redact_element': {
+        const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
+        if (el) {
+          // Clear selection if this is selected
+          if (selectedElement === el) {
+            clearSelection(selectedElement);
+            selectedElement = null;
+          }
+          // Images are covered by a region over all of them
+          if (isImage(el)) {
+            result = runImageRedaction(el, op, { x: 0, y: 0, width: 1, height: 1 });
             break;
           }
+          // Apply redaction
+          const originalText = redactNode(el, op.input.reason, op.input.author || AGENT_AUTHOR);
+          result = { success: true, result: { redacted: true, originalText: originalText } };
+        } else {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+        }
+        break;
+      }
+
+      case 'highlight_element': {
+        const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
+        if (el) {
+          const previous = saveHighlightState(el);
+          highlightNode(el);
+          result = { success: true, result: { highlighted: true, elementId: op.input.elementId, previous: previous } };
+        } else {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+        }
+        break;
+      }
 
-          case 'redact_element': {
-            const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
-            if (el) {
-              // Clear selection if this is selected
-              if (selectedElement === el) {
-                clearSelection(selectedElement);
-                selectedElement = null;
-              }
-              // Apply redaction
-              const originalText = el.textContent || '';
-              const originalWidth = el.offsetWidth;
-              const originalHeight = el.offsetHeight;
-              el.setAttribute('data-canon-redacted', 'true');
-              el.setAttribute('data-canon-original', originalText);
-              el.textContent = '';
-              el.style.backgroundColor = '#000000';
-              el.style.display = 'inline-block';
-              el.style.width = originalWidth + 'px';
-              el.style.height = originalHeight + 'px';
-              el.style.overflow = 'hidden';
-              el.style.outline = '';
-              el.style.outlineOffset = '';
-              result = { success: true, result: { redacted: true, originalText: originalText } };
-            } else {
-              result = { success: false, error: 'Element not found: ' + op.input.elementId };
+      case 'add_comment': {
+        const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
+        if (el) {
+          const rect = el.getBoundingClientRect();
+          const page = findPageAtPoint(rect.left + rect.width / 2, rect.top + rect.height / 2);
+          if (page) {
+            const computedPosition = window.getComputedStyle(page).position;
+            if (computedPosition === 'static') {
+              page.style.position = 'relative';
             }
-            break;
+            const pageRect = page.getBoundingClientRect();
+            const x = rect.left - pageRect.left + rect.width;
+            const y = rect.top - pageRect.top;
+            const commentId = 'comment-ai-' + Date.now();
+            const marker = createCommentMarker(x, y, page, commentId, AGENT_AUTHOR);
+            marker.setAttribute('data-canon-comment-text', op.input.text);
+            marker.setAttribute('data-canon-comment-element', op.input.elementId);
+            page.appendChild(marker);
+            addTooltipToMarker(marker, page);
+            result = { success: true, result: { commentId: commentId, author: AGENT_AUTHOR } };
+          } else {
+            result = { success: false, error: 'Could not find page for element' };
           }
+        } else {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+        }
+        break;
+      }
 
-          case 'highlight_element': {
-            const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
-            if (el) {
-              // Use setProperty with !important to override pdf2htmlEX styles
-              el.style.setProperty('background-color', 'rgba(255, 234, 0, 0.5)', 'important');
-              el.style.setProperty('border-radius', '2px', 'important');
-              el.setAttribute('data-canon-highlighted', 'true');
-              result = { success: true, result: { highlighted: true, elementId: op.input.elementId } };
-            } else {
-              result = { success: false, error: 'Element not found: ' + op.input.elementId };
-            }
-            break;
+      case 'redact_text_range':
+      case 'highlight_text_range': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+          break;
+        }
+        const range = resolveRange(getTextSegments(el).text, op.input);
+        if (range.error) {
+          result = { success: false, error: range.error };
+          break;
+        }
+        if (selectedElement === el) {
+          clearSelection(selectedElement);
+          selectedElement = null;
+        }
+
+        // Redo reuses the first run's ID so it recreates the same wrappers
+        const rangeId = (op.result && op.result.rangeId) || newMarkId('range');
+        const isRedaction = op.tool === 'redact_text_range';
+        const wrappers = wrapRange(el, range, rangeId, isRedaction ? 'redact' : 'highlight');
+        if (wrappers.length === 0) {
+          result = { success: false, error: 'Range is already redacted' };
+          break;
+        }
+        wrappers.forEach(function(wrapper) {
+          if (isRedaction) {
+            redactNode(wrapper, op.input.reason, op.input.author || AGENT_AUTHOR);
+            wrapper.style.verticalAlign = 'text-bottom';
+          } else {
+            highlightNode(wrapper);
           }
+        });
+        result = { success: true, result: { rangeId: rangeId, start: range.start, end: range.end } };
+        break;
+      }
 
-          case 'add_comment': {
-            const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
-            if (el) {
-              const rect = el.getBoundingClientRect();
-              const page = findPageAtPoint(rect.left + rect.width / 2, rect.top + rect.height / 2);
-              if (page) {
-                const computedPosition = window.getComputedStyle(page).position;
-                if (computedPosition === 'static') {
-                  page.style.position = 'relative';
-                }
-                const pageRect = page.getBoundingClientRect();
-                const x = rect.left - pageRect.left + rect.width;
-                const y = rect.top - pageRect.top;
-                const commentId = 'comment-ai-' + Date.now();
-                const marker = createCommentMarker(x, y, page, commentId);
-                marker.setAttribute('data-canon-comment-text', op.input.text);
-                page.appendChild(marker);
-                addTooltipToMarker(marker, page);
-                result = { success: true, result: { commentId: commentId } };
-              } else {
-                result = { success: false, error: 'Could not find page for element' };
-              }
-            } else {
-              result = { success: false, error: 'Element not found: ' + op.input.elementId };
-            }
+      case 'remove_highlight': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+          break;
+        }
+        const highlighted = el.hasAttribute('data-canon-highlighted');
+        const ranges = getRangeMarks(el, 'highlight');
+        if (!highlighted && ranges.length === 0) {
+          result = { success: false, error: 'No highlight on element: ' + op.input.elementId };
+          break;
+        }
+        if (highlighted) unhighlightNode(el);
+        ranges.forEach(function(range) { unwrapRange(range.rangeId); });
+        result = { success: true, result: { highlighted: highlighted, ranges: ranges } };
+        break;
+      }
+
+      case 'redact_image_region': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+          break;
+        }
+        if (!isImage(el)) {
+          result = { success: false, error: 'Element is not an image: ' + op.input.elementId };
+          break;
+        }
+        const resolved = resolveImageRegion(el, op.input);
+        result = resolved.region ? runImageRedaction(el, op, resolved.region) : { success: false, error: resolved.error };
+        break;
+      }
+
+      case 'unmark_redaction': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+          break;
+        }
+        if (isImage(el)) {
+          const overlays = getImageRedactionOverlays(op.input.elementId);
+          if (overlays.length === 0) {
+            result = { success: false, error: 'No redaction on element: ' + op.input.elementId };
             break;
           }
+          // Kept in the result so undo can put them back
+          const regions = overlays.map(function(overlay) {
+            overlay.remove();
+            return {
+              regionId: overlay.getAttribute('data-canon-image-region-id'),
+              region: overlay.getAttribute('data-canon-image-region'),
+              reason: overlay.getAttribute('data-canon-redaction-reason'),
+              author: overlay.getAttribute('data-canon-redaction-author'),
+              timestamp: overlay.getAttribute('data-canon-redaction-timestamp')
+            };
+          });
+          result = { success: true, result: { imageRegions: regions, restoredText: '' } };
+          break;
+        }
+        const redaction = isRedacted(el)
+          ? { reason: el.getAttribute('data-canon-redaction-reason'), author: el.getAttribute('data-canon-redaction-author') }
+          : null;
+        const ranges = getRangeMarks(el, 'redact');
+        if (!redaction && ranges.length === 0) {
+          result = { success: false, error: 'No redaction on element: ' + op.input.elementId };
+          break;
+        }
+        if (redaction) unredactNode(el);
+        ranges.forEach(function(range) { unwrapRange(range.rangeId); });
+        result = { success: true, result: { redaction: redaction, ranges: ranges, restoredText: getTextSegments(el).text } };
+        break;
+      }
 
-          case 'delete_element': {
-            const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
-            if (el) {
-              // Clear selection if this is selected
-              if (selectedElement === el) {
-                clearSelection(selectedElement);
-                selectedElement = null;
-              }
-              const originalText = el.textContent || '';
-              el.remove();
-              result = { success: true, result: { deleted: true, originalText: originalText } };
-            } else {
-              result = { success: false, error: 'Element not found: ' + op.input.elementId };
-            }
-            break;
+      case 'remove_comment': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+          break;
+        }
+        const markers = getCommentMarkers(el);
+        const attributes = readCommentAttributes(el);
+        if (markers.length === 0 && !attributes) {
+          result = { success: false, error: 'No comment on element: ' + op.input.elementId };
+          break;
+        }
+        // Detach rather than destroy so the removal can be undone
+        const commentIds = markers.map(function(marker) {
+          const commentId = marker.getAttribute('data-canon-comment-id');
+          detachNode('comment:' + commentId, marker);
+          return commentId;
+        });
+        writeCommentAttributes(el, null);
+        result = { success: true, result: { commentIds: commentIds, attributes: attributes } };
+        break;
+      }
+
+      case 'edit_comment': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+          break;
+        }
+        if (typeof op.input.text !== 'string' || !op.input.text.trim()) {
+          result = { success: false, error: 'Missing comment text' };
+          break;
+        }
+        const markers = getCommentMarkers(el);
+        const attributes = readCommentAttributes(el);
+        if (markers.length === 0 && !attributes) {
+          result = { success: false, error: 'No comment on element: ' + op.input.elementId };
+          break;
+        }
+        const previous = markers.map(function(marker) {
+          const previousText = marker.getAttribute('data-canon-comment-text');
+          marker.setAttribute('data-canon-comment-text', op.input.text);
+          return { commentId: marker.getAttribute('data-canon-comment-id'), text: previousText };
+        });
+        if (attributes) el.setAttribute('data-canon-comment-text', op.input.text);
+        result = { success: true, result: { comments: previous, attributes: attributes } };
+        break;
+      }
+
+      case 'delete_element': {
+        const el = document.querySelector('[data-canon-id="' + op.input.elementId + '"]');
+        if (el) {
+          // Clear selection if this is selected
+          if (selectedElement === el) {
+            clearSelection(selectedElement);
+            selectedElement = null;
           }
+          const originalText = el.textContent || '';
+          // Detach rather than destroy so the deletion can be undone
+          detachNode('element:' + op.input.elementId, el);
+          result = { success: true, result: { deleted: true, originalText: originalText } };
+        } else {
+          result = { success: false, error: 'Element not found: ' + op.input.elementId };
+        }
+        break;
+      }
+
+      default:
+        result = { success: false, error: 'Unknown tool: ' + op.tool };
+    }
+
+    return result;
+  }
+
+  // Reverse an executed operation (undo)
+  // op.result is the result returned when the operation was executed
+  function revertOperation(op) {
+    const opResult = op.result || {};
+
+    switch (op.tool) {
+      case 'set_element_text': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) return { success: false, error: 'Element not found: ' + op.input.elementId };
+        if (typeof opResult.originalText !== 'string') return { success: false, error: 'No saved text for: ' + op.input.elementId };
+        el.textContent = opResult.originalText;
+        return { success: true, result: { restoredText: el.textContent } };
+      }
 
-          default:
-            result = { success: false, error: 'Unknown tool: ' + op.tool };
+      case 'redact_element':
+      case 'redact_image_region': {
+        if (opResult.regionId) {
+          const overlay = document.querySelector('[data-canon-image-region-id="' + opResult.regionId + '"]');
+          if (!overlay) return { success: false, error: 'Image region not found: ' + opResult.regionId };
+          overlay.remove();
+          return { success: true, result: { restoredText: '' } };
         }
-      } catch (err) {
-        result = { success: false, error: err.message || 'Operation failed' };
+        const el = findCanonElement(op.input.elementId);
+        if (!el || !isRedacted(el)) return { success: false, error: 'Redacted element not found: ' + op.input.elementId };
+        return { success: true, result: { restoredText: unredactNode(el) } };
       }
 
-      // Send result back to parent
-      window.parent.postMessage({
-        type: 'canon-operation-result',
-        operationId: op.id,
-        success: result.success,
-        result: result.result,
-        error: result.error
-      }, '*');
+      case 'highlight_element': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) return { success: false, error: 'Element not found: ' + op.input.elementId };
+        if (!opResult.previous) return { success: false, error: 'No saved highlight state for: ' + op.input.elementId };
+        restoreHighlightState(el, opResult.previous);
+        return { success: true, result: { highlighted: el.hasAttribute('data-canon-highlighted') } };
+      }
+
+      case 'redact_text_range':
+      case 'highlight_text_range': {
+        const rangeId = opResult.rangeId;
+        if (!rangeId || !unwrapRange(rangeId)) return { success: false, error: 'Range not found: ' + (rangeId || op.input.elementId) };
+        return { success: true, result: { rangeId: rangeId } };
+      }
+
+      case 'add_comment':
+      case 'place_comment': {
+        const commentId = opResult.commentId || op.input.commentId;
+        const marker = document.querySelector('[data-canon-comment-id="' + commentId + '"]');
+        if (!detachNode('comment:' + commentId, marker)) return { success: false, error: 'Comment not found: ' + commentId };
+        return { success: true, result: { commentId: commentId } };
+      }
+
+      case 'draw_highlight': {
+        const highlightId = op.input.highlightId;
+        const box = document.querySelector('[data-canon-highlight-id="' + highlightId + '"]');
+        if (!detachNode('highlight:' + highlightId, box)) return { success: false, error: 'Highlight not found: ' + highlightId };
+        return { success: true, result: { highlightId: highlightId } };
+      }
+
+      case 'remove_highlight': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) return { success: false, error: 'Element not found: ' + op.input.elementId };
+        if (opResult.highlighted) highlightNode(el);
+        (opResult.ranges || []).forEach(function(range) {
+          wrapRange(el, range, range.rangeId, 'highlight').forEach(highlightNode);
+        });
+        return { success: true, result: { restored: true } };
+      }
+
+      case 'unmark_redaction': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) return { success: false, error: 'Element not found: ' + op.input.elementId };
+        (opResult.imageRegions || []).forEach(function(saved) {
+          const parts = String(saved.region || '').split(',').map(parseFloat);
+          const region = { x: parts[0], y: parts[1], width: parts[2], height: parts[3] };
+          addImageRedaction(el, saved.regionId, region, saved.reason, saved.author, saved.timestamp);
+        });
+        (opResult.ranges || []).forEach(function(range) {
+          wrapRange(el, range, range.rangeId, 'redact').forEach(function(wrapper) {
+            redactNode(wrapper, range.reason, range.author);
+            wrapper.style.verticalAlign = 'text-bottom';
+          });
+        });
+        if (opResult.redaction) redactNode(el, opResult.redaction.reason, opResult.redaction.author);
+        return { success: true, result: { redacted: true } };
+      }
+
+      case 'remove_comment': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) return { success: false, error: 'Element not found: ' + op.input.elementId };
+        (opResult.commentIds || []).forEach(function(commentId) { reattachNode('comment:' + commentId); });
+        if (opResult.attributes) writeCommentAttributes(el, opResult.attributes);
+        return { success: true, result: { restored: true } };
+      }
+
+      case 'edit_comment': {
+        const el = findCanonElement(op.input.elementId);
+        if (!el) return { success: false, error: 'Element not found: ' + op.input.elementId };
+        (opResult.comments || []).forEach(function(comment) {
+          const marker = document.querySelector('[data-canon-comment-id="' + comment.commentId + '"]');
+          if (marker) marker.setAttribute('data-canon-comment-text', comment.text || '');
+        });
+        if (opResult.attributes) writeCommentAttributes(el, opResult.attributes);
+        return { success: true, result: { restored: true } };
+      }
+
+      case 'delete_element': {
+        if (!reattachNode('element:' + op.input.elementId)) return { success: false, error: 'Deleted element not found: ' + op.input.elementId };
+        return { success: true, result: { restored: true } };
+      }
+
+      default:
+        return { success: false, error: 'Cannot revert tool: ' + op.tool };
     }
-  });
+  }
+
+  // Re-apply a reverted operation (redo)
+  // Nodes detached by revert are re-attached; everything else runs again
+  function reapplyOperation(op) {
+    const opResult = op.result || {};
+
+    switch (op.tool) {
+      case 'add_comment':
+      case 'place_comment': {
+        const commentId = opResult.commentId || op.input.commentId;
+        if (!reattachNode('comment:' + commentId)) return { success: false, error: 'Comment not found: ' + commentId };
+        return { success: true, result: { commentId: commentId } };
+      }
+
+      case 'draw_highlight': {
+        const highlightId = op.input.highlightId;
+        if (!reattachNode('highlight:' + highlightId)) return { success: false, error: 'Highlight not found: ' + highlightId };
+        return { success: true, result: { highlightId: highlightId } };
+      }
+
+      default:
+        return runOperation(op);
+    }
+  }
 
   // Highlight mode - drag to draw highlight boxes
   // Find the page element (.pf or .pc) that contains the given point
@@ -1038,6 +1850,7 @@ const SELECTION_SCRIPT = `
     box.className = 'canon-highlight';
     box.setAttribute('data-canon-highlight', 'true');
     box.setAttribute('data-canon-highlight-id', 'highlight-' + (++highlightCounter) + '-' + Date.now());
+    box.setAttribute('data-canon-highlight-timestamp', String(Date.now()));
     box.style.position = 'absolute';
     box.style.left = x + 'px';
     box.style.top = y + 'px';
@@ -1146,14 +1959,22 @@ const SELECTION_SCRIPT = `
 
   // Comment mode - click to add comments/annotations
   // Adobe Acrobat style sticky note icon
-  function createCommentMarker(x, y, page, commentId) {
+  function createCommentMarker(x, y, page, commentId, author) {
     const marker = document.createElement('div');
-    marker.className = 'canon-comment-marker';
     marker.setAttribute('data-canon-comment', 'true');
     marker.setAttribute('data-canon-comment-id', commentId);
+    marker.setAttribute('data-canon-comment-author', author || USER_AUTHOR);
+    marker.setAttribute('data-canon-comment-timestamp', String(Date.now()));
     marker.style.position = 'absolute';
     marker.style.left = x + 'px';
     marker.style.top = y + 'px';
+    decorateCommentMarker(marker);
+    return marker;
+  }
+
+  // Apply the sticky note look and hover effect to a marker element
+  function decorateCommentMarker(marker) {
+    marker.className = 'canon-comment-marker';
     marker.style.width = '20px';
     marker.style.height = '20px';
     marker.style.cursor = 'pointer';
@@ -1170,8 +1991,6 @@ const SELECTION_SCRIPT = `
     marker.addEventListener('mouseleave', function() {
       this.style.transform = 'scale(1)';
     });
-
-    return marker;
   }
 
   // Create tooltip to show comment text on hover
@@ -1259,6 +2078,17 @@ const SELECTION_SCRIPT = `
     });
   }
 
+  // Markers already in the document (imported PDF annotations, reopened sessions)
+  // arrive without listeners - decorate them once on load
+  function hydrateCommentMarkers() {
+    document.querySelectorAll('[data-canon-comment]').forEach(function(marker) {
+      decorateCommentMarker(marker);
+      if (marker.parentElement) addTooltipToMarker(marker, marker.parentElement);
+    });
+  }
+
+  hydrateCommentMarkers();
+
   function createCommentBubble(x, y, page, commentId, existingText) {
     const bubble = document.createElement('div');
     bubble.className = 'canon-comment-bubble';
@@ -1427,7 +2257,9 @@ const SELECTION_SCRIPT = `
         window.parent.postMessage({
           type: 'canon-comment-saved',
           commentId: commentId,
-          text: text
+          elementId: marker.getAttribute('data-canon-comment-element'),
+          text: text,
+          isNew: !existingText
         }, '*');
       } else if (!existingText) {
         // Remove marker if no text and it's a new comment
@@ -1503,8 +2335,10 @@ const SELECTION_SCRIPT = `
     const coords = getPageCoords(e, page);
     const commentId = 'comment-' + (++commentCounter) + '-' + Date.now();
 
-    // Create and add the marker
+    // Create and add the marker, linked to the text it was dropped on
     const marker = createCommentMarker(coords.x, coords.y, page, commentId);
+    const anchor = e.target.closest('[data-canon-id]');
+    if (anchor) marker.setAttribute('data-canon-comment-element', anchor.getAttribute('data-canon-id'));
     page.appendChild(marker);
 
     // Add tooltip functionality for viewing comments
@@ -1569,6 +2403,14 @@ const SELECTION_SCRIPT = `
       e.stopPropagation();
       window.parent.postMessage({ type: 'canon-ctrl-q' }, '*');
     }
+
+    // Forward Ctrl+Z / Ctrl+Shift+Z to parent for undo/redo (except while typing a comment)
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      if (e.target && (e.target.tagName === 'TEXTAREA' || e.target.tagName === 'INPUT')) return;
+      e.preventDefault();
+      e.stopPropagation();
+      window.parent.postMessage({ type: e.shiftKey ? 'canon-redo' : 'canon-undo' }, '*');
+    }
   }, true);
 
   // Track scroll and notify parent about current page
@@ -1614,7 +2456,7 @@ const SELECTION_SCRIPT = `
 `;
 
 export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(
-  function PDFViewer({ className, editorMode = "select", onElementSelect }, ref) {
+  function PDFViewer({ className, editorMode = "select", operationPreviews, onElementSelect, onHighlightCreated, onCommentSaved, onPreviewToggle, onCoordinatesReady }, ref) {
     const [htmlContent, setHtmlContent] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [selectedElement, setSelectedElement] = useState<SelectedElement | null>(null);
@@ -1628,6 +2470,14 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(
       );
     }, [editorMode]);
 
+    // Send proposed operations to iframe (an empty list clears the overlays)
+    useEffect(() => {
+      iframeRef.current?.contentWindow?.postMessage(
+        { type: 'canon-preview-operations', previews: operationPreviews ?? [] },
+        '*'
+      );
+    }, [operationPreviews]);
+
     // Inject selection script into HTML
     const injectSelectionScript = useCallback((html: string): string => {
       // Insert script before closing body tag
@@ -1667,19 +2517,73 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(
       // Get the current HTML from the iframe DOM (includes any modifications like redactions)
       const iframeDoc = iframeRef.current?.contentDocument;
       if (iframeDoc) {
-        return '<!DOCTYPE html>' + iframeDoc.documentElement.outerHTML;
+        // Preview overlays are not part of the document
+        const root = iframeDoc.documentElement.cloneNode(true) as HTMLElement;
+        root.querySelectorAll('.canon-preview-overlay').forEach((el) => el.remove());
+        return '<!DOCTYPE html>' + root.outerHTML;
       }
       // Fallback to stored content if iframe not accessible
       return htmlContent;
     }, [htmlContent]);
 
-    const redactElement = useCallback((elementId: string): void => {
+    const getDocumentHtml = useCallback((): string | null => {
+      const iframeDoc = iframeRef.current?.contentDocument;
+      if (!iframeDoc) return null;
+
+      // Strip the selection script (re-injected on load) and transient UI
+      const root = iframeDoc.documentElement.cloneNode(true) as HTMLElement;
+      root.querySelectorAll('#canon-selection-script, .canon-comment-bubble, .canon-preview-overlay').forEach((el) => el.remove());
+      root.querySelectorAll<HTMLElement>('[data-canon-id]').forEach((el) => {
+        el.style.outline = '';
+        el.style.outlineOffset = '';
+      });
+      return '<!DOCTYPE html>' + root.outerHTML;
+    }, []);
+
+    const redactElement = useCallback((elementId: string, reason?: string): void => {
       iframeRef.current?.contentWindow?.postMessage(
-        { type: 'canon-redact-element', elementId },
+        { type: 'canon-redact-element', elementId, reason },
         '*'
       );
     }, []);
 
+    const getRedactionLog = useCallback((): RedactionLogEntry[] => {
+      const iframeDoc = iframeRef.current?.contentDocument;
+      if (!iframeDoc) return [];
+
+      const pageFrames = Array.from(iframeDoc.querySelectorAll<HTMLElement>('.pf'));
+      const entries: RedactionLogEntry[] = [];
+
+      iframeDoc.querySelectorAll<HTMLElement>('[data-canon-redacted]').forEach((el) => {
+        const pageFrame = el.closest<HTMLElement>('.pf');
+        const pageRect = pageFrame?.getBoundingClientRect();
+        const rect = el.getBoundingClientRect();
+        // Undo any viewer zoom so coordinates match the page's own size
+        const scale = pageFrame && pageRect && pageFrame.offsetWidth > 0
+          ? pageRect.width / pageFrame.offsetWidth
+          : 1;
+        const round = (value: number): number => Math.round(value * 100) / 100;
+        const timestamp = parseInt(el.getAttribute('data-canon-redaction-timestamp') || '', 10);
+
+        entries.push({
+          index: entries.length + 1,
+          // Image region overlays sit on the page, beside their image
+          elementId: el.getAttribute('data-canon-image-for') ||
+            el.closest('[data-canon-id]')?.getAttribute('data-canon-id') || '',
+          page: pageFrame ? pageFrames.indexOf(pageFrame) + 1 : 0,
+          x: round((rect.left - (pageRect?.left ?? 0)) / scale),
+          y: round((rect.top - (pageRect?.top ?? 0)) / scale),
+          width: round(rect.width / scale),
+          height: round(rect.height / scale),
+          reason: el.getAttribute('data-canon-redaction-reason') || UNSPECIFIED_REDACTION_REASON,
+          appliedBy: el.getAttribute('data-canon-redaction-author') || '',
+          appliedAt: Number.isNaN(timestamp) ? null : new Date(timestamp).toISOString(),
+        });
+      });
+
+      return entries;
+    }, []);
+
     const getIframeRef = useCallback((): React.RefObject<HTMLIFrameElement | null> => {
       return iframeRef;
     }, []);
@@ -1692,10 +2596,12 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(
         clearSelection,
         getSelectedElement,
         getHtml,
+        getDocumentHtml,
         redactElement,
+        getRedactionLog,
         getIframeRef,
       }),
-      [loadHtml, clear, clearSelection, getSelectedElement, getHtml, redactElement, getIframeRef]
+      [loadHtml, clear, clearSelection, getSelectedElement, getHtml, getDocumentHtml, redactElement, getRedactionLog, getIframeRef]
     );
 
     // Listen for messages from iframe
@@ -1706,11 +2612,31 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(
           setSelectedElement(element);
           onElementSelect?.(element);
         }
+        if (event.data?.type === 'canon-highlight-created') {
+          onHighlightCreated?.({
+            highlightId: event.data.highlightId,
+            rect: event.data.rect,
+          });
+        }
+        if (event.data?.type === 'canon-comment-saved') {
+          onCommentSaved?.({
+            commentId: event.data.commentId,
+            elementId: event.data.elementId ?? null,
+            text: event.data.text,
+            isNew: event.data.isNew === true,
+          });
+        }
+        if (event.data?.type === 'canon-preview-toggle') {
+          onPreviewToggle?.(event.data.operationId);
+        }
+        if (event.data?.type === 'canon-coordinates-ready') {
+          onCoordinatesReady?.();
+        }
       };
 
       window.addEventListener('message', handleMessage);
       return () => window.removeEventListener('message', handleMessage);
-    }, [onElementSelect]);
+    }, [onElementSelect, onHighlightCreated, onCommentSaved, onPreviewToggle, onCoordinatesReady]);
 
     if (!htmlContent) {
       return (
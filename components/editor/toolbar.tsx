@@ -7,6 +7,8 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { REDACTION_REASONS } from "@/lib/redaction";
+import { listLocalePacks, type DocumentLocale } from "@/lib/gdsm";
 
 export type EditorMode = "select" | "redact" | "highlight" | "comment";
 
@@ -21,6 +23,11 @@ interface ToolbarProps {
   canUndo?: boolean;
   canRedo?: boolean;
   disabled?: boolean;
+  // Reason code applied to manual redactions (picker shown in redact mode)
+  redactionReason?: string;
+  onRedactionReasonChange?: (reason: string) => void;
+  documentLocale?: { locale: DocumentLocale; source: "detected" | "user" };
+  onDocumentLocaleChange?: (locale: DocumentLocale | null) => void; // null = detect
 }
 
 interface ToolButtonProps {
@@ -85,6 +92,10 @@ export function EditorToolbar({
   canUndo = false,
   canRedo = false,
   disabled = false,
+  redactionReason,
+  onRedactionReasonChange,
+  documentLocale,
+  onDocumentLocaleChange,
 }: ToolbarProps): React.ReactElement {
   return (
     <TooltipProvider delayDuration={300}>
@@ -143,6 +154,32 @@ export function EditorToolbar({
           onClick={() => onModeChange("redact")}
         />
 
+        {activeMode === "redact" && onRedactionReasonChange && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <select
+                value={redactionReason}
+                onChange={(e) => onRedactionReasonChange(e.target.value)}
+                disabled={disabled}
+                aria-label="Redaction reason"
+                className={cn(
+                  "h-8 px-2 mx-0.5 rounded-lg text-xs font-medium cursor-pointer",
+                  "bg-surface-subtle border border-border text-text-primary",
+                  "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50",
+                  "disabled:opacity-40 disabled:cursor-not-allowed"
+                )}
+              >
+                {REDACTION_REASONS.map((reason) => (
+                  <option key={reason.code} value={reason.code} title={reason.label}>
+                    {reason.code}
+                  </option>
+                ))}
+              </select>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">Redaction reason</TooltipContent>
+          </Tooltip>
+        )}
+
         <ToolButton
           icon={
             <svg
@@ -282,6 +319,40 @@ export function EditorToolbar({
           disabled={disabled}
           onClick={() => onZoomOut?.()}
         />
+
+        {onDocumentLocaleChange && (
+          <>
+            <ToolDivider />
+
+            {/* Document locale (phone, date, currency and address formats) */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <select
+                  value={documentLocale?.source === "user" ? documentLocale.locale : "auto"}
+                  onChange={(e) => onDocumentLocaleChange(e.target.value === "auto" ? null : e.target.value)}
+                  disabled={disabled}
+                  aria-label="Document locale"
+                  className={cn(
+                    "h-8 px-2 mx-0.5 rounded-lg text-xs font-medium cursor-pointer",
+                    "bg-surface-subtle border border-border text-text-primary",
+                    "focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50",
+                    "disabled:opacity-40 disabled:cursor-not-allowed"
+                  )}
+                >
+                  <option value="auto">
+                    {documentLocale?.source === "detected" ? `Auto (${documentLocale.locale})` : "Auto"}
+                  </option>
+                  {listLocalePacks().map((pack) => (
+                    <option key={pack.locale} value={pack.locale} title={pack.label}>
+                      {pack.locale}
+                    </option>
+                  ))}
+                </select>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">Document locale</TooltipContent>
+            </Tooltip>
+          </>
+        )}
       </div>
     </TooltipProvider>
   );
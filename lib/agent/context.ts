@@ -1,4 +1,15 @@
 import type { SelectedElement } from "@/components/editor/pdf-viewer";
+import {
+  ElementState,
+  type DocumentLocale,
+  type ElementComment,
+  type ElementImage,
+  type ElementRangeMark,
+  type ElementStyle,
+  type ElementType,
+  type GDSM,
+  type GeometrySource,
+} from "@/lib/gdsm";
 
 /**
  * Message in conversation history
@@ -41,6 +52,45 @@ export interface GDSMElementForScanner {
   height: number;
   state: number;
   semanticType?: string;
+  comment?: ElementComment;
+  ranges?: ElementRangeMark[];
+  style?: ElementStyle;
+  type?: ElementType;
+  image?: ElementImage;
+}
+
+/**
+ * Serializable scanner elements of a GDSM (deleted elements left out)
+ */
+export function toScannerElements(gdsm: GDSM): GDSMElementForScanner[] {
+  return Array.from(gdsm.elementsById.values())
+    .filter((el) => !(el.state & ElementState.DELETED))
+    .map((el) => ({
+      id: el.id,
+      text: el.text,
+      page: el.page,
+      x: el.x,
+      y: el.y,
+      width: el.width,
+      height: el.height,
+      state: el.state,
+      semanticType: el.semanticType,
+      comment: el.comment,
+      ranges: el.ranges,
+      style: el.style,
+      type: el.type,
+      image: el.image,
+    }));
+}
+
+/**
+ * Outcome of the last time the user applied proposed operations
+ * Lets the agent see failures that only show up in the live document
+ * (e.g. an iframe timeout)
+ */
+export interface ApplyReport {
+  applied: number;
+  failed: Array<{ tool: string; elementId?: string; error: string }>;
 }
 
 /**
@@ -57,10 +107,16 @@ export interface AgentContext {
   documentHtml?: string;
   // GDSM elements for scanner (replaces HTML parsing)
   gdsmElements?: GDSMElementForScanner[];
+  // Locale the GDSM semantic types were detected with (e.g. "de-DE")
+  locale?: DocumentLocale;
+  // Whether element boxes are measured or estimated (widths from character counts)
+  geometry?: GeometrySource;
   // Conversation history for multi-turn context
   conversationHistory?: ConversationMessage[];
   // Page dimensions for spatial context
   pageInfo?: PageInfo[];
+  // Failures from the last apply, reported once with the next instruction
+  lastApply?: ApplyReport;
 }
 
 /**
@@ -217,6 +273,12 @@ export function buildUserMessage(instruction: string, context: AgentContext): st
     contextStr += `]`;
     message += `\n\n${contextStr}`;
   }
+  if (context.lastApply && context.lastApply.failed.length > 0) {
+    const failures = context.lastApply.failed
+      .map((f) => `${f.tool}${f.elementId ? ` on ${f.elementId}` : ""}: ${f.error}`)
+      .join("; ");
+    message += `\n\n[LAST APPLY: ${context.lastApply.applied} operation(s) applied, ${context.lastApply.failed.length} failed - ${failures}]`;
+  }
   // Note: documentHtml is used by scan_document tool, not included in user message (too large)
 
   return message;
@@ -252,6 +314,14 @@ export function buildSystemPrompt(context: AgentContext): string {
     });
   }
 
+  if (context.geometry === "estimated") {
+    contextInfo += `\n\nELEMENT POSITIONS ARE ESTIMATED: widths are guessed from character counts, so regions, nearest-element, column and table results are approximate - confirm borderline matches by text`;
+  }
+
+  if (context.locale) {
+    contextInfo += `\n\nDOCUMENT LOCALE: ${context.locale} (dates, amounts, phone numbers and addresses follow its formats)`;
+  }
+
   return `You are Canon's document editing assistant. Help users edit PDF documents through natural language.
 
 ## Context
@@ -262,11 +332,22 @@ ${contextInfo}
 | Tool | Purpose |
 |------|---------|
 | set_element_text(elementId, text) | Replace element's text |
-| redact_element(elementId) | Black out element |
+| redact_element(elementId, reason) | Black out element, with a reason code (e.g. PII, (b)(6)) |
 | highlight_element(elementId) | Yellow highlight |
+| redact_text_range(elementId, text or start/end, reason) | Black out part of an element |
+| highlight_text_range(elementId, text or start/end) | Highlight part of an element |
+| redact_image_region(elementId, x/y/width/height?, reason) | Black out part of an image, or all of it |
 | add_comment(elementId, text) | Add annotation |
 | delete_element(elementId) | Remove element |
-| scan_document(query) | Find matching elements |
+| remove_highlight(elementId) | Remove element's highlights |
+| remove_comment(elementId) | Delete element's comments |
+| edit_comment(elementId, text) | Replace comment text |
+| unmark_redaction(elementId) | Lift element's redactions (before export) |
+| scan_document(query, page?, region/box?, anchor + relation?) | Find matching elements, optionally by position |
+| get_document_outline(maxLevel?) | List sections (headings, numbered clauses) |
+| list_tables() | List detected tables (ID, page, column headers, row count) |
+| scan_table(column?, whereColumn?, equals/contains?) | Find table cells by column or row condition |
+| mark_page_furniture(kind or elementId, action, text?, reason?) | Redact/highlight/delete a repeated header, footer or page number on every page |
 
 ## CRITICAL: "this" = Selected Element
 
@@ -276,7 +357,7 @@ USE THE SELECTED ELEMENT ID DIRECTLY for (example usages):
 - "change this to X" → set_element_text(selectedId, "X")
 - "translate this to XYZ" → set_element_text(selectedId, translated_text)
 - "make this more formal" → set_element_text(selectedId, formal_version)
-- "redact this" → redact_element(selectedId)
+- "redact this" → redact_element(selectedId, "PII")
 - "highlight this" → highlight_element(selectedId)
 - "delete this" → delete_element(selectedId)
 
@@ -295,16 +376,80 @@ When calling scan_document, phrase your query to get exact matches:
 | User says | Your query | Why |
 |-----------|------------|-----|
 | "redact lines containing French" | "lines containing the word French" | Clarifies EXACT word match |
+| "redact John Smith" | "containing \"John Smith\"" | Quoted phrase - found even when split across elements |
 | "find all emails" | "email addresses" | Pattern match |
 | "highlight dates" | "dates" | Pattern match |
+| "redact section 4.2" | "section 4.2" | Layout - every element of the section |
+| "highlight the paragraph under Indemnification" | "paragraph under the Indemnification heading" | Layout - first paragraph of the section |
+| "redact everything in the top-right box" | "everything" + region "top_right" | Position - structured parameters |
+| "redact the text right of 'Account No:'" | "everything" + anchor "Account No:", relation "right_of" | Position - relative to an anchor |
+| "redact all bold text" | "bold text" | Style - font weight |
+| "highlight every footnote-sized line" | "footnote-sized lines" | Style - smaller than body text |
+| "redact all photos" | "photos" | Images - embedded pictures, not page backgrounds |
 | "redact Party B info" | "content about Party B" | Semantic - needs context |
 
 **Match Types:**
 - "containing X" / "with the word X" = EXACT WORD match (X as standalone word, NOT as substring)
   - "French" matches "French language" but NOT "Francophone" or "Frenchman"
+- "containing \"X Y\"" (quoted, several words) = PHRASE match across element boundaries
+  - A name or address split over several elements returns EVERY fragment - act on all of them
+- "page numbers" / "headers" / "footers" / "X in the header" = FURNITURE match (elements repeated on every page)
+- "bold text" / "italic text" / "red text" / "footnote-sized lines" / "text in the X font" = STYLE match (font and color of each element)
+- "section N" / "the X section" / "the X heading" / "paragraph under the X heading" = LAYOUT match (sections from headings and numbered clauses; use get_document_outline when unsure of the number or title)
 - "about X" / "related to X" = SEMANTIC match (broader interpretation)
 - Pattern queries (emails, phones, dates) = match FORMAT not literal text
 
+## Whole Element vs Part of an Element
+
+Elements are often whole lines. When the user targets something INSIDE a line (an email, a name, a number), use the range tools so the rest of the line stays readable:
+- "redact the email addresses" → scan_document("email addresses"), then redact_text_range(elementId, span text, reason) for each span
+- "highlight the word Acme" → highlight_text_range(elementId, "Acme")
+- Use redact_element / highlight_element only when the whole element is the target (e.g. "redact this line")
+
+Redacted characters show as █ in element text; offsets count them.
+
+## Tables
+
+Tables are detected from element alignment. Address them with scan_table instead of scan_document:
+- "redact the salary column" → scan_table(column: "Salary"), then redact_element for each match (the header stays)
+- "highlight every row where status is Overdue" → scan_table(whereColumn: "Status", equals: "Overdue"), then highlight_element for each match
+- If scan_table finds no such column, check the headers it lists (or list_tables) and retry with the right one
+
+## Positions on the Page
+
+Put WHERE in scan_document's parameters and WHAT in the query:
+- region ("top_right", "bottom", ...) or box (page pixels) for a part of the page; page: "last" for the last page
+- anchor + relation for position relative to a label or element: right_of / left_of (same line), below / above, nearest
+- "the date next to the signature line" → query "dates", anchor "Signature", relation "nearest"
+- A label and its value in ONE element ("Account No: 12345") comes back with a span covering just the value - use redact_text_range
+
+## Fonts and Colors
+
+Elements carry their font size, weight, slant and color (shown as {9px bold #c00000} in scan element lists). Ask for them in the query, combined with a scope when needed:
+- "find the red text" → scan_document("red text")
+- "redact the small print on the last page" → scan_document("small print", page: "last")
+- Sizes are relative to the body text: "footnote-sized" / "small print" is smaller, "large" is bigger
+
+## Images
+
+Embedded images (photos, logos, signatures, figures) are elements too, with IDs like "pf1-img-0" and no text; scan element lists show them as [image "alt text"]:
+- "redact all photos" → scan_document("photos"), then redact_element for each match
+- "black out the face in the photo on page 2" → redact_image_region(elementId, x, y, width, height, reason) with a box in page pixels inside the image
+- Redacted regions are burned into the image pixels on export; unmark_redaction lifts an image's regions before then
+
+## Headers and Footers
+
+Letterheads, running titles, confidentiality footers and page numbers repeat on every page. Act on all instances with ONE mark_page_furniture call instead of one call per page:
+- "remove the page numbers" → mark_page_furniture(kind: "page_number", action: "delete")
+- "redact the case number in the header" → scan_document("case number in the header") to read it, then mark_page_furniture(elementId: <a match>, action: "redact", text: <the case number>, reason: ...)
+
+## Removing Markup
+
+Highlights, comments and redactions can be taken off again. Find them with scan_document, then reverse each one:
+- "remove all the highlights on page 3" → scan_document("highlights on page 3"), then remove_highlight for each match
+- "delete my review comments" → scan_document("comments"), then remove_comment for each match whose comment author is "User" (the agent's own are "Canon Agent")
+- "unredact this" → unmark_redaction(selectedId)
+
 ## Text Replacement with set_element_text
 
 The text parameter REPLACES the entire element content.
@@ -331,6 +476,8 @@ You have history. You must analyze the user instruction to understand the conver
 - "undo that" → refers to last operation
 - "what about X?" → same logic for X
 
+A [LAST APPLY] note means some of your previous operations failed when the user applied them. Mention it if relevant, and retry them if the user asks.
+
 ## Style
 Be concise. When element is selected, execute directly. Don't scan when you already have the target.
 
@@ -13,6 +13,14 @@ export interface ExecutionResult {
   error?: string;
 }
 
+/**
+ * Iframe message types that run an operation and reply with a result
+ */
+type OperationMessageType =
+  | "canon-execute-operation"
+  | "canon-revert-operation"
+  | "canon-reapply-operation";
+
 /**
  * Execute a single operation via postMessage to the iframe
  */
@@ -20,7 +28,39 @@ export async function executeOperation(
   operation: AgentOperation,
   iframeRef: React.RefObject<HTMLIFrameElement | null>
 ): Promise<ExecutionResult> {
-  console.log("[Executor] Executing operation:", operation);
+  return postOperation("canon-execute-operation", operation, iframeRef);
+}
+
+/**
+ * Reverse a previously executed operation in the iframe DOM (undo)
+ * The operation should carry the result returned when it was executed
+ */
+export async function revertOperation(
+  operation: AgentOperation,
+  iframeRef: React.RefObject<HTMLIFrameElement | null>
+): Promise<ExecutionResult> {
+  return postOperation("canon-revert-operation", operation, iframeRef);
+}
+
+/**
+ * Re-apply a reverted operation in the iframe DOM (redo)
+ */
+export async function reapplyOperation(
+  operation: AgentOperation,
+  iframeRef: React.RefObject<HTMLIFrameElement | null>
+): Promise<ExecutionResult> {
+  return postOperation("canon-reapply-operation", operation, iframeRef);
+}
+
+/**
+ * Send an operation to the iframe and wait for its result
+ */
+async function postOperation(
+  messageType: OperationMessageType,
+  operation: AgentOperation,
+  iframeRef: React.RefObject<HTMLIFrameElement | null>
+): Promise<ExecutionResult> {
+  console.log("[Executor] Executing operation:", messageType, operation);
 
   const iframe = iframeRef.current;
   const contentWindow = iframe?.contentWindow;
@@ -77,7 +117,7 @@ export async function executeOperation(
     // Send operation to iframe for execution
     contentWindow.postMessage(
       {
-        type: "canon-execute-operation",
+        type: messageType,
         operation,
       },
       "*"
@@ -110,6 +150,48 @@ export async function executeOperations(
   return results;
 }
 
+/**
+ * Revert multiple operations in reverse order (undo)
+ */
+export async function revertOperations(
+  operations: AgentOperation[],
+  iframeRef: React.RefObject<HTMLIFrameElement | null>
+): Promise<ExecutionResult[]> {
+  const results: ExecutionResult[] = [];
+
+  for (const op of [...operations].reverse()) {
+    const result = await revertOperation(op, iframeRef);
+    results.push(result);
+
+    if (!result.success) {
+      console.log("[Executor] Revert failed:", result.error, "but continuing...");
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Re-apply multiple operations in order (redo)
+ */
+export async function reapplyOperations(
+  operations: AgentOperation[],
+  iframeRef: React.RefObject<HTMLIFrameElement | null>
+): Promise<ExecutionResult[]> {
+  const results: ExecutionResult[] = [];
+
+  for (const op of operations) {
+    const result = await reapplyOperation(op, iframeRef);
+    results.push(result);
+
+    if (!result.success) {
+      console.log("[Executor] Reapply failed:", result.error, "but continuing...");
+    }
+  }
+
+  return results;
+}
+
 /**
  * Format operation for display in UI
  */
@@ -120,14 +202,44 @@ export function formatOperationDescription(operation: AgentOperation): string {
     case "set_element_text":
       return `Set text to "${input.text}"`;
     case "redact_element":
-      return `Redact element`;
+      return input.reason ? `Redact element (${input.reason})` : `Redact element`;
     case "highlight_element":
       return `Highlight element`;
+    case "redact_text_range":
+      return input.reason
+        ? `Redact ${describeRange(input)} (${input.reason})`
+        : `Redact ${describeRange(input)}`;
+    case "highlight_text_range":
+      return `Highlight ${describeRange(input)}`;
+    case "redact_image_region": {
+      const target = typeof input.width === "number" ? "image region" : "image";
+      return input.reason ? `Redact ${target} (${input.reason})` : `Redact ${target}`;
+    }
     case "add_comment":
       return `Add comment: "${input.text}"`;
     case "delete_element":
       return `Delete element`;
+    case "remove_highlight":
+      return `Remove highlight`;
+    case "remove_comment":
+      return `Delete comment`;
+    case "edit_comment":
+      return `Edit comment: "${input.text}"`;
+    case "unmark_redaction":
+      return `Unmark redaction`;
+    case "draw_highlight":
+      return `Draw highlight`;
+    case "place_comment":
+      return `Add comment: "${input.text}"`;
     default:
       return `${tool}`;
   }
 }
+
+/**
+ * Short description of a range operation's target
+ */
+function describeRange(input: Record<string, unknown>): string {
+  if (typeof input.text === "string" && input.text) return `"${input.text}"`;
+  return `characters ${input.start}-${input.end}`;
+}
@@ -1,25 +1,44 @@
 // Agent module exports
-export { AGENT_TOOLS, type AgentOperation } from "./tools";
+export { AGENT_TOOLS, READ_ONLY_TOOLS, type AgentOperation } from "./tools";
 export type {
   SetElementTextInput,
   RedactElementInput,
   HighlightElementInput,
+  TextRangeOperationInput,
+  RedactTextRangeInput,
+  HighlightTextRangeInput,
+  RedactImageRegionInput,
   AddCommentInput,
   DeleteElementInput,
+  RemoveHighlightInput,
+  RemoveCommentInput,
+  EditCommentInput,
+  UnmarkRedactionInput,
   ScanDocumentInput,
+  GetDocumentOutlineInput,
+  ScanTableInput,
+  MarkPageFurnitureInput,
 } from "./tools";
 
 export {
   extractContext,
   buildUserMessage,
   buildSystemPrompt,
+  toScannerElements,
   type AgentContext,
+  type ApplyReport,
   type ConversationMessage,
 } from "./context";
 
 export {
   executeOperation,
   executeOperations,
+  revertOperation,
+  revertOperations,
+  reapplyOperation,
+  reapplyOperations,
   formatOperationDescription,
   type ExecutionResult,
 } from "./executor";
+
+export { operationToMutation, validateOperation, expandPageFurnitureCall } from "./operations";
@@ -0,0 +1,338 @@
+/**
+ * Agent Loop - Multi-turn tool calling against the configured model (server-only)
+ *
+ * Read-only tools (scan_document, get_document_outline, list_tables,
+ * scan_table) run server-side and their results are fed back to the model.
+ * Every other tool call is dry-run against a working copy of the GDSM; the
+ * model sees whether it would succeed, so it can correct failed calls in the
+ * same run. Valid calls are collected as operations for the caller to apply
+ * (the editor applies them in the iframe, /api/batch applies them headlessly).
+ * mark_page_furniture is expanded into one operation per repeated instance.
+ */
+
+import type { MessageParam, ToolResultBlockParam } from "@anthropic-ai/sdk/resources/messages";
+import { getLLMProviders, type AgentStreamHandlers } from "@/lib/llm";
+import { normalizeRedactionReason } from "@/lib/redaction";
+import { getLayout, type DocumentLocale, type GDSM } from "@/lib/gdsm";
+import {
+  AGENT_TOOLS,
+  READ_ONLY_TOOLS,
+  type AgentOperation,
+  type ScanDocumentInput,
+  type ScanTableInput,
+} from "./tools";
+import { buildSystemPrompt, buildUserMessage, type AgentContext, type GDSMElementForScanner } from "./context";
+import type { ExecutionResult } from "./executor";
+import { expandPageFurnitureCall, validateOperation } from "./operations";
+import { gdsmFromScannerElements, listTables, scanDocument, scanScopeFromInput, scanTable } from "./scan";
+
+/**
+ * Safety limit on model turns per instruction
+ */
+const MAX_TURNS = 10;
+
+/**
+ * Callbacks for streaming loop progress
+ */
+export interface AgentLoopEvents extends AgentStreamHandlers {
+  onToolResult?: (tool: { id: string; name: string }, result: unknown) => void;
+  // A tool call passed validation and was added to the operations
+  onOperation?: (operation: AgentOperation) => void;
+}
+
+/**
+ * Outcome of running an instruction to completion
+ */
+export interface AgentLoopResult {
+  operations: AgentOperation[];
+  // Tool calls that failed validation (the model was told why)
+  rejected: ExecutionResult[];
+  explanation: string;
+  turns: number;
+}
+
+/**
+ * Execute a tool call and return the result
+ * Mutating tools report their validation outcome (null when there was no
+ * document to validate against)
+ */
+async function executeToolCall(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  gdsmElements?: GDSMElementForScanner[],
+  validation?: ExecutionResult | null,
+  locale?: DocumentLocale
+): Promise<string> {
+  if (toolName === "scan_document") {
+    const query = toolInput.query as string;
+    if (!gdsmElements || gdsmElements.length === 0) {
+      return JSON.stringify({ error: "No GDSM elements provided for scanning", matches: [] });
+    }
+    const { scope, error: scopeError } = scanScopeFromInput(toolInput as unknown as ScanDocumentInput);
+    if (scopeError) {
+      return JSON.stringify({ error: scopeError, matches: [] });
+    }
+    const { results, tier, coverage, error } = await scanDocument(query, gdsmElements, locale, scope);
+    if (error) {
+      return JSON.stringify({ error, matches: [] });
+    }
+    const incomplete = coverage && coverage.missedPages.length > 0
+      ? ` Pages ${coverage.missedPages.join(", ")} could not be scanned - scan them again or tell the user.`
+      : "";
+
+    return JSON.stringify({
+      matches: results,
+      count: results.length,
+      tier,
+      ...(coverage ? { coverage } : {}),
+      message: (results.length > 0
+        ? `Found ${results.length} element(s) matching "${query}"`
+        : `No elements found matching "${query}"`) + incomplete
+    });
+  }
+
+  if (toolName === "get_document_outline") {
+    if (!gdsmElements || gdsmElements.length === 0) {
+      return JSON.stringify({ error: "No GDSM elements provided for the outline", sections: [] });
+    }
+    const maxLevel = typeof toolInput.maxLevel === "number" ? toolInput.maxLevel : Infinity;
+    const layout = getLayout(gdsmFromScannerElements(gdsmElements, locale));
+    const sections = layout.sections
+      .filter((section) => section.level <= maxLevel)
+      .map((section) => ({
+        ...(section.number ? { number: section.number } : {}),
+        title: section.title,
+        level: section.level,
+        page: section.page,
+        headingElementId: layout.nodesById.get(section.headingNodeId)?.elementIds[0],
+        elementCount: section.elementIds.length,
+      }));
+
+    return JSON.stringify({
+      sections,
+      count: sections.length,
+      message: sections.length > 0
+        ? `Found ${sections.length} section(s)`
+        : "No headings or numbered clauses found - scan_document can still search the text"
+    });
+  }
+
+  if (toolName === "list_tables" || toolName === "scan_table") {
+    if (!gdsmElements || gdsmElements.length === 0) {
+      return JSON.stringify({ error: "No GDSM elements provided for table lookup", tables: [] });
+    }
+    if (toolName === "list_tables") {
+      const tables = listTables(gdsmElements, locale);
+      return JSON.stringify({
+        tables,
+        count: tables.length,
+        message: tables.length > 0
+          ? `Found ${tables.length} table(s)`
+          : "No tables detected - scan_document can still search the text"
+      });
+    }
+
+    const { results, error } = scanTable(toolInput as ScanTableInput, gdsmElements, locale);
+    if (error) {
+      return JSON.stringify({ error, matches: [], tables: listTables(gdsmElements, locale) });
+    }
+    return JSON.stringify({
+      matches: results,
+      count: results.length,
+      message: results.length > 0 ? `Found ${results.length} element(s) in matching cells` : "No cells matched"
+    });
+  }
+
+  if (validation && !validation.success) {
+    return JSON.stringify({
+      status: "failed",
+      error: validation.error,
+      message: `${toolName} was not added. Fix the call (e.g. a different element or text) and call it again, or tell the user why it can't be done.`
+    });
+  }
+
+  if (validation) {
+    return JSON.stringify({
+      status: "validated",
+      ...(validation.result ? { result: validation.result } : {}),
+      message: `${toolName} checked against the document; it will run when the user applies the changes`
+    });
+  }
+
+  // No document state to check against - the client reports failures when it applies
+  return JSON.stringify({
+    status: "queued",
+    message: `Operation ${toolName} queued for client-side execution`
+  });
+}
+
+/**
+ * Expand a mark_page_furniture call and collect each instance's operation
+ * Returns one outcome for the call: successful if any instance was added,
+ * with the operation count and pages as its result
+ */
+function collectPageFurniture(
+  callId: string,
+  input: Record<string, unknown>,
+  gdsm: GDSM | null,
+  collect: (operation: AgentOperation) => ExecutionResult | null,
+  rejected: ExecutionResult[]
+): ExecutionResult {
+  const fail = (error: string): ExecutionResult => {
+    const failure = { success: false, operationId: callId, tool: "mark_page_furniture", error };
+    rejected.push(failure);
+    return failure;
+  };
+
+  // Instances come from the document's furniture tags - nothing to expand without it
+  if (!gdsm) return fail("No document elements to find repeated headers and footers in");
+  const expansion = expandPageFurnitureCall(gdsm, callId, input);
+  if ("error" in expansion) return fail(expansion.error);
+
+  const pages = new Set<number>();
+  const errors: string[] = [];
+  expansion.operations.forEach((operation) => {
+    const validation = collect(operation);
+    if (validation && !validation.success) {
+      errors.push(`${operation.input.elementId}: ${validation.error}`);
+    } else {
+      pages.add(gdsm.elementsById.get(operation.input.elementId as string)!.page);
+    }
+  });
+
+  if (pages.size === 0) {
+    return { success: false, operationId: callId, tool: "mark_page_furniture", error: errors.join("; ") };
+  }
+  return {
+    success: true,
+    operationId: callId,
+    tool: "mark_page_furniture",
+    result: {
+      operations: expansion.operations.length - errors.length,
+      pages: Array.from(pages).sort((a, b) => a - b),
+      ...(errors.length > 0 ? { skipped: errors } : {}),
+    },
+  };
+}
+
+/**
+ * Run an instruction through the agentic loop until the model ends its turn
+ */
+export async function runAgentLoop(
+  instruction: string,
+  context: AgentContext,
+  events: AgentLoopEvents = {}
+): Promise<AgentLoopResult> {
+  const systemPrompt = buildSystemPrompt(context);
+  const userMessage = buildUserMessage(instruction, context);
+
+  // Build messages from conversation history for multi-turn context
+  const messages: MessageParam[] = [];
+
+  // Add previous conversation turns (excluding the current instruction which is already in history)
+  if (context.conversationHistory && context.conversationHistory.length > 1) {
+    const previousMessages = context.conversationHistory.slice(0, -1);
+    for (const msg of previousMessages) {
+      messages.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  // Add current instruction with full context
+  messages.push({ role: "user", content: userMessage });
+
+  // All operations collected across turns
+  const operations: AgentOperation[] = [];
+  const rejected: ExecutionResult[] = [];
+  let explanation = "";
+
+  // Working copy of the document that valid operations are applied to
+  const workingGDSM: GDSM | null =
+    context.gdsmElements && context.gdsmElements.length > 0
+      ? gdsmFromScannerElements(context.gdsmElements, context.locale)
+      : null;
+
+  // Agentic loop - continue until model says "end_turn"
+  const { agent } = getLLMProviders();
+  let turn = 0;
+
+  while (turn < MAX_TURNS) {
+    turn++;
+
+    let turnText = "";
+    const response = await agent.createTurn(
+      { system: systemPrompt, tools: AGENT_TOOLS, messages, maxTokens: 4096 },
+      {
+        ...events,
+        onText: (text) => {
+          turnText += text;
+          events.onText?.(text);
+        },
+      }
+    );
+
+    explanation += turnText;
+
+    // Collect operations from this turn
+    const turnToolCalls: Array<{ id: string; name: string; input: Record<string, unknown> }> = [];
+    const validations = new Map<string, ExecutionResult | null>();
+
+    // Only valid mutating operations go to the final operations list
+    const collect = (operation: AgentOperation): ExecutionResult | null => {
+      const input = ["redact_element", "redact_text_range", "redact_image_region"].includes(operation.tool)
+        ? { ...operation.input, reason: normalizeRedactionReason(operation.input.reason) }
+        : operation.input;
+      const normalized: AgentOperation = { ...operation, input };
+      const validation = workingGDSM ? validateOperation(workingGDSM, normalized) : null;
+
+      if (validation && !validation.success) {
+        rejected.push(validation);
+      } else {
+        operations.push(normalized);
+        events.onOperation?.(normalized);
+      }
+      return validation;
+    };
+
+    for (const block of response.content) {
+      if (block.type === "tool_use") {
+        turnToolCalls.push({ id: block.id, name: block.name, input: block.input });
+        if (READ_ONLY_TOOLS.has(block.name)) continue;
+
+        if (block.name === "mark_page_furniture") {
+          validations.set(block.id, collectPageFurniture(block.id, block.input, workingGDSM, collect, rejected));
+          continue;
+        }
+
+        validations.set(block.id, collect({ id: block.id, tool: block.name, input: block.input }));
+      }
+    }
+
+    // If no tool calls or stop_reason is end_turn, we're done
+    if (response.stopReason === "end_turn" || turnToolCalls.length === 0) {
+      break;
+    }
+
+    // Otherwise, execute tools and continue the loop
+    messages.push({ role: "assistant", content: response.content });
+
+    const toolResults: ToolResultBlockParam[] = [];
+
+    for (const toolCall of turnToolCalls) {
+      const validation = validations.get(toolCall.id);
+      const result = await executeToolCall(toolCall.name, toolCall.input, context.gdsmElements, validation, context.locale);
+
+      events.onToolResult?.({ id: toolCall.id, name: toolCall.name }, JSON.parse(result));
+
+      toolResults.push({
+        type: "tool_result",
+        tool_use_id: toolCall.id,
+        content: result,
+        ...(validation && !validation.success ? { is_error: true } : {}),
+      });
+    }
+
+    messages.push({ role: "user", content: toolResults });
+  }
+
+  return { operations, rejected, explanation: explanation.trim(), turns: turn };
+}
@@ -0,0 +1,266 @@
+/**
+ * Agent Operations - Map operations onto the GDSM
+ *
+ * operationToMutation keeps the editor's GDSM in step with what the iframe
+ * applied. validateOperation dry-runs an operation against a working GDSM
+ * so the agent loop can report real outcomes (missing elements, text that
+ * isn't there, nothing to remove) back to the model before anything is
+ * proposed to the user.
+ */
+
+import {
+  applyMutation,
+  createMarkId,
+  ElementState,
+  FULL_IMAGE_REGION,
+  REDACTION_MASK_CHAR,
+  resolveImageRegion,
+  resolveTextRange,
+  type BoundingBox,
+  type GDSM,
+  type GDSMElement,
+  type GDSMMutation,
+} from "@/lib/gdsm";
+import type { AgentOperation } from "./tools";
+import type { ExecutionResult } from "./executor";
+
+/**
+ * Map an operation to the GDSM mutation it represents
+ * Some operations need the execution result: range offsets the iframe
+ * resolved, a comment's author, the text an unmarked redaction restored,
+ * the image region a redaction covers.
+ * Returns null for operations that don't change element state (e.g. drawn
+ * highlights)
+ */
+export function operationToMutation(
+  operation: AgentOperation,
+  result?: Record<string, unknown>
+): GDSMMutation | null {
+  const { tool, input } = operation;
+  const elementId = input.elementId as string | undefined;
+  if (!elementId) return null;
+
+  switch (tool) {
+    case "redact_text_range":
+    case "highlight_text_range": {
+      if (typeof result?.start !== "number" || typeof result?.end !== "number") return null;
+      return {
+        type: tool === "redact_text_range" ? "redact_range" : "highlight_range",
+        elementId,
+        range: { start: result.start, end: result.end },
+        rangeId: result.rangeId as string | undefined,
+        reason: tool === "redact_text_range" ? (input.reason as string | undefined) : undefined,
+      };
+    }
+    case "redact_image_region":
+    case "redact_element": {
+      // Images are redacted as a region covering all of them
+      const region = result?.region as BoundingBox | undefined;
+      if (region) {
+        return {
+          type: "redact_region",
+          elementId,
+          region,
+          regionId: result?.regionId as string | undefined,
+          reason: input.reason as string | undefined,
+        };
+      }
+      return tool === "redact_element" ? { type: "redact", elementId } : null;
+    }
+    case "set_element_text":
+      return { type: "set_text", elementId, newText: input.text as string };
+    case "highlight_element":
+      return { type: "highlight", elementId };
+    case "add_comment":
+      return {
+        type: "add_comment",
+        elementId,
+        commentText: input.text as string,
+        commentAuthor: typeof result?.author === "string" ? result.author : undefined,
+      };
+    case "delete_element":
+      return { type: "delete", elementId };
+    case "remove_highlight":
+      return { type: "remove_highlight", elementId };
+    case "remove_comment":
+      return { type: "remove_comment", elementId };
+    case "edit_comment":
+      return { type: "edit_comment", elementId, commentText: input.text as string };
+    case "unmark_redaction":
+      return {
+        type: "unredact",
+        elementId,
+        newText: typeof result?.restoredText === "string" ? result.restoredText : undefined,
+      };
+    default:
+      return null;
+  }
+}
+
+function hasRange(element: GDSMElement, kind: "redact" | "highlight"): boolean {
+  return !!element.ranges?.some((mark) => mark.kind === kind);
+}
+
+/**
+ * Check an operation against its element: an error, or the result the
+ * iframe would report (range offsets, restored text)
+ */
+function checkOperation(
+  element: GDSMElement,
+  operation: AgentOperation
+): { error: string } | { result?: Record<string, unknown> } {
+  const { tool, input } = operation;
+  const redacted = (element.state & ElementState.REDACTED) !== 0;
+
+  switch (tool) {
+    case "set_element_text":
+      if (typeof input.text !== "string") return { error: "Missing text" };
+      if (element.image) return { error: "Element is an image and has no text" };
+      if (redacted) return { error: "Element is redacted - unmark the redaction before editing its text" };
+      return {};
+
+    case "redact_element":
+      if (redacted) return { error: "Element is already redacted" };
+      if (element.image) {
+        return { result: { regionId: createMarkId("region"), region: { ...FULL_IMAGE_REGION } } };
+      }
+      return {};
+
+    case "redact_image_region": {
+      if (!element.image) return { error: "Element is not an image - use redact_element or redact_text_range for text" };
+      if (redacted) return { error: "Image is already redacted" };
+      const { region, error } = resolveImageRegion(element, input);
+      if (!region) return { error: error || "Invalid region" };
+      return { result: { regionId: createMarkId("region"), region } };
+    }
+
+    case "highlight_element":
+    case "delete_element":
+      return {};
+
+    case "redact_text_range":
+    case "highlight_text_range": {
+      if (element.image) return { error: "Element is an image - use redact_image_region for part of it" };
+      if (redacted) return { error: "Element is redacted" };
+      const { range, error } = resolveTextRange(element.text, input);
+      if (!range) return { error: error || "Invalid range" };
+      const covered = element.text.slice(range.start, range.end);
+      if (tool === "redact_text_range" && covered.split("").every((char) => char === REDACTION_MASK_CHAR)) {
+        return { error: "Range is already redacted" };
+      }
+      return { result: { start: range.start, end: range.end } };
+    }
+
+    case "add_comment":
+      if (typeof input.text !== "string" || !input.text.trim()) return { error: "Missing comment text" };
+      return {};
+
+    case "remove_highlight":
+      if (!(element.state & ElementState.HIGHLIGHTED) && !hasRange(element, "highlight")) {
+        return { error: "Element has no highlight" };
+      }
+      return {};
+
+    case "remove_comment":
+    case "edit_comment":
+      if (!(element.state & ElementState.COMMENTED)) return { error: "Element has no comment" };
+      if (tool === "edit_comment" && (typeof input.text !== "string" || !input.text.trim())) {
+        return { error: "Missing comment text" };
+      }
+      return {};
+
+    case "unmark_redaction":
+      if (!redacted && !hasRange(element, "redact") && !element.image?.redactions?.length) {
+        return { error: "Element has no redaction" };
+      }
+      // The redacted text isn't in the GDSM - keep what the working copy has
+      return { result: { restoredText: element.originalText ?? element.text } };
+
+    default:
+      return { error: `Unknown tool: ${tool}` };
+  }
+}
+
+/**
+ * Dry-run an operation against a working GDSM
+ * Valid operations are applied to the working copy, so later operations in
+ * the same run see their effect (e.g. a second redaction of one element fails)
+ */
+export function validateOperation(gdsm: GDSM, operation: AgentOperation): ExecutionResult {
+  const fail = (error: string): ExecutionResult => ({
+    success: false,
+    operationId: operation.id,
+    tool: operation.tool,
+    error,
+  });
+
+  const elementId = typeof operation.input.elementId === "string" ? operation.input.elementId : "";
+  if (!elementId) return fail("Missing elementId");
+
+  const element = gdsm.elementsById.get(elementId);
+  if (!element) return fail(`Element not found: ${elementId}`);
+  if (element.state & ElementState.DELETED) return fail(`Element was deleted: ${elementId}`);
+
+  const check = checkOperation(element, operation);
+  if ("error" in check) return fail(check.error);
+
+  const mutation = operationToMutation(operation, check.result);
+  if (mutation) applyMutation(gdsm, mutation);
+
+  return { success: true, operationId: operation.id, tool: operation.tool, result: check.result };
+}
+
+const FURNITURE_ACTIONS: Record<string, { element: string; range?: string }> = {
+  redact: { element: "redact_element", range: "redact_text_range" },
+  highlight: { element: "highlight_element", range: "highlight_text_range" },
+  delete: { element: "delete_element" },
+};
+
+/**
+ * Expand a mark_page_furniture call into one operation per instance of a
+ * repeated header, footer or page number (IDs `${callId}-0`, `-1`, ...)
+ * Instances without the requested text are skipped
+ */
+export function expandPageFurnitureCall(
+  gdsm: GDSM,
+  callId: string,
+  input: Record<string, unknown>
+): { operations: AgentOperation[] } | { error: string } {
+  const action = FURNITURE_ACTIONS[input.action as string];
+  if (!action) return { error: `Unknown action: ${String(input.action)}` };
+  const text = typeof input.text === "string" && input.text ? input.text : undefined;
+  if (text && !action.range) return { error: "delete removes whole elements - leave out text" };
+
+  let matches: (el: GDSMElement) => boolean;
+  if (typeof input.elementId === "string" && input.elementId) {
+    const target = gdsm.elementsById.get(input.elementId);
+    if (!target) return { error: `Element not found: ${input.elementId}` };
+    if (!target.furniture) return { error: `Element ${input.elementId} doesn't repeat across pages` };
+    const group = target.furniture.group;
+    matches = (el) => el.furniture?.group === group;
+  } else if (typeof input.kind === "string") {
+    const kind = input.kind;
+    matches = (el) => el.furniture?.kind === kind;
+  } else {
+    return { error: "Give a kind or an elementId" };
+  }
+
+  const instances = Array.from(gdsm.elementsById.values()).filter(
+    (el) => matches(el) && !(el.state & ElementState.DELETED) && (!text || el.text.includes(text))
+  );
+  if (instances.length === 0) {
+    return { error: text ? `No instance contains "${text}"` : "No repeated elements of that kind" };
+  }
+
+  return {
+    operations: instances.map((el, index) => ({
+      id: `${callId}-${index}`,
+      tool: text ? action.range! : action.element,
+      input: {
+        elementId: el.id,
+        ...(text ? { text } : {}),
+        ...(input.action === "redact" ? { reason: input.reason } : {}),
+      },
+    })),
+  };
+}
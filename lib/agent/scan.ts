@@ -0,0 +1,1066 @@
+/**
+ * Document Scanner - Server-side implementation of the scan_document tool (server-only)
+ *
+ * Queries the planner can answer (literal words, phrases, sections, semantic types) are
+ * resolved locally; everything else goes to the scanner LLM, with a contextual
+ * pass first for queries that reference entities ("Party B", "my projects").
+ *
+ * LLM passes are map-reduce: elements are split into page windows that fit
+ * the model comfortably, windows run in parallel, and matches are merged by
+ * element ID. Page 290 of a long contract gets the same attention as page 2.
+ */
+
+import {
+  assembleGDSM,
+  describeImage,
+  describeStyle,
+  executeScanPlan,
+  findQuerySpans,
+  getLayout,
+  hasAnchor,
+  hasTableTarget,
+  layoutPlainText,
+  planScan,
+  scanGDSM,
+  selectRelative,
+  selectTableCells,
+  type PageRegion,
+  type ScanQuery,
+  type ScanScope,
+  type DocumentLocale,
+  type ElementFurniture,
+  type ElementImage,
+  type ElementState,
+  type ElementStyle,
+  type GDSM,
+  type GDSMElement,
+  type ScanTier,
+  type SemanticType,
+  type TextSpan,
+} from "@/lib/gdsm";
+import { generateStructured, getLLMProviders, StructuredOutputError } from "@/lib/llm";
+import type { GDSMElementForScanner } from "./context";
+import type { ScanDocumentInput, ScanTableInput } from "./tools";
+
+export interface ScanMatch {
+  elementId: string;
+  textContent: string;
+  page?: number;
+  // Exact matched substrings when only part of the element matches
+  spans?: TextSpan[];
+  // The element's comment, for markup queries ("my comments")
+  comment?: { text: string; author?: string };
+  // Table tier and scan_table: the cell the element sits in
+  cell?: TableCellRef;
+  // Running header / footer / page number, with the group of its repeats
+  furniture?: ElementFurniture;
+  // Style tier: the font and color the element matched on
+  style?: ElementStyle;
+  // Image elements (no text): the image and its redacted regions
+  image?: ElementImage;
+}
+
+/**
+ * A table cell position (row and column are 0-based; row 0 is the header
+ * when the table has one)
+ */
+export interface TableCellRef {
+  tableId: string;
+  row: number;
+  column: number;
+  header?: string;
+}
+
+/**
+ * A detected table, as listed to the agent
+ */
+export interface TableSummary {
+  tableId: string;
+  page: number;
+  columns: string[]; // Header labels, or "Column N" without a header row
+  hasHeader: boolean;
+  rowCount: number; // Body rows
+}
+
+/**
+ * Scanner LLM match after schema validation (matchedText is located into spans)
+ */
+interface LLMScanMatch {
+  elementId: string;
+  textContent?: string;
+  page?: number;
+  matchedText?: string[];
+}
+
+/**
+ * How much of the document an LLM scan actually covered
+ */
+export interface ScanCoverage {
+  windows: number;
+  failedWindows: number;
+  pagesScanned: number;
+  totalPages: number;
+  missedPages: number[]; // Pages in windows whose scan failed
+}
+
+/**
+ * Scan matches plus the tier that produced them
+ */
+export interface ScanOutcome {
+  results: ScanMatch[];
+  tier: ScanTier;
+  // LLM tier only - planner tiers always cover every element
+  coverage?: ScanCoverage;
+  // The scope couldn't be applied (e.g. its anchor isn't in the document)
+  error?: string;
+}
+
+// Document content per LLM call, in characters (~4 chars per token)
+const SCAN_WINDOW_CHARS = 60000;
+const CONTEXT_WINDOW_CHARS = 50000;
+// Windows in flight at once
+const SCAN_CONCURRENCY = 4;
+
+/**
+ * Result from contextual search LLM - specific search criteria
+ */
+interface ContextualSearchResult {
+  searchCriteria: string;
+  resolvedEntities: Array<{
+    reference: string;
+    resolvedTo: string;
+    context: string;
+  }>;
+  targetContent: string[];
+  strategy: string;
+}
+
+/**
+ * Extract plain text from GDSM elements for contextual understanding
+ * Organizes text by page in layout reading order (columns, then paragraphs)
+ * without element IDs - just the content
+ */
+function extractPlainText(gdsmElements: GDSMElementForScanner[]): string {
+  if (!gdsmElements || gdsmElements.length === 0) return "";
+  return layoutPlainText(gdsmFromScannerElements(gdsmElements).layout);
+}
+
+/**
+ * Split elements into consecutive page windows of at most maxChars
+ * Pages stay whole unless a single page is larger than a window
+ */
+function splitIntoWindows(
+  gdsmElements: GDSMElementForScanner[],
+  sizeOf: (element: GDSMElementForScanner) => number,
+  maxChars: number
+): GDSMElementForScanner[][] {
+  const pageMap = new Map<number, GDSMElementForScanner[]>();
+  gdsmElements.forEach(el => {
+    const elements = pageMap.get(el.page) || [];
+    elements.push(el);
+    pageMap.set(el.page, elements);
+  });
+
+  const windows: GDSMElementForScanner[][] = [];
+  let current: GDSMElementForScanner[] = [];
+  let currentSize = 0;
+  const flush = (): void => {
+    if (current.length > 0) windows.push(current);
+    current = [];
+    currentSize = 0;
+  };
+
+  for (const pageNum of Array.from(pageMap.keys()).sort((a, b) => a - b)) {
+    const pageElements = pageMap.get(pageNum) || [];
+    const pageSize = pageElements.reduce((sum, el) => sum + sizeOf(el), 0);
+
+    if (pageSize <= maxChars) {
+      if (currentSize + pageSize > maxChars) flush();
+      current.push(...pageElements);
+      currentSize += pageSize;
+      continue;
+    }
+
+    // Oversized page - split it on element boundaries
+    flush();
+    for (const el of pageElements) {
+      const size = sizeOf(el);
+      if (currentSize + size > maxChars) flush();
+      current.push(el);
+      currentSize += size;
+    }
+    flush();
+  }
+  flush();
+
+  return windows;
+}
+
+/**
+ * Pages a window covers, in order
+ */
+function windowPages(window: GDSMElementForScanner[]): number[] {
+  return Array.from(new Set(window.map(e => e.page))).sort((a, b) => a - b);
+}
+
+/**
+ * Run fn over items with at most `limit` calls in flight; results keep item order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Build a GDSM from the client's scanner elements
+ * Gives the planner the text index and scanner filters without an LLM call,
+ * and the agent loop a working copy to validate operations against.
+ * Element types were detected client-side in the given locale; they are kept
+ */
+export function gdsmFromScannerElements(gdsmElements: GDSMElementForScanner[], locale?: DocumentLocale): GDSM {
+  const pageNums = Array.from(new Set(gdsmElements.map(e => e.page))).sort((a, b) => a - b);
+  const pages = pageNums.map(pageNum => ({ pageNum, width: 0, height: 0, elementCount: 0 }));
+  const elements: GDSMElement[] = gdsmElements.map(e => ({
+    ...e,
+    state: e.state as ElementState,
+    semanticType: e.semanticType as SemanticType | undefined,
+  }));
+  const gdsm = assembleGDSM(pages, elements);
+  if (locale) gdsm.locale = locale;
+  return gdsm;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+/**
+ * Validate scanner output against the elements the model was shown
+ * Malformed items and IDs outside the window are rejected so the model
+ * retries with the issues listed; on the final attempt they are dropped
+ */
+function parseScanMatches(value: unknown, windowIds: Set<string>, finalAttempt: boolean): LLMScanMatch[] {
+  if (!Array.isArray(value)) {
+    throw new StructuredOutputError("schema", "Expected a JSON array of matches");
+  }
+
+  const matches: LLMScanMatch[] = [];
+  const issues: string[] = [];
+  value.forEach((item, index) => {
+    if (!isRecord(item) || typeof item.elementId !== "string") {
+      issues.push(`Item ${index} needs an "elementId" string`);
+      return;
+    }
+    if (!windowIds.has(item.elementId)) {
+      issues.push(`Unknown elementId "${item.elementId}" - use only IDs listed in <elements>`);
+      return;
+    }
+    if (item.matchedText !== undefined && !isStringArray(item.matchedText)) {
+      issues.push(`Item ${index} ("${item.elementId}"): "matchedText" must be an array of strings`);
+      return;
+    }
+    matches.push({
+      elementId: item.elementId,
+      ...(typeof item.textContent === "string" ? { textContent: item.textContent } : {}),
+      ...(typeof item.page === "number" ? { page: item.page } : {}),
+      ...(item.matchedText !== undefined ? { matchedText: item.matchedText } : {}),
+    });
+  });
+
+  if (issues.length > 0) {
+    if (!finalAttempt) {
+      throw new StructuredOutputError("schema", `${issues.length} invalid match(es)`, issues);
+    }
+    console.log(`   ⚠️ [SCAN] Dropped ${issues.length} invalid match(es): ${issues.join("; ")}`);
+  }
+  return matches;
+}
+
+/**
+ * Validate contextual search output
+ * Entity and target entries that don't fit the schema are rejected (dropped
+ * on the final attempt); a missing searchCriteria always fails
+ */
+function parseContextualResult(value: unknown, finalAttempt: boolean): ContextualSearchResult {
+  if (!isRecord(value)) {
+    throw new StructuredOutputError("schema", "Expected a JSON object");
+  }
+  if (typeof value.searchCriteria !== "string" || !value.searchCriteria.trim()) {
+    throw new StructuredOutputError("schema", `"searchCriteria" must be a non-empty string`);
+  }
+
+  const issues: string[] = [];
+  const entities = Array.isArray(value.resolvedEntities) ? value.resolvedEntities : [];
+  if (value.resolvedEntities !== undefined && !Array.isArray(value.resolvedEntities)) {
+    issues.push(`"resolvedEntities" must be an array`);
+  }
+  const resolvedEntities = entities.filter((entity, index): entity is ContextualSearchResult["resolvedEntities"][number] => {
+    const valid = isRecord(entity) &&
+      typeof entity.reference === "string" &&
+      typeof entity.resolvedTo === "string" &&
+      typeof entity.context === "string";
+    if (!valid) issues.push(`resolvedEntities[${index}] needs "reference", "resolvedTo" and "context" strings`);
+    return valid;
+  });
+
+  const targets = Array.isArray(value.targetContent) ? value.targetContent : [];
+  if (value.targetContent !== undefined && !Array.isArray(value.targetContent)) {
+    issues.push(`"targetContent" must be an array of strings`);
+  }
+  const targetContent = targets.filter((target, index): target is string => {
+    if (typeof target !== "string") issues.push(`targetContent[${index}] must be a string`);
+    return typeof target === "string";
+  });
+
+  if (issues.length > 0 && !finalAttempt) {
+    throw new StructuredOutputError("schema", `${issues.length} invalid field(s)`, issues);
+  }
+
+  return {
+    searchCriteria: value.searchCriteria,
+    resolvedEntities,
+    targetContent,
+    strategy: typeof value.strategy === "string" ? value.strategy : "",
+  };
+}
+
+/**
+ * Locate every occurrence of the model's matched substrings in the element text
+ * Substrings that don't occur verbatim are dropped
+ */
+function locateSpans(text: string, substrings: string[] | undefined): TextSpan[] | undefined {
+  if (!substrings) return undefined;
+
+  const spans: TextSpan[] = [];
+  for (const substring of substrings) {
+    if (!substring.trim() || substring === text) continue;
+    for (let index = text.indexOf(substring); index !== -1; index = text.indexOf(substring, index + substring.length)) {
+      if (!spans.some((span) => index < span.end && index + substring.length > span.start)) {
+        spans.push({ start: index, end: index + substring.length, text: substring });
+      }
+    }
+  }
+  spans.sort((a, b) => a.start - b.start);
+  return spans.length > 0 ? spans : undefined;
+}
+
+/**
+ * Detect if a query needs contextual resolution
+ * These are queries with entity references, relational terms, or semantic complexity
+ */
+function needsContextualResolution(query: string): boolean {
+  const contextualPatterns = [
+    // Entity references
+    /party\s+[a-z]/i,                    // "Party A", "Party B"
+    /the\s+(buyer|seller|vendor|client|contractor|employee|employer)/i,
+    /\b(their|his|her|its)\s+\w+/i,      // Possessive references
+    /\bmy\s+\w+/i,                        // "my projects", "my experience"
+
+    // Relational/semantic queries
+    /related\s+to/i,
+    /associated\s+with/i,
+    /information\s+(about|regarding|concerning)/i,
+    /belongs?\s+to/i,
+    /owned\s+by/i,
+
+    // Financial/legal terms that need context
+    /financial\s+(information|data|details|records)/i,
+    /confidential\s+\w+/i,
+    /sensitive\s+\w+/i,
+    /personal\s+\w+/i,
+
+    // References that need document understanding
+    /the\s+(company|organization|firm|corporation)/i,
+    /\b(first|second|third)\s+(party|company|section)/i,
+  ];
+
+  return contextualPatterns.some(pattern => pattern.test(query));
+}
+
+/**
+ * Contextual Search LLM - Understands document content and resolves entities
+ *
+ * This is the first pass in the two-pass architecture:
+ * 1. Contextual Search LLM (this): Reads plain text, understands context, resolves entities
+ * 2. Scanner LLM: Searches GDSM with element IDs to find specific matches
+ */
+async function resolveContextualQuery(
+  query: string,
+  plainText: string,
+  windowLabel?: string
+): Promise<ContextualSearchResult | null> {
+  console.log(`\n🧠 [CONTEXT] Starting contextual query resolution`);
+  console.log(`📝 [CONTEXT] Original query: "${query}"`);
+  console.log(`📄 [CONTEXT] Document text: ${plainText.length} chars`);
+
+  // Callers pass one window at a time - this only trims a window made of a
+  // single oversized element
+  const truncatedText = plainText.length > CONTEXT_WINDOW_CHARS
+    ? plainText.substring(0, CONTEXT_WINDOW_CHARS) + "\n\n[... text truncated ...]"
+    : plainText;
+
+  const contextualPrompt = `<contextual_search_llm>
+
+<role>
+You are the Contextual Search LLM in a two-pass document search system.
+Your job is to READ and UNDERSTAND the document, then provide SPECIFIC search criteria for the Scanner LLM.
+</role>
+
+<task>
+Given a user's query and document content:
+1. READ the entire document to understand its structure, entities, and relationships
+2. IDENTIFY who/what the query refers to (entity resolution)
+3. OUTPUT specific, concrete search criteria that reference ACTUAL content from the document
+</task>
+
+<user_query>${query}</user_query>
+${windowLabel ? `\n<document_window>This is ${windowLabel} of a longer document. Resolve what this part shows; other parts are read separately.</document_window>\n` : ''}
+<document_content>
+${truncatedText}
+</document_content>
+
+<entity_resolution_rules>
+When the query contains entity references, you MUST resolve them:
+
+- "Party A" / "Party B" → Find actual names (e.g., "Acme Corporation", "John Smith")
+- "the Buyer" / "the Seller" → Find who is playing that role in the document
+- "my projects" → Identify project names mentioned
+- "their financial information" → Identify whose finances AND what specific financial data appears
+- "the company" → Identify which company is referenced in context
+</entity_resolution_rules>
+
+<output_format>
+Return a JSON object with these fields:
+
+{
+  "searchCriteria": "A detailed, specific description for the Scanner LLM. Reference ACTUAL content from the document.",
+
+  "resolvedEntities": [
+    {
+      "reference": "Party B",
+      "resolvedTo": "Acme Corporation",
+      "context": "Identified as the Buyer in the contract header"
+    }
+  ],
+
+  "targetContent": [
+    "Specific text or patterns to find",
+    "For example: '$50,000', 'Acme Corporation', 'Payment Terms'"
+  ],
+
+  "strategy": "Brief explanation of search strategy"
+}
+</output_format>
+
+<examples>
+
+<example>
+Query: "redact Party B's financial information"
+Document contains: "AGREEMENT between TechStart Inc. (Party A, the Seller) and Acme Corporation (Party B, the Buyer). Purchase Price: $500,000. Payment Schedule: 50% upfront, 50% on delivery."
+
+Output:
+{
+  "searchCriteria": "Find all financial information related to Acme Corporation (identified as Party B/the Buyer). This includes: dollar amounts like '$500,000', payment terms, percentages like '50%', and any text mentioning purchase price, payment schedule, or payment terms.",
+  "resolvedEntities": [
+    {"reference": "Party B", "resolvedTo": "Acme Corporation", "context": "Defined in agreement header as 'Party B, the Buyer'"}
+  ],
+  "targetContent": ["$500,000", "50%", "Acme Corporation", "Payment Schedule", "Purchase Price"],
+  "strategy": "Search for resolved entity name and all monetary/payment content associated with their role as Buyer"
+}
+</example>
+
+<example>
+Query: "highlight my project names"
+Document contains: "PROJECTS: DataViz Pro - Analytics dashboard... CloudSync - File synchronization... Resume Builder - AI-powered resume tool"
+
+Output:
+{
+  "searchCriteria": "Find project names which appear as capitalized titles, typically formatted as 'Name - Description'. Specific projects to find: 'DataViz Pro', 'CloudSync', 'Resume Builder'",
+  "resolvedEntities": [],
+  "targetContent": ["DataViz Pro", "CloudSync", "Resume Builder"],
+  "strategy": "Search for identified project names as they appear in the PROJECTS section"
+}
+</example>
+
+</examples>
+
+<critical_rules>
+1. You MUST read the document and reference ACTUAL content, not generic patterns
+2. Your output should be specific enough that the Scanner can find exact matches
+3. If you cannot resolve an entity, explain what you found and suggest alternatives
+4. Always provide targetContent with specific strings from the document
+5. Return ONLY valid JSON - no explanations outside the JSON
+</critical_rules>
+
+</contextual_search_llm>`;
+
+  try {
+    console.log(`⏳ [CONTEXT] Calling contextual model...`);
+    const startTime = Date.now();
+
+    const { value: parsed, provider, attempts } = await generateStructured(
+      getLLMProviders().contextual,
+      contextualPrompt,
+      "object",
+      parseContextualResult,
+      { label: "CONTEXT" }
+    );
+
+    console.log(`✅ [CONTEXT] ${provider} responded in ${Date.now() - startTime}ms (${attempts} attempt(s))`);
+
+    console.log(`🎯 [CONTEXT] Resolved entities: ${parsed.resolvedEntities.length}`);
+    parsed.resolvedEntities.forEach(e =>
+      console.log(`   - "${e.reference}" → "${e.resolvedTo}" (${e.context})`)
+    );
+    console.log(`🎯 [CONTEXT] Target content: ${parsed.targetContent.join(', ')}`);
+    console.log(`🎯 [CONTEXT] Strategy: ${parsed.strategy}`);
+
+    return parsed;
+  } catch (error) {
+    console.error(`❌ [CONTEXT] Error in contextual resolution:`, error);
+    return null;
+  }
+}
+
+/**
+ * Merge contextual results from several windows
+ * Entities and target content are unioned; criteria and strategies are kept
+ * in page order
+ */
+function mergeContextualResults(results: ContextualSearchResult[]): ContextualSearchResult | null {
+  if (results.length === 0) return null;
+  if (results.length === 1) return results[0];
+
+  const entities = new Map<string, ContextualSearchResult["resolvedEntities"][number]>();
+  for (const entity of results.flatMap(r => r.resolvedEntities ?? [])) {
+    const key = `${entity.reference}\u0000${entity.resolvedTo}`.toLowerCase();
+    if (!entities.has(key)) entities.set(key, entity);
+  }
+
+  const unique = (values: string[]): string[] => Array.from(new Set(values.filter(Boolean)));
+  return {
+    searchCriteria: unique(results.map(r => r.searchCriteria)).join("\n"),
+    resolvedEntities: Array.from(entities.values()),
+    targetContent: unique(results.flatMap(r => r.targetContent ?? [])),
+    strategy: unique(results.map(r => r.strategy)).join(" "),
+  };
+}
+
+/**
+ * Contextual pass over page windows, merged into one result
+ */
+async function resolveContextualQueryWindowed(
+  query: string,
+  gdsmElements: GDSMElementForScanner[]
+): Promise<ContextualSearchResult | null> {
+  const windows = splitIntoWindows(gdsmElements, e => e.text.length + 1, CONTEXT_WINDOW_CHARS);
+  if (windows.length > 1) {
+    console.log(`🧠 [CONTEXT] Document split into ${windows.length} windows`);
+  }
+
+  const results = await mapWithConcurrency(windows, SCAN_CONCURRENCY, window => {
+    const pages = windowPages(window);
+    const label = windows.length > 1 ? `pages ${pages[0]}-${pages[pages.length - 1]}` : undefined;
+    return resolveContextualQuery(query, extractPlainText(window), label);
+  });
+
+  return mergeContextualResults(results.filter((r): r is ContextualSearchResult => r !== null));
+}
+
+const PAGE_REGIONS: PageRegion[] = [
+  "top", "middle", "bottom", "left", "right", "top_left", "top_right", "bottom_left", "bottom_right",
+];
+const SPATIAL_RELATIONS = ["above", "below", "left_of", "right_of", "nearest"] as const;
+
+/**
+ * Page and position scope from scan_document's structured parameters
+ * Returns an error for parameters that don't fit together
+ */
+export function scanScopeFromInput(input: ScanDocumentInput): { scope?: ScanScope; error?: string } {
+  const scope: ScanScope = {};
+
+  if (input.page === "last") {
+    scope.lastPage = true;
+  } else if (typeof input.page === "number") {
+    scope.pages = [input.page];
+  }
+
+  if (input.region && input.box) return { error: "Give region or box, not both" };
+  if (input.region) {
+    if (!PAGE_REGIONS.includes(input.region)) return { error: `Unknown region: ${input.region}` };
+    scope.region = input.region;
+  }
+  if (input.box) {
+    const { x, y, width, height } = input.box;
+    if (![x, y, width, height].every(value => typeof value === "number") || width <= 0 || height <= 0) {
+      return { error: "box needs numeric x, y and a positive width and height" };
+    }
+    scope.region = { x, y, width, height };
+  }
+
+  if (input.relation && !input.anchor) return { error: "relation needs an anchor" };
+  if (input.anchor) {
+    const relation = input.relation ?? "nearest";
+    if (!SPATIAL_RELATIONS.includes(relation)) return { error: `Unknown relation: ${relation}` };
+    scope.relativeTo = {
+      anchor: input.anchor,
+      relation,
+      ...(typeof input.maxDistance === "number" ? { maxDistance: input.maxDistance } : {}),
+      ...(typeof input.limit === "number" && input.limit > 0 ? { limit: Math.floor(input.limit) } : {}),
+    };
+  }
+
+  return { scope };
+}
+
+/**
+ * Use LLM to intelligently scan GDSM and find matching elements
+ *
+ * Strategy: Two-pass architecture for semantic queries:
+ * 1. Contextual Search LLM (gemini-3-flash-preview): Reads document text, resolves entities
+ * 2. Scanner LLM (groq/gemini): Searches GDSM with element IDs
+ *
+ * For simple queries, skip the contextual pass and go directly to scanner.
+ */
+export async function scanDocument(
+  query: string,
+  gdsmElements: GDSMElementForScanner[],
+  locale?: DocumentLocale,
+  scope?: ScanScope
+): Promise<ScanOutcome> {
+  console.log(`\n🔍 [SCAN] Starting GDSM scan for query: "${query}"`);
+  console.log(`📋 [SCAN] GDSM elements: ${gdsmElements.length}`);
+
+  // Well-typed queries (literal words, phrases, sections, semantic types) are answered locally
+  const plan = planScan(query, scope);
+  console.log(`🧭 [SCAN] Planner chose ${plan.tier} tier (${plan.reason})`);
+  // "nearest" and closest-N anchors are applied again to the LLM's matches
+  let narrowToAnchor: ((matches: ScanMatch[]) => ScanMatch[]) | null = null;
+  if (gdsmElements.length > 0) {
+    const gdsm = gdsmFromScannerElements(gdsmElements, locale);
+    const anchor = plan.spatial?.relativeTo?.anchor;
+    if (anchor && !hasAnchor(gdsm, anchor)) {
+      const error = `Anchor not found: "${anchor}" is neither an element ID nor text in the document`;
+      return { results: [], tier: plan.tier, error };
+    }
+
+    const planned = executeScanPlan(gdsm, plan);
+    if (planned) {
+      const cells = planned.tier === "table" ? cellsByElement(gdsm, plan.queries) : null;
+      const results = planned.elements.map(el => {
+        // Phrase matches carry their own spans (the phrase may continue in the next element)
+        const spans = planned.spans?.get(el.id) ?? findQuerySpans(el.text, plan.queries, gdsm.locale);
+        const cell = cells?.get(el.id);
+        return {
+          elementId: el.id,
+          textContent: el.text,
+          page: el.page,
+          // Omitted when the match covers the whole element
+          ...(spans.length > 0 && !(spans.length === 1 && spans[0].text === el.text) ? { spans } : {}),
+          ...(el.comment ? { comment: { text: el.comment.text, author: el.comment.author } } : {}),
+          ...(cell ? { cell } : {}),
+          ...(el.furniture ? { furniture: el.furniture } : {}),
+          ...(planned.tier === "style" && el.style ? { style: el.style } : {}),
+          ...(el.image ? { image: el.image } : {}),
+        };
+      });
+      console.log(`⚡ [SCAN] Answered by ${planned.tier} tier: ${results.length} matches`);
+      return { results, tier: planned.tier };
+    }
+
+    // "... in the header": the LLM only sees that page furniture
+    if (plan.furniture) {
+      const kind = plan.furniture;
+      const ids = new Set(Array.from(gdsm.elementsById.values()).filter(el => el.furniture?.kind === kind).map(el => el.id));
+      gdsmElements = gdsmElements.filter(e => ids.has(e.id));
+      console.log(`🗂️ [SCAN] Limited to ${gdsmElements.length} ${kind} elements`);
+    }
+
+    // Position scope: the LLM only sees elements in the region or beside the anchor
+    if (plan.spatial) {
+      const { relativeTo, ...pageScope } = plan.spatial;
+      let candidates = scanGDSM(gdsm, pageScope).elements;
+      if (relativeTo) {
+        candidates = selectRelative(gdsm, candidates, relativeTo, pageScope.pages, true).elements;
+        narrowToAnchor = (matches) => {
+          const matched = matches.map(m => gdsm.elementsById.get(m.elementId)!);
+          const kept = new Set(selectRelative(gdsm, matched, relativeTo, pageScope.pages).elements.map(el => el.id));
+          return matches.filter(m => kept.has(m.elementId));
+        };
+      }
+      const ids = new Set(candidates.map(el => el.id));
+      gdsmElements = gdsmElements.filter(e => ids.has(e.id));
+      console.log(`📐 [SCAN] Limited to ${gdsmElements.length} elements by position`);
+    }
+  }
+
+  // Check if query needs contextual resolution (entity references, semantic complexity)
+  let effectiveQuery = query;
+  let contextualResult: ContextualSearchResult | null = null;
+
+  if (needsContextualResolution(query)) {
+    console.log(`🧠 [SCAN] Query needs contextual resolution, invoking Contextual Search LLM...`);
+
+    // Enough text to understand (the contextual pass reads it in page windows)
+    const textLength = gdsmElements.reduce((sum, e) => sum + e.text.length, 0);
+
+    if (textLength > 100) {
+      contextualResult = await resolveContextualQueryWindowed(query, gdsmElements);
+
+      if (contextualResult) {
+        // Use the enhanced search criteria from contextual LLM
+        effectiveQuery = contextualResult.searchCriteria;
+        console.log(`🎯 [SCAN] Using enhanced query: "${effectiveQuery.substring(0, 200)}..."`);
+      } else {
+        console.log(`⚠️ [SCAN] Contextual resolution failed, using original query`);
+      }
+    }
+  } else {
+    console.log(`⚡ [SCAN] Query is simple, skipping contextual resolution`);
+  }
+
+  if (gdsmElements.length === 0) {
+    console.log(`⚠️ [SCAN] No elements in GDSM - returning empty`);
+    return { results: [], tier: "llm" };
+  }
+
+  // Log sample elements
+  console.log(`📋 [SCAN] Sample elements (first 5):`);
+  gdsmElements.slice(0, 5).forEach(e =>
+    console.log(`   - [${e.id}] p${e.page} (${e.x.toFixed(0)},${e.y.toFixed(0)}) "${e.text.substring(0, 50)}${e.text.length > 50 ? '...' : ''}"`)
+  );
+
+  // Element lines with coordinates for spatial context, split into page windows
+  const elementLines = new Map(gdsmElements.map(e => {
+    const pos = `(${e.x.toFixed(0)},${e.y.toFixed(0)}) ${e.width.toFixed(0)}x${e.height.toFixed(0)}`;
+    const type = e.semanticType ? ` [${e.semanticType}]` : '';
+    const style = e.style ? describeStyle(e.style) : '';
+    const image = e.image ? ` [${describeImage(e.image)}]` : '';
+    return [e.id, `[${e.id}] page ${e.page} | pos: ${pos}${type}${image}${style ? ` {${style}}` : ''}: "${e.text}"`];
+  }));
+  const windows = splitIntoWindows(
+    gdsmElements,
+    e => (elementLines.get(e.id)?.length ?? 0) + 1,
+    SCAN_WINDOW_CHARS
+  );
+  const totalPages = new Set(gdsmElements.map(e => e.page)).size;
+
+  console.log(`📤 [SCAN] Sending ${gdsmElements.length} elements on ${totalPages} pages to LLM in ${windows.length} window(s)`);
+
+  // For debugging: check local regex matches to compare with LLM
+  const wordMatch = query.match(/containing (?:the word )?['"']?(\w+)['"']?/i);
+  if (wordMatch) {
+    const word = wordMatch[1];
+    const regexMatches = gdsmElements.filter(e =>
+      new RegExp(`\\b${word}\\b`, 'i').test(e.text)
+    );
+    console.log(`🔬 [SCAN] Regex found ${regexMatches.length} matches for "${word}":`);
+    regexMatches.forEach(e => console.log(`   - [${e.id}] "${e.text.substring(0, 60)}"`));
+  }
+
+  // Build contextual hints section if we have contextual resolution results
+  let contextualHints = '';
+  if (contextualResult) {
+    const entityInfo = contextualResult.resolvedEntities.length > 0
+      ? contextualResult.resolvedEntities.map(e =>
+          `- "${e.reference}" = "${e.resolvedTo}" (${e.context})`
+        ).join('\n')
+      : '';
+
+    const targetInfo = contextualResult.targetContent.length > 0
+      ? `Target content to find:\n${contextualResult.targetContent.map(t => `- "${t}"`).join('\n')}`
+      : '';
+
+    contextualHints = `
+<contextual_intelligence>
+The Contextual Search LLM has analyzed the document and resolved the query.
+
+${entityInfo ? `<resolved_entities>\n${entityInfo}\n</resolved_entities>` : ''}
+
+${targetInfo ? `<target_content>\n${targetInfo}\n</target_content>` : ''}
+
+<strategy>${contextualResult.strategy}</strategy>
+
+PRIORITY: Use the target content and resolved entities above to find matches.
+These are SPECIFIC items identified from the document that match the user's intent.
+</contextual_intelligence>
+`;
+  }
+
+  const buildScanPrompt = (elementList: string, windowLabel?: string): string => `<document_scanner>
+
+<task>
+Find ALL elements matching the query using SEMANTIC UNDERSTANDING and SPATIAL AWARENESS.
+</task>
+
+<data_source>
+Global Document Structure Model (GDSM):
+- Element ID (e.g., "pf1-el-42")
+- Page number
+- Position: (x,y) + width×height in pixels
+- Semantic type: [email], [phone], [date], [url], etc.
+- Font style: {9px bold italic #c00000} (size, weight, slant and non-black color, when known)
+- Images: [image "alt text"] on elements with no text (photos, logos, signatures, figures)
+- Text content
+
+Position gives layout context: headers at y≈0, footers at y≈max, indented content, etc.
+</data_source>
+
+<user_query>${effectiveQuery}</user_query>
+${contextualHints}
+${windowLabel ? `\n<document_window>These are the elements on ${windowLabel}. Other pages are scanned separately - only return IDs listed below.</document_window>\n` : ''}
+<elements>
+${elementList}
+</elements>
+
+<matching_rules>
+
+<semantic_patterns>
+Query may be SEMANTIC, not literal. INTERPRET meaning:
+
+<pattern type="section_headers">
+  Triggers: "section titles", "section headings", "headers like EXPERIENCE"
+  Find: ALL-CAPS text ("EXPERIENCE", "EDUCATION", "TECHNICAL PROJECTS")
+  - Standalone (not mid-sentence)
+  - Short (< 30 chars)
+  - Common headers: EXPERIENCE, EDUCATION, SKILLS, PROJECTS, SUMMARY, OBJECTIVE
+</pattern>
+
+<pattern type="project_names">
+  Triggers: "project names", "my projects", "project titles"
+  Find: Proper nouns (capitalized), often followed by " - " or " | "
+  - Starts with capital
+  - Title format (2-4 words)
+  - NOT full sentences
+  - Near bullet points
+</pattern>
+
+<pattern type="contact_info">
+  Triggers: "contact information", "contact details"
+  Find: Email (@), phone (digit patterns), often at top/bottom
+  - [email] or [phone] semantic types
+  - y < 100 (header) or y > page_height-100 (footer)
+</pattern>
+
+<pattern type="dates">
+  Triggers: "dates", "date ranges"
+  Find: MM/DD/YYYY, Month YYYY, YYYY-YYYY formats
+  - [date] semantic type
+  - Month names, year patterns
+</pattern>
+
+</semantic_patterns>
+
+<exact_word>
+For "containing [word]":
+Match STANDALONE word only (with spaces/punctuation boundaries)
+
+"containing French":
+✅ "French language" (standalone)
+❌ "Francophone" (substring)
+</exact_word>
+
+<pattern_match>
+For structural patterns (emails, phones, SSNs):
+Match FORMAT, not literal text
+Use semantic type hints
+</pattern_match>
+
+<spatial>
+Use position:
+- Headers: y < 100
+- Footers: y > page_height-100
+- Indented: x > 50
+- Same line: same y ± 5px
+</spatial>
+
+</matching_rules>
+
+<quality>
+1. THOROUGH - scan every element
+2. PRECISE - match exactly what's requested
+3. SEMANTIC - understand intent
+4. When unsure, INCLUDE (false positive > false negative)
+</quality>
+
+<output>
+JSON array of matching elements:
+[
+  {"elementId": "pf1-el-42", "textContent": "example", "page": 1},
+  {"elementId": "pf2-el-15", "textContent": "Contact: jane@acme.com", "page": 2, "matchedText": ["jane@acme.com"]}
+]
+
+When only PART of an element matches (an email, name or number inside a longer line), add "matchedText" with the exact matching substrings, copied verbatim from the element text.
+
+If none: []
+
+Return ONLY JSON - no explanations.
+</output>
+
+</document_scanner>`;
+
+  // Map: scan every window. A window that fails is reported in coverage
+  // rather than failing the whole scan
+  const windowResults = await mapWithConcurrency(windows, SCAN_CONCURRENCY, async (window, index) => {
+    const pages = windowPages(window);
+    const label = windows.length > 1 ? `pages ${pages[0]}-${pages[pages.length - 1]}` : undefined;
+    const elementList = window.map(e => elementLines.get(e.id)).join('\n');
+    const tag = windows.length > 1 ? ` window ${index + 1}/${windows.length} (${label})` : '';
+
+    // Providers are tried in order; Groq is skipped for prompts beyond its context window
+    console.log(`📏 [SCAN]${tag} Element list size: ${elementList.length} chars`);
+
+    try {
+      console.log(`⏳ [SCAN]${tag} Calling scanner model...`);
+      const startTime = Date.now();
+      const windowIds = new Set(window.map(e => e.id));
+      const { value: matches, provider, attempts } = await generateStructured(
+        getLLMProviders().scanner,
+        buildScanPrompt(elementList, label),
+        "array",
+        (value, finalAttempt) => parseScanMatches(value, windowIds, finalAttempt),
+        { temperature: 0.1, maxTokens: 8000, label: "SCAN" }
+      );
+      console.log(`✅ [SCAN]${tag} ${provider} responded in ${Date.now() - startTime}ms (${attempts} attempt(s))`);
+      console.log(`📊 [SCAN]${tag} Valid results from LLM: ${matches.length} matches`);
+      return { pages, matches, failed: false };
+    } catch (error) {
+      // Unusable output after retries, or every provider failed - never an empty "no matches"
+      console.error(`❌ [SCAN]${tag} Error:`, error instanceof StructuredOutputError ? error.message : error);
+      return { pages, matches: [] as LLMScanMatch[], failed: true };
+    }
+  });
+
+  // Reduce: merge matches by element ID (IDs were validated per window;
+  // matched substrings from every window that returned the element are kept)
+  const matchedText = new Map<string, string[]>();
+  const reported = new Map<string, LLMScanMatch>();
+  for (const { matches } of windowResults) {
+    for (const r of matches) {
+      if (!reported.has(r.elementId)) reported.set(r.elementId, r);
+      if (r.matchedText) {
+        matchedText.set(r.elementId, [...(matchedText.get(r.elementId) ?? []), ...r.matchedText]);
+      }
+    }
+  }
+
+  // Document order, whatever order the windows finished in
+  const validResults: ScanMatch[] = [];
+  for (const element of gdsmElements) {
+    const r = reported.get(element.id);
+    if (!r) continue;
+    reported.delete(element.id);
+
+    const spans = locateSpans(element.text, matchedText.get(element.id));
+    validResults.push({
+      elementId: element.id,
+      textContent: r.textContent ?? element.text,
+      page: r.page ?? element.page,
+      ...(spans ? { spans } : {}),
+    });
+  }
+
+  const failed = windowResults.filter(w => w.failed);
+  const missedPages = Array.from(new Set(failed.flatMap(w => w.pages))).sort((a, b) => a - b);
+  const coverage: ScanCoverage = {
+    windows: windows.length,
+    failedWindows: failed.length,
+    pagesScanned: totalPages - missedPages.length,
+    totalPages,
+    missedPages,
+  };
+
+  console.log(`✅ [SCAN] Final valid results: ${validResults.length} matches (${coverage.pagesScanned}/${totalPages} pages scanned)`);
+  validResults.forEach(r => console.log(`   - [${r.elementId}] "${r.textContent.substring(0, 40)}${r.textContent.length > 40 ? '...' : ''}"`));
+
+  const results = narrowToAnchor ? narrowToAnchor(validResults) : validResults;
+  return { results, tier: "llm", coverage };
+}
+
+// ===== TABLES =====
+
+/**
+ * Cell of each element the table queries select
+ */
+function cellsByElement(gdsm: GDSM, queries: ScanQuery[]): Map<string, TableCellRef> {
+  const cells = new Map<string, TableCellRef>();
+  const layout = getLayout(gdsm);
+  queries.forEach(query => {
+    selectTableCells(layout, query).forEach(({ tableId, row, column, header, elementIds }) => {
+      elementIds.forEach(id => cells.set(id, { tableId, row, column, ...(header ? { header } : {}) }));
+    });
+  });
+  return cells;
+}
+
+/**
+ * Tables detected in the document, in reading order
+ */
+export function listTables(gdsmElements: GDSMElementForScanner[], locale?: DocumentLocale): TableSummary[] {
+  const layout = getLayout(gdsmFromScannerElements(gdsmElements, locale));
+  return layout.tables.map(table => ({
+    tableId: table.id,
+    page: table.page,
+    columns: table.columns.map(column => column.header || `Column ${column.index + 1}`),
+    hasHeader: table.hasHeader,
+    rowCount: table.rows.filter(row => !row.isHeader).length,
+  }));
+}
+
+/**
+ * Cells of a table column and/or the rows matching a predicate
+ * Returns an error (with the detected tables) when no table has the
+ * columns named
+ */
+export function scanTable(
+  input: ScanTableInput,
+  gdsmElements: GDSMElementForScanner[],
+  locale?: DocumentLocale
+): { results: ScanMatch[]; error?: string } {
+  const gdsm = gdsmFromScannerElements(gdsmElements, locale);
+  const query: ScanQuery = {
+    inTable: input.tableId || true,
+    ...(input.column ? { tableColumn: input.column } : {}),
+    ...(input.whereColumn
+      ? { tableRowWhere: { column: input.whereColumn, equals: input.equals, contains: input.contains } }
+      : {}),
+    includeTableHeader: input.includeHeader === true,
+    excludeRedacted: true,
+  };
+
+  if (!hasTableTarget(getLayout(gdsm), query)) {
+    const named = [input.column, input.whereColumn].filter(Boolean).map(name => `"${name}"`).join(" and ");
+    return {
+      results: [],
+      error: input.tableId && !gdsm.layout.tables.some(table => table.id === input.tableId)
+        ? `No table ${input.tableId}`
+        : `No table has a column ${named || "matching the request"}`,
+    };
+  }
+
+  const cells = cellsByElement(gdsm, [query]);
+  const results = scanGDSM(gdsm, query).elements.map(el => ({
+    elementId: el.id,
+    textContent: el.text,
+    page: el.page,
+    cell: cells.get(el.id)!,
+  }));
+  console.log(`📊 [SCAN] Table scan matched ${results.length} elements`);
+  return { results };
+}
@@ -1,4 +1,6 @@
 import type { Tool } from "@anthropic-ai/sdk/resources/messages";
+import { REDACTION_REASONS } from "@/lib/redaction";
+import type { BoundingBox, PageRegion, SpatialRelation } from "@/lib/gdsm";
 
 /**
  * ATOMIC Agent Tools for Document Editing
@@ -32,7 +34,7 @@ export const AGENT_TOOLS: Tool[] = [
   // ===== VISUAL OPERATIONS =====
   {
     name: "redact_element",
-    description: "Black out an element completely. The text becomes unreadable.",
+    description: "Black out an element completely. The text becomes unreadable. Every redaction records the reason it was made.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -40,8 +42,12 @@ export const AGENT_TOOLS: Tool[] = [
           type: "string",
           description: "The data-canon-id of the element to redact",
         },
+        reason: {
+          type: "string",
+          description: `Reason or exemption code, printed on the redaction box and in the redaction log. Use the code the user names; otherwise pick the closest of: ${REDACTION_REASONS.map((r) => `"${r.code}" (${r.label})`).join(", ")}.`,
+        },
       },
-      required: ["elementId"],
+      required: ["elementId", "reason"],
     },
   },
   {
@@ -59,6 +65,100 @@ export const AGENT_TOOLS: Tool[] = [
     },
   },
 
+  // ===== RANGE OPERATIONS (part of an element) =====
+  {
+    name: "redact_text_range",
+    description: `Black out PART of an element's text, e.g. one email address inside a longer line. The rest of the element stays readable.
+
+Name the part with "text" (an exact substring of the element's text, e.g. a span returned by scan_document) or with "start"/"end" character offsets (end exclusive).`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        elementId: {
+          type: "string",
+          description: "The data-canon-id of the element containing the text",
+        },
+        text: {
+          type: "string",
+          description: "Exact substring to redact (case-sensitive)",
+        },
+        occurrence: {
+          type: "number",
+          description: "Which occurrence of text to redact when it appears more than once (1-based, default 1)",
+        },
+        start: {
+          type: "number",
+          description: "Start character offset in the element's text (use instead of text)",
+        },
+        end: {
+          type: "number",
+          description: "End character offset, exclusive (use instead of text)",
+        },
+        reason: {
+          type: "string",
+          description: "Reason or exemption code, as for redact_element",
+        },
+      },
+      required: ["elementId", "reason"],
+    },
+  },
+  {
+    name: "highlight_text_range",
+    description: `Highlight PART of an element's text, e.g. one word in a sentence. Name the part with "text" (exact substring) or "start"/"end" character offsets (end exclusive).`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        elementId: {
+          type: "string",
+          description: "The data-canon-id of the element containing the text",
+        },
+        text: {
+          type: "string",
+          description: "Exact substring to highlight (case-sensitive)",
+        },
+        occurrence: {
+          type: "number",
+          description: "Which occurrence of text to highlight when it appears more than once (1-based, default 1)",
+        },
+        start: {
+          type: "number",
+          description: "Start character offset in the element's text (use instead of text)",
+        },
+        end: {
+          type: "number",
+          description: "End character offset, exclusive (use instead of text)",
+        },
+      },
+      required: ["elementId"],
+    },
+  },
+
+  // ===== IMAGE OPERATIONS =====
+  {
+    name: "redact_image_region",
+    description: `Black out part of an image (a face, a signature, a stamp) or the whole image. The region is burned into the image pixels on export, so the hidden part can't be recovered.
+
+Give the region as a box in page pixels, like the positions scan_document lists; leave x, y, width and height out to redact the whole image. redact_element on an image also redacts all of it.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        elementId: {
+          type: "string",
+          description: "The data-canon-id of the image element (e.g. \"pf1-img-0\")",
+        },
+        x: { type: "number", description: "Left edge of the region in page pixels" },
+        y: { type: "number", description: "Top edge of the region in page pixels" },
+        width: { type: "number", description: "Width of the region in pixels" },
+        height: { type: "number", description: "Height of the region in pixels" },
+        reason: {
+          type: "string",
+          description: "Reason or exemption code, as for redact_element",
+        },
+      },
+      required: ["elementId", "reason"],
+    },
+  },
+
   // ===== ANNOTATION OPERATIONS =====
   {
     name: "add_comment",
@@ -95,15 +195,88 @@ export const AGENT_TOOLS: Tool[] = [
     },
   },
 
+  // ===== REVERSAL OPERATIONS =====
+  {
+    name: "remove_highlight",
+    description: "Remove the highlight from an element, including highlights on part of its text.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        elementId: {
+          type: "string",
+          description: "The data-canon-id of the highlighted element",
+        },
+      },
+      required: ["elementId"],
+    },
+  },
+  {
+    name: "remove_comment",
+    description: "Delete the comments attached to an element.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        elementId: {
+          type: "string",
+          description: "The data-canon-id of the commented element",
+        },
+      },
+      required: ["elementId"],
+    },
+  },
+  {
+    name: "edit_comment",
+    description: "Replace the text of the comment attached to an element.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        elementId: {
+          type: "string",
+          description: "The data-canon-id of the commented element",
+        },
+        text: {
+          type: "string",
+          description: "The new note content",
+        },
+      },
+      required: ["elementId", "text"],
+    },
+  },
+  {
+    name: "unmark_redaction",
+    description: "Lift the redactions on an element (whole-element and partial) and restore its text. Only works on redactions that haven't been exported yet.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        elementId: {
+          type: "string",
+          description: "The data-canon-id of the redacted element",
+        },
+      },
+      required: ["elementId"],
+    },
+  },
+
   // ===== DOCUMENT SCANNING =====
   {
     name: "scan_document",
-    description: `Find elements in the document matching a criteria. Returns element IDs and their text.
+    description: `Find elements in the document matching a criteria. Returns element IDs and their text. For word, phrase and pattern queries (emails, phone numbers, dates, ...) each match also lists "spans": the exact matched substrings with character offsets, for redact_text_range / highlight_text_range.
 
 Use this when you need to find elements before operating on them:
 - "redact all phone numbers" → scan for phone numbers, then redact each
 - "highlight dates" → scan for dates, then highlight each
-- "find text containing X" → scan for X`,
+- "find text containing X" → scan for X
+- "remove highlights on page 3" → scan for "highlights on page 3", then remove each
+- "redact section 4.2" → scan for "section 4.2", then redact each
+- "highlight the paragraph under the Indemnification heading" → scan for exactly that, then highlight each
+
+Matches for "highlights", "comments" or "redactions" are elements already carrying that markup; commented matches include the comment (text and author).
+
+Position parameters narrow any query; use query "everything" to get every element in the scope:
+- "everything in the top-right box" → query "everything", region "top_right"
+- "signature block at the bottom of the last page" → query "signature block", page "last", region "bottom"
+- "text to the right of 'Account No:'" → query "everything", anchor "Account No:", relation "right_of"
+- "the date nearest the signature line" → query "dates", anchor "Signature", relation "nearest"`,
     input_schema: {
       type: "object" as const,
       properties: {
@@ -111,12 +284,158 @@ Use this when you need to find elements before operating on them:
           type: "string",
           description: "What to find. E.g., 'phone numbers', 'email addresses', 'text containing French', 'dates'",
         },
+        page: {
+          type: ["number", "string"],
+          description: 'Only this page number, or "last" for the last page',
+        },
+        region: {
+          type: "string",
+          enum: ["top", "middle", "bottom", "left", "right", "top_left", "top_right", "bottom_left", "bottom_right"],
+          description: "Part of the page: thirds of its height, halves of its width, or a corner (an element counts when its center is inside)",
+        },
+        box: {
+          type: "object",
+          properties: {
+            x: { type: "number" },
+            y: { type: "number" },
+            width: { type: "number" },
+            height: { type: "number" },
+          },
+          required: ["x", "y", "width", "height"],
+          description: "Exact area in page pixels from the top-left corner, instead of region",
+        },
+        anchor: {
+          type: "string",
+          description: "Element ID or text to position matches against (every occurrence of the text counts)",
+        },
+        relation: {
+          type: "string",
+          enum: ["above", "below", "left_of", "right_of", "nearest"],
+          description: 'Where matches sit relative to the anchor: left_of / right_of on the same line, above / below overlapping it horizontally, or nearest on the same page. Default: "nearest"',
+        },
+        maxDistance: {
+          type: "number",
+          description: "Max gap between a match and the anchor, in pixels",
+        },
+        limit: {
+          type: "number",
+          description: "Keep only the closest N matches per anchor occurrence. Default: all (1 for nearest)",
+        },
       },
       required: ["query"],
     },
   },
+  {
+    name: "get_document_outline",
+    description: `List the document's sections: headings and numbered clauses with their number, title, level, page and element count, in reading order. Use it to find which section the user means ("the liability clause", "section 4") before scanning for "section <number>" or "the <title> section".`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        maxLevel: {
+          type: "number",
+          description: "Only list sections down to this level (1 = the largest headings). Default: all levels",
+        },
+      },
+      required: [],
+    },
+  },
+
+  // ===== TABLES =====
+  {
+    name: "list_tables",
+    description: `List the tables detected in the document: table ID, page, column headers and row count. Use it before scan_table when the user names a column loosely ("the pay column") or the document may have several tables.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "scan_table",
+    description: `Find table cells by column and/or row condition. Returns each cell's elements with their table ID, row and column (0-based; row 0 is the header row when the table has one).
+
+- "redact the salary column" → scan_table(column: "Salary"), then redact each element
+- "highlight every row where status is Overdue" → scan_table(whereColumn: "Status", equals: "Overdue"), then highlight each element
+- "redact the amount for rows mentioning Acme" → scan_table(column: "Amount", whereColumn: "Vendor", contains: "Acme")
+
+Header cells are left out unless includeHeader is true, so a redacted column keeps its label.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        tableId: {
+          type: "string",
+          description: "Table ID from list_tables. Default: every table with the named columns",
+        },
+        column: {
+          type: "string",
+          description: "Column header (e.g. 'Salary') or 1-based column number. Default: every column of the matching rows",
+        },
+        whereColumn: {
+          type: "string",
+          description: "Column the row condition tests (header or 1-based number)",
+        },
+        equals: {
+          type: "string",
+          description: "Keep rows whose whereColumn cell is exactly this (case-insensitive)",
+        },
+        contains: {
+          type: "string",
+          description: "Keep rows whose whereColumn cell contains this word or phrase (case-insensitive)",
+        },
+        includeHeader: {
+          type: "boolean",
+          description: "Also return header cells. Default: false",
+        },
+      },
+      required: [],
+    },
+  },
+
+  // ===== PAGE FURNITURE =====
+  {
+    name: "mark_page_furniture",
+    description: `Redact, highlight or delete a repeated header, footer or page number on every page it appears, in one call. scan_document("page headers"), "footers" or "page numbers" lists the instances; each match carries its furniture kind and group.
+
+- "remove the page numbers" → mark_page_furniture(kind: "page_number", action: "delete")
+- "redact the case number in the header" → scan_document("case number in the header"), then mark_page_furniture(elementId: <a match>, action: "redact", text: <the case number>, reason: ...)
+
+With text, only that text is marked in each instance; instances without it are skipped.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        kind: {
+          type: "string",
+          enum: ["header", "footer", "page_number"],
+          description: "Act on every element of this kind",
+        },
+        elementId: {
+          type: "string",
+          description: "Act on every instance of this element's repeat group (takes precedence over kind)",
+        },
+        action: {
+          type: "string",
+          enum: ["redact", "highlight", "delete"],
+          description: "What to do to each instance",
+        },
+        text: {
+          type: "string",
+          description: "Only redact or highlight this text inside each instance. Default: the whole element",
+        },
+        reason: {
+          type: "string",
+          description: `Reason or exemption code for redactions, as for redact_element: the code the user names, otherwise the closest of: ${REDACTION_REASONS.map((r) => `"${r.code}"`).join(", ")}.`,
+        },
+      },
+      required: ["action"],
+    },
+  },
 ];
 
+/**
+ * Tools answered server-side from the document - they never become operations
+ */
+export const READ_ONLY_TOOLS = new Set(["scan_document", "get_document_outline", "list_tables", "scan_table"]);
+
 // Type for operation returned by agent
 export interface AgentOperation {
   id: string;
@@ -132,12 +451,40 @@ export interface SetElementTextInput {
 
 export interface RedactElementInput {
   elementId: string;
+  reason: string;
+  author?: string; // Set for manual redactions; agent redactions are attributed to the agent
 }
 
 export interface HighlightElementInput {
   elementId: string;
 }
 
+export interface TextRangeOperationInput {
+  elementId: string;
+  text?: string;
+  occurrence?: number;
+  start?: number;
+  end?: number;
+}
+
+export interface RedactTextRangeInput extends TextRangeOperationInput {
+  reason: string;
+  author?: string;
+}
+
+export type HighlightTextRangeInput = TextRangeOperationInput;
+
+export interface RedactImageRegionInput {
+  elementId: string;
+  // Page pixels; all four or none (the whole image)
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  reason: string;
+  author?: string;
+}
+
 export interface AddCommentInput {
   elementId: string;
   text: string;
@@ -147,6 +494,51 @@ export interface DeleteElementInput {
   elementId: string;
 }
 
+export interface RemoveHighlightInput {
+  elementId: string;
+}
+
+export interface RemoveCommentInput {
+  elementId: string;
+}
+
+export interface EditCommentInput {
+  elementId: string;
+  text: string;
+}
+
+export interface UnmarkRedactionInput {
+  elementId: string;
+}
+
 export interface ScanDocumentInput {
   query: string;
+  page?: number | "last";
+  region?: PageRegion;
+  box?: BoundingBox;
+  anchor?: string;
+  relation?: SpatialRelation;
+  maxDistance?: number;
+  limit?: number;
+}
+
+export interface GetDocumentOutlineInput {
+  maxLevel?: number;
+}
+
+export interface ScanTableInput {
+  tableId?: string;
+  column?: string;
+  whereColumn?: string;
+  equals?: string;
+  contains?: string;
+  includeHeader?: boolean;
+}
+
+export interface MarkPageFurnitureInput {
+  kind?: "header" | "footer" | "page_number";
+  elementId?: string;
+  action: "redact" | "highlight" | "delete";
+  text?: string;
+  reason?: string;
 }
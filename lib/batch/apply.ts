@@ -0,0 +1,340 @@
+/**
+ * Headless Operation Apply - Run agent operations against HTML with JSDOM
+ *
+ * Mirrors the viewer's iframe handlers (runOperation in pdf-viewer) so the
+ * export pipeline sees the same attributes it gets from the editor. JSDOM has
+ * no layout, so sizes and positions come from the GDSM element boxes.
+ */
+
+import { JSDOM } from "jsdom";
+import {
+  createMarkId,
+  FULL_IMAGE_REGION,
+  formatImageRegion,
+  getElementText,
+  resolveImageRegion,
+  resolveTextRange,
+  wrapTextRange,
+  type BoundingBox,
+  type GDSM,
+  type GDSMElement,
+} from "@/lib/gdsm";
+import type { AgentOperation } from "@/lib/agent/tools";
+import type { ExecutionResult } from "@/lib/agent/executor";
+import { normalizeRedactionReason } from "@/lib/redaction";
+
+/**
+ * Author recorded on comments and redactions added by the agent (matches the viewer)
+ */
+const AGENT_AUTHOR = "Canon Agent";
+
+const HIGHLIGHT_BACKGROUND = "rgba(255, 234, 0, 0.5)";
+
+const REDACTION_ATTRIBUTES = [
+  "data-canon-redacted",
+  "data-canon-original",
+  "data-canon-original-style",
+  "data-canon-redaction-reason",
+  "data-canon-redaction-author",
+  "data-canon-redaction-timestamp",
+];
+
+const COMMENT_ATTRIBUTES = [
+  "data-canon-comment-id",
+  "data-canon-comment-text",
+  "data-canon-comment-timestamp",
+  "data-canon-comment-author",
+];
+
+/**
+ * Result of applying operations to a document
+ */
+export interface AppliedOperations {
+  html: string;
+  results: ExecutionResult[];
+  redactedText: string[]; // Text under redactions in the result - server-side only, never reported
+}
+
+function redactNode(el: HTMLElement, width: number, height: number, reason: string): void {
+  el.setAttribute("data-canon-redacted", "true");
+  el.setAttribute("data-canon-original", el.textContent || "");
+  el.setAttribute("data-canon-original-style", el.getAttribute("style") || "");
+  if (reason) el.setAttribute("data-canon-redaction-reason", reason);
+  el.setAttribute("data-canon-redaction-author", AGENT_AUTHOR);
+  el.setAttribute("data-canon-redaction-timestamp", String(Date.now()));
+
+  el.textContent = "";
+  el.style.backgroundColor = "#000000";
+  el.style.display = "inline-block";
+  el.style.width = `${width}px`;
+  el.style.height = `${height}px`;
+  el.style.overflow = "hidden";
+}
+
+/**
+ * Black box over a region of an image (see lib/gdsm/images), placed from
+ * the image's GDSM box
+ */
+function addImageRedaction(
+  doc: Document,
+  el: HTMLElement,
+  element: GDSMElement,
+  regionId: string,
+  region: BoundingBox,
+  reason: string
+): boolean {
+  const pageFrame = el.closest(".pf");
+  if (!pageFrame) return false;
+
+  const overlay = doc.createElement("div");
+  overlay.className = "canon-image-redaction";
+  overlay.setAttribute("data-canon-image-for", element.id);
+  overlay.setAttribute("data-canon-image-region-id", regionId);
+  overlay.setAttribute("data-canon-image-region", formatImageRegion(region));
+  overlay.setAttribute("data-canon-redacted", "true");
+  if (reason) overlay.setAttribute("data-canon-redaction-reason", reason);
+  overlay.setAttribute("data-canon-redaction-author", AGENT_AUTHOR);
+  overlay.setAttribute("data-canon-redaction-timestamp", String(Date.now()));
+  overlay.style.position = "absolute";
+  overlay.style.left = `${element.x + region.x * element.width}px`;
+  overlay.style.top = `${element.y + region.y * element.height}px`;
+  overlay.style.width = `${region.width * element.width}px`;
+  overlay.style.height = `${region.height * element.height}px`;
+  overlay.style.backgroundColor = "#000000";
+  overlay.style.pointerEvents = "none";
+  pageFrame.appendChild(overlay);
+  return true;
+}
+
+function unredactNode(el: HTMLElement): void {
+  el.textContent = el.getAttribute("data-canon-original") || "";
+  const originalStyle = el.getAttribute("data-canon-original-style");
+  if (originalStyle) {
+    el.setAttribute("style", originalStyle);
+  } else {
+    el.removeAttribute("style");
+  }
+  REDACTION_ATTRIBUTES.forEach((name) => el.removeAttribute(name));
+}
+
+function unwrapNode(wrapper: Element): void {
+  while (wrapper.firstChild) wrapper.before(wrapper.firstChild);
+  wrapper.remove();
+}
+
+/**
+ * Comment markers annotating an element (linked, or derived from an imported comment's ID)
+ */
+function findCommentMarkers(doc: Document, el: HTMLElement): Element[] {
+  const elementId = el.getAttribute("data-canon-id") || "";
+  const commentId = el.getAttribute("data-canon-comment-id");
+  return Array.from(doc.querySelectorAll("[data-canon-comment]")).filter(
+    (marker) =>
+      marker.getAttribute("data-canon-comment-element") === elementId ||
+      (!!commentId && marker.getAttribute("data-canon-comment-id") === `${commentId}-note`)
+  );
+}
+
+/**
+ * Apply operations in order; failures are reported per operation and don't
+ * stop the remaining operations
+ */
+export function applyOperationsToHTML(
+  html: string,
+  gdsm: GDSM,
+  operations: AgentOperation[]
+): AppliedOperations {
+  const dom = new JSDOM(html);
+  const doc = dom.window.document;
+
+  // Look elements up by ID directly rather than building selectors from model output
+  const domById = new Map<string, HTMLElement>();
+  doc.querySelectorAll("[data-canon-id]").forEach((el) => {
+    domById.set(el.getAttribute("data-canon-id") || "", el as HTMLElement);
+  });
+
+  const results = operations.map((op, index): ExecutionResult => {
+    const fail = (error: string): ExecutionResult => ({
+      success: false,
+      operationId: op.id,
+      tool: op.tool,
+      error,
+    });
+
+    const elementId = typeof op.input.elementId === "string" ? op.input.elementId : "";
+    const el = domById.get(elementId);
+    const element = gdsm.elementsById.get(elementId);
+    if (!el || !el.isConnected) {
+      return fail(`Element not found: ${elementId || "(missing elementId)"}`);
+    }
+
+    const timestamp = String(Date.now());
+
+    switch (op.tool) {
+      case "set_element_text": {
+        if (typeof op.input.text !== "string") return fail("Missing text");
+        el.textContent = op.input.text;
+        return { success: true, operationId: op.id, tool: op.tool, result: { elementId } };
+      }
+
+      case "redact_image_region":
+      case "redact_element": {
+        if (el.hasAttribute("data-canon-image")) {
+          if (!element) return fail(`Image not in document model: ${elementId}`);
+          const { region, error } = op.tool === "redact_element"
+            ? { region: { ...FULL_IMAGE_REGION }, error: undefined }
+            : resolveImageRegion(element, op.input);
+          if (!region) return fail(error || "Invalid region");
+
+          const regionId = createMarkId("region");
+          const reason = normalizeRedactionReason(op.input.reason);
+          if (!addImageRedaction(doc, el, element, regionId, region, reason)) {
+            return fail("Could not find page for image");
+          }
+          return { success: true, operationId: op.id, tool: op.tool, result: { redacted: true, regionId, region } };
+        }
+        if (op.tool === "redact_image_region") return fail(`Element is not an image: ${elementId}`);
+
+        redactNode(el, element?.width ?? 0, element?.height ?? 0, normalizeRedactionReason(op.input.reason));
+        return { success: true, operationId: op.id, tool: op.tool, result: { redacted: true } };
+      }
+
+      case "highlight_element": {
+        el.style.setProperty("background-color", HIGHLIGHT_BACKGROUND, "important");
+        el.style.setProperty("border-radius", "2px", "important");
+        el.setAttribute("data-canon-highlighted", "true");
+        el.setAttribute("data-canon-highlight-timestamp", timestamp);
+        return { success: true, operationId: op.id, tool: op.tool, result: { highlighted: true, elementId } };
+      }
+
+      case "redact_text_range":
+      case "highlight_text_range": {
+        const text = getElementText(el);
+        const { range, error } = resolveTextRange(text, op.input);
+        if (!range) return fail(error || "Invalid range");
+
+        const rangeId = createMarkId("range");
+        const isRedaction = op.tool === "redact_text_range";
+        const wrappers = wrapTextRange(el, range, () => {
+          const wrapper = doc.createElement("span");
+          wrapper.setAttribute("data-canon-range-id", rangeId);
+          wrapper.setAttribute("data-canon-range", isRedaction ? "redact" : "highlight");
+          return wrapper;
+        });
+        if (wrappers.length === 0) return fail("Range is already redacted");
+
+        const reason = normalizeRedactionReason(op.input.reason);
+        for (const wrapper of wrappers) {
+          if (isRedaction) {
+            // No layout - assume characters of the element share its width evenly
+            const share = text.length > 0 ? (wrapper.textContent || "").length / text.length : 0;
+            redactNode(wrapper, (element?.width ?? 0) * share, element?.height ?? 0, reason);
+            wrapper.style.verticalAlign = "text-bottom";
+          } else {
+            wrapper.style.setProperty("background-color", HIGHLIGHT_BACKGROUND, "important");
+            wrapper.style.setProperty("border-radius", "2px", "important");
+            wrapper.setAttribute("data-canon-highlighted", "true");
+            wrapper.setAttribute("data-canon-highlight-timestamp", timestamp);
+          }
+        }
+        return {
+          success: true,
+          operationId: op.id,
+          tool: op.tool,
+          result: { rangeId, start: range.start, end: range.end },
+        };
+      }
+
+      case "add_comment": {
+        if (typeof op.input.text !== "string" || !op.input.text.trim()) return fail("Missing comment text");
+        const pageFrame = el.closest(".pf");
+        if (!pageFrame || !element) return fail("Could not find page for element");
+
+        const commentId = `comment-ai-${timestamp}-${index + 1}`;
+        const marker = doc.createElement("div");
+        marker.setAttribute("data-canon-comment", "true");
+        marker.setAttribute("data-canon-comment-id", commentId);
+        marker.setAttribute("data-canon-comment-element", elementId);
+        marker.setAttribute("data-canon-comment-author", AGENT_AUTHOR);
+        marker.setAttribute("data-canon-comment-timestamp", timestamp);
+        marker.setAttribute("data-canon-comment-text", op.input.text);
+        marker.style.position = "absolute";
+        marker.style.left = `${element.x + element.width}px`;
+        marker.style.top = `${element.y}px`;
+        marker.style.width = "20px";
+        marker.style.height = "20px";
+        pageFrame.appendChild(marker);
+        return { success: true, operationId: op.id, tool: op.tool, result: { commentId, author: AGENT_AUTHOR } };
+      }
+
+      case "remove_highlight": {
+        const wrappers = Array.from(el.querySelectorAll('[data-canon-range="highlight"]'));
+        const highlighted = el.hasAttribute("data-canon-highlighted");
+        if (!highlighted && wrappers.length === 0) return fail(`No highlight on element: ${elementId}`);
+        if (highlighted) {
+          el.style.removeProperty("background-color");
+          el.style.removeProperty("border-radius");
+          el.removeAttribute("data-canon-highlighted");
+          el.removeAttribute("data-canon-highlight-timestamp");
+        }
+        wrappers.forEach(unwrapNode);
+        el.normalize();
+        return { success: true, operationId: op.id, tool: op.tool, result: { highlighted, ranges: wrappers.length } };
+      }
+
+      case "unmark_redaction": {
+        const overlays = Array.from(doc.querySelectorAll("[data-canon-image-for]")).filter(
+          (overlay) => overlay.getAttribute("data-canon-image-for") === elementId
+        );
+        if (overlays.length > 0) {
+          overlays.forEach((overlay) => overlay.remove());
+          return { success: true, operationId: op.id, tool: op.tool, result: { unredacted: true } };
+        }
+
+        const wrappers = Array.from(el.querySelectorAll('[data-canon-range="redact"]'));
+        const redacted = el.hasAttribute("data-canon-redacted");
+        if (!redacted && wrappers.length === 0) return fail(`No redaction on element: ${elementId}`);
+        if (redacted) unredactNode(el);
+        wrappers.forEach((wrapper) => {
+          wrapper.replaceWith(doc.createTextNode(wrapper.getAttribute("data-canon-original") || ""));
+        });
+        el.normalize();
+        return { success: true, operationId: op.id, tool: op.tool, result: { unredacted: true } };
+      }
+
+      case "remove_comment":
+      case "edit_comment": {
+        const markers = findCommentMarkers(doc, el);
+        const hasOwnComment = el.hasAttribute("data-canon-comment-id");
+        if (markers.length === 0 && !hasOwnComment) return fail(`No comment on element: ${elementId}`);
+
+        if (op.tool === "remove_comment") {
+          markers.forEach((marker) => marker.remove());
+          COMMENT_ATTRIBUTES.forEach((name) => el.removeAttribute(name));
+          return { success: true, operationId: op.id, tool: op.tool, result: { removed: markers.length || 1 } };
+        }
+
+        if (typeof op.input.text !== "string" || !op.input.text.trim()) return fail("Missing comment text");
+        markers.forEach((marker) => marker.setAttribute("data-canon-comment-text", op.input.text as string));
+        if (hasOwnComment) el.setAttribute("data-canon-comment-text", op.input.text);
+        return { success: true, operationId: op.id, tool: op.tool, result: { edited: markers.length || 1 } };
+      }
+
+      case "delete_element": {
+        el.remove();
+        return { success: true, operationId: op.id, tool: op.tool, result: { deleted: true } };
+      }
+
+      default:
+        return fail(`Unknown tool: ${op.tool}`);
+    }
+  });
+
+  const redactedText: string[] = [];
+  doc.querySelectorAll("[data-canon-redacted]").forEach((el) => {
+    const text = (el.getAttribute("data-canon-original") ?? el.textContent ?? "").trim();
+    if (text) redactedText.push(text);
+  });
+
+  return { html: dom.serialize(), results, redactedText };
+}
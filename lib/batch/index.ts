@@ -0,0 +1,12 @@
+// Batch processing exports (server-only)
+export {
+  runBatch,
+  type BatchReport,
+  type BatchFileReport,
+  type BatchOperationReport,
+  type BatchInputFile,
+  type BatchStage,
+} from "./pipeline";
+
+export { applyOperationsToHTML, type AppliedOperations } from "./apply";
+export { createZip, type ZipEntry } from "./zip";
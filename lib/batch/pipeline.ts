@@ -0,0 +1,333 @@
+/**
+ * Batch Pipeline - One instruction over many PDFs, without the editor
+ *
+ * Per file: convert (pdf2htmlEX) → GDSM → agent loop → apply → export.
+ * Files run one at a time (each export launches a browser). A failing file
+ * is reported with the stage it failed at and doesn't stop the batch.
+ *
+ * The report lists operations by tool, element ID and input only - never the
+ * text of redacted elements (partial redactions are reported by offsets),
+ * since it ships in the same archive as the output. The agent's explanation
+ * is left out (it quotes what it redacted), and a file's redacted strings are
+ * replaced wherever else they reach its report (e.g. quoted by an error);
+ * the shared instruction is scrubbed of every file's.
+ */
+
+import { buildGDSMFromHTML } from "@/lib/gdsm/html-builder";
+import type { ImportedAnnotation } from "@/lib/gdsm";
+import { convertPdfToHtml, extractAnnotations } from "@/lib/pdf";
+import {
+  renderPdf,
+  RedactionVerificationError,
+  type ExportMode,
+  type RedactionVerificationReport,
+} from "@/lib/export";
+import { runAgentLoop } from "@/lib/agent/loop";
+import { toScannerElements, type AgentContext } from "@/lib/agent/context";
+import type { AgentOperation } from "@/lib/agent/tools";
+import { applyOperationsToHTML } from "./apply";
+import type { ZipEntry } from "./zip";
+
+/**
+ * Pipeline stage a file failed at
+ */
+export type BatchStage = "convert" | "gdsm" | "agent" | "apply" | "export" | "report";
+
+/**
+ * One operation proposed by the agent and whether it applied
+ */
+export interface BatchOperationReport {
+  id: string;
+  tool: string;
+  input: Record<string, unknown>;
+  success: boolean;
+  error?: string;
+  result?: Record<string, unknown>; // e.g. resolved offsets of a range operation
+}
+
+/**
+ * Outcome for one input file
+ */
+export interface BatchFileReport {
+  file: string;
+  output?: string; // Name of the PDF in the archive
+  status: "succeeded" | "failed";
+  failedStage?: BatchStage;
+  error?: string;
+  operations: BatchOperationReport[];
+  operationsApplied: number;
+  operationsFailed: number;
+  operationsRejected: number; // Agent calls that failed validation - the agent was told and could retry
+  verification?: RedactionVerificationReport;
+  durationMs: number;
+}
+
+/**
+ * Report for a whole batch (report.json in the archive)
+ */
+export interface BatchReport {
+  instruction: string;
+  mode: ExportMode;
+  startedAt: number;
+  completedAt: number;
+  succeeded: number;
+  failed: number;
+  files: BatchFileReport[];
+}
+
+/**
+ * A PDF to process
+ */
+export interface BatchInputFile {
+  name: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * Operation input for the report - partial redactions name their target by
+ * the redacted substring, which must not appear in the report
+ */
+function reportInput(op: AgentOperation): Record<string, unknown> {
+  if (op.tool !== "redact_text_range") return op.input;
+  const input = { ...op.input };
+  delete input.text;
+  return input;
+}
+
+/**
+ * Redacted strings shorter than this aren't scrubbed from the report - they
+ * would mangle ordinary words, and can't identify anything on their own
+ */
+const MIN_SCRUBBED_LENGTH = 3;
+
+const SCRUBBED = "[redacted]";
+
+/**
+ * Fields that name or classify rather than quote the document (file names,
+ * IDs, tool names, statuses) - never scrubbed
+ */
+const NAME_FIELDS = new Set(["file", "output", "tool", "status", "failedStage", "location", "verifiedAt"]);
+
+function isNameField(key: string): boolean {
+  return NAME_FIELDS.has(key) || key === "id" || key.endsWith("Id");
+}
+
+/**
+ * Matcher for a set of redacted strings, or null if none can be scrubbed
+ */
+function redactedPattern(redactedText: string[]): RegExp | null {
+  const targets = [...new Set(redactedText.filter((text) => text.length >= MIN_SCRUBBED_LENGTH))];
+  if (targets.length === 0) return null;
+
+  // Longest first, so a string containing another is replaced whole
+  return new RegExp(
+    targets
+      .sort((a, b) => b.length - a.length)
+      .map((text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("|"),
+    "gi"
+  );
+}
+
+/**
+ * Replace redacted strings in the string values of a report (name fields aside)
+ * Numbers and keys are left alone - they carry no document text
+ */
+function scrubValue<T>(value: T, pattern: RegExp): T {
+  if (typeof value === "string") return value.replace(pattern, SCRUBBED) as T;
+  if (Array.isArray(value)) return value.map((item) => scrubValue(item, pattern)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, isNameField(key) ? item : scrubValue(item, pattern)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * True if a string value of the report (name fields aside) still contains a
+ * redacted string outside the placeholders
+ */
+function containsRedacted(value: unknown, pattern: RegExp): boolean {
+  if (typeof value === "string") {
+    return value.split(SCRUBBED).some((part) => {
+      pattern.lastIndex = 0;
+      return pattern.test(part);
+    });
+  }
+  if (Array.isArray(value)) return value.some((item) => containsRedacted(item, pattern));
+  if (value && typeof value === "object") {
+    return Object.entries(value).some(
+      ([key, item]) => !isNameField(key) && containsRedacted(item, pattern)
+    );
+  }
+  return false;
+}
+
+/**
+ * A file's report with its own redacted strings replaced
+ * If one survives, the file is reported as failed with its details withheld
+ * (its output is then left out of the archive)
+ */
+function scrubFileReport(report: BatchFileReport, redactedText: string[]): BatchFileReport {
+  const pattern = redactedPattern(redactedText);
+  if (!pattern) return report;
+
+  const scrubbed = scrubValue(report, pattern);
+  if (!containsRedacted(scrubbed, pattern)) return scrubbed;
+
+  console.error(`[Batch] Report for ${report.file} still contained redacted text - withheld`);
+  return {
+    file: report.file,
+    status: "failed",
+    failedStage: "report",
+    error: "Report contained redacted text and was withheld",
+    operations: [],
+    operationsApplied: report.operationsApplied,
+    operationsFailed: report.operationsFailed,
+    operationsRejected: report.operationsRejected,
+    verification: report.verification,
+    durationMs: report.durationMs,
+  };
+}
+
+/**
+ * Output file name for an input, unique within the batch
+ */
+function outputName(inputName: string, mode: ExportMode, used: Set<string>): string {
+  const base = inputName.replace(/\.pdf$/i, "").replace(/[\\/]/g, "_") || "document";
+  const suffix = mode === "burn-in" ? "-redacted" : "-edited";
+  let name = `${base}${suffix}.pdf`;
+  for (let n = 2; used.has(name); n++) {
+    name = `${base}${suffix}-${n}.pdf`;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Run the pipeline for one file
+ */
+async function processFile(
+  input: BatchInputFile,
+  instruction: string,
+  mode: ExportMode
+): Promise<{ report: BatchFileReport; pdf?: Uint8Array; redactedText: string[] }> {
+  const startTime = Date.now();
+  const report: BatchFileReport = {
+    file: input.name,
+    status: "failed",
+    operations: [],
+    operationsApplied: 0,
+    operationsFailed: 0,
+    operationsRejected: 0,
+    durationMs: 0,
+  };
+
+  let redactedText: string[] = [];
+  let stage: BatchStage = "convert";
+  try {
+    const rawHtml = await convertPdfToHtml(input.bytes);
+
+    stage = "gdsm";
+    let annotations: ImportedAnnotation[] = [];
+    try {
+      annotations = await extractAnnotations(input.bytes);
+    } catch (annotationError) {
+      console.error(`[Batch] Failed to read annotations from ${input.name}:`, annotationError);
+    }
+    const { gdsm, html } = buildGDSMFromHTML(rawHtml, { annotations });
+
+    stage = "agent";
+    const context: AgentContext = {
+      gdsmElements: toScannerElements(gdsm),
+      locale: gdsm.locale,
+      geometry: gdsm.geometry,
+      pageInfo: gdsm.pages.map((page) => ({
+        pageNum: page.pageNum,
+        width: page.width,
+        height: page.height,
+      })),
+    };
+    const agentResult = await runAgentLoop(instruction, context);
+    report.operationsRejected = agentResult.rejected.length;
+
+    stage = "apply";
+    const applied = applyOperationsToHTML(html, gdsm, agentResult.operations);
+    redactedText = applied.redactedText;
+    report.operations = agentResult.operations.map((op, index) => ({
+      id: op.id,
+      tool: op.tool,
+      input: reportInput(op),
+      success: applied.results[index]?.success ?? false,
+      error: applied.results[index]?.error,
+      result: applied.results[index]?.result,
+    }));
+    report.operationsApplied = report.operations.filter((op) => op.success).length;
+    report.operationsFailed = report.operations.length - report.operationsApplied;
+
+    stage = "export";
+    const rendered = await renderPdf(applied.html, mode);
+    report.verification = rendered.verification;
+    report.status = "succeeded";
+    return { report, pdf: rendered.pdf, redactedText };
+  } catch (error) {
+    console.error(`[Batch] ${input.name} failed at ${stage}:`, error);
+    report.failedStage = stage;
+    report.error = error instanceof Error ? error.message : "Unknown error";
+    if (error instanceof RedactionVerificationError) {
+      report.verification = error.verification;
+    }
+    return { report, redactedText };
+  } finally {
+    report.durationMs = Date.now() - startTime;
+  }
+}
+
+/**
+ * Process every file with the same instruction
+ * Returns the report and the archive entries (outputs plus report.json)
+ */
+export async function runBatch(
+  files: BatchInputFile[],
+  instruction: string,
+  mode: ExportMode
+): Promise<{ report: BatchReport; entries: ZipEntry[] }> {
+  const startedAt = Date.now();
+  const entries: ZipEntry[] = [];
+  const reports: BatchFileReport[] = [];
+  const usedNames = new Set<string>(["report.json"]);
+  const redactedText: string[] = [];
+
+  for (const file of files) {
+    const result = await processFile(file, instruction, mode);
+    redactedText.push(...result.redactedText);
+
+    const report = scrubFileReport(result.report, result.redactedText);
+    if (result.pdf && report.status === "succeeded") {
+      report.output = outputName(file.name, mode, usedNames);
+      entries.push({ name: report.output, data: result.pdf });
+    }
+    reports.push(report);
+  }
+
+  // The instruction is shared by every file - it may quote any of their redactions
+  const pattern = redactedPattern(redactedText);
+  const succeeded = reports.filter((r) => r.status === "succeeded").length;
+  const report: BatchReport = {
+    instruction: pattern ? scrubValue(instruction, pattern) : instruction,
+    mode,
+    startedAt,
+    completedAt: Date.now(),
+    succeeded,
+    failed: reports.length - succeeded,
+    files: reports,
+  };
+
+  entries.push({
+    name: "report.json",
+    data: new TextEncoder().encode(JSON.stringify(report, null, 2)),
+  });
+
+  return { report, entries };
+}
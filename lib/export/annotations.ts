@@ -0,0 +1,246 @@
+/**
+ * Native PDF Annotations - Comments and highlights as real annotation objects
+ *
+ * Comments become /Text (sticky note) annotations and highlights become
+ * /Highlight annotations with quad points, added with pdf-lib on top of the
+ * Puppeteer output. Author, timestamp and comment ID are written to /T, /M
+ * and /NM so they survive a round trip through other PDF tools.
+ *
+ * Input rects are in CSS pixels relative to the top-left of each HTML page
+ * (.pf); they are scaled to the PDF page and flipped to bottom-left origin.
+ */
+
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFString,
+  type PDFPage,
+  type PDFRef,
+  pushGraphicsState,
+  popGraphicsState,
+  setGraphicsState,
+  setFillingRgbColor,
+  rectangle,
+  fill,
+} from "pdf-lib";
+
+/**
+ * Default author when a comment or highlight doesn't record one
+ */
+const DEFAULT_AUTHOR = "Canon";
+
+/**
+ * Annotation colors (RGB 0-1)
+ */
+const COMMENT_COLOR: [number, number, number] = [1, 0.82, 0];
+const HIGHLIGHT_COLOR: [number, number, number] = [1, 0.92, 0];
+
+/**
+ * A rectangle in CSS pixels, relative to the top-left of its HTML page
+ */
+export interface PageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A comment to export as a /Text annotation
+ */
+export interface ExportComment {
+  id: string;
+  pageIndex: number; // 0-indexed
+  rect: PageRect;
+  text: string;
+  author?: string;
+  timestamp?: number;
+}
+
+/**
+ * A highlight to export as a /Highlight annotation
+ * Multi-line element highlights have one rect per line box
+ */
+export interface ExportHighlight {
+  id: string;
+  pageIndex: number; // 0-indexed
+  rects: PageRect[];
+  author?: string;
+  timestamp?: number;
+}
+
+/**
+ * Size of an HTML page in CSS pixels (used to scale rects to PDF points)
+ */
+export interface HTMLPageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Converts page-relative CSS pixel rects to PDF user space for one page
+ */
+function createPageTransform(page: PDFPage, htmlSize: HTMLPageSize | undefined) {
+  const { width, height } = page.getSize();
+  const scaleX = htmlSize?.width ? width / htmlSize.width : 0.75;
+  const scaleY = htmlSize?.height ? height / htmlSize.height : 0.75;
+
+  return (rect: PageRect) => ({
+    left: rect.x * scaleX,
+    right: (rect.x + rect.width) * scaleX,
+    top: height - rect.y * scaleY,
+    bottom: height - (rect.y + rect.height) * scaleY,
+  });
+}
+
+function pdfDate(timestamp: number | undefined): PDFString {
+  return PDFString.fromDate(new Date(timestamp ?? Date.now()));
+}
+
+/**
+ * Build a Multiply-blended appearance stream for a highlight
+ * Viewers that don't synthesize highlight appearances still render it
+ */
+function buildHighlightAppearance(
+  pdfDoc: PDFDocument,
+  quads: Array<{ left: number; right: number; top: number; bottom: number }>,
+  bbox: [number, number, number, number]
+): PDFRef {
+  const operators = [
+    pushGraphicsState(),
+    setGraphicsState("GS0"),
+    setFillingRgbColor(...HIGHLIGHT_COLOR),
+    ...quads.map((q) => rectangle(q.left, q.bottom, q.right - q.left, q.top - q.bottom)),
+    fill(),
+    popGraphicsState(),
+  ];
+
+  const stream = pdfDoc.context.formXObject(operators, {
+    BBox: bbox,
+    Resources: {
+      ExtGState: {
+        GS0: { Type: "ExtGState", BM: "Multiply" },
+      },
+    },
+  });
+
+  return pdfDoc.context.register(stream);
+}
+
+/**
+ * Add a /Text annotation for a comment
+ */
+function addCommentAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  toPdf: ReturnType<typeof createPageTransform>,
+  comment: ExportComment
+): void {
+  const box = toPdf(comment.rect);
+  const annotation = pdfDoc.context.obj({
+    Type: "Annot",
+    Subtype: "Text",
+    Rect: [box.left, box.bottom, box.right, box.top],
+    Contents: PDFHexString.fromText(comment.text),
+    T: PDFHexString.fromText(comment.author || DEFAULT_AUTHOR),
+    NM: PDFHexString.fromText(comment.id),
+    M: pdfDate(comment.timestamp),
+    CreationDate: pdfDate(comment.timestamp),
+    Name: "Comment",
+    C: COMMENT_COLOR,
+    F: 4, // Print
+    Open: false,
+  });
+
+  page.node.addAnnot(pdfDoc.context.register(annotation));
+}
+
+/**
+ * Add a /Highlight annotation with quad points
+ */
+function addHighlightAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  toPdf: ReturnType<typeof createPageTransform>,
+  highlight: ExportHighlight
+): void {
+  const quads = highlight.rects
+    .filter((rect) => rect.width > 0 && rect.height > 0)
+    .map(toPdf);
+  if (quads.length === 0) return;
+
+  const bbox: [number, number, number, number] = [
+    Math.min(...quads.map((q) => q.left)),
+    Math.min(...quads.map((q) => q.bottom)),
+    Math.max(...quads.map((q) => q.right)),
+    Math.max(...quads.map((q) => q.top)),
+  ];
+
+  // QuadPoints order per quad: top-left, top-right, bottom-left, bottom-right
+  const quadPoints = quads.flatMap((q) => [
+    q.left, q.top,
+    q.right, q.top,
+    q.left, q.bottom,
+    q.right, q.bottom,
+  ]);
+
+  const annotation = pdfDoc.context.obj({
+    Type: "Annot",
+    Subtype: "Highlight",
+    Rect: bbox,
+    QuadPoints: quadPoints,
+    T: PDFHexString.fromText(highlight.author || DEFAULT_AUTHOR),
+    NM: PDFHexString.fromText(highlight.id),
+    M: pdfDate(highlight.timestamp),
+    CreationDate: pdfDate(highlight.timestamp),
+    C: HIGHLIGHT_COLOR,
+    F: 4, // Print
+  });
+  annotation.set(
+    PDFName.of("AP"),
+    pdfDoc.context.obj({ N: buildHighlightAppearance(pdfDoc, quads, bbox) })
+  );
+
+  page.node.addAnnot(pdfDoc.context.register(annotation));
+}
+
+/**
+ * Add comments and highlights to the PDF as native annotations
+ * Returns the number of annotations added
+ */
+export function addNativeAnnotations(
+  pdfDoc: PDFDocument,
+  htmlPages: HTMLPageSize[],
+  annotations: { comments: ExportComment[]; highlights: ExportHighlight[] }
+): number {
+  const pages = pdfDoc.getPages();
+  let added = 0;
+
+  annotations.highlights.forEach((highlight) => {
+    const page = pages[highlight.pageIndex];
+    if (!page) return;
+    addHighlightAnnotation(
+      pdfDoc,
+      page,
+      createPageTransform(page, htmlPages[highlight.pageIndex]),
+      highlight
+    );
+    added++;
+  });
+
+  // Comments after highlights so sticky notes sit on top
+  annotations.comments.forEach((comment) => {
+    const page = pages[comment.pageIndex];
+    if (!page) return;
+    addCommentAnnotation(
+      pdfDoc,
+      page,
+      createPageTransform(page, htmlPages[comment.pageIndex]),
+      comment
+    );
+    added++;
+  });
+
+  return added;
+}
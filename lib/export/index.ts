@@ -0,0 +1,22 @@
+// Export module exports (server-only)
+export {
+  verifyRedactions,
+  type RedactionVerificationReport,
+  type RedactionLeak,
+  type LeakLocation,
+} from "./verification";
+
+export {
+  addNativeAnnotations,
+  type ExportComment,
+  type ExportHighlight,
+  type HTMLPageSize,
+  type PageRect,
+} from "./annotations";
+
+export {
+  renderPdf,
+  RedactionVerificationError,
+  type ExportMode,
+  type RenderedPdf,
+} from "./render";
@@ -0,0 +1,559 @@
+/**
+ * PDF Rendering - Print edited pdf2htmlEX HTML to a PDF with Puppeteer
+ *
+ * Shared by /api/export and /api/batch. Redactions are made permanent and
+ * labelled with their reason code, redacted image regions are burned into
+ * the image pixels, comments and highlights become native
+ * annotations, and burn-in mode additionally rasterizes redactions into images, strips text-bearing
+ * metadata and verifies nothing redacted is still extractable.
+ */
+
+import puppeteer, { type Browser, type PDFOptions } from "puppeteer";
+import { PDFDocument } from "pdf-lib";
+import { addNativeAnnotations, type ExportComment, type ExportHighlight } from "./annotations";
+import { verifyRedactions, type RedactionVerificationReport } from "./verification";
+
+/**
+ * Export modes
+ * - standard: redactions are black boxes over cleared DOM text
+ * - burn-in: additionally burns redactions into background images, strips the
+ *   outline, title and metadata, and verifies no redacted text is extractable
+ */
+export type ExportMode = "standard" | "burn-in";
+
+/**
+ * A redacted region in document coordinates
+ */
+interface RedactedRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A rendered PDF and its page layout
+ */
+export interface RenderedPdf {
+  pdf: Uint8Array;
+  pageInfo: { width: number; height: number; pageCount: number };
+  verification?: RedactionVerificationReport;
+}
+
+/**
+ * Thrown when a burn-in export still contains redacted text
+ */
+export class RedactionVerificationError extends Error {
+  readonly verification: RedactionVerificationReport;
+
+  constructor(verification: RedactionVerificationReport) {
+    const pages = [
+      ...new Set(verification.leaks.map((leak) => leak.page).filter((p) => p !== undefined)),
+    ];
+    super(
+      `Redaction verification failed: ${verification.leaks.length} redacted string(s) still extractable${
+        pages.length > 0 ? ` on page(s) ${pages.join(", ")}` : ""
+      }`
+    );
+    this.name = "RedactionVerificationError";
+    this.verification = verification;
+  }
+}
+
+/**
+ * Render HTML to a PDF
+ * Throws RedactionVerificationError if a burn-in export fails verification
+ */
+export async function renderPdf(html: string, mode: ExportMode = "standard"): Promise<RenderedPdf> {
+  const burnIn = mode === "burn-in";
+  let browser: Browser | null = null;
+
+  try {
+    // Launch puppeteer with appropriate settings
+    browser = await puppeteer.launch({
+      headless: true,
+      args: [
+        "--no-sandbox",
+        "--disable-setuid-sandbox",
+        "--disable-dev-shm-usage",
+        "--disable-gpu",
+        "--font-render-hinting=none",
+      ],
+    });
+
+    const page = await browser.newPage();
+
+    // Set content and wait for all resources to load
+    await page.setContent(html, {
+      waitUntil: ["load", "domcontentloaded", "networkidle0"],
+    });
+
+    // Wait a bit more for fonts to fully load
+    await page.evaluate(() => document.fonts?.ready);
+
+    // Get page dimensions from pdf2htmlEX structure
+    // pdf2htmlEX wraps each page in a div with class "pc" (page container)
+    // and sets explicit width/height in the CSS
+    const pageInfo = await page.evaluate(() => {
+      const pages = document.querySelectorAll(".pc");
+
+      if (pages.length > 0) {
+        const pageData: Array<{ width: number; height: number }> = [];
+
+        pages.forEach((pg) => {
+          const style = window.getComputedStyle(pg);
+          pageData.push({
+            width: parseFloat(style.width),
+            height: parseFloat(style.height),
+          });
+        });
+
+        return {
+          pages: pageData,
+          // Use first page dimensions as the PDF page size
+          width: pageData[0].width,
+          height: pageData[0].height,
+          pageCount: pages.length,
+        };
+      }
+
+      // Fallback: try to get from #page-container or body
+      const container = document.querySelector("#page-container");
+      if (container) {
+        const style = window.getComputedStyle(container);
+        return {
+          pages: [{ width: parseFloat(style.width), height: parseFloat(style.height) }],
+          width: parseFloat(style.width),
+          height: parseFloat(style.height),
+          pageCount: 1,
+        };
+      }
+
+      return {
+        pages: [{ width: document.body.scrollWidth, height: document.body.scrollHeight }],
+        width: document.body.scrollWidth,
+        height: document.body.scrollHeight,
+        pageCount: 1,
+      };
+    });
+
+    // Collect redacted text and regions before the cleanup pass strips them
+    // The text never leaves the server - it is only used for verification
+    const redactions = burnIn
+      ? await page.evaluate(() => {
+          const strings: string[] = [];
+          const regions: RedactedRegion[] = [];
+
+          document.querySelectorAll("[data-canon-redacted]").forEach((el) => {
+            const text = el.getAttribute("data-canon-original") ?? el.textContent ?? "";
+            if (text.trim()) strings.push(text.trim());
+
+            const rect = el.getBoundingClientRect();
+            if (rect.width > 0 && rect.height > 0) {
+              regions.push({
+                left: rect.left + window.scrollX,
+                top: rect.top + window.scrollY,
+                width: rect.width,
+                height: rect.height,
+              });
+            }
+          });
+
+          // Each page's text outside redactions - what may legitimately still
+          // be extracted, e.g. the other occurrence of a redacted name
+          const pageText = Array.from(document.querySelectorAll(".pf")).map((pg) => {
+            const walker = document.createTreeWalker(pg, NodeFilter.SHOW_TEXT);
+            let text = "";
+            for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+              if (!node.parentElement?.closest("[data-canon-redacted]")) text += node.textContent ?? "";
+            }
+            return text;
+          });
+
+          return { strings, regions, pageText };
+        })
+      : { strings: [] as string[], regions: [] as RedactedRegion[], pageText: [] as string[] };
+
+    // Burn image region redactions into the image pixels (every mode) - a box
+    // over the image would leave the pixels underneath in the PDF
+    // Regions are fractions of the image element; a CSS background is assumed
+    // to be stretched over its element. Images that can't be redrawn (e.g.
+    // cross-origin) are hidden, leaving only the boxes
+    await page.evaluate(async () => {
+      const regionsByImage = new Map<string, RedactedRegion[]>();
+      document.querySelectorAll("[data-canon-image-for]").forEach((overlay) => {
+        const imageId = overlay.getAttribute("data-canon-image-for") || "";
+        const [left, top, width, height] = (overlay.getAttribute("data-canon-image-region") || "")
+          .split(",")
+          .map((part) => parseFloat(part));
+        if (![left, top, width, height].every((value) => Number.isFinite(value))) return;
+        regionsByImage.set(imageId, [...(regionsByImage.get(imageId) ?? []), { left, top, width, height }]);
+      });
+
+      for (const [imageId, regions] of regionsByImage) {
+        const el = Array.from(document.querySelectorAll<HTMLElement>("[data-canon-image]")).find(
+          (candidate) => candidate.getAttribute("data-canon-id") === imageId
+        );
+        if (!el) continue;
+
+        // Nothing of a fully redacted image may survive, its description included
+        const whole = regions.some((r) => r.left <= 0.001 && r.top <= 0.001 && r.left + r.width >= 0.999 && r.top + r.height >= 0.999);
+        if (whole) {
+          el.removeAttribute("alt");
+          el.removeAttribute("title");
+          el.removeAttribute("aria-label");
+        }
+
+        try {
+          let source: HTMLImageElement;
+          if (el instanceof HTMLImageElement) {
+            source = el;
+          } else {
+            const url = window.getComputedStyle(el).backgroundImage.match(/url\(["']?(.*?)["']?\)/)?.[1];
+            if (!url) throw new Error("No background image");
+            source = new Image();
+            source.src = url;
+          }
+          await source.decode();
+
+          const canvas = document.createElement("canvas");
+          canvas.width = source.naturalWidth;
+          canvas.height = source.naturalHeight;
+          const ctx = canvas.getContext("2d");
+          if (!ctx || canvas.width === 0 || canvas.height === 0) throw new Error("Image not drawable");
+
+          ctx.drawImage(source, 0, 0);
+          ctx.fillStyle = "#000000";
+          regions.forEach((r) => {
+            ctx.fillRect(
+              Math.floor(r.left * canvas.width),
+              Math.floor(r.top * canvas.height),
+              Math.ceil(r.width * canvas.width) + 1,
+              Math.ceil(r.height * canvas.height) + 1
+            );
+          });
+
+          // Throws for cross-origin images
+          const burned = canvas.toDataURL("image/png");
+          if (el instanceof HTMLImageElement) {
+            el.removeAttribute("srcset");
+            el.src = burned;
+            await el.decode().catch(() => undefined);
+          } else {
+            el.style.backgroundImage = `url("${burned}")`;
+          }
+        } catch {
+          el.style.visibility = "hidden";
+        }
+      }
+    });
+
+    // Burn redacted regions into background images
+    // pdf2htmlEX may rasterize text (e.g. Type 3 fonts) into the page background,
+    // so covering the DOM alone is not enough
+    if (burnIn && redactions.regions.length > 0) {
+      await page.evaluate(async (regions: RedactedRegion[]) => {
+        const images = Array.from(document.querySelectorAll("img")) as HTMLImageElement[];
+
+        for (const img of images) {
+          if (!img.complete || img.naturalWidth === 0) continue;
+
+          const imgRect = img.getBoundingClientRect();
+          const imgLeft = imgRect.left + window.scrollX;
+          const imgTop = imgRect.top + window.scrollY;
+
+          const overlapping = regions.filter(
+            (r) =>
+              r.left < imgLeft + imgRect.width &&
+              r.left + r.width > imgLeft &&
+              r.top < imgTop + imgRect.height &&
+              r.top + r.height > imgTop
+          );
+          if (overlapping.length === 0) continue;
+
+          const canvas = document.createElement("canvas");
+          canvas.width = img.naturalWidth;
+          canvas.height = img.naturalHeight;
+          const ctx = canvas.getContext("2d");
+          if (!ctx) continue;
+
+          const scaleX = img.naturalWidth / imgRect.width;
+          const scaleY = img.naturalHeight / imgRect.height;
+
+          ctx.drawImage(img, 0, 0);
+          ctx.fillStyle = "#000000";
+          overlapping.forEach((r) => {
+            ctx.fillRect(
+              Math.floor((r.left - imgLeft) * scaleX),
+              Math.floor((r.top - imgTop) * scaleY),
+              Math.ceil(r.width * scaleX) + 1,
+              Math.ceil(r.height * scaleY) + 1
+            );
+          });
+
+          img.removeAttribute("srcset");
+          img.src = canvas.toDataURL("image/png");
+          await img.decode().catch(() => undefined);
+        }
+      }, redactions.regions);
+    }
+
+    // Clean up selection styles and ensure redactions are permanent before export
+    const annotations = await page.evaluate((burnIn: boolean) => {
+      // Remove any selection outlines we added (only the coral selection color)
+      document.querySelectorAll("*").forEach((el) => {
+        const htmlEl = el as HTMLElement;
+        // Skip redacted elements - don't touch their styles
+        if (htmlEl.hasAttribute("data-canon-redacted")) {
+          return;
+        }
+        if (htmlEl.style) {
+          htmlEl.style.outline = "";
+          htmlEl.style.outlineOffset = "";
+          if (htmlEl.style.backgroundColor?.includes("rgba(235, 79, 52")) {
+            htmlEl.style.backgroundColor = "";
+          }
+        }
+      });
+
+      // TRUE REDACTION: Ensure redacted elements render as black boxes
+      // The viewer already applied inline styles for width/height during redaction
+      // We just need to clean up and ensure the black background is preserved
+      document.querySelectorAll("[data-canon-redacted]").forEach((el) => {
+        const htmlEl = el as HTMLElement;
+
+        const reason = el.getAttribute("data-canon-redaction-reason");
+
+        // CRITICAL: Remove attributes that store original text
+        el.removeAttribute("data-canon-original");
+        el.removeAttribute("data-canon-original-style");
+        el.removeAttribute("data-canon-redacted");
+        el.removeAttribute("data-canon-redaction-reason");
+        el.removeAttribute("data-canon-redaction-author");
+        el.removeAttribute("data-canon-redaction-timestamp");
+        el.removeAttribute("title");
+        el.removeAttribute("aria-label");
+
+        // The dimensions are already set as inline styles by the viewer
+        // Just ensure text is cleared and black background is solid
+        htmlEl.textContent = '';
+        htmlEl.style.backgroundColor = '#000000';
+        htmlEl.style.color = 'transparent';
+        htmlEl.style.overflow = 'hidden';
+
+        // Label the box with its reason code, sized to fit the box height
+        if (reason) {
+          const height = htmlEl.offsetHeight;
+          const label = document.createElement("span");
+          label.textContent = reason;
+          label.style.cssText = [
+            "display: block",
+            "color: #ffffff",
+            "font-family: Helvetica, Arial, sans-serif",
+            "font-weight: bold",
+            `font-size: ${Math.max(4, Math.min(12, height * 0.7))}px`,
+            `line-height: ${height}px`,
+            "text-align: center",
+            "white-space: nowrap",
+            "overflow: hidden",
+          ].join("; ");
+          htmlEl.appendChild(label);
+        }
+      });
+
+      // Collect comments and highlights for native PDF annotations
+      // Positions are page-relative CSS pixels; the visual DOM versions are removed
+      // so they aren't printed into the page content
+      const pageFrames = Array.from(document.querySelectorAll(".pf"));
+      const locate = (el: Element) => {
+        const pageFrame = el.closest(".pf");
+        const pageIndex = pageFrame ? pageFrames.indexOf(pageFrame) : -1;
+        const pageRect = pageFrame?.getBoundingClientRect();
+        const toPageRect = (rect: DOMRect) => ({
+          x: rect.left - (pageRect?.left ?? 0),
+          y: rect.top - (pageRect?.top ?? 0),
+          width: rect.width,
+          height: rect.height,
+        });
+        return { pageIndex, toPageRect };
+      };
+      const parseTimestamp = (value: string | null) =>
+        value ? parseInt(value, 10) || undefined : undefined;
+
+      const comments: ExportComment[] = [];
+      const highlights: ExportHighlight[] = [];
+
+      // Remove any open comment bubbles (input dialogs) and hover tooltips
+      document.querySelectorAll(".canon-comment-bubble, .canon-comment-tooltip").forEach((el) => {
+        el.remove();
+      });
+
+      document.querySelectorAll("[data-canon-comment]").forEach((marker) => {
+        const commentText = marker.getAttribute("data-canon-comment-text");
+        const { pageIndex, toPageRect } = locate(marker);
+
+        if (commentText && pageIndex >= 0) {
+          comments.push({
+            id: marker.getAttribute("data-canon-comment-id") || `comment-${comments.length + 1}`,
+            pageIndex,
+            rect: toPageRect(marker.getBoundingClientRect()),
+            text: commentText,
+            author: marker.getAttribute("data-canon-comment-author") || undefined,
+            timestamp: parseTimestamp(marker.getAttribute("data-canon-comment-timestamp")),
+          });
+        }
+
+        marker.remove();
+      });
+
+      // Element highlights - one quad per line box
+      document.querySelectorAll("[data-canon-highlighted]").forEach((el) => {
+        const htmlEl = el as HTMLElement;
+        const { pageIndex, toPageRect } = locate(el);
+
+        if (pageIndex >= 0) {
+          highlights.push({
+            id: `highlight-${el.getAttribute("data-canon-id") || highlights.length + 1}`,
+            pageIndex,
+            rects: Array.from(el.getClientRects()).map(toPageRect),
+            timestamp: parseTimestamp(el.getAttribute("data-canon-highlight-timestamp")),
+          });
+        }
+
+        htmlEl.style.removeProperty("background-color");
+        htmlEl.style.removeProperty("border-radius");
+        el.removeAttribute("data-canon-highlighted");
+      });
+
+      // Drawn highlight boxes
+      document.querySelectorAll("[data-canon-highlight]").forEach((box) => {
+        const { pageIndex, toPageRect } = locate(box);
+
+        if (pageIndex >= 0) {
+          highlights.push({
+            id: box.getAttribute("data-canon-highlight-id") || `highlight-${highlights.length + 1}`,
+            pageIndex,
+            rects: [toPageRect(box.getBoundingClientRect())],
+            timestamp: parseTimestamp(box.getAttribute("data-canon-highlight-timestamp")),
+          });
+        }
+
+        box.remove();
+      });
+
+      // Remove canon-id and canon-original attributes from ALL elements
+      document.querySelectorAll("[data-canon-id]").forEach((el) => {
+        el.removeAttribute("data-canon-id");
+      });
+      document.querySelectorAll("[data-canon-original]").forEach((el) => {
+        el.removeAttribute("data-canon-original");
+      });
+
+      // Burn-in: drop everything outside the page body that can carry text
+      // (pdf2htmlEX embeds the source outline in #outline / #sidebar)
+      if (burnIn) {
+        document.querySelectorAll("#outline, #sidebar, title, meta[name], meta[property]").forEach((el) => {
+          el.remove();
+        });
+      }
+
+      // Reset user-select
+      document.body.style.userSelect = "";
+      document.body.style.cursor = "";
+
+      return { comments, highlights };
+    }, burnIn);
+
+    // Set viewport to match content
+    await page.setViewport({
+      width: Math.ceil(pageInfo.width),
+      height: Math.ceil(pageInfo.height * pageInfo.pageCount),
+      deviceScaleFactor: 1,
+    });
+
+    // PDF options - match exact page dimensions
+    // Using tagged: true to ensure text layer is preserved for accessibility and selectability
+    // Burn-in exports are untagged so no structure tree or alt text carries content
+    const pdfOptions: PDFOptions = {
+      width: `${pageInfo.width}px`,
+      height: `${pageInfo.height}px`,
+      printBackground: true,
+      preferCSSPageSize: false,
+      margin: {
+        top: "0px",
+        right: "0px",
+        bottom: "0px",
+        left: "0px",
+      },
+      scale: 1,
+      tagged: !burnIn, // Preserves text layer for selectability in PDF readers
+      outline: false,
+    };
+
+    // Generate PDF with Puppeteer
+    const pdfBuffer = await page.pdf(pdfOptions);
+
+    await browser.close();
+    browser = null;
+
+    // Load the PDF with pdf-lib to add JavaScript
+    // This JavaScript will execute when the PDF is opened in Chrome/Acrobat
+    const pdfDoc = await PDFDocument.load(pdfBuffer);
+
+    // Add JavaScript that runs when the PDF opens
+    // Note: Chrome's PDFium has limited JS support (app.alert works, console does not)
+    // Full support available in Adobe Acrobat Reader
+    const openScript = `
+      // Canon PDF - Generated with JavaScript support
+      // This script runs when the document opens
+
+      // Show a subtle notification (works in Acrobat)
+      // app.alert("Document opened successfully", 3);
+
+      // For Chrome PDFium compatibility, we keep it minimal
+      // Most advanced features only work in Acrobat Reader
+    `;
+
+    pdfDoc.addJavaScript('canonOpenScript', openScript);
+
+    // Comments and highlights as native annotations (not printed page content)
+    addNativeAnnotations(pdfDoc, pageInfo.pages, annotations);
+
+    // Burn-in: scrub document info so nothing from the source survives there
+    if (burnIn) {
+      pdfDoc.setTitle("");
+      pdfDoc.setAuthor("");
+      pdfDoc.setSubject("");
+      pdfDoc.setKeywords([]);
+      pdfDoc.setCreator("Canon");
+      pdfDoc.setProducer("Canon");
+    }
+
+    // Save the modified PDF
+    const finalPdfBytes = await pdfDoc.save();
+
+
+    // Burn-in: re-extract the output and prove no redacted string survives
+    let verification: RedactionVerificationReport | undefined;
+    if (burnIn) {
+      verification = await verifyRedactions(finalPdfBytes, redactions.strings, redactions.pageText);
+      if (!verification.verified) {
+        throw new RedactionVerificationError(verification);
+      }
+    }
+
+    return {
+      pdf: finalPdfBytes,
+      pageInfo: {
+        width: pageInfo.width,
+        height: pageInfo.height,
+        pageCount: pageInfo.pageCount,
+      },
+      verification,
+    };
+  } finally {
+    if (browser) {
+      await browser.close();
+    }
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Redaction Verification - Proves redacted content is gone from an exported PDF
+ *
+ * Re-extracts everything a PDF reader can pull out of the output (page text,
+ * document info, XMP metadata, outline titles, annotation contents) and checks
+ * that none of the redacted strings survive.
+ *
+ * A redacted string may also appear unredacted on the same page (one of two
+ * occurrences of a name redacted, a common word). Given the source's visible
+ * page text, page text is checked by count: only occurrences beyond those
+ * left unredacted in the source are leaks; the rest are reported as
+ * informational matches.
+ *
+ * The report identifies leaks by redaction index only - it never contains
+ * the redacted text itself.
+ */
+
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+/**
+ * Strings shorter than this (after normalization) can't be meaningfully
+ * proven absent ("a", "12") and are reported as skipped
+ */
+const MIN_VERIFIABLE_LENGTH = 3;
+
+/**
+ * Where a redacted string was found
+ */
+export type LeakLocation = "page_text" | "metadata" | "outline" | "annotation";
+
+/**
+ * A redacted string that is still extractable from the output
+ */
+export interface RedactionLeak {
+  redactionIndex: number;
+  location: LeakLocation;
+  page?: number;
+}
+
+/**
+ * Result of verifying an exported PDF
+ */
+export interface RedactionVerificationReport {
+  verified: boolean;
+  redactionCount: number;
+  checkedCount: number;
+  skippedCount: number;
+  pagesScanned: number;
+  extractedCharacters: number;
+  leaks: RedactionLeak[];
+  unredactedMatches: RedactionLeak[]; // Found, but no more often than the source has it unredacted - informational
+  verifiedAt: string;
+}
+
+/**
+ * Normalize text for comparison
+ * Lowercase and strip all whitespace, since extracted glyph runs may be
+ * split or joined differently than the source HTML
+ */
+function normalizeForComparison(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Non-overlapping occurrences of needle in haystack (both normalized)
+ */
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Collect outline (bookmark) titles recursively
+ */
+function collectOutlineTitles(
+  items: Array<{ title: string; items: unknown[] }> | null
+): string[] {
+  if (!items) return [];
+
+  const titles: string[] = [];
+  for (const item of items) {
+    titles.push(item.title);
+    titles.push(
+      ...collectOutlineTitles(item.items as Array<{ title: string; items: unknown[] }>)
+    );
+  }
+  return titles;
+}
+
+/**
+ * Verify that none of the redacted strings can be extracted from the PDF
+ * visiblePageText is the source's text per page without its redacted parts;
+ * without it any occurrence in page text is a leak
+ */
+export async function verifyRedactions(
+  pdfBytes: Uint8Array,
+  redactedStrings: string[],
+  visiblePageText?: string[]
+): Promise<RedactionVerificationReport> {
+  const targets = redactedStrings.map((text, index) => ({
+    index,
+    normalized: normalizeForComparison(text),
+  }));
+  const checked = targets.filter((t) => t.normalized.length >= MIN_VERIFIABLE_LENGTH);
+
+  const leaks: RedactionLeak[] = [];
+  const unredactedMatches: RedactionLeak[] = [];
+  const seen = new Set<string>();
+  const recordLeaks = (haystack: string, location: LeakLocation, page?: number): void => {
+    const normalized = normalizeForComparison(haystack);
+    if (!normalized) return;
+
+    // Occurrences the source leaves unredacted on this page are expected
+    const visible =
+      location === "page_text" && page !== undefined && visiblePageText
+        ? normalizeForComparison(visiblePageText[page - 1] ?? "")
+        : "";
+
+    for (const target of checked) {
+      const found = countOccurrences(normalized, target.normalized);
+      if (found === 0) continue;
+
+      const key = `${target.index}:${location}:${page ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const expected = visible ? countOccurrences(visible, target.normalized) : 0;
+      const match = { redactionIndex: target.index, location, page };
+      if (found > expected) {
+        leaks.push(match);
+      } else {
+        unredactedMatches.push(match);
+      }
+    }
+  };
+
+  // pdf.js may detach the buffer it is given, so pass a copy
+  const pdf = await getDocument({
+    data: new Uint8Array(pdfBytes),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    // Text extraction doesn't need font rendering - silence font data warnings
+    verbosity: 0,
+  }).promise;
+
+  let extractedCharacters = 0;
+
+  try {
+    // Page text and annotations
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items
+        .map((item) => ("str" in item ? item.str : ""))
+        .join("");
+      extractedCharacters += pageText.length;
+      recordLeaks(pageText, "page_text", pageNum);
+
+      const annotations = await page.getAnnotations();
+      for (const annotation of annotations) {
+        const annotationText = [
+          annotation.contentsObj?.str,
+          annotation.titleObj?.str,
+          annotation.fieldValue,
+        ]
+          .filter((value): value is string => typeof value === "string")
+          .join(" ");
+        recordLeaks(annotationText, "annotation", pageNum);
+      }
+    }
+
+    // Document info dictionary and XMP metadata
+    const { info, metadata } = await pdf.getMetadata();
+    const infoText = Object.values((info as Record<string, unknown>) || {})
+      .filter((value): value is string => typeof value === "string")
+      .join(" ");
+    const xmpText = metadata ? String(metadata.getRaw() ?? "") : "";
+    recordLeaks(`${infoText} ${xmpText}`, "metadata");
+
+    // Outline / bookmarks
+    const outline = await pdf.getOutline();
+    recordLeaks(
+      collectOutlineTitles(outline as Array<{ title: string; items: unknown[] }> | null).join(" "),
+      "outline"
+    );
+
+    return {
+      verified: leaks.length === 0,
+      redactionCount: redactedStrings.length,
+      checkedCount: checked.length,
+      skippedCount: targets.length - checked.length,
+      pagesScanned: pdf.numPages,
+      extractedCharacters,
+      leaks,
+      unredactedMatches,
+      verifiedAt: new Date().toISOString(),
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Imported Annotations - Map existing PDF annotations onto GDSM elements
+ *
+ * pdf2htmlEX drops annotation dictionaries, so comments, highlights and
+ * pending redactions in an uploaded PDF are extracted separately and matched
+ * to the elements they overlap (using element x/y/width/height).
+ *
+ * - highlight (Highlight/Underline/StrikeOut/Squiggly) -> HIGHLIGHTED
+ * - comment (Text/FreeText, or any markup with contents) -> COMMENTED
+ * - redaction (Redact, not yet applied) -> HIGHLIGHTED + "Marked for redaction" comment
+ */
+
+import type { GDSM, GDSMElement } from "./types";
+import { ElementState } from "./types";
+
+/**
+ * Minimum share of the element (or of the annotation rect) that must be
+ * covered for a highlight to count as applying to the element
+ */
+const MIN_HIGHLIGHT_COVERAGE = 0.3;
+
+/**
+ * How far (page px) a sticky note may sit from the element it annotates
+ */
+const MAX_COMMENT_DISTANCE = 72;
+
+/**
+ * Comment text used for pending redaction annotations without contents
+ */
+const REDACTION_MARK_TEXT = "Marked for redaction";
+
+export type ImportedAnnotationKind = "comment" | "highlight" | "redaction";
+
+/**
+ * A rectangle in page px, top-left origin (same space as GDSM elements)
+ */
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An annotation read from the source PDF
+ */
+export interface ImportedAnnotation {
+  id: string;
+  kind: ImportedAnnotationKind;
+  subtype: string; // PDF /Subtype, e.g. "Highlight"
+  page: number; // 1-indexed
+  // Annotation rect, or one rect per quad for text markup
+  rects: AnnotationRect[];
+  text?: string;
+  author?: string;
+  timestamp?: number;
+}
+
+/**
+ * Result of applying one imported annotation
+ */
+export interface AnnotationMatch {
+  annotationId: string;
+  highlightedIds: string[];
+  commentedId?: string;
+}
+
+function intersectionArea(el: GDSMElement, rect: AnnotationRect): number {
+  const width = Math.min(el.x + el.width, rect.x + rect.width) - Math.max(el.x, rect.x);
+  const height = Math.min(el.y + el.height, rect.y + rect.height) - Math.max(el.y, rect.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function centerDistance(el: GDSMElement, rect: AnnotationRect): number {
+  return Math.hypot(
+    el.x + el.width / 2 - (rect.x + rect.width / 2),
+    el.y + el.height / 2 - (rect.y + rect.height / 2)
+  );
+}
+
+/**
+ * Elements covered by a highlight's rects
+ */
+function findHighlightedElements(
+  elements: GDSMElement[],
+  rects: AnnotationRect[]
+): GDSMElement[] {
+  return elements.filter((el) => {
+    const elementArea = el.width * el.height;
+    if (elementArea <= 0) return false;
+
+    return rects.some((rect) => {
+      const overlap = intersectionArea(el, rect);
+      if (overlap === 0) return false;
+      const rectArea = rect.width * rect.height;
+      return (
+        overlap / elementArea >= MIN_HIGHLIGHT_COVERAGE ||
+        (rectArea > 0 && overlap / rectArea >= MIN_HIGHLIGHT_COVERAGE)
+      );
+    });
+  });
+}
+
+/**
+ * Element a comment belongs to: the most overlapped one, otherwise the nearest
+ * Elements that already carry a comment are skipped (one comment per element)
+ */
+function findCommentTarget(
+  elements: GDSMElement[],
+  rects: AnnotationRect[]
+): GDSMElement | undefined {
+  const candidates = elements.filter((el) => !el.comment && el.width > 0 && el.height > 0);
+
+  let best: GDSMElement | undefined;
+  let bestOverlap = 0;
+  candidates.forEach((el) => {
+    const overlap = rects.reduce((sum, rect) => sum + intersectionArea(el, rect), 0);
+    if (overlap > bestOverlap) {
+      best = el;
+      bestOverlap = overlap;
+    }
+  });
+  if (best) return best;
+
+  // Sticky notes usually sit beside the text, not on it
+  let nearestDistance = MAX_COMMENT_DISTANCE;
+  candidates.forEach((el) => {
+    const distance = Math.min(...rects.map((rect) => centerDistance(el, rect)));
+    if (distance <= nearestDistance) {
+      best = el;
+      nearestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Apply an imported annotation to the GDSM
+ * Sets HIGHLIGHTED/COMMENTED state in place; callers rebuild stats afterwards
+ */
+export function applyImportedAnnotation(
+  gdsm: GDSM,
+  annotation: ImportedAnnotation
+): AnnotationMatch {
+  const elements = gdsm.elementsByPage.get(annotation.page) ?? [];
+  const match: AnnotationMatch = { annotationId: annotation.id, highlightedIds: [] };
+
+  if (annotation.kind === "highlight" || annotation.kind === "redaction") {
+    findHighlightedElements(elements, annotation.rects).forEach((el) => {
+      el.state |= ElementState.HIGHLIGHTED;
+      match.highlightedIds.push(el.id);
+    });
+  }
+
+  const commentText =
+    annotation.text?.trim() ||
+    (annotation.kind === "redaction" ? REDACTION_MARK_TEXT : "");
+
+  if (commentText) {
+    const target = findCommentTarget(elements, annotation.rects);
+    if (target) {
+      target.state |= ElementState.COMMENTED;
+      target.comment = {
+        id: annotation.id,
+        text: commentText,
+        timestamp: annotation.timestamp ?? Date.now(),
+        author: annotation.author,
+      };
+      match.commentedId = target.id;
+    }
+  }
+
+  return match;
+}
@@ -7,10 +7,30 @@
  * - This preserves word-level elements where pdf2htmlEX provides them
  */
 
-import type { GDSM, GDSMElement, GDSMPage, TextIndex, GDSMStats } from "./types";
+import type {
+  DocumentLocale,
+  ElementStyle,
+  GDSM,
+  GDSMElement,
+  GDSMPage,
+  TextIndex,
+  GDSMStats,
+} from "./types";
 import { ElementState } from "./types";
 import { buildTextIndex } from "./text-index";
 import { detectSemanticType, extractEntities } from "./semantic";
+import { getElementRangeMarks, getElementText } from "./ranges";
+import { DEFAULT_LOCALE, guessDocumentLocale } from "./locale";
+import { buildLayout } from "./layout";
+import { detectPageFurniture } from "./furniture";
+import { assignImageIds, coversImage, getImageRedactions } from "./images";
+import {
+  FONT_NAME_PROPERTY,
+  FONT_STYLE_PROPERTY,
+  FONT_WEIGHT_PROPERTY,
+  resolveElementStyle,
+  transformScale,
+} from "./style";
 
 /**
  * Selectors for text elements in pdf2htmlEX output
@@ -132,13 +152,29 @@ function ensureElementIds(iframeDoc: Document): void {
   );
 }
 
+/**
+ * Page-relative bounding box of an element
+ */
+export interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Resolves an element's page-relative box
+ * The browser builder measures layout; the server builder reads pdf2htmlEX classes
+ */
+export type CoordinateResolver = (el: HTMLElement, pageNum: number) => ElementBox;
+
 /**
  * Extract element coordinates from DOM element
  */
 function extractCoordinates(
   el: HTMLElement,
   pageNum: number
-): { x: number; y: number; width: number; height: number } {
+): ElementBox {
   // Try data attributes first
   const dataX = el.getAttribute("data-canon-x");
   const dataY = el.getAttribute("data-canon-y");
@@ -178,6 +214,38 @@ function extractCoordinates(
   };
 }
 
+/**
+ * Resolves an element's font and color
+ * The browser builder reads computed styles; the server builder reads pdf2htmlEX classes
+ */
+export type StyleResolver = (el: HTMLElement) => ElementStyle | undefined;
+
+/**
+ * Extract font and color from computed styles
+ * Font sizes are scaled by the text line's transform, as pdf2htmlEX draws
+ * lines at a larger size and scales them down
+ */
+function extractStyle(el: HTMLElement): ElementStyle | undefined {
+  const view = el.ownerDocument.defaultView;
+  if (!view) return undefined;
+
+  const computed = view.getComputedStyle(el);
+  const line = el.closest(".t") ?? el;
+  return resolveElementStyle(
+    {
+      fontFamily: computed.fontFamily,
+      fontSize: parseFloat(computed.fontSize) || undefined,
+      fontWeight: computed.fontWeight,
+      fontStyle: computed.fontStyle,
+      color: computed.color,
+      embeddedName: computed.getPropertyValue(FONT_NAME_PROPERTY),
+      embeddedWeight: computed.getPropertyValue(FONT_WEIGHT_PROPERTY),
+      embeddedStyle: computed.getPropertyValue(FONT_STYLE_PROPERTY),
+    },
+    transformScale(view.getComputedStyle(line).transform)
+  );
+}
+
 /**
  * Determine element state from DOM attributes/classes
  */
@@ -221,18 +289,55 @@ function determineElementState(el: HTMLElement): ElementState {
   return state;
 }
 
+/**
+ * Extract an image element (see images.ts)
+ * Fully covered by a redacted region counts as redacted
+ */
+function extractImageElement(el: HTMLElement, id: string, pageNum: number, coords: ElementBox): GDSMElement {
+  const redactions = getImageRedactions(el);
+  let state = determineElementState(el);
+  if (redactions.some(coversImage)) {
+    state |= ElementState.REDACTED;
+  }
+
+  const alt = el.getAttribute("alt")?.trim();
+  return {
+    id,
+    type: "image",
+    text: "",
+    page: pageNum,
+    x: coords.x,
+    y: coords.y,
+    width: coords.width,
+    height: coords.height,
+    state,
+    image: {
+      source: el.getAttribute("data-canon-image") === "img" ? "img" : "background",
+      ...(el.classList.contains("bi") ? { pageBackground: true } : {}),
+      ...(alt ? { alt } : {}),
+      ...(redactions.length > 0 ? { redactions } : {}),
+    },
+  };
+}
+
 /**
  * Extract a GDSMElement from a DOM element
  */
-function extractElement(
+export function extractElement(
   el: HTMLElement,
-  pageNum: number
+  pageNum: number,
+  resolveCoordinates: CoordinateResolver = extractCoordinates,
+  resolveStyle: StyleResolver = extractStyle
 ): GDSMElement | null {
   const id = el.getAttribute("data-canon-id");
   if (!id) return null;
 
-  const text = el.textContent?.trim() || "";
-  const coords = extractCoordinates(el, pageNum);
+  if (el.hasAttribute("data-canon-image")) {
+    return extractImageElement(el, id, pageNum, resolveCoordinates(el, pageNum));
+  }
+
+  const text = getElementText(el);
+  const coords = resolveCoordinates(el, pageNum);
   const state = determineElementState(el);
 
   // Skip empty elements (unless they're redacted - those should be tracked)
@@ -248,6 +353,7 @@ function extractElement(
   const commentId = el.getAttribute("data-canon-comment-id");
   const commentText = el.getAttribute("data-canon-comment-text");
   const commentTimestamp = el.getAttribute("data-canon-comment-timestamp");
+  const commentAuthor = el.getAttribute("data-canon-comment-author");
 
   const element: GDSMElement = {
     id,
@@ -262,15 +368,27 @@ function extractElement(
     entities: entities.length > 0 ? entities : undefined,
   };
 
+  const style = resolveStyle(el);
+  if (style) {
+    element.style = style;
+  }
+
   // Add comment if present
   if (commentId && commentText) {
     element.comment = {
       id: commentId,
       text: commentText,
       timestamp: commentTimestamp ? parseInt(commentTimestamp, 10) : Date.now(),
+      author: commentAuthor || undefined,
     };
   }
 
+  // Partial redactions and highlights
+  const ranges = getElementRangeMarks(el);
+  if (ranges.length > 0) {
+    element.ranges = ranges;
+  }
+
   // Store original text if element has been modified
   const originalText = el.getAttribute("data-canon-original-text");
   if (originalText) {
@@ -280,6 +398,31 @@ function extractElement(
   return element;
 }
 
+/**
+ * Attach comment markers to the elements they annotate
+ * Markers added by the agent or dropped on text carry the element's ID
+ * (data-canon-comment-element); an element keeps its own comment if it has one
+ */
+export function linkCommentMarkers(root: ParentNode, elements: GDSMElement[]): void {
+  const byId = new Map(elements.map((element) => [element.id, element]));
+
+  root.querySelectorAll("[data-canon-comment][data-canon-comment-element]").forEach((marker) => {
+    const element = byId.get(marker.getAttribute("data-canon-comment-element") || "");
+    const id = marker.getAttribute("data-canon-comment-id");
+    const text = marker.getAttribute("data-canon-comment-text");
+    if (!element || element.comment || !id || !text) return;
+
+    const timestamp = marker.getAttribute("data-canon-comment-timestamp");
+    element.state |= ElementState.COMMENTED;
+    element.comment = {
+      id,
+      text,
+      timestamp: timestamp ? parseInt(timestamp, 10) : Date.now(),
+      author: marker.getAttribute("data-canon-comment-author") || undefined,
+    };
+  });
+}
+
 /**
  * Extract page information from the document
  */
@@ -349,17 +492,10 @@ function calculateStats(elements: Map<string, GDSMElement>): GDSMStats {
 }
 
 /**
- * Build a GDSM from an iframe document
+ * Assemble a GDSM from extracted pages and elements
+ * Builds the lookup maps, text index and stats
  */
-export function buildGDSM(iframeDoc: Document): GDSM {
-  const startTime = performance.now();
-
-  // Ensure all elements have IDs
-  ensureElementIds(iframeDoc);
-
-  // Extract page info
-  const pages = extractPages(iframeDoc);
-
+export function assembleGDSM(pages: GDSMPage[], elements: GDSMElement[]): GDSM {
   // Build element maps
   const elementsById = new Map<string, GDSMElement>();
   const elementsByPage = new Map<number, GDSMElement[]>();
@@ -369,21 +505,8 @@ export function buildGDSM(iframeDoc: Document): GDSM {
     elementsByPage.set(page.pageNum, []);
   });
 
-  // Extract all elements with IDs
-  const domElements = iframeDoc.querySelectorAll("[data-canon-id]");
-
-  domElements.forEach((domEl) => {
-    const htmlEl = domEl as HTMLElement;
-
-    // Determine page number - use .pf only (not .pc) to avoid double-counting
-    // pdf2htmlEX outputs .pf as the main page container
-    const page = domEl.closest(".pf");
-    const pfPages = iframeDoc.querySelectorAll(".pf");
-    const pageNum = page ? Array.from(pfPages).indexOf(page) + 1 : 1;
-
-    const element = extractElement(htmlEl, pageNum);
-    if (!element) return;
-
+  elements.forEach((element) => {
+    const pageNum = element.page;
     elementsById.set(element.id, element);
 
     // Add to page array
@@ -403,13 +526,20 @@ export function buildGDSM(iframeDoc: Document): GDSM {
     }
   });
 
+  // Running headers, footers and page numbers (before the layout, which
+  // keeps them out of sections)
+  detectPageFurniture(pages, elements);
+
   // Build text index
   const textIndex = buildTextIndex(elementsById);
 
   // Calculate stats
   const stats = calculateStats(elementsById);
 
-  const gdsm: GDSM = {
+  // Lines, paragraphs and sections
+  const layout = buildLayout(pages, elements);
+
+  return {
     documentId: `doc-${Date.now()}`,
     version: 1,
     createdAt: Date.now(),
@@ -418,17 +548,105 @@ export function buildGDSM(iframeDoc: Document): GDSM {
     elementsById,
     elementsByPage,
     textIndex,
+    layout,
     stats,
+    locale: DEFAULT_LOCALE,
+    localeSource: "detected",
+    geometry: "measured",
   };
+}
+
+/**
+ * Set the document locale and re-detect semantic types with its patterns
+ * Without a locale, the locale is guessed from the document text
+ */
+export function setDocumentLocale(gdsm: GDSM, locale?: DocumentLocale): GDSM {
+  const elements = Array.from(gdsm.elementsById.values());
+  const next = locale ?? guessDocumentLocale(elements.map((el) => el.text)).locale;
+  const changed = next !== gdsm.locale;
+
+  gdsm.locale = next;
+  gdsm.localeSource = locale ? "user" : "detected";
+  if (!changed) return gdsm;
+
+  elements.forEach((element) => {
+    const semanticType = detectSemanticType(element.text, next);
+    element.semanticType = semanticType !== "unknown" ? semanticType : undefined;
+    const entities = extractEntities(element.text, next);
+    element.entities = entities.length > 0 ? entities : undefined;
+  });
+  gdsm.lastModifiedAt = Date.now();
+
+  return gdsm;
+}
+
+/**
+ * Build a GDSM from an iframe document
+ */
+export function buildGDSM(iframeDoc: Document): GDSM {
+  const startTime = performance.now();
+
+  // Ensure all elements have IDs
+  ensureElementIds(iframeDoc);
+  assignImageIds(iframeDoc);
+
+  // Extract page info
+  const pages = extractPages(iframeDoc);
+
+  // Extract all elements with IDs
+  const domElements = iframeDoc.querySelectorAll("[data-canon-id]");
+  const pfPages = Array.from(iframeDoc.querySelectorAll(".pf"));
+  const elements: GDSMElement[] = [];
+
+  domElements.forEach((domEl) => {
+    // Determine page number - use .pf only (not .pc) to avoid double-counting
+    // pdf2htmlEX outputs .pf as the main page container
+    const page = domEl.closest(".pf");
+    const pageNum = page ? pfPages.indexOf(page) + 1 : 1;
+
+    const element = extractElement(domEl as HTMLElement, pageNum);
+    if (element) elements.push(element);
+  });
+  linkCommentMarkers(iframeDoc, elements);
+
+  const gdsm = assembleGDSM(pages, elements);
+  // Elements were typed with the default locale's patterns - redo them if the text says otherwise
+  setDocumentLocale(gdsm);
 
   const elapsed = performance.now() - startTime;
   console.log(
-    `[GDSM Builder] Built GDSM with ${elementsById.size} elements across ${pages.length} pages in ${elapsed.toFixed(1)}ms`
+    `[GDSM Builder] Built GDSM with ${gdsm.elementsById.size} elements across ${pages.length} pages (${gdsm.locale}) in ${elapsed.toFixed(1)}ms`
   );
 
   return gdsm;
 }
 
+/**
+ * Replace element boxes with ones measured in the rendered document
+ * For a GDSM built elsewhere (the server builder estimates widths); page
+ * furniture and the layout are re-derived from the new boxes
+ */
+export function refreshCoordinates(gdsm: GDSM, iframeDoc: Document): number {
+  const pfPages = Array.from(iframeDoc.querySelectorAll(".pf"));
+  let refreshed = 0;
+
+  iframeDoc.querySelectorAll("[data-canon-id]").forEach((domEl) => {
+    const element = gdsm.elementsById.get(domEl.getAttribute("data-canon-id") || "");
+    if (!element) return;
+
+    const page = domEl.closest(".pf");
+    const box = extractCoordinates(domEl as HTMLElement, page ? pfPages.indexOf(page) + 1 : element.page);
+    if (![box.x, box.y, box.width, box.height].every(Number.isFinite)) return;
+    Object.assign(element, box);
+    refreshed++;
+  });
+
+  detectPageFurniture(gdsm.pages, Array.from(gdsm.elementsById.values()));
+  gdsm.geometry = "measured";
+  gdsm.version++; // Rebuilds the layout on next use
+  return refreshed;
+}
+
 /**
  * Generate a unique document ID
  */
@@ -0,0 +1,151 @@
+/**
+ * Embedded Fonts - Real names and weights of pdf2htmlEX's fonts (server-only)
+ *
+ * pdf2htmlEX calls embedded fonts "ff1", "ff2", ... and declares them
+ * normal weight and upright, so bold and italic text look like any other.
+ * The font files know better: the name table has the PostScript name
+ * ("Arial-BoldMT") and the OS/2 table the weight class and italic flag.
+ * They are stamped onto the ff* classes as custom properties (see style.ts),
+ * which don't change rendering.
+ *
+ * Reads WOFF (zlib tables), TrueType and OpenType data URLs. WOFF2 fonts
+ * are skipped - their styles come from the CSS alone.
+ */
+
+import { inflateSync } from "zlib";
+import { FONT_NAME_PROPERTY, FONT_STYLE_PROPERTY, FONT_WEIGHT_PROPERTY } from "./style";
+
+const FONT_FACE = /@font-face\s*\{([^}]*)\}/g;
+const FACE_FAMILY = /font-family\s*:\s*["']?([A-Za-z_][\w-]*)["']?/;
+const FACE_DATA = /url\(\s*["']?data:[^,]*;base64,([A-Za-z0-9+/=\s]+)["']?\s*\)/;
+
+// OS/2 fsSelection bits
+const ITALIC_BIT = 0x01;
+
+interface EmbeddedFont {
+  name?: string;
+  weight?: number;
+  italic: boolean;
+}
+
+/**
+ * The name and OS/2 tables of a font file, or null for unknown formats
+ */
+function readTables(data: Buffer): { name?: Buffer; os2?: Buffer } | null {
+  const signature = data.toString("latin1", 0, 4);
+  const tables: { name?: Buffer; os2?: Buffer } = {};
+  const keep = (tag: string, table: () => Buffer) => {
+    if (tag === "name") tables.name = table();
+    if (tag === "OS/2") tables.os2 = table();
+  };
+
+  if (signature === "wOFF") {
+    const count = data.readUInt16BE(12);
+    for (let i = 0; i < count; i++) {
+      const entry = 44 + i * 20;
+      const tag = data.toString("latin1", entry, entry + 4);
+      const offset = data.readUInt32BE(entry + 4);
+      const compressed = data.readUInt32BE(entry + 8);
+      const length = data.readUInt32BE(entry + 12);
+      keep(tag, () => {
+        const raw = data.subarray(offset, offset + compressed);
+        return compressed < length ? inflateSync(raw) : raw;
+      });
+    }
+    return tables;
+  }
+
+  if (signature === "\0\x01\0\0" || signature === "OTTO" || signature === "true") {
+    const count = data.readUInt16BE(4);
+    for (let i = 0; i < count; i++) {
+      const entry = 12 + i * 16;
+      const tag = data.toString("latin1", entry, entry + 4);
+      const offset = data.readUInt32BE(entry + 8);
+      const length = data.readUInt32BE(entry + 12);
+      keep(tag, () => data.subarray(offset, offset + length));
+    }
+    return tables;
+  }
+
+  return null;
+}
+
+/**
+ * PostScript name (or full name) from a name table
+ */
+function readFontName(table: Buffer): string | undefined {
+  const count = table.readUInt16BE(2);
+  const storage = table.readUInt16BE(4);
+  const names = new Map<number, string>();
+
+  for (let i = 0; i < count; i++) {
+    const record = 6 + i * 12;
+    const platform = table.readUInt16BE(record);
+    const nameId = table.readUInt16BE(record + 6);
+    if ((nameId !== 6 && nameId !== 4) || names.has(nameId)) continue;
+
+    const length = table.readUInt16BE(record + 8);
+    const start = storage + table.readUInt16BE(record + 10);
+    const bytes = Buffer.from(table.subarray(start, start + length));
+    // Windows and Unicode names are UTF-16BE, Macintosh names single-byte
+    const text = platform === 1 ? bytes.toString("latin1") : bytes.swap16().toString("utf16le");
+    if (text.trim()) names.set(nameId, text.trim());
+  }
+
+  return names.get(6) ?? names.get(4);
+}
+
+function readEmbeddedFont(data: Buffer): EmbeddedFont | null {
+  const tables = readTables(data);
+  if (!tables) return null;
+
+  const font: EmbeddedFont = { italic: false };
+  if (tables.name) font.name = readFontName(tables.name);
+  if (tables.os2 && tables.os2.length >= 64) {
+    const weight = tables.os2.readUInt16BE(4);
+    if (weight >= 100 && weight <= 900) font.weight = weight;
+    font.italic = (tables.os2.readUInt16BE(62) & ITALIC_BIT) !== 0;
+  }
+  return font;
+}
+
+/**
+ * Stamp the names and weights of embedded fonts onto their classes
+ * Runs once per document (a stamped document is left alone)
+ * Returns the number of fonts stamped
+ */
+export function stampEmbeddedFontStyles(doc: Document): number {
+  if (doc.querySelector("style[data-canon-fonts]")) return 0;
+
+  const rules: string[] = [];
+  doc.querySelectorAll("style").forEach((style) => {
+    for (const [, face] of (style.textContent || "").matchAll(FONT_FACE)) {
+      const family = face.match(FACE_FAMILY)?.[1];
+      const data = face.match(FACE_DATA)?.[1];
+      if (!family || !data) continue;
+
+      let font: EmbeddedFont | null = null;
+      try {
+        font = readEmbeddedFont(Buffer.from(data.replace(/\s+/g, ""), "base64"));
+      } catch (error) {
+        console.error(`[GDSM Builder] Unreadable embedded font ${family}:`, error);
+      }
+      if (!font) continue;
+
+      const declarations = [
+        // Only name characters - the value goes back into CSS
+        font.name ? `${FONT_NAME_PROPERTY}:"${font.name.replace(/[^\w+,. -]/g, "")}"` : "",
+        font.weight ? `${FONT_WEIGHT_PROPERTY}:${font.weight}` : "",
+        font.italic ? `${FONT_STYLE_PROPERTY}:italic` : "",
+      ].filter(Boolean);
+      if (declarations.length > 0) rules.push(`.${family}{${declarations.join(";")}}`);
+    }
+  });
+
+  if (rules.length === 0) return 0;
+  const style = doc.createElement("style");
+  style.setAttribute("data-canon-fonts", "true");
+  style.textContent = rules.join("\n");
+  (doc.head ?? doc.documentElement).appendChild(style);
+  return rules.length;
+}
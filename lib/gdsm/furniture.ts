@@ -0,0 +1,122 @@
+/**
+ * Page Furniture - Running headers, footers and page numbers
+ *
+ * Letterheads, confidentiality footers and page numbers repeat on every
+ * page. An element is furniture when elements with the same text (digits
+ * ignored, so "Page 3 of 9" matches "Page 4 of 9") sit at about the same
+ * spot in the top or bottom band of enough pages. Every instance of a
+ * repeated element shares a group ID, so all of them can be acted on at once.
+ */
+
+import type { GDSMElement, GDSMPage, PageFurnitureKind } from "./types";
+import { ElementState } from "./types";
+
+// Top and bottom bands, as a fraction of the page height
+const BAND_RATIO = 0.15;
+// A repeat must cover this share of the pages (alternating page numbers
+// cover about half each), and at least MIN_PAGES
+const MIN_PAGE_SHARE = 0.4;
+const MIN_PAGES = 2;
+// Instances line up within this many px vertically and on the left edge,
+// right edge or center
+const POSITION_TOLERANCE = 10;
+
+const PAGE_NUMBER = /^(?:page\s*)?[-–(]?\s*(?:\d{1,4}|[ivxlc]{1,7})\s*[-–)]?(?:\s*(?:of|\/)\s*\d{1,4})?$/i;
+
+type Band = "top" | "bottom";
+
+interface Cluster {
+  band: Band;
+  anchor: GDSMElement;
+  members: GDSMElement[];
+}
+
+/**
+ * Text with digits (and a lone roman numeral) masked, so numbered repeats
+ * share a key
+ */
+function repeatKey(text: string): string {
+  const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
+  if (/^[ivxlc]{1,7}$/.test(normalized)) return "#";
+  return normalized.replace(/\d+/g, "#");
+}
+
+function alignedWith(a: GDSMElement, b: GDSMElement): boolean {
+  if (Math.abs(a.y - b.y) > POSITION_TOLERANCE) return false;
+  return (
+    Math.abs(a.x - b.x) <= POSITION_TOLERANCE ||
+    Math.abs(a.x + a.width - (b.x + b.width)) <= POSITION_TOLERANCE ||
+    Math.abs(a.x + a.width / 2 - (b.x + b.width / 2)) <= POSITION_TOLERANCE
+  );
+}
+
+function furnitureKind(cluster: Cluster): PageFurnitureKind {
+  const texts = cluster.members.map((el) => el.text.trim());
+  // Identical "3" on every page is a label, not a page number
+  if (texts.every((text) => PAGE_NUMBER.test(text)) && new Set(texts).size > 1) return "page_number";
+  return cluster.band === "top" ? "header" : "footer";
+}
+
+/**
+ * Tag repeated headers, footers and page numbers (replaces earlier tags)
+ * Pages without a height (scanner GDSMs) are measured by their content
+ * Returns the number of elements tagged
+ */
+export function detectPageFurniture(pages: GDSMPage[], elements: GDSMElement[]): number {
+  elements.forEach((el) => delete el.furniture);
+
+  const live = elements.filter((el) => !(el.state & ElementState.DELETED) && el.text.trim());
+  const pageNums = new Set(live.map((el) => el.page));
+  if (pageNums.size < MIN_PAGES) return 0;
+
+  const heights = new Map(pages.map((page) => [page.pageNum, page.height]));
+  const contentHeights = new Map<number, number>();
+  live.forEach((el) => contentHeights.set(el.page, Math.max(contentHeights.get(el.page) ?? 0, el.y + el.height)));
+
+  // Candidates in the top or bottom band, by band and repeat key
+  const candidates = new Map<string, Array<{ band: Band; el: GDSMElement }>>();
+  live.forEach((el) => {
+    const height = heights.get(el.page) || contentHeights.get(el.page)!;
+    const band: Band | null =
+      el.y + el.height <= height * BAND_RATIO ? "top" : el.y >= height * (1 - BAND_RATIO) ? "bottom" : null;
+    if (!band) return;
+    const key = `${band}|${repeatKey(el.text)}`;
+    candidates.set(key, [...(candidates.get(key) ?? []), { band, el }]);
+  });
+
+  const minPages = Math.max(MIN_PAGES, Math.ceil(pageNums.size * MIN_PAGE_SHARE));
+  const clusters: Cluster[] = [];
+  candidates.forEach((group) => {
+    const keyClusters: Cluster[] = [];
+    group
+      .sort((a, b) => a.el.page - b.el.page)
+      .forEach(({ band, el }) => {
+        const cluster = keyClusters.find(
+          (candidate) =>
+            alignedWith(candidate.anchor, el) && !candidate.members.some((member) => member.page === el.page)
+        );
+        if (cluster) {
+          cluster.members.push(el);
+        } else {
+          keyClusters.push({ band, anchor: el, members: [el] });
+        }
+      });
+    clusters.push(...keyClusters.filter((cluster) => new Set(cluster.members.map((el) => el.page)).size >= minPages));
+  });
+
+  // Group IDs in document order
+  clusters.sort((a, b) => a.anchor.page - b.anchor.page || a.anchor.y - b.anchor.y || a.anchor.x - b.anchor.x);
+  const counters = new Map<PageFurnitureKind, number>();
+  let tagged = 0;
+  clusters.forEach((cluster) => {
+    const kind = furnitureKind(cluster);
+    const index = counters.get(kind) ?? 0;
+    counters.set(kind, index + 1);
+    cluster.members.forEach((el) => {
+      el.furniture = { kind, group: `${kind}-${index}` };
+      tagged++;
+    });
+  });
+
+  return tagged;
+}
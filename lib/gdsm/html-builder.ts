@@ -0,0 +1,402 @@
+/**
+ * HTML Builder - Constructs GDSM server-side from pdf2htmlEX output
+ *
+ * JSDOM has no layout engine, so coordinates come from pdf2htmlEX's own
+ * positioning classes instead of getBoundingClientRect:
+ * - .x* (left) / .y* (bottom) / .h* (height) on text lines
+ * - .fs* (font size) and .m* (transform matrix) for scaling
+ * - .w* / .h* on .pf for page size
+ * - .ff* (font) and .fc* (color) for element styles, with the names and
+ *   weights of embedded fonts stamped on from the font files
+ * - .x* / .y* / .w* / .h* (or inline styles) on images
+ * Widths are estimated from font size and character count, so the GDSM is
+ * marked geometry "estimated"; the editor re-measures it in the iframe
+ * (refreshCoordinates).
+ *
+ * IDs are assigned with the same rules as the viewer script and written back
+ * into the HTML, so the iframe keeps them and both sides share one model.
+ *
+ * Server-only (depends on jsdom) - import from "@/lib/gdsm/html-builder",
+ * not the client-safe barrel.
+ */
+
+import { JSDOM } from "jsdom";
+import type { DocumentLocale, ElementStyle, GDSM, GDSMElement, GDSMPage } from "./types";
+import {
+  assembleGDSM,
+  extractElement,
+  generateDocumentId,
+  linkCommentMarkers,
+  setDocumentLocale,
+  type ElementBox,
+} from "./builder";
+import { applyImportedAnnotation, type ImportedAnnotation } from "./annotations";
+import { stampEmbeddedFontStyles } from "./embedded-fonts";
+import { assignImageIds } from "./images";
+import {
+  FONT_NAME_PROPERTY,
+  FONT_STYLE_PROPERTY,
+  FONT_WEIGHT_PROPERTY,
+  resolveElementStyle,
+} from "./style";
+
+/**
+ * Selectors for text elements - must match the viewer's assignCanonIds
+ */
+const SELECTABLE_SELECTORS =
+  '.t, .c, span, [class*="ff"], [class*="fc"], [class*="fs"], [class*="ls"], [class*="ws"], div.t';
+
+/**
+ * Average glyph advance as a fraction of font size (used to estimate widths)
+ */
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+/**
+ * Default page size (US Letter at 72 DPI) when pdf2htmlEX classes are missing
+ */
+const DEFAULT_PAGE_WIDTH = 612;
+const DEFAULT_PAGE_HEIGHT = 792;
+
+const TEXT_NODE = 3;
+
+/**
+ * Inline highlight style - matches the viewer's highlight_element operation
+ */
+const HIGHLIGHT_BACKGROUND = "rgba(255, 234, 0, 0.5)";
+
+/**
+ * Declarations of single-class CSS rules, keyed by class name
+ */
+type ClassRules = Map<string, Record<string, string>>;
+
+/**
+ * Result of building a GDSM from HTML
+ */
+export interface HTMLBuildResult {
+  gdsm: GDSM;
+  // Input HTML with data-canon-id attributes assigned
+  html: string;
+}
+
+/**
+ * Parse simple `.class{prop:value}` rules from the document's stylesheets
+ * @media blocks are skipped (pdf2htmlEX repeats positions in pt for print)
+ */
+function parseClassRules(doc: Document): ClassRules {
+  const rules: ClassRules = new Map();
+
+  doc.querySelectorAll("style").forEach((style) => {
+    const css = (style.textContent || "")
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .replace(/@media[^{]*\{(?:[^{}]*\{[^}]*\})*[^{}]*\}/g, "");
+
+    const rulePattern = /\.([A-Za-z_][\w-]*)\s*\{([^}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = rulePattern.exec(css)) !== null) {
+      const declarations = rules.get(match[1]) ?? {};
+      match[2].split(";").forEach((declaration) => {
+        const colon = declaration.indexOf(":");
+        if (colon === -1) return;
+        const prop = declaration.slice(0, colon).trim().toLowerCase();
+        const value = declaration.slice(colon + 1).trim();
+        if (prop) declarations[prop] = value;
+      });
+      rules.set(match[1], declarations);
+    }
+  });
+
+  return rules;
+}
+
+/**
+ * Look up a CSS property from an element's classes (last class wins)
+ */
+function classValue(el: Element, prop: string, rules: ClassRules): string | undefined {
+  let value: string | undefined;
+  el.classList.forEach((cls) => {
+    const declared = rules.get(cls)?.[prop];
+    if (declared !== undefined) value = declared;
+  });
+  return value;
+}
+
+/**
+ * Parse a pixel length ("12.5px" -> 12.5)
+ */
+function parsePx(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Get x/y scale factors from a CSS transform matrix
+ */
+function parseScale(transform: string | undefined): { scaleX: number; scaleY: number } {
+  const match = transform?.match(/matrix\(([^)]+)\)/);
+  if (!match) return { scaleX: 1, scaleY: 1 };
+
+  const [a, b, c, d] = match[1].split(",").map((n) => parseFloat(n));
+  return {
+    scaleX: Math.hypot(a, b) || 1,
+    scaleY: Math.hypot(c, d) || 1,
+  };
+}
+
+/**
+ * Count characters of text that precede `target` inside `container`
+ */
+function textOffsetWithin(container: Node, target: Node): number {
+  let offset = 0;
+
+  const walk = (node: Node): boolean => {
+    if (node === target) return true;
+    if (node.nodeType === TEXT_NODE) {
+      offset += node.textContent?.length ?? 0;
+      return false;
+    }
+    for (const child of Array.from(node.childNodes)) {
+      if (walk(child)) return true;
+    }
+    return false;
+  };
+
+  walk(container);
+  return offset;
+}
+
+/**
+ * Assign data-canon-id attributes the same way the viewer script does
+ * IDs already present in the HTML are kept
+ */
+function assignCanonIds(doc: Document): number {
+  const pages = Array.from(doc.querySelectorAll(".pf"));
+  let idCounter = doc.querySelectorAll("[data-canon-id]").length;
+  let assigned = 0;
+
+  doc.querySelectorAll(SELECTABLE_SELECTORS).forEach((el) => {
+    if (el.hasAttribute("data-canon-id")) return;
+    if (!el.textContent || !el.textContent.trim()) return;
+    if (el.classList.contains("pf") || el.classList.contains("pc")) return;
+    if (el.closest("[data-canon-range-id]")) return;
+
+    const page = el.closest(".pf");
+    const pageNum = page ? pages.indexOf(page) + 1 : 0;
+    el.setAttribute("data-canon-id", `pf${pageNum}-el-${idCounter++}`);
+    assigned++;
+  });
+
+  return assigned;
+}
+
+/**
+ * Extract page sizes from .pf containers
+ */
+function extractPages(doc: Document, rules: ClassRules): GDSMPage[] {
+  return Array.from(doc.querySelectorAll(".pf")).map((page, index) => ({
+    pageNum: index + 1,
+    width: parsePx(classValue(page, "width", rules)) ?? DEFAULT_PAGE_WIDTH,
+    height: parsePx(classValue(page, "height", rules)) ?? DEFAULT_PAGE_HEIGHT,
+    elementCount: 0,
+  }));
+}
+
+/**
+ * Create a coordinate resolver backed by pdf2htmlEX positioning classes
+ */
+function createClassCoordinateResolver(
+  rules: ClassRules,
+  pages: GDSMPage[]
+): (el: HTMLElement, pageNum: number) => ElementBox {
+  return (el, pageNum) => {
+    const pageHeight =
+      pages.find((p) => p.pageNum === pageNum)?.height ?? DEFAULT_PAGE_HEIGHT;
+
+    // Images are placed directly; inline styles win over classes
+    if (el.hasAttribute("data-canon-image")) {
+      const length = (prop: string) =>
+        parsePx(el.style.getPropertyValue(prop) || undefined) ?? parsePx(classValue(el, prop, rules));
+      const width = length("width") ?? parsePx(el.getAttribute("width") || undefined) ?? 0;
+      const height = length("height") ?? parsePx(el.getAttribute("height") || undefined) ?? 0;
+      const top = length("top");
+      return {
+        x: length("left") ?? 0,
+        y: top ?? pageHeight - (length("bottom") ?? 0) - height,
+        width,
+        height,
+      };
+    }
+
+    // Text lines (.t) carry the position; spans inside inherit it
+    const line = el.closest(".t") ?? el;
+
+    const { scaleX, scaleY } = parseScale(classValue(line, "transform", rules));
+    const left = parsePx(classValue(line, "left", rules)) ?? 0;
+    const bottom = parsePx(classValue(line, "bottom", rules)) ?? 0;
+    const fontSize =
+      (parsePx(classValue(el, "font-size", rules)) ??
+        parsePx(classValue(line, "font-size", rules)) ??
+        0) * scaleY;
+    const height =
+      (parsePx(classValue(line, "height", rules)) ?? 0) * scaleY || fontSize;
+
+    const charWidth = fontSize * AVERAGE_CHAR_WIDTH * (scaleX / scaleY);
+    const offset = el === line ? 0 : textOffsetWithin(line, el);
+
+    return {
+      x: left + offset * charWidth,
+      y: pageHeight - bottom - height,
+      width: (el.textContent?.length ?? 0) * charWidth,
+      height,
+    };
+  };
+}
+
+/**
+ * Create a style resolver backed by pdf2htmlEX font and color classes
+ * Values are inherited from the nearest ancestor up to the text line
+ */
+function createClassStyleResolver(rules: ClassRules): (el: HTMLElement) => ElementStyle | undefined {
+  return (el) => {
+    const line = el.closest(".t") ?? el;
+    const inherited = (prop: string): string | undefined => {
+      for (let node: Element | null = el; node; node = node.parentElement) {
+        const value = classValue(node, prop, rules);
+        if (value !== undefined) return value;
+        if (node === line) break;
+      }
+      return undefined;
+    };
+
+    return resolveElementStyle(
+      {
+        fontFamily: inherited("font-family"),
+        fontSize: parsePx(inherited("font-size")),
+        fontWeight: inherited("font-weight"),
+        fontStyle: inherited("font-style"),
+        color: inherited("color"),
+        embeddedName: inherited(FONT_NAME_PROPERTY),
+        embeddedWeight: inherited(FONT_WEIGHT_PROPERTY),
+        embeddedStyle: inherited(FONT_STYLE_PROPERTY),
+      },
+      parseScale(classValue(line, "transform", rules)).scaleY
+    );
+  };
+}
+
+/**
+ * Write an imported annotation's effect into the DOM so the viewer shows it
+ * Highlights get the viewer's highlight attributes/style; comments are stored
+ * on the element (read back by the builder) plus a marker the viewer decorates
+ */
+function stampImportedAnnotation(
+  doc: Document,
+  domById: Map<string, HTMLElement>,
+  gdsm: GDSM,
+  annotation: ImportedAnnotation,
+  match: ReturnType<typeof applyImportedAnnotation>
+): void {
+  const timestamp = String(annotation.timestamp ?? Date.now());
+
+  match.highlightedIds.forEach((id) => {
+    const el = domById.get(id);
+    if (!el) return;
+    el.style.setProperty("background-color", HIGHLIGHT_BACKGROUND, "important");
+    el.style.setProperty("border-radius", "2px", "important");
+    el.setAttribute("data-canon-highlighted", "true");
+    el.setAttribute("data-canon-highlight-timestamp", timestamp);
+  });
+
+  const comment = match.commentedId
+    ? gdsm.elementsById.get(match.commentedId)?.comment
+    : undefined;
+  const el = match.commentedId ? domById.get(match.commentedId) : undefined;
+  if (!comment || !el) return;
+
+  el.setAttribute("data-canon-comment-id", comment.id);
+  el.setAttribute("data-canon-comment-text", comment.text);
+  el.setAttribute("data-canon-comment-timestamp", String(comment.timestamp));
+  if (comment.author) el.setAttribute("data-canon-comment-author", comment.author);
+
+  const pageFrame = el.closest(".pf");
+  const anchor = annotation.rects[0];
+  if (!pageFrame || !anchor) return;
+
+  const marker = doc.createElement("div");
+  marker.setAttribute("data-canon-comment", "true");
+  marker.setAttribute("data-canon-comment-id", `${comment.id}-note`);
+  marker.setAttribute("data-canon-comment-element", el.getAttribute("data-canon-id") || "");
+  marker.setAttribute("data-canon-comment-text", comment.text);
+  marker.setAttribute("data-canon-comment-timestamp", String(comment.timestamp));
+  if (comment.author) marker.setAttribute("data-canon-comment-author", comment.author);
+  marker.style.position = "absolute";
+  marker.style.left = `${anchor.x}px`;
+  marker.style.top = `${anchor.y}px`;
+  pageFrame.appendChild(marker);
+}
+
+/**
+ * Build a GDSM from pdf2htmlEX HTML
+ * Annotations from the source PDF (if given) are mapped onto the elements;
+ * the locale is guessed from the text unless one is given
+ */
+export function buildGDSMFromHTML(
+  html: string,
+  options: { annotations?: ImportedAnnotation[]; locale?: DocumentLocale } = {}
+): HTMLBuildResult {
+  const startTime = performance.now();
+
+  const dom = new JSDOM(html);
+  const doc = dom.window.document;
+
+  const assigned = assignCanonIds(doc) + assignImageIds(doc);
+  stampEmbeddedFontStyles(doc);
+  const rules = parseClassRules(doc);
+  const pages = extractPages(doc, rules);
+  const resolveCoordinates = createClassCoordinateResolver(rules, pages);
+  const resolveStyle = createClassStyleResolver(rules);
+
+  const pfPages = Array.from(doc.querySelectorAll(".pf"));
+  const elements: GDSMElement[] = [];
+  const domById = new Map<string, HTMLElement>();
+  doc.querySelectorAll("[data-canon-id]").forEach((domEl) => {
+    const page = domEl.closest(".pf");
+    const pageNum = page ? pfPages.indexOf(page) + 1 : 1;
+
+    const element = extractElement(domEl as HTMLElement, pageNum, resolveCoordinates, resolveStyle);
+    if (element) {
+      elements.push(element);
+      domById.set(element.id, domEl as HTMLElement);
+    }
+  });
+  linkCommentMarkers(doc, elements);
+
+  let gdsm = assembleGDSM(pages, elements);
+
+  const annotations = options.annotations ?? [];
+  if (annotations.length > 0) {
+    let matched = 0;
+    annotations.forEach((annotation) => {
+      const match = applyImportedAnnotation(gdsm, annotation);
+      if (match.highlightedIds.length > 0 || match.commentedId) matched++;
+      stampImportedAnnotation(doc, domById, gdsm, annotation, match);
+    });
+
+    // Rebuild stats for the new element states
+    gdsm = assembleGDSM(pages, Array.from(gdsm.elementsById.values()));
+    console.log(
+      `[GDSM Builder] Imported ${matched} of ${annotations.length} PDF annotations`
+    );
+  }
+
+  setDocumentLocale(gdsm, options.locale);
+  gdsm.documentId = generateDocumentId();
+  gdsm.geometry = "estimated";
+
+  const elapsed = performance.now() - startTime;
+  console.log(
+    `[GDSM Builder] Built server GDSM with ${gdsm.elementsById.size} elements (${assigned} IDs assigned) across ${pages.length} pages (${gdsm.locale}) in ${elapsed.toFixed(1)}ms`
+  );
+
+  return { gdsm, html: dom.serialize() };
+}
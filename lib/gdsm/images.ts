@@ -0,0 +1,193 @@
+/**
+ * Images - Embedded images as GDSM elements, and regions redacted in them
+ *
+ * Images are the <img> elements and CSS background images inside pages.
+ * They get IDs of their own ("pf1-img-0": page, then index on the page) and
+ * are marked with data-canon-image ("img" | "background"). pdf2htmlEX draws
+ * each page's non-text content as one background image (.bi).
+ *
+ * A region redaction is an overlay on the page, not a change to the image:
+ *   <div data-canon-image-for="pf1-img-0" data-canon-image-region-id="region-..."
+ *        data-canon-image-region="x,y,width,height" data-canon-redacted="true">
+ * with the region in fractions of the image. Export burns the regions into
+ * the image pixels (lib/export/render).
+ *
+ * The viewer's iframe script has an ES5 copy of the ID and overlay code
+ * (pdf-viewer SELECTION_SCRIPT); keep the two in step.
+ */
+
+import type { BoundingBox, ElementImage, GDSMElement, ImageRedaction } from "./types";
+
+/**
+ * Images in pdf2htmlEX output
+ */
+export const IMAGE_SELECTORS = '.pf img, .pf [style*="background-image"]';
+
+/**
+ * The whole image, as a region
+ */
+export const FULL_IMAGE_REGION: BoundingBox = { x: 0, y: 0, width: 1, height: 1 };
+
+// Regions within this of the image edges cover it
+const EDGE_TOLERANCE = 0.001;
+
+/**
+ * How a region operation names its target: a box in page pixels, or
+ * nothing for the whole image
+ */
+export interface ImageRegionInput {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Assign data-canon-id and data-canon-image attributes to images
+ * Runs after text IDs; IDs already present are kept
+ */
+export function assignImageIds(doc: Document): number {
+  let assigned = 0;
+
+  doc.querySelectorAll(".pf").forEach((page, pageIndex) => {
+    const images = Array.from(page.querySelectorAll(IMAGE_SELECTORS)).filter(
+      // Text elements with a background keep their text ID
+      (el) => !el.hasAttribute("data-canon-id") || el.hasAttribute("data-canon-image")
+    );
+
+    images.forEach((el, index) => {
+      if (el.hasAttribute("data-canon-id")) return;
+      el.setAttribute("data-canon-id", `pf${pageIndex + 1}-img-${index}`);
+      el.setAttribute("data-canon-image", el.tagName === "IMG" ? "img" : "background");
+      assigned++;
+    });
+  });
+
+  return assigned;
+}
+
+/**
+ * True for image elements
+ */
+export function isImageElement(el: GDSMElement): boolean {
+  return el.type === "image";
+}
+
+/**
+ * Copy of an element's image info (redactions included)
+ */
+export function copyImage(image: ElementImage): ElementImage {
+  return {
+    ...image,
+    redactions: image.redactions ? image.redactions.map((redaction) => ({ ...redaction })) : undefined,
+  };
+}
+
+/**
+ * Short description of an image for element lists ('photo "Jane Doe", 1 region redacted')
+ */
+export function describeImage(image: ElementImage): string {
+  const parts = [image.pageBackground ? "page background image" : "image"];
+  if (image.alt) parts[0] += ` "${image.alt}"`;
+  const regions = image.redactions?.length ?? 0;
+  if (regions > 0) parts.push(`${regions} region${regions === 1 ? "" : "s"} redacted`);
+  return parts.join(", ");
+}
+
+/**
+ * A page box (page px) as a region of an image, clamped to the image
+ * Without a box the region is the whole image; null if the box misses it
+ */
+export function imageRegionFromBox(image: BoundingBox, box?: BoundingBox): BoundingBox | null {
+  if (!box) return { ...FULL_IMAGE_REGION };
+  if (image.width <= 0 || image.height <= 0) return null;
+
+  const left = Math.max(box.x, image.x);
+  const top = Math.max(box.y, image.y);
+  const right = Math.min(box.x + box.width, image.x + image.width);
+  const bottom = Math.min(box.y + box.height, image.y + image.height);
+  if (right <= left || bottom <= top) return null;
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return {
+    x: round((left - image.x) / image.width),
+    y: round((top - image.y) / image.height),
+    width: round((right - left) / image.width),
+    height: round((bottom - top) / image.height),
+  };
+}
+
+/**
+ * Resolve a region input against an image's box
+ */
+export function resolveImageRegion(
+  image: BoundingBox,
+  input: ImageRegionInput
+): { region?: BoundingBox; error?: string } {
+  const values = [input.x, input.y, input.width, input.height];
+  if (values.every((value) => value === undefined)) return { region: { ...FULL_IMAGE_REGION } };
+  if (!values.every((value) => typeof value === "number" && Number.isFinite(value))) {
+    return { error: "Region needs x, y, width and height - or none of them for the whole image" };
+  }
+
+  const box = { x: input.x!, y: input.y!, width: input.width!, height: input.height! };
+  if (box.width <= 0 || box.height <= 0) return { error: "Region width and height must be positive" };
+
+  const region = imageRegionFromBox(image, box);
+  if (!region) {
+    return {
+      error: `Region is outside the image (image at ${Math.round(image.x)},${Math.round(image.y)}, ${Math.round(image.width)}x${Math.round(image.height)})`,
+    };
+  }
+  return { region };
+}
+
+/**
+ * True if a region covers the whole image
+ */
+export function coversImage(region: BoundingBox): boolean {
+  return (
+    region.x <= EDGE_TOLERANCE &&
+    region.y <= EDGE_TOLERANCE &&
+    region.x + region.width >= 1 - EDGE_TOLERANCE &&
+    region.y + region.height >= 1 - EDGE_TOLERANCE
+  );
+}
+
+/**
+ * Region attribute value ("x,y,width,height")
+ */
+export function formatImageRegion(region: BoundingBox): string {
+  return [region.x, region.y, region.width, region.height].join(",");
+}
+
+/**
+ * Parse a region attribute value; null if malformed
+ */
+export function parseImageRegion(value: string | null): BoundingBox | null {
+  const parts = (value || "").split(",").map((part) => parseFloat(part));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [x, y, width, height] = parts;
+  return { x, y, width, height };
+}
+
+/**
+ * Region redactions of an image, read from its overlays
+ */
+export function getImageRedactions(el: Element): ImageRedaction[] {
+  const imageId = el.getAttribute("data-canon-id");
+  const page = el.closest(".pf") ?? el.ownerDocument;
+  if (!imageId) return [];
+
+  const redactions: ImageRedaction[] = [];
+  page.querySelectorAll("[data-canon-image-for]").forEach((overlay) => {
+    if (overlay.getAttribute("data-canon-image-for") !== imageId) return;
+    const id = overlay.getAttribute("data-canon-image-region-id");
+    const region = parseImageRegion(overlay.getAttribute("data-canon-image-region"));
+    if (!id || !region) return;
+
+    const reason = overlay.getAttribute("data-canon-redaction-reason");
+    redactions.push({ id, ...region, ...(reason ? { reason } : {}) });
+  });
+  return redactions;
+}
@@ -35,13 +35,54 @@ export type {
   ScanQuery,
   ScanResult,
   SemanticType,
+  DocumentLocale,
   ElementComment,
+  ElementRangeMark,
+  TextRange,
+  TextSpan,
+  LineSegment,
+  LayoutNodeKind,
+  LayoutNode,
+  LayoutSection,
+  GDSMLayout,
+  GDSMTable,
+  TableColumn,
+  TableRow,
+  TableCell,
+  TableRowPredicate,
+  PageFurnitureKind,
+  ElementFurniture,
+  BoundingBox,
+  PageRegion,
+  SpatialRelation,
+  SpatialFilter,
+  ElementStyle,
+  ColorName,
+  StyleFilter,
+  ElementType,
+  ElementImage,
+  ImageRedaction,
+  GeometrySource,
 } from "./types";
 
 export { ElementState } from "./types";
 
 // Builder
-export { buildGDSM, generateDocumentId } from "./builder";
+// (server-side buildGDSMFromHTML lives in "./html-builder" - it depends on jsdom)
+export { buildGDSM, assembleGDSM, setDocumentLocale, generateDocumentId, refreshCoordinates } from "./builder";
+
+// Imported PDF annotations
+export { applyImportedAnnotation } from "./annotations";
+export type {
+  ImportedAnnotation,
+  ImportedAnnotationKind,
+  AnnotationRect,
+  AnnotationMatch,
+} from "./annotations";
+
+// Serialization
+export { serializeGDSM, deserializeGDSM } from "./serialize";
+export type { SerializedGDSM } from "./serialize";
 
 // Text Index
 export {
@@ -61,6 +102,7 @@ export {
   applyMutations,
   removeHighlight,
   removeComment,
+  revertMutation,
   getModifiedSince,
   hasState,
   getElementsByState,
@@ -68,6 +110,23 @@ export {
 
 export type { MutationResult } from "./mutations";
 
+// Journal (undo/redo)
+export {
+  createJournal,
+  recordEntry,
+  undoEntry,
+  redoEntry,
+  canUndo,
+  canRedo,
+} from "./journal";
+
+export type {
+  MutationJournal,
+  JournalEntry,
+  JournalOperation,
+  JournalSource,
+} from "./journal";
+
 // Scanner
 export {
   scanGDSM,
@@ -85,6 +144,62 @@ export {
   PATTERNS,
 } from "./scanner";
 
+// Character ranges (partial redaction / highlight)
+export {
+  REDACTION_MASK_CHAR,
+  createMarkId,
+  resolveTextRange,
+  maskTextRange,
+  getElementText,
+  getElementRangeMarks,
+  wrapTextRange,
+  findQuerySpans,
+} from "./ranges";
+export type { TextRangeInput } from "./ranges";
+
+// Reading-order lines (phrase search across elements)
+export { buildReadingLines, matchPhrase } from "./lines";
+export type { ReadingLine, PhraseMatch } from "./lines";
+export {
+  buildLayout,
+  getLayout,
+  findSection,
+  getSectionElementIds,
+  layoutPlainText,
+  findPhrase,
+} from "./layout";
+export { detectPageFurniture } from "./furniture";
+export { detectTables, findTableColumn, selectTableCells, hasTableTarget, isTableQuery } from "./tables";
+export type { TableCellMatch } from "./tables";
+export { getPageBounds, getRegionBox, isInRegion, hasAnchor, selectRelative } from "./spatial";
+export {
+  parseFontName,
+  resolveElementStyle,
+  colorName,
+  getBodyFontSize,
+  matchesStyle,
+  describeStyle,
+} from "./style";
+export type { StyleDeclarations } from "./style";
+export {
+  IMAGE_SELECTORS,
+  FULL_IMAGE_REGION,
+  assignImageIds,
+  isImageElement,
+  describeImage,
+  imageRegionFromBox,
+  resolveImageRegion,
+  coversImage,
+  formatImageRegion,
+  parseImageRegion,
+  getImageRedactions,
+} from "./images";
+export type { ImageRegionInput } from "./images";
+
+// Planner (deterministic scan tiers before the LLM)
+export { planScan, executeScanPlan } from "./planner";
+export type { ScanTier, ScanPlan, ScanScope, PlannedScanResult } from "./planner";
+
 // Semantic
 export {
   detectSemanticType,
@@ -93,4 +208,16 @@ export {
   matchesSemanticType,
   getSemanticTypeDescription,
   getPatternForType,
+  getValidatorForType,
 } from "./semantic";
+
+// Locale packs (locale-dependent phone, date, currency and address patterns)
+export {
+  DEFAULT_LOCALE,
+  registerLocalePack,
+  getLocalePack,
+  listLocalePacks,
+  isKnownLocale,
+  guessDocumentLocale,
+} from "./locale";
+export type { LocalePack, LocalePatterns, LocaleHint, LocaleGuess } from "./locale";
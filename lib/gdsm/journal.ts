@@ -0,0 +1,149 @@
+/**
+ * Mutation Journal - Undo/redo history for GDSM mutations
+ *
+ * Each entry groups the mutations from one user action (a manual redaction,
+ * a drawn highlight, or a whole agent turn) so it can be undone as a unit.
+ * Entries also carry the DOM operations that produced them, so callers can
+ * replay or reverse the same changes in the iframe.
+ */
+
+import type { GDSM, GDSMMutation } from "./types";
+import { applyMutation, revertMutation, type MutationResult } from "./mutations";
+
+/**
+ * Maximum number of entries kept on the undo stack
+ */
+const DEFAULT_JOURNAL_LIMIT = 100;
+
+/**
+ * What produced a journal entry
+ */
+export type JournalSource = "agent" | "redact" | "highlight" | "comment";
+
+/**
+ * A DOM-side operation recorded with a journal entry
+ * Mirrors the agent operation shape, plus the iframe's execution result
+ */
+export interface JournalOperation {
+  id: string;
+  tool: string;
+  input: Record<string, unknown>;
+  result?: Record<string, unknown>;
+}
+
+/**
+ * A single undoable unit
+ */
+export interface JournalEntry {
+  id: string;
+  label: string;
+  source: JournalSource;
+  timestamp: number;
+  operations: JournalOperation[];
+  mutations: GDSMMutation[];
+  // Results of the most recent apply/redo (previousState used for undo)
+  results: MutationResult[];
+}
+
+/**
+ * Undo/redo stacks
+ */
+export interface MutationJournal {
+  undoStack: JournalEntry[];
+  redoStack: JournalEntry[];
+  limit: number;
+}
+
+/**
+ * Create an empty journal
+ */
+export function createJournal(limit: number = DEFAULT_JOURNAL_LIMIT): MutationJournal {
+  return { undoStack: [], redoStack: [], limit };
+}
+
+/**
+ * Apply an entry's mutations to the GDSM and push it onto the undo stack
+ * Recording a new entry clears the redo stack
+ */
+export function recordEntry(
+  journal: MutationJournal,
+  gdsm: GDSM,
+  entry: Pick<JournalEntry, "label" | "source" | "operations" | "mutations">
+): JournalEntry {
+  const results = entry.mutations.map((mutation) => applyMutation(gdsm, mutation));
+
+  const recorded: JournalEntry = {
+    id: `entry-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    label: entry.label,
+    source: entry.source,
+    timestamp: Date.now(),
+    operations: entry.operations,
+    mutations: entry.mutations,
+    results,
+  };
+
+  journal.undoStack.push(recorded);
+  if (journal.undoStack.length > journal.limit) {
+    journal.undoStack.shift();
+  }
+  journal.redoStack = [];
+
+  return recorded;
+}
+
+/**
+ * Undo the most recent entry
+ * Reverts mutations in reverse order and moves the entry to the redo stack
+ */
+export function undoEntry(
+  journal: MutationJournal,
+  gdsm: GDSM
+): JournalEntry | null {
+  const entry = journal.undoStack.pop();
+  if (!entry) return null;
+
+  const undoResults: MutationResult[] = [];
+  for (let i = entry.results.length - 1; i >= 0; i--) {
+    const result = entry.results[i];
+    if (!result.success) continue;
+    undoResults.unshift(revertMutation(gdsm, result));
+  }
+
+  // Keep the undo results so redo can restore the exact post-apply state
+  entry.results = undoResults;
+  journal.redoStack.push(entry);
+
+  return entry;
+}
+
+/**
+ * Redo the most recently undone entry
+ */
+export function redoEntry(
+  journal: MutationJournal,
+  gdsm: GDSM
+): JournalEntry | null {
+  const entry = journal.redoStack.pop();
+  if (!entry) return null;
+
+  entry.results = entry.results
+    .filter((result) => result.success)
+    .map((result) => revertMutation(gdsm, result));
+  journal.undoStack.push(entry);
+
+  return entry;
+}
+
+/**
+ * Check if there is anything to undo
+ */
+export function canUndo(journal: MutationJournal): boolean {
+  return journal.undoStack.length > 0;
+}
+
+/**
+ * Check if there is anything to redo
+ */
+export function canRedo(journal: MutationJournal): boolean {
+  return journal.redoStack.length > 0;
+}
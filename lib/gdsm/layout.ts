@@ -0,0 +1,644 @@
+/**
+ * Layout Tree - Columns, headings, paragraphs and lines in reading order
+ *
+ * Built from element positions alone (pdf2htmlEX keeps no structure):
+ * 1. Columns   - vertical gutters no text crosses split a page; elements
+ *                crossing a gutter (titles, full-width clauses) form bands of
+ *                their own, read in place between the columned parts
+ * 2. Lines     - buildReadingLines() within each column
+ * 3. Headings  - larger than body text, a short numbered title ("4.2
+ *                Indemnification") or a short ALL-CAPS line
+ * 4. Paragraphs - consecutive lines, broken at wider gaps, headings and
+ *                list or clause markers
+ * 5. Sections  - each heading (or numbered clause paragraph) runs to the next
+ *                heading at the same or a higher level
+ * 6. Tables    - runs of aligned multi-cell lines (see tables.ts)
+ *
+ * Lines of page furniture (furniture.ts) are paragraphs of their own and
+ * belong to no section, so a running header never reads as a heading.
+ *
+ * The layout is rebuilt lazily: getLayout() checks it against the GDSM
+ * version, so mutations don't pay for it.
+ */
+
+import type {
+  GDSM,
+  GDSMElement,
+  GDSMLayout,
+  GDSMPage,
+  LayoutNode,
+  LayoutSection,
+  PageFurnitureKind,
+  ScanQuery,
+} from "./types";
+import { ElementState } from "./types";
+import { buildReadingLines, matchPhrase, type PhraseMatch, type ReadingLine } from "./lines";
+import { detectTables } from "./tables";
+
+// Gutter search: scanned between these fractions of the page width (px step)
+const GUTTER_SCAN_FROM = 0.1;
+const GUTTER_SCAN_TO = 0.9;
+const GUTTER_STEP = 2;
+// A gutter is at least this wide (px, or fraction of the page width)
+const MIN_GUTTER_WIDTH = 12;
+const MIN_GUTTER_RATIO = 0.025;
+// Each side of a gutter needs this many text elements of this average length
+const MIN_COLUMN_ELEMENTS = 3;
+const MIN_COLUMN_TEXT_LENGTH = 15;
+// Share of elements allowed to cross a gutter (full-width titles and the like)
+const MAX_CROSSING_RATIO = 0.1;
+
+// Vertical gap (fraction of body line height) that starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 0.8;
+// Lines this much taller than body text are headings
+const HEADING_SIZE_RATIO = 1.25;
+// Short headings are narrower than this fraction of their column
+const HEADING_WIDTH_RATIO = 0.7;
+const MAX_HEADING_WORDS = 8;
+const MAX_LARGE_HEADING_WORDS = 20;
+const MAX_TITLE_LENGTH = 60;
+
+// "4.2 Indemnification", "Article 5 Term", "3. Payment"
+const NUMBERED_HEADING =
+  /^(?:(?:section|article|clause|chapter|part)\s+)?(\d+(?:\.\d+)*)\.?\s+(\p{Lu}.*)$/iu;
+// "Article 5" on a line of its own
+const KEYWORD_HEADING = /^(?:section|article|clause|chapter|part)\s+(\d+(?:\.\d+)*)\.?$/i;
+// A paragraph opening a numbered clause: "4.2 The Supplier shall...", "Section 4 ..."
+const CLAUSE_NUMBER = /^(?:(?:section|article|clause|§)\s*(\d+(?:\.\d+)*)|(\d+\.\d+(?:\.\d+)*))\.?(?=\s|$)/i;
+// Markers that start a new paragraph: "(a) ", "1. ", "4.2 ", "• ", "Section 3 "
+const LIST_MARKER =
+  /^(?:\((?:\d+|[a-z]|[ivx]+)\)|(?:\d+|[a-z])[.)]|\d+(?:\.\d+)+\.?|[•▪◦‣–-]|(?:section|article|clause|§)\s*\d+)\s/i;
+
+interface HeadingInfo {
+  kind: "large" | "numbered" | "caps";
+  number?: string;
+  title: string;
+}
+
+interface ColumnDraft {
+  page: number;
+  elements: GDSMElement[];
+}
+
+interface BlockDraft {
+  heading?: HeadingInfo;
+  furniture?: PageFurnitureKind;
+  lines: ReadingLine[];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function bounds(boxes: Array<{ x: number; y: number; width: number; height: number }>) {
+  if (boxes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const x = Math.min(...boxes.map((box) => box.x));
+  const y = Math.min(...boxes.map((box) => box.y));
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map((box) => box.x + box.width)) - x,
+    height: Math.max(...boxes.map((box) => box.y + box.height)) - y,
+  };
+}
+
+/**
+ * X positions of column gutters on a page, left to right
+ */
+function findGutters(elements: GDSMElement[], pageWidth: number): number[] {
+  const textElements = elements.filter((el) => el.width > 0 && el.text.trim().length > 0);
+  if (textElements.length < MIN_COLUMN_ELEMENTS * 2) return [];
+
+  const width = pageWidth || Math.max(...textElements.map((el) => el.x + el.width));
+  const maxCrossing = Math.max(1, Math.floor(textElements.length * MAX_CROSSING_RATIO));
+  const minGutter = Math.max(MIN_GUTTER_WIDTH, width * MIN_GUTTER_RATIO);
+
+  const isGutter = (x: number): boolean => {
+    let crossing = 0;
+    const left = { count: 0, chars: 0, top: Infinity, bottom: -Infinity };
+    const right = { count: 0, chars: 0, top: Infinity, bottom: -Infinity };
+    for (const el of textElements) {
+      const side = el.x + el.width <= x ? left : el.x >= x ? right : null;
+      if (!side) {
+        if (++crossing > maxCrossing) return false;
+        continue;
+      }
+      side.count++;
+      side.chars += el.text.trim().length;
+      side.top = Math.min(side.top, el.y);
+      side.bottom = Math.max(side.bottom, el.y + el.height);
+    }
+    return (
+      [left, right].every(
+        (side) => side.count >= MIN_COLUMN_ELEMENTS && side.chars / side.count >= MIN_COLUMN_TEXT_LENGTH
+      ) &&
+      left.top < right.bottom &&
+      right.top < left.bottom
+    );
+  };
+
+  const gutters: number[] = [];
+  let runStart: number | null = null;
+  const closeRun = (end: number) => {
+    if (runStart !== null && end - runStart >= minGutter) gutters.push((runStart + end) / 2);
+    runStart = null;
+  };
+  for (let x = width * GUTTER_SCAN_FROM; x <= width * GUTTER_SCAN_TO; x += GUTTER_STEP) {
+    if (isGutter(x)) {
+      runStart ??= x;
+    } else {
+      closeRun(x - GUTTER_STEP);
+    }
+  }
+  closeRun(width * GUTTER_SCAN_TO);
+  return gutters;
+}
+
+/**
+ * Split a page into columns in reading order
+ * Elements crossing a gutter form full-width bands; the columned parts
+ * between them are read column by column
+ */
+function splitColumns(page: number, elements: GDSMElement[], pageWidth: number): ColumnDraft[] {
+  const gutters = findGutters(elements, pageWidth);
+  if (gutters.length === 0) return elements.length > 0 ? [{ page, elements }] : [];
+
+  const crosses = (el: GDSMElement) => gutters.some((g) => el.x < g && el.x + el.width > g);
+
+  // Full-width bands: vertical extents of crossing elements, merged
+  const bands: Array<{ top: number; bottom: number; elements: GDSMElement[] }> = [];
+  elements
+    .filter(crosses)
+    .sort((a, b) => a.y - b.y)
+    .forEach((el) => {
+      const last = bands[bands.length - 1];
+      if (last && el.y <= last.bottom + 1) {
+        last.bottom = Math.max(last.bottom, el.y + el.height);
+      } else {
+        bands.push({ top: el.y, bottom: el.y + el.height, elements: [] });
+      }
+    });
+
+  // Columned parts: index i sits above band i
+  const parts = Array.from({ length: bands.length + 1 }, () =>
+    Array.from({ length: gutters.length + 1 }, () => [] as GDSMElement[])
+  );
+  elements.forEach((el) => {
+    const center = el.y + el.height / 2;
+    const band = crosses(el)
+      ? bands.find((b) => el.y >= b.top && el.y <= b.bottom)
+      : bands.find((b) => center >= b.top - 1 && center <= b.bottom + 1);
+    if (band) {
+      band.elements.push(el);
+      return;
+    }
+    const part = bands.filter((b) => b.bottom < center).length;
+    const column = gutters.filter((g) => el.x + el.width / 2 > g).length;
+    parts[part][column].push(el);
+  });
+
+  const columns: ColumnDraft[] = [];
+  parts.forEach((part, index) => {
+    part.forEach((columnElements) => {
+      if (columnElements.length > 0) columns.push({ page, elements: columnElements });
+    });
+    const band = bands[index];
+    if (band && band.elements.length > 0) columns.push({ page, elements: band.elements });
+  });
+  return columns;
+}
+
+/**
+ * Heading signals for a line, or null for body text
+ */
+function detectHeading(line: ReadingLine, bodyHeight: number, columnWidth: number): HeadingInfo | null {
+  const text = line.text.trim();
+  const words = wordCount(text);
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+
+  const short = words <= MAX_HEADING_WORDS && line.width < columnWidth * HEADING_WIDTH_RATIO;
+  const sentenceEnd = /[,;]$/.test(text);
+
+  const keyword = text.match(KEYWORD_HEADING);
+  if (keyword) return { kind: "numbered", number: keyword[1], title: text };
+
+  const numbered = text.match(NUMBERED_HEADING);
+  // "4.2 Indemnification. The Supplier shall..." is a clause, not a heading
+  if (numbered && short && !sentenceEnd && !/[.:;]\s+\S/.test(numbered[2])) {
+    return { kind: "numbered", number: numbered[1], title: numbered[2].replace(/[.:]$/, "") };
+  }
+
+  if (bodyHeight > 0 && line.height >= bodyHeight * HEADING_SIZE_RATIO && words <= MAX_LARGE_HEADING_WORDS) {
+    return { kind: "large", title: text };
+  }
+
+  if (short && !sentenceEnd && letters >= 3 && /\p{Lu}/u.test(text) && text === text.toLocaleUpperCase()) {
+    return { kind: "caps", title: text };
+  }
+
+  return null;
+}
+
+/**
+ * Group a column's lines into headings and paragraphs
+ * Lines of page furniture form paragraphs of their own
+ */
+function groupBlocks(
+  lines: ReadingLine[],
+  bodyHeight: number,
+  columnWidth: number,
+  furnitureOf: (line: ReadingLine) => PageFurnitureKind | undefined
+): BlockDraft[] {
+  const blocks: BlockDraft[] = [];
+  let previous: ReadingLine | null = null;
+
+  lines.forEach((line) => {
+    const current = blocks[blocks.length - 1];
+    const gap = previous ? line.y - (previous.y + previous.height) : 0;
+    const wideGap = gap > bodyHeight * PARAGRAPH_GAP_RATIO;
+
+    const furniture = furnitureOf(line);
+    if (furniture) {
+      if (current?.furniture === furniture && !wideGap) {
+        current.lines.push(line);
+      } else {
+        blocks.push({ furniture, lines: [line] });
+      }
+      previous = line;
+      return;
+    }
+
+    const heading = detectHeading(line, bodyHeight, columnWidth);
+
+    // A large heading may wrap onto a second line of the same size
+    const continuesHeading =
+      !!current?.heading &&
+      current.heading.kind === "large" &&
+      heading?.kind === "large" &&
+      !wideGap &&
+      Math.abs(line.height - previous!.height) <= Math.max(line.height, previous!.height) * 0.15;
+
+    if (continuesHeading) {
+      current.lines.push(line);
+      current.heading!.title = `${current.heading!.title} ${heading!.title}`;
+    } else if (
+      !current ||
+      heading ||
+      current.heading ||
+      current.furniture ||
+      wideGap ||
+      LIST_MARKER.test(line.text.trim())
+    ) {
+      blocks.push({ heading: heading ?? undefined, lines: [line] });
+    } else {
+      current.lines.push(line);
+    }
+    previous = line;
+  });
+
+  return blocks;
+}
+
+/**
+ * Section number and title of a paragraph that opens a numbered clause
+ */
+function clauseOf(text: string): { number: string; title: string } | null {
+  const match = text.match(CLAUSE_NUMBER);
+  if (!match) return null;
+  const rest = text.slice(match[0].length).trim();
+  let title = rest.split(/[.:;](?:\s|$)/)[0].trim();
+  if (title.length > MAX_TITLE_LENGTH) {
+    title = `${title.slice(0, MAX_TITLE_LENGTH).replace(/\s+\S*$/, "")}…`;
+  }
+  return { number: match[1] ?? match[2], title };
+}
+
+/**
+ * Build the layout tree of a document
+ */
+export function buildLayout(pages: GDSMPage[], elements: GDSMElement[], version = 1): GDSMLayout {
+  const nodesById = new Map<string, LayoutNode>();
+  const columnsByPage = new Map<number, string[]>();
+  const blockOrder: string[] = [];
+  const readingOrder: string[] = [];
+  const lineOfElement = new Map<string, string>();
+
+  const pageWidths = new Map(pages.map((page) => [page.pageNum, page.width]));
+  const elementsById = new Map(elements.map((el) => [el.id, el]));
+  const byPage = new Map<number, GDSMElement[]>();
+  elements.forEach((el) => {
+    if (el.state & ElementState.DELETED || !el.text) return;
+    byPage.set(el.page, [...(byPage.get(el.page) ?? []), el]);
+  });
+  const pageNums = Array.from(byPage.keys()).sort((a, b) => a - b);
+
+  // Columns and their lines first: headings are measured against the body
+  // line height of the whole document
+  const columns = pageNums.flatMap((page) =>
+    splitColumns(page, byPage.get(page)!, pageWidths.get(page) ?? 0).map((column) => ({
+      ...column,
+      lines: buildReadingLines(column.elements),
+    }))
+  );
+  const bodyHeight = median(columns.flatMap((column) => column.lines.map((line) => line.height)));
+
+  const counters = new Map<number, { col: number; block: number; line: number }>();
+  const blockHeadings = new Map<string, HeadingInfo>();
+
+  columns.forEach((column) => {
+    const counter = counters.get(column.page) ?? { col: 0, block: 0, line: 0 };
+    counters.set(column.page, counter);
+
+    const columnBox = bounds(column.elements);
+    const columnId = `p${column.page}-col-${counter.col++}`;
+    const columnNode: LayoutNode = {
+      id: columnId,
+      kind: "column",
+      page: column.page,
+      childIds: [],
+      elementIds: [],
+      text: "",
+      ...columnBox,
+    };
+    nodesById.set(columnId, columnNode);
+    columnsByPage.set(column.page, [...(columnsByPage.get(column.page) ?? []), columnId]);
+
+    // Nested elements whose text the parent already carries aren't line
+    // segments - attach them to the nearest line so sections still cover them
+    const lineMembers = column.lines.map((line) => line.segments.map((segment) => segment.elementId));
+    const placed = new Set(lineMembers.flat());
+    column.elements.forEach((el) => {
+      if (placed.has(el.id) || column.lines.length === 0) return;
+      const center = el.y + el.height / 2;
+      let nearest = 0;
+      column.lines.forEach((line, index) => {
+        const best = column.lines[nearest];
+        if (Math.abs(line.y + line.height / 2 - center) < Math.abs(best.y + best.height / 2 - center)) {
+          nearest = index;
+        }
+      });
+      lineMembers[nearest].push(el.id);
+    });
+
+    const lineIndex = new Map(column.lines.map((line, index) => [line, index]));
+    // A line of furniture only; "Confidential ... Page 2" is a footer
+    const furnitureOf = (line: ReadingLine) => {
+      const kinds = line.segments.map((segment) => elementsById.get(segment.elementId)?.furniture?.kind);
+      if (!kinds.every(Boolean)) return undefined;
+      return kinds.find((kind) => kind !== "page_number") ?? kinds[0];
+    };
+    groupBlocks(column.lines, bodyHeight, columnBox.width, furnitureOf).forEach((block) => {
+      const kind = block.heading ? "heading" : "paragraph";
+      const blockId = `p${column.page}-${block.heading ? "h" : "par"}-${counter.block++}`;
+      const blockNode: LayoutNode = {
+        id: blockId,
+        kind,
+        page: column.page,
+        parentId: columnId,
+        childIds: [],
+        elementIds: [],
+        text: block.lines.map((line) => line.text).join("\n"),
+        ...bounds(block.lines),
+      };
+
+      block.lines.forEach((line) => {
+        const lineId = `p${column.page}-line-${counter.line++}`;
+        const elementIds = lineMembers[lineIndex.get(line)!];
+        nodesById.set(lineId, {
+          id: lineId,
+          kind: "line",
+          page: column.page,
+          parentId: blockId,
+          childIds: [],
+          elementIds,
+          text: line.text,
+          x: line.x,
+          y: line.y,
+          width: line.width,
+          height: line.height,
+          segments: line.segments,
+        });
+        blockNode.childIds.push(lineId);
+        blockNode.elementIds.push(...elementIds);
+        elementIds.forEach((id) => lineOfElement.set(id, lineId));
+      });
+
+      if (block.furniture) {
+        blockNode.furniture = block.furniture;
+      } else if (block.heading) {
+        blockHeadings.set(blockId, block.heading);
+        if (block.heading.number) blockNode.sectionNumber = block.heading.number;
+      } else {
+        const clause = clauseOf(blockNode.text.replace(/\s+/g, " "));
+        if (clause) blockNode.sectionNumber = clause.number;
+      }
+
+      nodesById.set(blockId, blockNode);
+      columnNode.childIds.push(blockId);
+      columnNode.elementIds.push(...blockNode.elementIds);
+      blockOrder.push(blockId);
+      readingOrder.push(...blockNode.elementIds);
+    });
+    columnNode.text = columnNode.childIds.map((id) => nodesById.get(id)!.text).join("\n\n");
+  });
+
+  // Levels: larger unnumbered headings rank by size; numbered headings and
+  // clauses sit below every larger size, one level per number part; ALL-CAPS
+  // headings sit below every larger size
+  const firstLineHeight = (node: LayoutNode) => Math.round(nodesById.get(node.childIds[0])!.height);
+  const largeHeights = Array.from(
+    new Set(
+      Array.from(blockHeadings.entries())
+        .filter(([, heading]) => heading.kind === "large")
+        .map(([id]) => firstLineHeight(nodesById.get(id)!))
+    )
+  ).sort((a, b) => b - a);
+  const largerSizes = (node: LayoutNode) => largeHeights.filter((height) => height > firstLineHeight(node)).length;
+
+  blockOrder.forEach((id) => {
+    const node = nodesById.get(id)!;
+    const heading = blockHeadings.get(id);
+    if (node.sectionNumber) {
+      node.level = largerSizes(node) + node.sectionNumber.split(".").length;
+    } else if (heading) {
+      node.level = largerSizes(node) + 1;
+    }
+  });
+
+  const sections = buildSections(nodesById, blockOrder, blockHeadings);
+  const tables = detectTables(nodesById, columnsByPage, elementsById);
+  return { version, nodesById, columnsByPage, blockOrder, sections, readingOrder, lineOfElement, tables };
+}
+
+/**
+ * Sections from headings and numbered clause paragraphs, nested by level
+ */
+function buildSections(
+  nodesById: Map<string, LayoutNode>,
+  blockOrder: string[],
+  blockHeadings: Map<string, HeadingInfo>
+): LayoutSection[] {
+  const sections: LayoutSection[] = [];
+  const stack: LayoutSection[] = [];
+
+  blockOrder.forEach((blockId) => {
+    const node = nodesById.get(blockId)!;
+    if (node.furniture) return;
+    const heading = blockHeadings.get(blockId);
+    const clause = heading ? null : clauseOf(node.text.replace(/\s+/g, " "));
+
+    if (!heading && !clause) {
+      stack[stack.length - 1]?.blockIds.push(blockId);
+      return;
+    }
+
+    const number = heading?.number ?? clause?.number;
+    const level = node.level!;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    const parent = stack[stack.length - 1];
+
+    const section: LayoutSection = {
+      id: `sec-${sections.length}`,
+      ...(number ? { number } : {}),
+      title: heading?.title ?? clause!.title,
+      level,
+      page: node.page,
+      headingNodeId: blockId,
+      ...(parent ? { parentId: parent.id } : {}),
+      childIds: [],
+      blockIds: [],
+      elementIds: [],
+    };
+    parent?.childIds.push(section.id);
+    sections.push(section);
+    stack.push(section);
+  });
+
+  // Children come after the section's own blocks in reading order, so
+  // element IDs are collected depth first
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  const collect = (section: LayoutSection): string[] => {
+    if (section.elementIds.length === 0) {
+      section.elementIds = [
+        ...nodesById.get(section.headingNodeId)!.elementIds,
+        ...section.blockIds.flatMap((id) => nodesById.get(id)!.elementIds),
+        ...section.childIds.flatMap((id) => collect(byId.get(id)!)),
+      ];
+    }
+    return section.elementIds;
+  };
+  sections.forEach(collect);
+
+  return sections;
+}
+
+/**
+ * Layout of a GDSM, rebuilt if the document changed since it was built
+ */
+export function getLayout(gdsm: GDSM): GDSMLayout {
+  if (gdsm.layout.version !== gdsm.version) {
+    gdsm.layout = buildLayout(gdsm.pages, Array.from(gdsm.elementsById.values()), gdsm.version);
+  }
+  return gdsm.layout;
+}
+
+function normalizeTitle(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Find a section by number ("4.2", "Section 4.2") or heading text
+ * Titles match exactly first, then by prefix, then anywhere in the title
+ */
+export function findSection(layout: GDSMLayout, ref: string): LayoutSection | null {
+  const trimmed = ref.trim().replace(/^(?:section|clause|article|§)\s*/i, "");
+  const number = trimmed.match(/^(\d+(?:\.\d+)*)\.?$/);
+  if (number) {
+    return layout.sections.find((section) => section.number === number[1]) ?? null;
+  }
+
+  const wanted = normalizeTitle(ref);
+  if (!wanted) return null;
+  const titles = layout.sections.map((section) => ({ section, title: normalizeTitle(section.title) }));
+  return (
+    titles.find(({ title }) => title === wanted)?.section ??
+    titles.find(({ title }) => title.startsWith(`${wanted} `))?.section ??
+    titles.find(({ title }) => ` ${title} `.includes(` ${wanted} `))?.section ??
+    null
+  );
+}
+
+/**
+ * Element IDs of part of a section, in reading order
+ * first_paragraph is the first paragraph under the heading - the opening
+ * paragraph itself when a numbered clause has no separate heading
+ */
+export function getSectionElementIds(
+  layout: GDSMLayout,
+  section: LayoutSection,
+  part?: ScanQuery["sectionPart"]
+): string[] {
+  const opening = layout.nodesById.get(section.headingNodeId)!;
+  if (!part) return section.elementIds;
+
+  if (part === "heading") return opening.kind === "heading" ? opening.elementIds : [];
+
+  if (part === "body") {
+    if (opening.kind !== "heading") return section.elementIds;
+    const headingIds = new Set(opening.elementIds);
+    return section.elementIds.filter((id) => !headingIds.has(id));
+  }
+
+  if (opening.kind === "paragraph") return opening.elementIds;
+  const paragraph = section.blockIds
+    .map((id) => layout.nodesById.get(id)!)
+    .find((node) => node.kind === "paragraph");
+  if (paragraph) return paragraph.elementIds;
+  const firstChild = layout.sections.find((candidate) => candidate.id === section.childIds[0]);
+  return firstChild ? getSectionElementIds(layout, firstChild, part) : [];
+}
+
+/**
+ * Plain text in reading order: a marker per page, a blank line between
+ * paragraphs
+ */
+export function layoutPlainText(layout: GDSMLayout): string {
+  let text = "";
+  let page = -1;
+  layout.blockOrder.forEach((id) => {
+    const node = layout.nodesById.get(id)!;
+    if (node.page !== page) {
+      page = node.page;
+      text += `\n--- Page ${page} ---\n`;
+    } else {
+      text += "\n\n";
+    }
+    text += node.text;
+  });
+  return text.trim();
+}
+
+/**
+ * Find a phrase across element boundaries on the layout's reading-order lines
+ * See matchPhrase() for the matching rules
+ */
+export function findPhrase(gdsm: GDSM, phrase: string, pages?: number[]): PhraseMatch[] {
+  const layout = getLayout(gdsm);
+  const lines = layout.blockOrder
+    .flatMap((id) => layout.nodesById.get(id)!.childIds)
+    .map((id) => layout.nodesById.get(id)!)
+    .filter((line) => !pages || pages.length === 0 || pages.includes(line.page))
+    .map((line) => ({ page: line.page, text: line.text, segments: line.segments ?? [] }));
+  return matchPhrase(lines, phrase);
+}
@@ -0,0 +1,216 @@
+/**
+ * Reading Lines - Phrase search across element boundaries
+ *
+ * pdf2htmlEX often splits one visual line into several spans ("John" |
+ * "Smith", or "Jo" | "hn Smith"), so per-element word search can't find a
+ * phrase that crosses them. Elements are regrouped into reading-order lines
+ * by position; a page's lines (in layout reading order, see layout.ts) form
+ * one text stream, and each match maps back to the elements (and offsets
+ * inside them) that cover it.
+ *
+ * Whitespace is ignored when matching: fragment positions don't say reliably
+ * whether a space sat between two spans.
+ */
+
+import type { GDSMElement, LineSegment, TextSpan } from "./types";
+import { ElementState } from "./types";
+
+/**
+ * One visual line of a page, fragments in left-to-right order
+ */
+export interface ReadingLine {
+  page: number;
+  x: number;
+  y: number; // Top edge
+  width: number;
+  height: number;
+  text: string;
+  segments: LineSegment[];
+}
+
+/**
+ * A phrase occurrence and the elements covering it
+ */
+export interface PhraseMatch {
+  page: number;
+  text: string; // As it reads in the document
+  elementIds: string[]; // Every element covering part of the match, in reading order
+  spans: Array<TextSpan & { elementId: string }>; // Offsets into each element's text
+}
+
+// Fragments closer than this (fraction of line height) are joined without a space
+const WORD_GAP_RATIO = 0.2;
+// Containment tolerance for nested elements (px)
+const BOX_TOLERANCE = 1;
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+function centerY(el: GDSMElement): number {
+  return el.y + el.height / 2;
+}
+
+/**
+ * True if `inner` is a nested element whose text `outer` already includes
+ * (a kept parent with direct text also covers its children)
+ */
+function isContainedIn(inner: GDSMElement, outer: GDSMElement): boolean {
+  return (
+    inner.id !== outer.id &&
+    outer.text.length > inner.text.length &&
+    outer.text.includes(inner.text) &&
+    inner.x >= outer.x - BOX_TOLERANCE &&
+    inner.x + inner.width <= outer.x + outer.width + BOX_TOLERANCE
+  );
+}
+
+function buildLine(page: number, elements: GDSMElement[]): ReadingLine {
+  const fragments = elements
+    .filter((el) => !elements.some((other) => isContainedIn(el, other)))
+    .sort((a, b) => a.x - b.x);
+
+  let text = "";
+  const segments: LineSegment[] = [];
+  fragments.forEach((el, index) => {
+    if (index > 0) {
+      const prev = fragments[index - 1];
+      const gap = el.x - (prev.x + prev.width);
+      const threshold = Math.min(el.height, prev.height) * WORD_GAP_RATIO;
+      if (gap > threshold || prev.width === 0) text += " ";
+    }
+    segments.push({ elementId: el.id, start: text.length, end: text.length + el.text.length });
+    text += el.text;
+  });
+
+  const left = Math.min(...fragments.map((el) => el.x));
+  const top = Math.min(...fragments.map((el) => el.y));
+  return {
+    page,
+    x: left,
+    y: top,
+    width: Math.max(...fragments.map((el) => el.x + el.width)) - left,
+    height: Math.max(...fragments.map((el) => el.y + el.height)) - top,
+    text,
+    segments,
+  };
+}
+
+/**
+ * Group elements into reading-order lines (top to bottom, then left to right)
+ * Elements share a line when their vertical centers are within half a line
+ * height of each other; deleted and empty elements are left out
+ */
+export function buildReadingLines(elements: GDSMElement[]): ReadingLine[] {
+  const byPage = new Map<number, GDSMElement[]>();
+  elements.forEach((el) => {
+    if (el.state & ElementState.DELETED || !el.text) return;
+    const pageElements = byPage.get(el.page) ?? [];
+    pageElements.push(el);
+    byPage.set(el.page, pageElements);
+  });
+
+  const lines: ReadingLine[] = [];
+  Array.from(byPage.keys())
+    .sort((a, b) => a - b)
+    .forEach((page) => {
+      const sorted = byPage.get(page)!.sort((a, b) => centerY(a) - centerY(b) || a.x - b.x);
+      let current: GDSMElement[] = [];
+      let currentCenter = 0;
+      let currentHeight = 0;
+
+      sorted.forEach((el) => {
+        const tolerance = Math.max(2, Math.min(el.height || currentHeight, currentHeight || el.height) / 2);
+        if (current.length > 0 && Math.abs(centerY(el) - currentCenter) > tolerance) {
+          lines.push(buildLine(page, current));
+          current = [];
+        }
+        if (current.length === 0) {
+          currentCenter = centerY(el);
+          currentHeight = el.height;
+        }
+        current.push(el);
+      });
+      if (current.length > 0) lines.push(buildLine(page, current));
+    });
+
+  return lines;
+}
+
+/**
+ * Text of a page's lines with whitespace removed, lowercased, plus a map from
+ * each compact character back to its offset in the page stream
+ */
+function compactStream(stream: string): { compact: string; offsets: number[] } {
+  let compact = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < stream.length; i++) {
+    const char = stream[i];
+    if (/\s/.test(char)) continue;
+    const lower = char.toLowerCase();
+    compact += lower.length === 1 ? lower : char;
+    offsets.push(i);
+  }
+  return { compact, offsets };
+}
+
+/**
+ * Find a phrase in lines given in reading order
+ * Matches are case-insensitive, whitespace-insensitive and anchored at word
+ * boundaries; a phrase may also run across the lines of one page
+ */
+export function matchPhrase(
+  lines: Array<Pick<ReadingLine, "page" | "text" | "segments">>,
+  phrase: string
+): PhraseMatch[] {
+  const needle = compactStream(phrase.trim()).compact;
+  if (!needle) return [];
+  const anchorStart = WORD_CHAR.test(needle[0]);
+  const anchorEnd = WORD_CHAR.test(needle[needle.length - 1]);
+
+  const matches: PhraseMatch[] = [];
+  const pageNums = Array.from(new Set(lines.map((line) => line.page)));
+  pageNums.forEach((page) => {
+    // One stream per page; each line's segments are shifted to stream offsets
+    let stream = "";
+    const segments: LineSegment[] = [];
+    lines
+      .filter((line) => line.page === page)
+      .forEach((line) => {
+        if (stream) stream += "\n";
+        line.segments.forEach((segment) =>
+          segments.push({ ...segment, start: segment.start + stream.length, end: segment.end + stream.length })
+        );
+        stream += line.text;
+      });
+
+    const { compact, offsets } = compactStream(stream);
+    for (let index = compact.indexOf(needle); index !== -1; index = compact.indexOf(needle, index + 1)) {
+      const start = offsets[index];
+      const end = offsets[index + needle.length - 1] + 1;
+      if (anchorStart && start > 0 && WORD_CHAR.test(stream[start - 1])) continue;
+      if (anchorEnd && end < stream.length && WORD_CHAR.test(stream[end])) continue;
+
+      const spans: PhraseMatch["spans"] = [];
+      segments.forEach((segment) => {
+        const from = Math.max(start, segment.start);
+        const to = Math.min(end, segment.end);
+        if (from >= to) return;
+        spans.push({
+          elementId: segment.elementId,
+          start: from - segment.start,
+          end: to - segment.start,
+          text: stream.slice(from, to),
+        });
+      });
+
+      matches.push({
+        page,
+        text: stream.slice(start, end).replace(/\s+/g, " "),
+        elementIds: Array.from(new Set(spans.map((span) => span.elementId))),
+        spans,
+      });
+      index += needle.length - 1;
+    }
+  });
+
+  return matches;
+}
@@ -0,0 +1,296 @@
+/**
+ * Locale Packs - Per-locale patterns for phones, dates, currency and addresses
+ *
+ * Each pack holds the locale's formats ("12.05.2024", "+44 20 7946 0958",
+ * "1.234,56 €", "SW1A 1AA") plus weighted hints used to guess a document's
+ * locale from its text. Packs live in a registry keyed by BCP 47 tag, so a
+ * new locale is one registerLocalePack() call - semantic detection looks the
+ * pack up by the document's locale.
+ */
+
+import type { DocumentLocale } from "./types";
+
+/**
+ * Locale used when nothing else is known
+ */
+export const DEFAULT_LOCALE: DocumentLocale = "en-US";
+
+/**
+ * Patterns for the locale-dependent semantic types
+ */
+export interface LocalePatterns {
+  phone: RegExp;
+  date: RegExp;
+  currency: RegExp;
+  address: RegExp;
+}
+
+/**
+ * Evidence for a locale: every match adds weight to the pack's score
+ */
+export interface LocaleHint {
+  pattern: RegExp; // Must be global
+  weight: number;
+}
+
+export interface LocalePack {
+  locale: DocumentLocale;
+  label: string; // Shown in the locale picker, e.g. "English (UK)"
+  patterns: LocalePatterns;
+  hints: LocaleHint[];
+}
+
+/**
+ * Result of guessing a document's locale
+ */
+export interface LocaleGuess {
+  locale: DocumentLocale;
+  confidence: number; // 0-1, margin of the best score over the runner-up
+  scores: Record<DocumentLocale, number>;
+}
+
+// Text sampled for the guess - enough for a stable score on long documents
+const MAX_GUESS_SAMPLE_CHARS = 200000;
+
+const ENGLISH_MONTHS =
+  "Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?";
+
+// Day-first numeric and written dates (UK, India), month-first still recognized
+const DAY_FIRST_ENGLISH_DATE = new RegExp(
+  `\\b\\d{1,2}[\\/.-]\\d{1,2}[\\/.-]\\d{2,4}\\b|\\b\\d{4}-\\d{1,2}-\\d{1,2}\\b|\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${ENGLISH_MONTHS})\\.?,?\\s+\\d{2,4}\\b|\\b(?:${ENGLISH_MONTHS})\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s*\\d{4}\\b`,
+  "i"
+);
+
+// Words frequent enough in running text to tell the languages apart
+const ENGLISH_WORDS: LocaleHint = { pattern: /\b(?:the|and|of|with|for|this|that|is)\b/gi, weight: 1 };
+const DAY_FIRST_ENGLISH_DATE_HINT: LocaleHint = {
+  pattern: new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${ENGLISH_MONTHS})\\s+\\d{4}\\b`, "g"),
+  weight: 2,
+};
+
+const EN_US: LocalePack = {
+  locale: "en-US",
+  label: "English (US)",
+  patterns: {
+    // Phone: various formats
+    phone:
+      /(?:\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}|(?:\+?[0-9]{1,3}[-.\s]?)?[0-9]{2,4}[-.\s][0-9]{2,4}[-.\s][0-9]{2,4}/,
+
+    // Date: various formats
+    date: /(?:\d{1,2}[\/\-\.]\d{1,2}[\/\-\.]\d{2,4})|(?:\d{4}[\/\-\.]\d{1,2}[\/\-\.]\d{1,2})|(?:(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2}(?:st|nd|rd|th)?,?\s*\d{2,4})/i,
+
+    // Currency: $123.45, €100, £50.00
+    currency: /[$€£¥]\s*[\d,]+(?:\.\d{2})?|[\d,]+(?:\.\d{2})?\s*(?:USD|EUR|GBP|JPY)/i,
+
+    // Address: Contains street indicators
+    address:
+      /\b\d+\s+(?:[\w\s]+)\s+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Circle|Cir)\.?\b/i,
+  },
+  hints: [
+    ENGLISH_WORDS,
+    { pattern: /\$\s?\d/g, weight: 2 },
+    { pattern: /\+1[\s.-]?\(?\d{3}\)?/g, weight: 3 },
+    // State and ZIP code: "CA 94105", "NY 10001-1234"
+    { pattern: /\b[A-Z]{2}\s\d{5}(?:-\d{4})?\b/g, weight: 3 },
+    { pattern: /\b(?:Inc\.|LLC|Corp\.)/g, weight: 2 },
+    { pattern: /\b(?:color|organization|license|center|favor|behavior)\b/gi, weight: 1 },
+    { pattern: new RegExp(`\\b(?:${ENGLISH_MONTHS})\\s+\\d{1,2},\\s+\\d{4}\\b`, "g"), weight: 2 },
+  ],
+};
+
+const EN_GB: LocalePack = {
+  locale: "en-GB",
+  label: "English (UK)",
+  patterns: {
+    // +44 20 7946 0958, +44 (0)161 496 0000, 020 7946 0958, 07700 900123
+    phone: /(?:\+44\s?(?:\(0\)\s?)?|\b0)\d(?:[\s-]?\d){8,9}\b/,
+    date: DAY_FIRST_ENGLISH_DATE,
+    // £1,250.00, 250 GBP
+    currency: /[£$€¥]\s*\d[\d,]*(?:\.\d{2})?|\b\d[\d,]*(?:\.\d{2})?\s*(?:GBP|EUR|USD|pence)\b/i,
+    // "10 Downing Street", or a postcode ("SW1A 1AA")
+    address:
+      /\b\d+[A-Za-z]?,?\s+(?:[\w'-]+\s+){1,4}(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Close|Crescent|Cres|Drive|Dr|Gardens|Gdns|Grove|Place|Pl|Square|Sq|Terrace|Way|Court|Ct|Hill|Row|Mews)\b\.?|\b(?:GIR ?0AA|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2})\b/,
+  },
+  hints: [
+    ENGLISH_WORDS,
+    DAY_FIRST_ENGLISH_DATE_HINT,
+    { pattern: /£\s?\d/g, weight: 3 },
+    { pattern: /\+44\b/g, weight: 3 },
+    { pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s\d[A-Z]{2}\b/g, weight: 3 },
+    { pattern: /\b(?:Ltd|PLC|plc|LLP)\b/g, weight: 2 },
+    { pattern: /\b(?:colour|organisation|licence|centre|favour|behaviour)\b/gi, weight: 1 },
+  ],
+};
+
+const EN_IN: LocalePack = {
+  locale: "en-IN",
+  label: "English (India)",
+  patterns: {
+    // +91 98765 43210, 98765-43210, 011-2345 6789
+    phone:
+      /(?:\+91[\s-]?|\b0|\b)[6-9]\d{4}[\s-]?\d{5}\b|\+91[\s-]?\d{2,4}[\s-]\d{3,4}[\s-]?\d{4}\b|\b0\d{2,4}[\s-]\d{6,8}\b/,
+    date: DAY_FIRST_ENGLISH_DATE,
+    // ₹1,25,000, Rs. 500, INR 2.5 lakh, 3 crore
+    currency:
+      /(?:₹|\bRs\.?|\bINR)\s?\d[\d,]*(?:\.\d{1,2})?(?:\s?(?:lakhs?|lacs?|crores?)\b)?|\b\d[\d,]*(?:\.\d+)?\s?(?:lakhs?|lacs?|crores?)\b|[$€£]\s*\d[\d,]*(?:\.\d{2})?/i,
+    // "12 MG Road", "Sector 15", PIN codes ("PIN 560001", "Mumbai - 400001")
+    address:
+      /\b\d+[\w\/-]*,?\s+(?:[\w'-]+\s+){0,4}(?:Road|Rd|Street|St|Marg|Nagar|Colony|Lane|Sector|Layout|Cross|Main|Chowk|Bazaa?r|Enclave|Vihar|Apartments?)\b\.?|\b(?:PIN(?:\s?code)?|Pincode)\s*[:-]?\s*[1-9]\d{2}\s?\d{3}\b|\b[A-Z][a-z]+\s*[-–]\s*[1-9]\d{5}\b/,
+  },
+  hints: [
+    ENGLISH_WORDS,
+    DAY_FIRST_ENGLISH_DATE_HINT,
+    { pattern: /₹|\bRs\.?\s?\d|\bINR\b/g, weight: 3 },
+    { pattern: /\+91\b/g, weight: 3 },
+    { pattern: /\b(?:lakhs?|crores?)\b/gi, weight: 3 },
+    { pattern: /\bPvt\.?\s+Ltd\b/g, weight: 3 },
+    { pattern: /\b(?:GSTIN|PAN|Aadhaar)\b/g, weight: 3 },
+    { pattern: /\b(?:PIN\s?code|Pincode)\b/gi, weight: 2 },
+  ],
+};
+
+const DE_DE: LocalePack = {
+  locale: "de-DE",
+  label: "Deutsch (Deutschland)",
+  patterns: {
+    // 030 12345678, +49 (0)89 123456-0, 0171/1234567 (dotted dates are not phones)
+    phone: /(?:\+49\s?(?:\(0\)\s?)?|\b0)[1-9]\d{1,4}(?:\s?\/\s?|[\s-])?\d{3,}(?:[\s-]\d{1,5})?\b/,
+    // 12.05.2024, 12. Mai 2024, 2024-05-12
+    date: /\b\d{1,2}\.\s?\d{1,2}\.\s?(?:\d{4}|\d{2})\b|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b|\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\.\s?(?:Januar|Jänner|Februar|März|April|Mai|Juni|Juli|August|September|Oktober|November|Dezember|Jan|Feb|Mär|Apr|Jun|Jul|Aug|Sept?|Okt|Nov|Dez)\.?\s+\d{4}\b/,
+    // 1.234,56 €, EUR 1.234,56, 50,- €
+    currency:
+      /(?:€|\bEUR)\s?\d{1,3}(?:\.?\d{3})*(?:,\d{1,2})?|\b\d{1,3}(?:\.?\d{3})*(?:,(?:\d{1,2}|-{1,2}))?\s?(?:€|EUR\b|Euro\b)|[$£¥]\s*\d[\d.,]*/,
+    // "Hauptstraße 5", "Hauptstr. 5a", "10115 Berlin"
+    address:
+      /\b[A-ZÄÖÜ][a-zäöüß]+(?:[\s-][A-ZÄÖÜ][a-zäöüß]+)*(?:straße|strasse|str\.|weg|platz|allee|gasse|ring|damm|ufer|chaussee)\s+\d+\s?[a-z]?\b|\b\d{5}\s+[A-ZÄÖÜ][a-zäöüß]+\b/,
+  },
+  hints: [
+    { pattern: /\b(?:und|der|die|das|nicht|mit|für|ist|wird|sind|eine?|auf)\b/gi, weight: 1 },
+    { pattern: /\+49\b/g, weight: 3 },
+    { pattern: /\b(?:GmbH|AG|e\.V\.)(?=\s|$|[,.;])/g, weight: 2 },
+    { pattern: /\b\d{1,3}(?:\.\d{3})*,\d{2}\s?(?:€|EUR)/g, weight: 2 },
+    { pattern: /\b\d{1,2}\.\d{1,2}\.\d{4}\b/g, weight: 1 },
+    { pattern: /straße|\bstr\.\s?\d/gi, weight: 2 },
+    { pattern: /\b(?:USt-IdNr|Steuernummer|Sehr geehrte)/gi, weight: 3 },
+  ],
+};
+
+const FR_FR: LocalePack = {
+  locale: "fr-FR",
+  label: "Français (France)",
+  patterns: {
+    // 01 23 45 67 89, 01.23.45.67.89, +33 1 23 45 67 89
+    phone: /(?:\+33\s?(?:\(0\)\s?)?|\b0)[1-9](?:[\s.-]?\d{2}){4}\b/,
+    // 12/05/2024, 1er mai 2024
+    date: /\b\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}\b|\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}(?:er)?\s+(?:janvier|février|fevrier|mars|avril|mai|juin|juillet|août|aout|septembre|octobre|novembre|décembre|decembre|janv|févr|avr|juil|sept|oct|nov|déc)\.?\s+\d{4}\b/i,
+    // 1 234,56 €, 1.234,56 EUR, 50 euros
+    currency:
+      /(?:€|\bEUR)\s?\d{1,3}(?:[\s.]?\d{3})*(?:,\d{1,2})?|\b\d{1,3}(?:[\s.]?\d{3})*(?:,\d{1,2})?\s?(?:€|EUR\b|euros?\b)|[$£¥]\s*\d[\d.,]*/i,
+    // "12 bis, rue de la Paix", "75002 Paris"
+    address:
+      /\b\d{1,4}(?:\s?(?:bis|ter))?,?\s+(?:rue|avenue|av\.|boulevard|bd|place|chemin|allée|allee|impasse|quai|route|cours|passage)\s+[\p{L}'’-]+(?:\s+[\p{L}'’-]+){0,3}|\b\d{5}\s+\p{Lu}[\p{L}-]+/iu,
+  },
+  hints: [
+    { pattern: /\b(?:les|des|est|pour|avec|dans|une|sur|aux|du)\b/gi, weight: 1 },
+    { pattern: /\+33\b/g, weight: 3 },
+    { pattern: /\b(?:SARL|SAS|SIRET|SIREN|TVA)\b/g, weight: 3 },
+    { pattern: /\b\d{1,3}(?:\s\d{3})*,\d{2}\s?€/g, weight: 2 },
+    { pattern: /\b(?:rue|boulevard)\b/gi, weight: 1 },
+  ],
+};
+
+const ES_ES: LocalePack = {
+  locale: "es-ES",
+  label: "Español (España)",
+  patterns: {
+    // 912 345 678, 91 234 56 78, +34 612 345 678
+    phone: /(?:\+34[\s-]?|\b)[6789](?:[\s.-]?\d){8}\b/,
+    // 12/05/2024, 12 de mayo de 2024
+    date: /\b\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}\b|\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\s+de\s+(?:enero|febrero|marzo|abril|mayo|junio|julio|agosto|septiembre|setiembre|octubre|noviembre|diciembre)(?:\s+de)?\s+\d{4}\b/i,
+    // 1.234,56 €, EUR 1.234,56, 50 euros
+    currency:
+      /(?:€|\bEUR)\s?\d{1,3}(?:\.?\d{3})*(?:,\d{1,2})?|\b\d{1,3}(?:\.?\d{3})*(?:,\d{1,2})?\s?(?:€|EUR\b|euros?\b)|[$£¥]\s*\d[\d.,]*/i,
+    // "Calle Mayor, 12", "Avda. de América nº 5", "28013 Madrid"
+    address:
+      /\b(?:C\/|Calle|Avda\.?|Avenida|Av\.|Plaza|Pza\.|Paseo|Camino|Carretera|Ctra\.|Ronda|Travesía)\s*[\p{L}'’ -]{2,40}?,?\s*(?:n[º°o]\.?\s*)?\d+|\b\d{5}\s+\p{Lu}[\p{L}-]+/iu,
+  },
+  hints: [
+    { pattern: /\b(?:el|los|las|del|por|para|con|una|que|como)\b/gi, weight: 1 },
+    { pattern: /\+34\b/g, weight: 3 },
+    { pattern: /\bS\.[LA]\.(?=\s|$|[,;])|\b(?:NIF|CIF|IVA)\b/g, weight: 3 },
+    { pattern: /\b\d{1,2}\s+de\s+[a-z]+\s+de\s+\d{4}\b/gi, weight: 2 },
+    { pattern: /\b(?:calle|avda|plaza)\b/gi, weight: 1 },
+  ],
+};
+
+/**
+ * Registered packs in registration order (earlier packs win ties)
+ */
+const LOCALE_PACKS = new Map<DocumentLocale, LocalePack>();
+
+[EN_US, EN_GB, EN_IN, DE_DE, FR_FR, ES_ES].forEach((pack) => LOCALE_PACKS.set(pack.locale, pack));
+
+/**
+ * Add a locale pack, or replace the pack registered for its locale
+ */
+export function registerLocalePack(pack: LocalePack): void {
+  LOCALE_PACKS.set(pack.locale, pack);
+}
+
+/**
+ * Pack for a locale (falls back to the default locale)
+ */
+export function getLocalePack(locale?: DocumentLocale): LocalePack {
+  return (locale && LOCALE_PACKS.get(locale)) || LOCALE_PACKS.get(DEFAULT_LOCALE)!;
+}
+
+/**
+ * All registered packs, for locale pickers
+ */
+export function listLocalePacks(): LocalePack[] {
+  return Array.from(LOCALE_PACKS.values());
+}
+
+export function isKnownLocale(locale: string): boolean {
+  return LOCALE_PACKS.has(locale);
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  let count = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length > 0) count++;
+  }
+  return count;
+}
+
+/**
+ * Guess a document's locale from its text
+ * Scores every pack by its weighted hint matches; with no evidence at all
+ * the default locale is returned with zero confidence
+ */
+export function guessDocumentLocale(texts: string[]): LocaleGuess {
+  let sample = "";
+  for (const text of texts) {
+    if (sample.length >= MAX_GUESS_SAMPLE_CHARS) break;
+    sample += `${text}\n`;
+  }
+
+  const scores: Record<DocumentLocale, number> = {};
+  let best: DocumentLocale = DEFAULT_LOCALE;
+  LOCALE_PACKS.forEach((pack) => {
+    scores[pack.locale] = pack.hints.reduce(
+      (score, hint) => score + countMatches(sample, hint.pattern) * hint.weight,
+      0
+    );
+    if (scores[pack.locale] > (scores[best] ?? 0)) best = pack.locale;
+  });
+
+  const bestScore = scores[best] ?? 0;
+  const runnerUp = Math.max(0, ...Object.entries(scores).filter(([locale]) => locale !== best).map(([, score]) => score));
+
+  return {
+    locale: best,
+    confidence: bestScore > 0 ? (bestScore - runnerUp) / bestScore : 0,
+    scores,
+  };
+}
@@ -2,10 +2,21 @@
  * GDSM Mutations - Apply mutations to the document model
  */
 
-import type { GDSM, GDSMElement, GDSMMutation, GDSMStats } from "./types";
+import type {
+  BoundingBox,
+  ElementImage,
+  ElementRangeMark,
+  GDSM,
+  GDSMElement,
+  GDSMMutation,
+  GDSMStats,
+  TextRange,
+} from "./types";
 import { ElementState } from "./types";
 import { updateIndex, removeFromIndex } from "./text-index";
 import { detectSemanticType, extractEntities } from "./semantic";
+import { createMarkId, maskTextRange } from "./ranges";
+import { copyImage, coversImage } from "./images";
 
 /**
  * Result of applying a mutation
@@ -41,6 +52,8 @@ export function applyMutation(
     state: element.state,
     originalText: element.originalText,
     comment: element.comment ? { ...element.comment } : undefined,
+    ranges: element.ranges ? element.ranges.map((mark) => ({ ...mark })) : undefined,
+    image: element.image ? copyImage(element.image) : undefined,
   };
 
   // Store original text on first mutation (for complete undo)
@@ -79,13 +92,97 @@ export function applyMutation(
           error: "commentText required for add_comment mutation",
         };
       }
-      applyAddComment(element, mutation.commentText);
+      applyAddComment(element, mutation.commentText, mutation.commentAuthor);
       break;
 
+    case "edit_comment":
+      if (!mutation.commentText) {
+        return {
+          success: false,
+          elementId: mutation.elementId,
+          error: "commentText required for edit_comment mutation",
+        };
+      }
+      if (!element.comment) {
+        return {
+          success: false,
+          elementId: mutation.elementId,
+          error: `No comment on element: ${mutation.elementId}`,
+        };
+      }
+      element.comment = { ...element.comment, text: mutation.commentText, timestamp: Date.now() };
+      break;
+
+    case "remove_comment":
+      element.state &= ~ElementState.COMMENTED;
+      element.comment = undefined;
+      break;
+
+    case "remove_highlight":
+      applyRemoveHighlight(element);
+      break;
+
+    case "unredact": {
+      const restoredText = mutation.newText ?? element.originalText;
+      if (restoredText === undefined) {
+        return {
+          success: false,
+          elementId: mutation.elementId,
+          error: "newText required for unredact mutation",
+        };
+      }
+      applyUnredact(gdsm, element, oldElement, restoredText);
+      break;
+    }
+
     case "delete":
       applyDelete(gdsm, element, oldElement);
       break;
 
+    case "redact_range":
+    case "highlight_range": {
+      const range = mutation.range;
+      if (!range || range.start < 0 || range.end > element.text.length || range.start >= range.end) {
+        return {
+          success: false,
+          elementId: mutation.elementId,
+          error: `Valid range required for ${mutation.type} mutation`,
+        };
+      }
+      const mark: ElementRangeMark = {
+        id: mutation.rangeId || createMarkId("range"),
+        kind: mutation.type === "redact_range" ? "redact" : "highlight",
+        start: range.start,
+        end: range.end,
+        ...(mutation.type === "redact_range" && mutation.reason ? { reason: mutation.reason } : {}),
+      };
+      element.ranges = [...(element.ranges || []), mark];
+      if (mark.kind === "redact") {
+        applyRedactRange(gdsm, element, oldElement, range);
+      }
+      break;
+    }
+
+    case "redact_region": {
+      const region = mutation.region;
+      if (!element.image) {
+        return {
+          success: false,
+          elementId: mutation.elementId,
+          error: `Not an image: ${mutation.elementId}`,
+        };
+      }
+      if (!region || region.width <= 0 || region.height <= 0) {
+        return {
+          success: false,
+          elementId: mutation.elementId,
+          error: "Valid region required for redact_region mutation",
+        };
+      }
+      applyRedactRegion(element, element.image, region, mutation);
+      break;
+    }
+
     default:
       return {
         success: false,
@@ -130,6 +227,74 @@ function applyRedact(
   updateIndex(gdsm.textIndex, oldElement, element);
 }
 
+/**
+ * Apply a partial redaction - the range is masked so offsets stay stable
+ */
+function applyRedactRange(
+  gdsm: GDSM,
+  element: GDSMElement,
+  oldElement: GDSMElement,
+  range: TextRange
+): void {
+  element.text = maskTextRange(element.text, range);
+
+  // Redetect semantic type and entities without the redacted characters
+  const semanticType = detectSemanticType(element.text, gdsm.locale);
+  element.semanticType = semanticType !== "unknown" ? semanticType : undefined;
+  const entities = extractEntities(element.text, gdsm.locale);
+  element.entities = entities.length > 0 ? entities : undefined;
+
+  updateIndex(gdsm.textIndex, oldElement, element);
+}
+
+/**
+ * Black out a region of an image; a region covering it redacts the element
+ */
+function applyRedactRegion(
+  element: GDSMElement,
+  image: ElementImage,
+  region: BoundingBox,
+  mutation: GDSMMutation
+): void {
+  image.redactions = [
+    ...(image.redactions || []),
+    {
+      id: mutation.regionId || createMarkId("region"),
+      ...region,
+      ...(mutation.reason ? { reason: mutation.reason } : {}),
+    },
+  ];
+  if (coversImage(region)) {
+    element.state |= ElementState.REDACTED;
+  }
+}
+
+/**
+ * Lift whole-element and partial redactions, restoring the element text
+ */
+function applyUnredact(
+  gdsm: GDSM,
+  element: GDSMElement,
+  oldElement: GDSMElement,
+  restoredText: string
+): void {
+  element.state &= ~ElementState.REDACTED;
+  element.text = restoredText;
+
+  const ranges = element.ranges?.filter((mark) => mark.kind !== "redact");
+  element.ranges = ranges && ranges.length > 0 ? ranges : undefined;
+  if (element.image) {
+    element.image.redactions = undefined;
+  }
+
+  const semanticType = detectSemanticType(restoredText, gdsm.locale);
+  element.semanticType = semanticType !== "unknown" ? semanticType : undefined;
+  const entities = extractEntities(restoredText, gdsm.locale);
+  element.entities = entities.length > 0 ? entities : undefined;
+
+  updateIndex(gdsm.textIndex, oldElement, element);
+}
+
 /**
  * Apply highlight to an element
  */
@@ -137,6 +302,16 @@ function applyHighlight(element: GDSMElement): void {
   element.state |= ElementState.HIGHLIGHTED;
 }
 
+/**
+ * Remove whole-element and partial highlights from an element
+ */
+function applyRemoveHighlight(element: GDSMElement): void {
+  element.state &= ~ElementState.HIGHLIGHTED;
+
+  const ranges = element.ranges?.filter((mark) => mark.kind !== "highlight");
+  element.ranges = ranges && ranges.length > 0 ? ranges : undefined;
+}
+
 /**
  * Apply text change to an element
  */
@@ -151,11 +326,11 @@ function applySetText(
   element.state |= ElementState.MODIFIED;
 
   // Redetect semantic type and entities for new text
-  element.semanticType = detectSemanticType(newText);
+  element.semanticType = detectSemanticType(newText, gdsm.locale);
   if (element.semanticType === "unknown") {
     element.semanticType = undefined;
   }
-  element.entities = extractEntities(newText);
+  element.entities = extractEntities(newText, gdsm.locale);
   if (element.entities.length === 0) {
     element.entities = undefined;
   }
@@ -167,12 +342,13 @@ function applySetText(
 /**
  * Apply comment to an element
  */
-function applyAddComment(element: GDSMElement, commentText: string): void {
+function applyAddComment(element: GDSMElement, commentText: string, author?: string): void {
   element.state |= ElementState.COMMENTED;
   element.comment = {
     id: `comment-${Date.now()}`,
     text: commentText,
     timestamp: Date.now(),
+    author,
   };
 }
 
@@ -230,54 +406,84 @@ function updateStats(gdsm: GDSM): void {
 }
 
 /**
- * Remove highlight from an element
+ * Remove highlight from an element (whole-element and partial)
  */
 export function removeHighlight(gdsm: GDSM, elementId: string): MutationResult {
-  const element = gdsm.elementsById.get(elementId);
-  if (!element) {
-    return {
-      success: false,
-      elementId,
-      error: `Element not found: ${elementId}`,
-    };
-  }
-
-  const previousState = { state: element.state };
-  element.state &= ~ElementState.HIGHLIGHTED;
-
-  gdsm.version++;
-  gdsm.lastModifiedAt = Date.now();
-  updateStats(gdsm);
-
-  return { success: true, elementId, previousState };
+  return applyMutation(gdsm, { type: "remove_highlight", elementId });
 }
 
 /**
  * Remove comment from an element
  */
 export function removeComment(gdsm: GDSM, elementId: string): MutationResult {
-  const element = gdsm.elementsById.get(elementId);
+  return applyMutation(gdsm, { type: "remove_comment", elementId });
+}
+
+/**
+ * Revert a previously applied mutation using its recorded previous state
+ * Returns a result whose previousState can be used to re-revert (redo)
+ */
+export function revertMutation(
+  gdsm: GDSM,
+  result: MutationResult
+): MutationResult {
+  const element = gdsm.elementsById.get(result.elementId);
   if (!element) {
     return {
       success: false,
-      elementId,
-      error: `Element not found: ${elementId}`,
+      elementId: result.elementId,
+      error: `Element not found: ${result.elementId}`,
+    };
+  }
+
+  const restore = result.previousState;
+  if (!restore) {
+    return {
+      success: false,
+      elementId: result.elementId,
+      error: "No previous state recorded for mutation",
     };
   }
 
-  const previousState = {
+  const previousState: Partial<GDSMElement> = {
+    text: element.text,
     state: element.state,
+    originalText: element.originalText,
     comment: element.comment ? { ...element.comment } : undefined,
+    ranges: element.ranges ? element.ranges.map((mark) => ({ ...mark })) : undefined,
+    image: element.image ? copyImage(element.image) : undefined,
   };
 
-  element.state &= ~ElementState.COMMENTED;
-  element.comment = undefined;
+  // Clone element for index update
+  const oldElement = { ...element };
+
+  if ("text" in restore) element.text = restore.text ?? "";
+  if ("state" in restore && restore.state !== undefined) element.state = restore.state;
+  if ("originalText" in restore) element.originalText = restore.originalText;
+  if ("comment" in restore) {
+    element.comment = restore.comment ? { ...restore.comment } : undefined;
+  }
+  if ("ranges" in restore) {
+    element.ranges = restore.ranges ? restore.ranges.map((mark) => ({ ...mark })) : undefined;
+  }
+  if ("image" in restore && restore.image) {
+    element.image = copyImage(restore.image);
+  }
+
+  // Redetect semantic type and entities for restored text
+  const semanticType = detectSemanticType(element.text, gdsm.locale);
+  element.semanticType = semanticType !== "unknown" ? semanticType : undefined;
+  const entities = extractEntities(element.text, gdsm.locale);
+  element.entities = entities.length > 0 ? entities : undefined;
+
+  // Update text index
+  updateIndex(gdsm.textIndex, oldElement, element);
 
   gdsm.version++;
   gdsm.lastModifiedAt = Date.now();
   updateStats(gdsm);
 
-  return { success: true, elementId, previousState };
+  return { success: true, elementId: result.elementId, previousState };
 }
 
 /**
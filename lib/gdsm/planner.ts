@@ -0,0 +1,680 @@
+/**
+ * Scan Planner - Route scan queries to the cheapest tier that can answer them
+ *
+ * Tiers, tried in order:
+ * 1. index         - single literal word ("containing French") → inverted index
+ * 2. phrase        - quoted multi-word literal ("containing 'John Smith'") →
+ *                    reading-order lines, so a phrase split across spans matches
+ *    pattern       - other literals ("containing 'net-30'") → escaped regex
+ * 3. layout        - a section by number or heading ("section 4.2", "the
+ *                    paragraph under the Indemnification heading") → layout tree
+ *    table         - a table column or rows ("the salary column", "rows where
+ *                    status is Overdue") → detected tables
+ * 4. semantic_type - well-typed query ("email addresses") → semanticType + PATTERNS
+ * 5. state         - markup already applied ("highlights", "comments") → state filters
+ *    furniture     - running headers, footers, page numbers → furniture tags
+ *    style         - bold, italic, colored or footnote-sized text → element styles
+ *    image         - photos, pictures, figures → image elements (not page backgrounds)
+ *    spatial       - "everything" in a region or next to an anchor → position
+ * 6. llm           - anything else; the caller runs the LLM scanner
+ *
+ * "... in the header" / "... in the footer" scopes any tier to that page
+ * furniture, the LLM tier included (the caller scans only those elements).
+ * Position scopes work the same way: "in the top-right corner", "at the
+ * bottom of the last page", or structured region / anchor parameters.
+ *
+ * Only queries that are fully understood are answered locally, so the
+ * deterministic tiers never return a partial answer to an ambiguous query.
+ * "Party B's email" or "contact information" still go to the LLM, and so
+ * does a section or table column the layout tree doesn't have.
+ */
+
+import type {
+  GDSM,
+  GDSMElement,
+  PageFurnitureKind,
+  PageRegion,
+  ScanQuery,
+  SemanticType,
+  StyleFilter,
+  TableRowPredicate,
+  TextSpan,
+} from "./types";
+import { scanGDSM } from "./scanner";
+import { findSection, getLayout } from "./layout";
+import { hasTableTarget, isTableQuery } from "./tables";
+
+export type ScanTier =
+  | "index"
+  | "phrase"
+  | "pattern"
+  | "layout"
+  | "table"
+  | "semantic_type"
+  | "state"
+  | "furniture"
+  | "style"
+  | "image"
+  | "spatial"
+  | "llm";
+
+/**
+ * Page and position filters given alongside the query text (structured
+ * scan_document parameters) - they take precedence over scopes in the text
+ */
+export type ScanScope = Pick<ScanQuery, "pages" | "lastPage" | "region" | "relativeTo">;
+
+/**
+ * How a query will be answered
+ */
+export interface ScanPlan {
+  tier: ScanTier;
+  // Queries for the deterministic tiers, results are unioned (empty for "llm")
+  queries: ScanQuery[];
+  reason: string;
+  // "in the header" scope - also limits what the LLM tier scans
+  furniture?: PageFurnitureKind;
+  // Page and position scope - also limits what the LLM tier scans
+  spatial?: ScanScope;
+}
+
+/**
+ * Result of executing a deterministic plan
+ */
+export interface PlannedScanResult {
+  tier: Exclude<ScanTier, "llm">;
+  elements: GDSMElement[];
+  reason: string;
+  // Phrase tier: the part of each element's text the phrase covers
+  spans?: Map<string, TextSpan[]>;
+}
+
+/**
+ * Phrases that name a semantic type on their own
+ * Each must match the whole (normalized) term
+ */
+const TYPE_PHRASES: Array<{ type: SemanticType; pattern: RegExp }> = [
+  { type: "email", pattern: /^e-?mails?(?: address(?:es)?)?$/ },
+  { type: "phone", pattern: /^(?:(?:tele)?phone|mobile|cell(?:phone)?)s?(?: numbers?)?$/ },
+  { type: "date", pattern: /^dates?$/ },
+  { type: "currency", pattern: /^(?:currency|dollar|money|monetary)(?: (?:amounts?|values?|figures?))?$|^prices?$/ },
+  { type: "percentage", pattern: /^percent(?:age)?s?$/ },
+  { type: "ssn", pattern: /^(?:ssns?|social security(?: numbers?)?)$/ },
+  { type: "url", pattern: /^(?:urls?|links?|web ?sites?|web addresses)$/ },
+  { type: "credit_card", pattern: /^(?:(?:credit|debit|payment) )?cards?(?: numbers?)?$|^(?:credit|debit) card details$/ },
+  { type: "iban", pattern: /^ibans?(?: numbers?)?$|^international bank account numbers?$/ },
+  { type: "ein", pattern: /^eins?$|^employer (?:identification|id) numbers?$/ },
+  { type: "itin", pattern: /^itins?$|^(?:individual )?taxpayer (?:identification|id) numbers?$/ },
+  { type: "passport", pattern: /^passports?(?: numbers?)?$/ },
+  { type: "drivers_license", pattern: /^(?:driver(?:['’]?s)?|driving) licen[cs]es?(?: numbers?)?$/ },
+  { type: "ip_address", pattern: /^(?:ip(?:v[46])?(?: address(?:es)?)?|ips)$/ },
+  { type: "routing_number", pattern: /^(?:(?:bank|aba) )?routing(?: numbers?)?$|^aba numbers?$/ },
+];
+
+type StateFilter = "onlyHighlighted" | "onlyCommented" | "onlyRedacted";
+
+/**
+ * Phrases that name markup already in the document
+ * Each must match the whole (normalized) term
+ */
+const STATE_PHRASES: Array<{ filter: StateFilter; pattern: RegExp }> = [
+  { filter: "onlyHighlighted", pattern: /^(?:my )?(?:highlights?|highlighted(?: (?:text|elements?|lines?|words?|passages?))?)$/ },
+  { filter: "onlyCommented", pattern: /^(?:my )?(?:review )?(?:comments?|notes?|sticky notes?|commented(?: (?:text|elements?|lines?))?)$/ },
+  { filter: "onlyRedacted", pattern: /^(?:my )?(?:redactions?|redacted(?: (?:text|elements?|lines?|words?|content))?)$/ },
+];
+
+/**
+ * Phrases that name page furniture
+ * Each must match the whole (normalized) term
+ */
+const FURNITURE_PHRASES: Array<{ kind: PageFurnitureKind | "any"; pattern: RegExp }> = [
+  { kind: "header", pattern: /^(?:(?:page|running) )?headers?$|^letterheads?$/ },
+  { kind: "footer", pattern: /^(?:(?:page|running) )?footers?$/ },
+  { kind: "page_number", pattern: /^page numbers?$|^page numbering$/ },
+  { kind: "any", pattern: /^(?:page furniture|repeated (?:text|elements?))$/ },
+];
+
+// Names for embedded images, matched against the whole (normalized) term
+const IMAGE_PHRASE =
+  /^(?:(?:embedded|inline|scanned) )?(?:images?|photos?|photographs?|pictures?|figures?|graphics?|illustrations?|logos?|diagrams?|charts?)(?: (?:and|or|&) (?:images?|photos?|photographs?|pictures?|figures?|graphics?|illustrations?|logos?|diagrams?|charts?))*$/;
+
+const LEADING_VERB = /^(?:find|show|get|list|locate|search(?: for)?|scan(?: for)?|look(?: for)?)\s+/;
+const LEADING_QUANTIFIER = /^(?:all|every|each|any)\s+(?:of\s+)?(?:the\s+)?/;
+const TRAILING_SCOPE = /\s+(?:in|from|across|throughout)\s+(?:the|this)\s+(?:document|doc|pdf|file)$/;
+const PAGE_SCOPE = /\s*\b(?:on|in|from)\s+page\s+(\d+)\b/i;
+const FURNITURE_SCOPE = /\s+\b(?:in|on|from)\s+(?:the\s+)?(?:(?:page|running)\s+)?(headers?|letterheads?|footers?)$/i;
+// "in the top-right corner", "at the bottom of the last page"
+const REGION_SCOPE =
+  /\s+\b(?:in|at|on|from|along)\s+the\s+(top|upper|middle|bottom|lower|left|right)(?:[\s-](left|right))?(?:[\s-]hand)?(?:\s+(?:corner|box|area|part|half|third|side|region|edge))?(?:\s+of\s+(?:the|each|every)\s+(last\s+|final\s+)?page)?$/i;
+const LAST_PAGE_SCOPE = /\s*\b(?:on|in|from)\s+the\s+(?:last|final)\s+page$/i;
+// Terms that ask for every element of a scope ("everything in the top-right box")
+const GENERIC_TERM = /^(?:everything|anything|all|(?:all )?(?:the )?(?:text|content|contents|elements?|lines?|words?)|)$/i;
+// "with" only counts when it introduces an explicit literal ("with the word X", "with 'X'")
+const LITERAL_QUERY =
+  /^(?:(?:text|elements?|lines?|words?|anything)\s+)?(?:containing|that contains?|mentioning|with(?=\s+(?:the\s+)?(?:word|phrase|text|string)\b|\s+["'“‘]))\s+(?:the\s+)?(?:(?:word|phrase|text|string)\s+)?(.+)$/i;
+const QUOTED = /^(["'“‘])(.+)(["'”’])$/;
+// Section references, most specific first; group 1 is the number or title
+const SECTION_QUERIES: Array<{ part?: ScanQuery["sectionPart"]; pattern: RegExp }> = [
+  { part: "first_paragraph", pattern: /^(?:the )?(?:first )?paragraph (?:under|below|beneath|after) (?:the )?(.+?)(?: (?:heading|section|title))?$/i },
+  { part: "body", pattern: /^(?:the )?(?:text|content|contents|body|everything) (?:under|below|beneath) (?:the )?(.+?)(?: (?:heading|section|title))?$/i },
+  { part: "heading", pattern: /^(?:the )?(.+?) heading$/i },
+  { pattern: /^(?:(?:the )?(?:text|content|contents|body|wording) of )?(?:the )?(?:section|clause|article|§) ?(\d+(?:\.\d+)*)$/i },
+  { pattern: /^(?:the )?(?:section|clause|article) (?:titled|called|named|headed) (.+)$/i },
+  { pattern: /^(?:the )?(.+?) (?:section|clause)$/i },
+];
+// Table references; a row predicate is "<column> is|contains <value>"
+const ROW_PREDICATE = "(?:the )?(.+?)(?: column)? (is|equals|=|contains|includes) (.+)";
+const TABLE_QUERIES: Array<{ shape: "column_rows" | "rows" | "column" | "tables"; pattern: RegExp }> = [
+  {
+    shape: "column_rows",
+    pattern: new RegExp(`^(?:the )?(?:values? (?:in|of) )?(?:the )?(.+?) column (?:for|in|of) (?:the )?rows? (?:where|whose) ${ROW_PREDICATE}$`, "i"),
+  },
+  { shape: "rows", pattern: new RegExp(`^(?:the )?(?:table )?rows? (?:where|whose) ${ROW_PREDICATE}$`, "i") },
+  { shape: "column", pattern: /^(?:(?:the )?(?:values?|cells?|entries|contents?|data) (?:in|of|from) )?(?:the )?(.+?) column$/i },
+  { shape: "column", pattern: /^(?:the )?(?:table )?column (?:named |titled |called |headed )?(.+)$/i },
+  { shape: "tables", pattern: /^(?:the )?tables?(?: contents?| cells?)?$/i },
+];
+const INDEXABLE_WORD = /^[\p{L}\p{N}]{2,}$/u;
+// Style words and what each asks for
+const STYLE_WORDS: Array<{ filter: StyleFilter; pattern: RegExp }> = [
+  { filter: { bold: true }, pattern: /^(?:bold|bolded|boldface|emboldened)$/ },
+  { filter: { italic: true }, pattern: /^(?:italics?|italici[sz]ed|slanted)$/ },
+  { filter: { relativeSize: "smaller" }, pattern: /^(?:footnote-sized?|small|smaller|tiny|fine)$/ },
+  { filter: { relativeSize: "larger" }, pattern: /^(?:large|larger|big|bigger|oversized)$/ },
+  { filter: { relativeSize: "body" }, pattern: /^(?:body-sized?|normal-sized?|regular-sized?)$/ },
+  { filter: { color: "gray" }, pattern: /^gr[ae]y$/ },
+  { filter: {}, pattern: /^(?:black|white|red|orange|yellow|green|blue|purple|pink|brown|#[0-9a-f]{3}|#[0-9a-f]{6})$/ },
+];
+const STYLE_NOUN = "(?:text|lines?|words?|elements?|passages?|sentences?|print|type|writing|lettering)";
+// "text in red", "lines in bold and italics"
+const STYLE_IN = new RegExp(`^${STYLE_NOUN} (?:(?:set|written|printed|typed|shown) )?in (.+)$`, "i");
+// "text in the Garamond font"
+const FONT_QUERY = new RegExp(`^(?:${STYLE_NOUN} )?(?:(?:set|written|printed|typed) )?in (?:the )?(.+?) (?:font|typeface)$`, "i");
+// "text larger than 14pt", "lines under 8 px"
+const SIZE_QUERY = new RegExp(
+  `^${STYLE_NOUN} (?:(larger|bigger|over|above|at least)|(smaller|under|below|at most)) (?:than )?(\\d+(?:\\.\\d+)?) ?(?:pt|px|points?)$`,
+  "i"
+);
+
+/**
+ * Normalize a query: collapse whitespace, strip filler words and page scope
+ * Returns the core term (original case, for literals) plus an optional page
+ * and page furniture scope
+ */
+function normalizeQuery(queryText: string): {
+  term: string;
+  page?: number;
+  furniture?: PageFurnitureKind;
+  region?: PageRegion;
+  lastPage?: boolean;
+} {
+  let term = queryText.trim().replace(/\s+/g, " ").replace(/[.?!]+$/, "");
+  let page: number | undefined;
+  let furniture: PageFurnitureKind | undefined;
+  let region: PageRegion | undefined;
+  let lastPage = false;
+
+  const pageMatch = term.match(PAGE_SCOPE);
+  if (pageMatch) {
+    page = parseInt(pageMatch[1], 10);
+    term = term.replace(PAGE_SCOPE, "").trim();
+  }
+
+  const furnitureMatch = term.match(FURNITURE_SCOPE);
+  if (furnitureMatch) {
+    furniture = /^footer/i.test(furnitureMatch[1]) ? "footer" : "header";
+    term = term.replace(FURNITURE_SCOPE, "").trim();
+  }
+
+  const regionMatch = term.match(REGION_SCOPE);
+  if (regionMatch) {
+    const side = (word: string) => ({ upper: "top", lower: "bottom" })[word] ?? word;
+    const [first, second] = [side(regionMatch[1].toLowerCase()), regionMatch[2]?.toLowerCase()];
+    // "left right" isn't a region; "top right" is a corner
+    if (!second || first === "top" || first === "bottom") {
+      region = (second ? `${first}_${second}` : first) as PageRegion;
+      lastPage = !!regionMatch[3];
+      term = term.replace(REGION_SCOPE, "").trim();
+    }
+  }
+
+  if (LAST_PAGE_SCOPE.test(term)) {
+    lastPage = true;
+    term = term.replace(LAST_PAGE_SCOPE, "").trim();
+  }
+
+  // Filler is matched lowercase so literals keep their original case
+  const strip = (pattern: RegExp) => {
+    const match = term.toLowerCase().match(pattern);
+    if (match && match.index !== undefined) {
+      term = (term.slice(0, match.index) + term.slice(match.index + match[0].length)).trim();
+    }
+  };
+  strip(LEADING_VERB);
+  strip(LEADING_QUANTIFIER);
+  strip(TRAILING_SCOPE);
+
+  return { term, page, furniture, region, ...(lastPage ? { lastPage } : {}) };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Regex for a literal phrase, anchored at word boundaries where possible
+ */
+function literalPattern(phrase: string): RegExp {
+  const start = /^\w/.test(phrase) ? "\\b" : "";
+  const end = /\w$/.test(phrase) ? "\\b" : "";
+  return new RegExp(`${start}${escapeRegExp(phrase)}${end}`, "i");
+}
+
+/**
+ * Plan a literal query ("containing X" or a bare quoted string)
+ */
+function planLiteral(term: string): { tier: ScanTier; query: ScanQuery; reason: string } | null {
+  const literalMatch = term.match(LITERAL_QUERY);
+  const quoted = term.match(QUOTED);
+  if (!literalMatch && !quoted) return null;
+
+  let literal = literalMatch ? literalMatch[1].trim() : term;
+  const literalQuoted = literal.match(QUOTED);
+  if (literalQuoted) literal = literalQuoted[2].trim();
+  if (!literal) return null;
+
+  // An unquoted multi-word tail may be a description ("with a due date"), not a literal
+  if (!literalQuoted && /\s/.test(literal)) return null;
+
+  if (INDEXABLE_WORD.test(literal)) {
+    return {
+      tier: "index",
+      query: { containsWord: literal },
+      reason: `word "${literal}"`,
+    };
+  }
+
+  if (/\s/.test(literal)) {
+    return {
+      tier: "phrase",
+      query: { containsPhrase: literal },
+      reason: `phrase "${literal}"`,
+    };
+  }
+
+  return {
+    tier: "pattern",
+    query: { pattern: literalPattern(literal) },
+    reason: `literal "${literal}"`,
+  };
+}
+
+/**
+ * Plan a section query ("section 4.2", "the paragraph under the X heading")
+ */
+function planSection(term: string): { query: ScanQuery; reason: string } | null {
+  for (const { part, pattern } of SECTION_QUERIES) {
+    const match = term.match(pattern);
+    if (!match) continue;
+    const quoted = match[1].trim().match(QUOTED);
+    const ref = quoted ? quoted[2].trim() : match[1].trim();
+    if (!ref) return null;
+    return {
+      query: { inSection: ref, ...(part ? { sectionPart: part } : {}) },
+      reason: `section "${ref}"${part ? ` (${part.replace("_", " ")})` : ""}`,
+    };
+  }
+  return null;
+}
+
+function unquote(text: string): string {
+  const quoted = text.trim().match(QUOTED);
+  return quoted ? quoted[2].trim() : text.trim();
+}
+
+/**
+ * Plan a table query ("the salary column", "rows where status is Overdue")
+ */
+function planTable(term: string): { query: ScanQuery; reason: string } | null {
+  for (const { shape, pattern } of TABLE_QUERIES) {
+    const match = term.match(pattern);
+    if (!match) continue;
+
+    if (shape === "tables") {
+      return { query: { inTable: true, includeTableHeader: true }, reason: "table cells" };
+    }
+
+    const column = shape === "rows" ? undefined : unquote(match[1]);
+    const predicateAt = shape === "column_rows" ? 2 : 1;
+    let tableRowWhere: TableRowPredicate | undefined;
+    if (shape !== "column") {
+      const value = unquote(match[predicateAt + 2]);
+      const verb = match[predicateAt + 1].toLowerCase();
+      tableRowWhere = {
+        column: unquote(match[predicateAt]),
+        ...(verb === "contains" || verb === "includes" ? { contains: value } : { equals: value }),
+      };
+    }
+    if (column === "" || tableRowWhere?.column === "") return null;
+
+    let reason = column ? `table column "${column}"` : "table rows";
+    if (tableRowWhere) {
+      const condition = tableRowWhere.contains !== undefined ? `contains "${tableRowWhere.contains}"` : `is "${tableRowWhere.equals}"`;
+      reason += ` where ${tableRowWhere.column} ${condition}`;
+    }
+    return {
+      query: { ...(column ? { tableColumn: column } : {}), ...(tableRowWhere ? { tableRowWhere } : {}) },
+      reason,
+    };
+  }
+  return null;
+}
+
+/**
+ * Split a list query ("emails and phone numbers") into its terms
+ */
+function splitTerms(term: string): string[] {
+  return term
+    .toLowerCase()
+    .split(/\s*(?:,|\band\b|\bor\b|&|\/)\s*/)
+    .map((part) => part.replace(/^(?:the|all|any)\s+/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Semantic types named by a query ("emails and phone numbers")
+ * Returns null unless every listed term is a known type
+ */
+function matchSemanticTypes(term: string): SemanticType[] | null {
+  const parts = splitTerms(term);
+  if (parts.length === 0) return null;
+
+  const types: SemanticType[] = [];
+  for (const part of parts) {
+    const entry = TYPE_PHRASES.find(({ pattern }) => pattern.test(part));
+    if (!entry) return null;
+    if (!types.includes(entry.type)) types.push(entry.type);
+  }
+  return types;
+}
+
+/**
+ * Markup filters named by a query ("highlights and comments")
+ * Returns null unless every listed term names existing markup
+ */
+function matchStateFilters(term: string): StateFilter[] | null {
+  const parts = splitTerms(term);
+  if (parts.length === 0) return null;
+
+  const filters: StateFilter[] = [];
+  for (const part of parts) {
+    const entry = STATE_PHRASES.find(({ pattern }) => pattern.test(part));
+    if (!entry) return null;
+    if (!filters.includes(entry.filter)) filters.push(entry.filter);
+  }
+  return filters;
+}
+
+/**
+ * Page furniture named by a query ("headers and footers")
+ * Returns null unless every listed term names page furniture
+ */
+function matchFurniture(term: string): Array<PageFurnitureKind | "any"> | null {
+  const parts = splitTerms(term);
+  if (parts.length === 0) return null;
+
+  const kinds: Array<PageFurnitureKind | "any"> = [];
+  for (const part of parts) {
+    const entry = FURNITURE_PHRASES.find(({ pattern }) => pattern.test(part));
+    if (!entry) return null;
+    if (!kinds.includes(entry.kind)) kinds.push(entry.kind);
+  }
+  return kinds;
+}
+
+/**
+ * Style words ("bold red", "footnote-sized") as one filter
+ * Returns null unless every word is a style word
+ */
+function parseStyleWords(words: string): StyleFilter | null {
+  const parts = words
+    .toLowerCase()
+    .replace(/\bfootnote[\s-]?siz(?:ed|e)\b/g, "footnote-sized")
+    .split(/\s*(?:,|\band\b|&|\s)\s*/)
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  let filter: StyleFilter = {};
+  for (const part of parts) {
+    const entry = STYLE_WORDS.find(({ pattern }) => pattern.test(part));
+    if (!entry) return null;
+    filter = { ...filter, ...entry.filter, ...(Object.keys(entry.filter).length === 0 ? { color: part } : {}) };
+  }
+  return filter;
+}
+
+/**
+ * Describe a style filter for plan reasons ("bold red text")
+ */
+function describeStyleFilter(filter: StyleFilter): string {
+  const sizes = { smaller: "footnote-sized", body: "body-sized", larger: "large" };
+  return [
+    filter.relativeSize ? sizes[filter.relativeSize] : "",
+    filter.bold ? "bold" : "",
+    filter.italic ? "italic" : "",
+    filter.color ?? "",
+    "text",
+    filter.fontFamily ? `in the ${filter.fontFamily} font` : "",
+    filter.minFontSize !== undefined ? `of at least ${filter.minFontSize}px` : "",
+    filter.maxFontSize !== undefined ? `of at most ${filter.maxFontSize}px` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Plan a typography query ("bold text", "text in red", "footnote-sized lines",
+ * "text in the Garamond font")
+ * Colors and sizes need a noun ("red text"), so "orange" stays a word search
+ */
+function planStyle(term: string): { query: ScanQuery; reason: string } | null {
+  let filter: StyleFilter | null = null;
+  term = term.replace(/^the /i, "");
+
+  const size = term.match(SIZE_QUERY);
+  const font = term.match(FONT_QUERY);
+  const styledIn = term.match(STYLE_IN);
+  if (size) {
+    const px = parseFloat(size[3]);
+    filter = size[1] ? { minFontSize: px } : { maxFontSize: px };
+  } else if (font) {
+    filter = parseStyleWords(font[1]) ?? { fontFamily: unquote(font[1]) };
+  } else if (styledIn) {
+    filter = parseStyleWords(styledIn[1]);
+  } else {
+    const match = term.match(new RegExp(`^(.+?)(?: (${STYLE_NOUN}))?$`, "i"));
+    filter = match ? parseStyleWords(match[1]) : null;
+    // A bare color or size is more likely a word to search for
+    if (filter && !match?.[2] && filter.bold === undefined && filter.italic === undefined) return null;
+  }
+
+  if (!filter || Object.keys(filter).length === 0) return null;
+  return { query: { style: filter }, reason: describeStyleFilter(filter) };
+}
+
+/**
+ * Describe a page and position scope for plan reasons
+ */
+function describeScope(scope: ScanScope): string {
+  const parts: string[] = [];
+  if (scope.region) {
+    const { region } = scope;
+    parts.push(
+      typeof region === "string"
+        ? `in the ${region.replace("_", " ")}`
+        : `in box (${region.x},${region.y}) ${region.width}x${region.height}`
+    );
+  }
+  if (scope.relativeTo) {
+    parts.push(`${scope.relativeTo.relation.replace("_", " ")} "${scope.relativeTo.anchor}"`);
+  }
+  if (scope.lastPage) parts.push("on the last page");
+  else if (scope.pages?.length) parts.push(`on page ${scope.pages.join(", ")}`);
+  return parts.join(" ");
+}
+
+/**
+ * Decide which tier answers a natural language scan query
+ * A scope (structured page and position filters) narrows every query
+ */
+export function planScan(queryText: string, scope: ScanScope = {}): ScanPlan {
+  const { term, page, furniture, region, lastPage } = normalizeQuery(queryText);
+  const spatial: ScanScope = Object.fromEntries(
+    Object.entries({ region, lastPage, ...scope }).filter(([, value]) => value !== undefined)
+  );
+  const scoped = spatial.region !== undefined || spatial.relativeTo !== undefined;
+
+  const pages = page !== undefined ? [page] : undefined;
+  let plan: ScanPlan = scoped && GENERIC_TERM.test(term)
+    ? { tier: "spatial", queries: [{ pages, excludeRedacted: true }], reason: "every element" }
+    : planTerm(term, page);
+
+  // "in the header": every query (and the LLM tier) is limited to it
+  if (furniture) {
+    plan = {
+      ...plan,
+      queries: plan.queries.map((query) => ({ ...query, furniture })),
+      reason: `${plan.reason} in the ${furniture}`,
+      furniture,
+    };
+  }
+
+  if (Object.keys(spatial).length === 0) return plan;
+  return {
+    ...plan,
+    queries: plan.queries.map((query) => ({ ...query, ...spatial })),
+    reason: `${plan.reason} ${describeScope(spatial)}`,
+    spatial,
+  };
+}
+
+function planTerm(term: string, page?: number): ScanPlan {
+  const pages = page !== undefined ? [page] : undefined;
+  const pageNote = page !== undefined ? ` on page ${page}` : "";
+
+  if (!term) {
+    return { tier: "llm", queries: [], reason: "empty query" };
+  }
+
+  const literal = planLiteral(term);
+  if (literal) {
+    return {
+      tier: literal.tier,
+      queries: [{ ...literal.query, pages, excludeRedacted: true }],
+      reason: `${literal.reason}${pageNote}`,
+    };
+  }
+
+  const section = planSection(term);
+  if (section) {
+    return {
+      tier: "layout",
+      queries: [{ ...section.query, pages, excludeRedacted: true }],
+      reason: `${section.reason}${pageNote}`,
+    };
+  }
+
+  const table = planTable(term);
+  if (table) {
+    return {
+      tier: "table",
+      queries: [{ ...table.query, pages, excludeRedacted: true }],
+      reason: `${table.reason}${pageNote}`,
+    };
+  }
+
+  const types = matchSemanticTypes(term);
+  if (types) {
+    return {
+      tier: "semantic_type",
+      queries: types.map((semanticType) => ({ semanticType, pages, excludeRedacted: true })),
+      reason: `semantic type ${types.join(", ")}${pageNote}`,
+    };
+  }
+
+  // Redacted elements stay in scope - they may be what the user wants to unmark
+  const filters = matchStateFilters(term);
+  if (filters) {
+    return {
+      tier: "state",
+      queries: filters.map((filter) => ({ [filter]: true, pages })),
+      reason: `existing ${filters.map((filter) => filter.replace(/^only/, "").toLowerCase()).join(", ")}${pageNote}`,
+    };
+  }
+
+  const kinds = matchFurniture(term);
+  if (kinds) {
+    return {
+      tier: "furniture",
+      queries: kinds.map((kind) => ({ furniture: kind, pages })),
+      reason: `page furniture ${kinds.join(", ").replace(/_/g, " ")}${pageNote}`,
+    };
+  }
+
+  const style = planStyle(term);
+  if (style) {
+    return {
+      tier: "style",
+      queries: [{ ...style.query, pages, excludeRedacted: true }],
+      reason: `${style.reason}${pageNote}`,
+    };
+  }
+
+  if (IMAGE_PHRASE.test(term.toLowerCase())) {
+    return {
+      tier: "image",
+      queries: [{ elementType: "image", pages, excludeRedacted: true }],
+      reason: `embedded images${pageNote}`,
+    };
+  }
+
+  return { tier: "llm", queries: [], reason: "query needs semantic understanding" };
+}
+
+/**
+ * Execute a deterministic plan against the GDSM
+ * Returns null for "llm" plans - the caller runs the LLM scanner instead -
+ * and for sections or table columns the layout tree doesn't have
+ */
+export function executeScanPlan(gdsm: GDSM, plan: ScanPlan): PlannedScanResult | null {
+  if (plan.tier === "llm" || plan.queries.length === 0) return null;
+
+  // "The payment terms section" may describe content rather than name a heading
+  const layout = getLayout(gdsm);
+  if (plan.queries.some((query) => query.inSection && !findSection(layout, query.inSection))) {
+    return null;
+  }
+  if (plan.queries.some((query) => isTableQuery(query) && !hasTableTarget(layout, query))) {
+    return null;
+  }
+
+  if (plan.queries.length === 1) {
+    const { elements, spans } = scanGDSM(gdsm, plan.queries[0]);
+    return { tier: plan.tier, elements, reason: plan.reason, ...(spans ? { spans } : {}) };
+  }
+
+  // Union of several queries, kept in document order
+  const matched = new Set<string>();
+  let spans: Map<string, TextSpan[]> | undefined;
+  plan.queries.forEach((query) => {
+    const result = scanGDSM(gdsm, query);
+    result.elements.forEach((el) => matched.add(el.id));
+    result.spans?.forEach((elementSpans, id) => {
+      spans ??= new Map();
+      spans.set(id, [...(spans.get(id) ?? []), ...elementSpans]);
+    });
+  });
+  const elements = Array.from(gdsm.elementsById.values()).filter((el) => matched.has(el.id));
+
+  return { tier: plan.tier, elements, reason: plan.reason, ...(spans ? { spans } : {}) };
+}
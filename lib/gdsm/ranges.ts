@@ -0,0 +1,267 @@
+/**
+ * Text Ranges - Character-level redactions and highlights inside an element
+ *
+ * Range operations wrap part of an element's text in spans instead of acting
+ * on the whole element:
+ *   <span data-canon-range-id="range-..." data-canon-range="redact|highlight">
+ *
+ * Offsets index the element's GDSM text (trimmed textContent). A redacted
+ * wrapper has its text cleared in the DOM, so it counts as one mask
+ * character per original character - offsets of later ranges in the same
+ * element stay valid and redacted text never reaches the text index.
+ *
+ * The viewer's iframe script has an ES5 copy of the DOM walking here
+ * (pdf-viewer SELECTION_SCRIPT); keep the two in step.
+ */
+
+import type { DocumentLocale, ElementRangeMark, ScanQuery, TextRange, TextSpan } from "./types";
+import { getPatternForType, getValidatorForType } from "./semantic";
+
+/**
+ * Stands in for each redacted character in GDSM text
+ */
+export const REDACTION_MASK_CHAR = "█";
+
+/**
+ * New ID for a range or image region, made when it is applied
+ * (not derived from the operation ID - those repeat across runs)
+ */
+export function createMarkId(kind: "range" | "region"): string {
+  return `${kind}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * How a range operation names its target: offsets, or the nth occurrence of
+ * a substring
+ */
+export interface TextRangeInput {
+  start?: number;
+  end?: number;
+  text?: string;
+  occurrence?: number; // 1-based, default 1
+}
+
+/**
+ * A piece of an element's text in document order
+ */
+interface TextSegment {
+  node: Node; // Text node, or a redacted range wrapper (no text left)
+  start: number; // Offset in the untrimmed text
+  length: number;
+  masked: boolean;
+  rangeWrapper: Element | null;
+}
+
+/**
+ * Resolve a range input against element text
+ */
+export function resolveTextRange(
+  text: string,
+  input: TextRangeInput
+): { range?: TextRange; error?: string } {
+  if (typeof input.text === "string" && input.text.length > 0) {
+    const occurrence = Math.max(1, Math.floor(input.occurrence ?? 1));
+    let index = -1;
+    for (let n = 0; n < occurrence; n++) {
+      index = text.indexOf(input.text, index + 1);
+      if (index === -1) {
+        return { error: `Text "${input.text}" not found${occurrence > 1 ? ` (occurrence ${occurrence})` : ""}` };
+      }
+    }
+    return { range: { start: index, end: index + input.text.length } };
+  }
+
+  if (typeof input.start === "number" && typeof input.end === "number") {
+    const start = Math.floor(input.start);
+    const end = Math.floor(input.end);
+    if (start < 0 || end > text.length || start >= end) {
+      return { error: `Invalid range ${start}-${end} for text of length ${text.length}` };
+    }
+    return { range: { start, end } };
+  }
+
+  return { error: "Range needs text, or start and end offsets" };
+}
+
+/**
+ * Replace a range of text with mask characters
+ */
+export function maskTextRange(text: string, range: TextRange): string {
+  const start = Math.max(0, range.start);
+  const end = Math.min(text.length, range.end);
+  if (start >= end) return text;
+  return text.slice(0, start) + REDACTION_MASK_CHAR.repeat(end - start) + text.slice(end);
+}
+
+function collectSegments(
+  root: Node,
+  segments: TextSegment[],
+  rangeWrapper: Element | null,
+  offset: { value: number }
+): void {
+  root.childNodes.forEach((node) => {
+    if (node.nodeType === 3) {
+      const length = node.nodeValue?.length ?? 0;
+      segments.push({ node, start: offset.value, length, masked: false, rangeWrapper });
+      offset.value += length;
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const el = node as Element;
+    const wrapper = el.hasAttribute("data-canon-range-id") ? el : rangeWrapper;
+    if (el.getAttribute("data-canon-range") === "redact") {
+      const length = (el.getAttribute("data-canon-original") || "").length;
+      segments.push({ node: el, start: offset.value, length, masked: true, rangeWrapper: el });
+      offset.value += length;
+      return;
+    }
+    collectSegments(el, segments, wrapper, offset);
+  });
+}
+
+function getSegments(el: Element): { segments: TextSegment[]; raw: string; lead: number } {
+  const segments: TextSegment[] = [];
+  collectSegments(el, segments, null, { value: 0 });
+  const raw = segments
+    .map((segment) =>
+      segment.masked ? REDACTION_MASK_CHAR.repeat(segment.length) : segment.node.nodeValue || ""
+    )
+    .join("");
+  return { segments, raw, lead: raw.length - raw.trimStart().length };
+}
+
+/**
+ * Text of an element as the GDSM sees it
+ * Same as trimmed textContent, except redacted ranges are masked
+ */
+export function getElementText(el: Element): string {
+  return getSegments(el).raw.trim();
+}
+
+/**
+ * Range marks recorded in the DOM (rebuilds GDSM ranges on load)
+ */
+export function getElementRangeMarks(el: Element): ElementRangeMark[] {
+  const { segments, raw, lead } = getSegments(el);
+  const textLength = raw.trim().length;
+  const marks = new Map<string, ElementRangeMark>();
+
+  for (const segment of segments) {
+    const wrapper = segment.rangeWrapper;
+    const id = wrapper?.getAttribute("data-canon-range-id");
+    if (!wrapper || !id) continue;
+
+    const start = Math.max(0, segment.start - lead);
+    const end = Math.min(textLength, segment.start + segment.length - lead);
+    const existing = marks.get(id);
+    if (existing) {
+      existing.start = Math.min(existing.start, start);
+      existing.end = Math.max(existing.end, end);
+      continue;
+    }
+
+    const kind = wrapper.getAttribute("data-canon-range") === "redact" ? "redact" : "highlight";
+    const reason = wrapper.getAttribute("data-canon-redaction-reason");
+    marks.set(id, { id, kind, start, end, ...(kind === "redact" && reason ? { reason } : {}) });
+  }
+
+  return Array.from(marks.values()).filter((mark) => mark.end > mark.start);
+}
+
+/**
+ * Wrap a range of an element's text in spans, splitting text nodes at the
+ * range boundaries. Returns one wrapper per text node touched; characters
+ * already redacted are skipped.
+ */
+export function wrapTextRange(
+  el: Element,
+  range: TextRange,
+  createWrapper: () => HTMLElement
+): HTMLElement[] {
+  const { segments, lead } = getSegments(el);
+  const start = range.start + lead;
+  const end = range.end + lead;
+  const wrappers: HTMLElement[] = [];
+
+  for (const segment of segments) {
+    if (segment.masked) continue;
+    const from = Math.max(start, segment.start) - segment.start;
+    const to = Math.min(end, segment.start + segment.length) - segment.start;
+    if (from >= to) continue;
+
+    let textNode = segment.node as Text;
+    if (from > 0) textNode = textNode.splitText(from);
+    if (to - from < textNode.length) textNode.splitText(to - from);
+
+    const wrapper = createWrapper();
+    textNode.parentNode?.insertBefore(wrapper, textNode);
+    wrapper.appendChild(textNode);
+    wrappers.push(wrapper);
+  }
+
+  return wrappers;
+}
+
+function globalPattern(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`);
+}
+
+/**
+ * Ranges one scan query matches in text
+ */
+function queryRanges(text: string, query: ScanQuery, locale?: DocumentLocale): TextRange[] {
+  const ranges: TextRange[] = [];
+
+  // Same tokenization as the text index
+  if (query.containsWord) {
+    const word = query.containsWord.toLowerCase().trim();
+    for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+      if (match.index !== undefined && match[0].toLowerCase() === word) {
+        ranges.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+  }
+
+  const patterns: Array<{ pattern: RegExp; validate?: (match: string) => TextRange | null }> = [];
+  if (query.pattern) patterns.push({ pattern: globalPattern(query.pattern) });
+  if (query.semanticType) {
+    const typePattern = getPatternForType(query.semanticType, locale);
+    const typePatterns = Array.isArray(typePattern) ? typePattern : typePattern ? [typePattern] : [];
+    const validate = getValidatorForType(query.semanticType) ?? undefined;
+    patterns.push(...typePatterns.map((pattern) => ({ pattern: globalPattern(pattern), validate })));
+  }
+
+  for (const { pattern, validate } of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      if (match.index === undefined || match[0].length === 0) continue;
+      const part = validate ? validate(match[0]) : { start: 0, end: match[0].length };
+      if (!part) continue;
+      ranges.push({ start: match.index + part.start, end: match.index + part.end });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Exact spans scan queries matched in an element's text
+ * Covers the deterministic query kinds (word, pattern, semantic type);
+ * overlapping spans are merged. Semantic types use the locale's patterns
+ */
+export function findQuerySpans(text: string, queries: ScanQuery[], locale?: DocumentLocale): TextSpan[] {
+  const ranges = queries.flatMap((query) => queryRanges(text, query, locale));
+
+  ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start < last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged.map((range) => ({ ...range, text: text.slice(range.start, range.end) }));
+}
@@ -5,16 +5,41 @@
  *
  * Query execution is tiered for efficiency:
  * 1. Spatial filter (page) → O(1)
+ *    Region or box → O(n)
+ *    Element kind (text or image) → O(n)
  * 2. State filter (exclude redacted) → O(n)
+ *    Section and table filters (layout tree) → O(n)
  * 3. Literal search → O(1) index lookup
+ *    Phrase search → O(n) over reading-order lines (crosses elements)
  * 4. Pattern search → O(n) regex
+ *    Font and color filter → O(n)
+ *    Position relative to an anchor → O(n) per anchor
  * 5. Semantic search → Compact list to LLM
  */
 
-import type { GDSM, GDSMElement, ScanQuery, ScanResult, SemanticType } from "./types";
+import type { GDSM, GDSMElement, ScanQuery, ScanResult, SemanticType, StyleFilter, TextSpan } from "./types";
 import { ElementState } from "./types";
 import { searchWord, containsExactWord } from "./text-index";
-import { matchesSemanticType } from "./semantic";
+import { matchesSemanticType, getSemanticTypeDescription } from "./semantic";
+import { findPhrase, findSection, getLayout, getSectionElementIds } from "./layout";
+import { isTableQuery, selectTableCells } from "./tables";
+import { isInRegion, selectRelative } from "./spatial";
+import { colorName, getBodyFontSize, matchesStyle } from "./style";
+import { describeImage } from "./images";
+
+/**
+ * Checksum- or format-validated identifier types, named in document summaries
+ */
+const SENSITIVE_IDENTIFIER_TYPES: SemanticType[] = [
+  "ssn",
+  "credit_card",
+  "iban",
+  "routing_number",
+  "ein",
+  "itin",
+  "passport",
+  "drivers_license",
+];
 
 /**
  * Scan the GDSM for matching elements
@@ -22,11 +47,14 @@ import { matchesSemanticType } from "./semantic";
 export function scanGDSM(gdsm: GDSM, query: ScanQuery): ScanResult {
   let elements: GDSMElement[];
   let queryType: ScanResult["queryType"] = "index";
+  const pages = query.lastPage
+    ? [Math.max(0, ...Array.from(gdsm.elementsByPage.keys()))]
+    : query.pages;
 
   // Step 1: Start with page filter if specified (O(1) lookup)
-  if (query.pages && query.pages.length > 0) {
+  if (pages && pages.length > 0) {
     elements = [];
-    for (const pageNum of query.pages) {
+    for (const pageNum of pages) {
       const pageElements = gdsm.elementsByPage.get(pageNum);
       if (pageElements) {
         elements.push(...pageElements);
@@ -37,6 +65,20 @@ export function scanGDSM(gdsm: GDSM, query: ScanQuery): ScanResult {
     elements = Array.from(gdsm.elementsById.values());
   }
 
+  // Step 1b: Region of the page (element centers inside it)
+  if (query.region) {
+    elements = elements.filter((el) => isInRegion(gdsm, el, query.region!));
+  }
+
+  // Step 1c: Element kind - page backgrounds (a scanned page is one) only
+  // when asked for, or when listing what is redacted
+  if (query.elementType) {
+    elements = elements.filter((el) => (el.type ?? "text") === query.elementType);
+  }
+  if (!query.includePageBackgrounds && !query.onlyRedacted) {
+    elements = elements.filter((el) => !el.image?.pageBackground);
+  }
+
   // Step 2: Apply state filters (O(n))
   if (query.excludeRedacted) {
     elements = elements.filter(
@@ -46,15 +88,57 @@ export function scanGDSM(gdsm: GDSM, query: ScanQuery): ScanResult {
 
   if (query.onlyHighlighted) {
     elements = elements.filter(
-      (el) => (el.state & ElementState.HIGHLIGHTED) !== 0
+      (el) =>
+        (el.state & ElementState.HIGHLIGHTED) !== 0 ||
+        !!el.ranges?.some((mark) => mark.kind === "highlight")
     );
   }
 
+  if (query.onlyRedacted) {
+    elements = elements.filter(
+      (el) =>
+        (el.state & ElementState.REDACTED) !== 0 ||
+        !!el.ranges?.some((mark) => mark.kind === "redact") ||
+        !!el.image?.redactions?.length
+    );
+  }
+
+  if (query.onlyCommented) {
+    elements = elements.filter(
+      (el) => (el.state & ElementState.COMMENTED) !== 0
+    );
+  }
+
+  if (query.furniture) {
+    elements = elements.filter(
+      (el) => !!el.furniture && (query.furniture === "any" || el.furniture.kind === query.furniture)
+    );
+  }
+
+  if (query.excludeFurniture) {
+    elements = elements.filter((el) => !el.furniture);
+  }
+
   // Exclude deleted elements by default
   elements = elements.filter(
     (el) => !(el.state & ElementState.DELETED)
   );
 
+  // Step 2b: Section filter on the layout tree (elements keep reading order)
+  if (query.inSection) {
+    const section = findSection(getLayout(gdsm), query.inSection);
+    const sectionIds = section ? getSectionElementIds(gdsm.layout, section, query.sectionPart) : [];
+    const inScope = new Map(elements.map((el) => [el.id, el]));
+    elements = sectionIds.flatMap((id) => inScope.get(id) ?? []);
+  }
+
+  // Step 2c: Table filter - cells by column and row predicate, row by row
+  if (isTableQuery(query)) {
+    const inScope = new Map(elements.map((el) => [el.id, el]));
+    const cellIds = selectTableCells(getLayout(gdsm), query).flatMap((cell) => cell.elementIds);
+    elements = Array.from(new Set(cellIds)).flatMap((id) => inScope.get(id) ?? []);
+  }
+
   // Step 3: Literal word search using inverted index (O(1))
   if (query.containsWord) {
     // Use index for fast lookup of candidate elements
@@ -69,6 +153,22 @@ export function scanGDSM(gdsm: GDSM, query: ScanQuery): ScanResult {
     queryType = "index";
   }
 
+  // Step 3b: Phrase search on reading-order lines - a phrase split across
+  // spans matches every element that covers part of it
+  let spans: Map<string, TextSpan[]> | undefined;
+  if (query.containsPhrase) {
+    const inScope = new Set(elements.map((el) => el.id));
+    spans = new Map();
+    for (const match of findPhrase(gdsm, query.containsPhrase, pages)) {
+      for (const { elementId, ...span } of match.spans) {
+        if (!inScope.has(elementId)) continue;
+        spans.set(elementId, [...(spans.get(elementId) ?? []), span]);
+      }
+    }
+    elements = elements.filter((el) => spans!.has(el.id));
+    queryType = "phrase";
+  }
+
   // Step 4: Pattern matching (O(n) regex)
   if (query.pattern) {
     elements = elements.filter((el) => query.pattern!.test(el.text));
@@ -81,11 +181,28 @@ export function scanGDSM(gdsm: GDSM, query: ScanQuery): ScanResult {
       // First check if we already detected this type
       if (el.semanticType === query.semanticType) return true;
       // Fall back to pattern check
-      return matchesSemanticType(el.text, query.semanticType!);
+      return matchesSemanticType(el.text, query.semanticType!, gdsm.locale);
     });
     queryType = "pattern";
   }
 
+  // Step 5b: Font and color ("smaller" / "larger" compare to the body size)
+  if (query.style) {
+    const bodySize = query.style.relativeSize ? getBodyFontSize(gdsm) : undefined;
+    elements = elements.filter((el) => matchesStyle(el, query.style!, bodySize));
+  }
+
+  // Step 5c: Position relative to an anchor - last, so "nearest" picks
+  // among elements that passed every other filter
+  if (query.relativeTo) {
+    const relative = selectRelative(gdsm, elements, query.relativeTo, pages);
+    elements = relative.elements;
+    relative.spans.forEach((elementSpans, id) => {
+      spans ??= new Map();
+      if (!spans.has(id)) spans.set(id, elementSpans);
+    });
+  }
+
   // Step 6: Semantic query (requires LLM)
   let compactRepresentation: string | undefined;
   if (query.semanticQuery) {
@@ -106,6 +223,7 @@ export function scanGDSM(gdsm: GDSM, query: ScanQuery): ScanResult {
     matchedCount: elements.length,
     queryType,
     compactRepresentation,
+    spans,
   };
 }
 
@@ -127,7 +245,9 @@ export function buildCompactRepresentation(elements: GDSMElement[]): string {
       const typeStr = el.semanticType ? `|${el.semanticType}` : "";
 
       // Truncate very long text
-      const text = el.text.length > 200 ? el.text.slice(0, 197) + "..." : el.text;
+      const text = el.image
+        ? `(${describeImage(el.image)})`
+        : el.text.length > 200 ? el.text.slice(0, 197) + "..." : el.text;
 
       return `[${el.id}|p${el.page}${stateStr}${typeStr}] ${text}`;
     })
@@ -164,7 +284,7 @@ export function findBySemanticType(
     if (el.state & ElementState.DELETED) return;
     if (el.state & ElementState.REDACTED) return;
 
-    if (el.semanticType === type || matchesSemanticType(el.text, type)) {
+    if (el.semanticType === type || matchesSemanticType(el.text, type, gdsm.locale)) {
       result.push(el);
     }
   });
@@ -246,7 +366,7 @@ export function findDates(gdsm: GDSM): GDSMElement[] {
 export function getDocumentSummary(gdsm: GDSM): string {
   const { stats, pages } = gdsm;
 
-  let summary = `Document: ${pages.length} pages, ${stats.total} elements\n`;
+  let summary = `Document: ${pages.length} pages, ${stats.total} elements, locale ${gdsm.locale}\n`;
   summary += `States: ${stats.redacted} redacted, ${stats.highlighted} highlighted, `;
   summary += `${stats.modified} modified, ${stats.commented} commented, ${stats.deleted} deleted\n`;
 
@@ -264,6 +384,55 @@ export function getDocumentSummary(gdsm: GDSM): string {
       .join(", ")}\n`;
   }
 
+  // Validated identifiers are listed by name - they are what a redaction pass is usually after
+  const identifiers = SENSITIVE_IDENTIFIER_TYPES.filter((type) => typeCounts[type]);
+  if (identifiers.length > 0) {
+    summary += `Sensitive identifiers: ${identifiers
+      .map((type) => `${typeCounts[type]} ${getSemanticTypeDescription(type)}`)
+      .join(", ")}\n`;
+  }
+
+  // Repeated headers and footers count once per group
+  const furnitureGroups = new Map<string, string>();
+  gdsm.elementsById.forEach((el) => {
+    if (el.furniture) furnitureGroups.set(el.furniture.group, el.furniture.kind);
+  });
+  if (furnitureGroups.size > 0) {
+    const kinds = Array.from(furnitureGroups.values());
+    summary += `Page furniture: ${["header", "footer", "page_number"]
+      .map((kind) => ({ kind, count: kinds.filter((k) => k === kind).length }))
+      .filter(({ count }) => count > 0)
+      .map(({ kind, count }) => `${count} repeated ${kind.replace("_", " ")}${count === 1 ? "" : "s"}`)
+      .join(", ")}\n`;
+  }
+
+  // Embedded images (page backgrounds aside)
+  const images = Array.from(gdsm.elementsById.values()).filter(
+    (el) => el.image && !el.image.pageBackground && !(el.state & ElementState.DELETED)
+  );
+  if (images.length > 0) {
+    const redacted = images.filter((el) => el.image?.redactions?.length).length;
+    summary += `Images: ${images.length} embedded (${redacted} with redacted regions)\n`;
+  }
+
+  // Typography, when the builder resolved styles
+  const bodySize = getBodyFontSize(gdsm);
+  if (bodySize) {
+    const styled = Array.from(gdsm.elementsById.values()).filter((el) => !(el.state & ElementState.DELETED));
+    const count = (filter: StyleFilter) => styled.filter((el) => matchesStyle(el, filter, bodySize)).length;
+    const colors = new Map<string, number>();
+    styled.forEach((el) => {
+      const name = el.style?.color ? colorName(el.style.color) : undefined;
+      if (name && name !== "black") colors.set(name, (colors.get(name) ?? 0) + 1);
+    });
+    summary += `Typography: body text ${bodySize}px, ${count({ bold: true })} bold, ${count({ italic: true })} italic, `;
+    summary += `${count({ relativeSize: "smaller" })} smaller, ${count({ relativeSize: "larger" })} larger`;
+    colors.forEach((n, name) => {
+      summary += `, ${n} ${name}`;
+    });
+    summary += "\n";
+  }
+
   return summary;
 }
 
@@ -281,10 +450,42 @@ export function parseQuery(queryText: string): ScanQuery {
     query.pages = [parseInt(pageMatch[1], 10)];
   }
 
+  // Check for section references ("emails in section 4.2")
+  const sectionMatch = queryText.match(/\b(?:in|under|from)\s+(?:section|clause|article|§)\s*(\d+(?:\.\d+)*)/i);
+  if (sectionMatch) {
+    query.inSection = sectionMatch[1];
+  }
+
+  // Check for page furniture ("page numbers", "in the footer")
+  if (/\bpage numbers?\b/.test(lowerQuery)) {
+    query.furniture = "page_number";
+  } else if (/\b(?:headers?|letterheads?)\b/.test(lowerQuery)) {
+    query.furniture = "header";
+  } else if (/\bfooters?\b/.test(lowerQuery)) {
+    query.furniture = "footer";
+  }
+
   // Check for semantic type keywords
-  if (lowerQuery.includes("email")) {
+  // Identifier names come first - "card number" shouldn't read as a phone number
+  if (/credit card|debit card|card number/.test(lowerQuery)) {
+    query.semanticType = "credit_card";
+  } else if (/\biban\b/.test(lowerQuery)) {
+    query.semanticType = "iban";
+  } else if (/\bitin\b|taxpayer id/.test(lowerQuery)) {
+    query.semanticType = "itin";
+  } else if (/\bein\b|employer id/.test(lowerQuery)) {
+    query.semanticType = "ein";
+  } else if (lowerQuery.includes("passport")) {
+    query.semanticType = "passport";
+  } else if (/(?:driver'?s?|driving) licen[cs]e/.test(lowerQuery)) {
+    query.semanticType = "drivers_license";
+  } else if (/\bip(?:v[46])? address|\bipv[46]\b/.test(lowerQuery)) {
+    query.semanticType = "ip_address";
+  } else if (lowerQuery.includes("routing")) {
+    query.semanticType = "routing_number";
+  } else if (lowerQuery.includes("email")) {
     query.semanticType = "email";
-  } else if (lowerQuery.includes("phone") || lowerQuery.includes("number")) {
+  } else if (lowerQuery.includes("phone") || (lowerQuery.includes("number") && query.furniture !== "page_number")) {
     query.semanticType = "phone";
   } else if (lowerQuery.includes("date")) {
     query.semanticType = "date";
@@ -300,20 +501,28 @@ export function parseQuery(queryText: string): ScanQuery {
     query.semanticType = "legal_party";
   }
 
+  // Quoted multi-word literal ("containing 'John Smith'") is a phrase search
+  const phraseMatch = queryText.match(/(?:containing|with)\s+(?:the\s+)?(?:phrase\s+)?["'“‘]([^"'”’]*\s[^"'”’]*)["'”’]/i);
+  if (phraseMatch && phraseMatch[1].trim()) {
+    query.containsPhrase = phraseMatch[1].trim();
+  }
+
   // Check for "containing" keyword for exact word search
-  const containingMatch = queryText.match(/containing\s+(?:the\s+)?(?:word\s+)?["']?(\w+)["']?/i);
+  const containingMatch = query.containsPhrase
+    ? null
+    : queryText.match(/containing\s+(?:the\s+)?(?:word\s+)?["']?(\w+)["']?/i);
   if (containingMatch) {
     query.containsWord = containingMatch[1];
   }
 
   // Check for "with" keyword
   const withMatch = queryText.match(/with\s+(?:the\s+)?(?:word\s+)?["']?(\w+)["']?/i);
-  if (withMatch && !query.containsWord) {
+  if (withMatch && !query.containsWord && !query.containsPhrase) {
     query.containsWord = withMatch[1];
   }
 
   // If no specific patterns matched, treat as semantic query
-  if (!query.semanticType && !query.containsWord && !query.pages) {
+  if (!query.semanticType && !query.containsWord && !query.containsPhrase && !query.pages) {
     query.semanticQuery = queryText;
   }
 
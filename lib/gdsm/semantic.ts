@@ -1,28 +1,25 @@
 /**
  * Semantic Layer - Heuristic type detection and entity extraction
  *
- * Fast regex-based detection (no LLM needed)
+ * Fast regex-based detection (no LLM needed). Financial and government
+ * identifiers pair a candidate regex with a validator (checksum, issuer
+ * prefix or range check), so a random run of digits isn't reported as a
+ * card or routing number.
+ *
+ * Phone, date, currency and address formats vary by country; their patterns
+ * come from the document locale's pack (see locale.ts, default en-US).
  */
 
-import type { SemanticType } from "./types";
+import type { DocumentLocale, SemanticType, TextRange } from "./types";
+import { getLocalePack } from "./locale";
 
 /**
- * Patterns for detecting semantic types
+ * Locale-independent patterns for detecting semantic types
  */
 const PATTERNS = {
   // Email: user@domain.tld
   email: /[\w.+-]+@[\w.-]+\.\w{2,}/,
 
-  // Phone: various formats
-  phone:
-    /(?:\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}|(?:\+?[0-9]{1,3}[-.\s]?)?[0-9]{2,4}[-.\s][0-9]{2,4}[-.\s][0-9]{2,4}/,
-
-  // Date: various formats
-  date: /(?:\d{1,2}[\/\-\.]\d{1,2}[\/\-\.]\d{2,4})|(?:\d{4}[\/\-\.]\d{1,2}[\/\-\.]\d{1,2})|(?:(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\s+\d{1,2}(?:st|nd|rd|th)?,?\s*\d{2,4})/i,
-
-  // Currency: $123.45, €100, £50.00
-  currency: /[$€£¥]\s*[\d,]+(?:\.\d{2})?|[\d,]+(?:\.\d{2})?\s*(?:USD|EUR|GBP|JPY)/i,
-
   // Percentage: 12.5%, 100%
   percentage: /\d+(?:\.\d+)?%/,
 
@@ -31,12 +28,229 @@ const PATTERNS = {
 
   // URL: http(s)://...
   url: /https?:\/\/[^\s<>"{}|\\^`\[\]]+/i,
-
-  // Address: Contains street indicators
-  address:
-    /\b\d+\s+(?:[\w\s]+)\s+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Circle|Cir)\.?\b/i,
 };
 
+/**
+ * An identifier type: candidate pattern (global) plus a validator per match
+ * A match that fails may still contain the identifier - `parts` lists the
+ * shorter pieces to validate instead, best first
+ */
+interface IdentifierDetector {
+  type: SemanticType;
+  pattern: RegExp;
+  validate: (match: string) => boolean;
+  parts?: (match: string) => TextRange[];
+}
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, "");
+}
+
+/**
+ * Luhn checksum (payment card numbers)
+ */
+function isValidLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Card numbers: 13-19 digits, a major network's leading digit (2-6) and Luhn
+ */
+function isValidCreditCard(match: string): boolean {
+  const digits = digitsOf(match);
+  if (digits.length < 13 || digits.length > 19) return false;
+  if (!/^[2-6]/.test(digits) || /^(\d)\1+$/.test(digits)) return false;
+  return isValidLuhn(digits);
+}
+
+/**
+ * Runs of whole digit groups within a card number match, longest first
+ * (earliest first among equals), so a CVV or reference printed next to the
+ * card is split off instead of failing the Luhn check for both
+ */
+function creditCardParts(match: string): TextRange[] {
+  const groups = [...match.matchAll(/\d+/g)].map((group) => ({
+    start: group.index ?? 0,
+    end: (group.index ?? 0) + group[0].length,
+  }));
+
+  const parts: Array<TextRange & { digits: number }> = [];
+  for (let first = 0; first < groups.length; first++) {
+    let digits = 0;
+    for (let last = first; last < groups.length; last++) {
+      digits += groups[last].end - groups[last].start;
+      if (first === 0 && last === groups.length - 1) continue; // The whole match
+      if (digits >= 13 && digits <= 19) {
+        parts.push({ start: groups[first].start, end: groups[last].end, digits });
+      }
+    }
+  }
+
+  return parts
+    .sort((a, b) => b.digits - a.digits || a.start - b.start)
+    .map(({ start, end }) => ({ start, end }));
+}
+
+/**
+ * IBAN: country code, check digits, mod-97 of the rearranged number equals 1
+ */
+function isValidIban(match: string): boolean {
+  const iban = match.replace(/\s/g, "").toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = char >= "A" && char <= "Z" ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// IRS campus prefixes that have never been assigned to an EIN
+const INVALID_EIN_PREFIXES = new Set(["00", "07", "08", "09", "17", "18", "19", "28", "29", "49", "69", "70", "78", "79", "89", "96", "97"]);
+
+function isValidEin(match: string): boolean {
+  return !INVALID_EIN_PREFIXES.has(match.slice(0, 2));
+}
+
+/**
+ * ITIN: 9XX-XX-XXXX with the middle group in an issued range
+ */
+function isValidItin(match: string): boolean {
+  const group = Number(digitsOf(match).slice(3, 5));
+  return (group >= 50 && group <= 65) || (group >= 70 && group <= 88) || (group >= 90 && group <= 92) || group >= 94;
+}
+
+/**
+ * ABA routing number: Federal Reserve prefix and weighted checksum (3, 7, 1)
+ * About one nine-digit number in ten passes, so the detector also needs a label
+ */
+function isValidRoutingNumber(match: string): boolean {
+  const prefix = Number(match.slice(0, 2));
+  const validPrefix = prefix <= 12 || (prefix >= 21 && prefix <= 32) || (prefix >= 61 && prefix <= 72) || prefix === 80;
+  if (!validPrefix) return false;
+
+  const d = match.split("").map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+function isValidIPv4(match: string): boolean {
+  return match.split(".").every((octet) => Number(octet) <= 255 && (octet === "0" || !octet.startsWith("0")));
+}
+
+function isValidIPv6(match: string): boolean {
+  const halves = match.split("::");
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap((half) => (half ? half.split(":") : []));
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return false;
+  return halves.length === 2 ? groups.length >= 1 && groups.length < 8 : groups.length === 8;
+}
+
+/**
+ * Document numbers (passport, driver's licence) vary by issuer; require
+ * enough digits that a following word isn't taken for the number
+ */
+function hasDocumentNumberDigits(match: string, minDigits: number): boolean {
+  return digitsOf(match).length >= minDigits;
+}
+
+/**
+ * Identifier detectors, most specific first
+ * Passport and licence numbers have no fixed format, and a routing number's
+ * checksum is too weak on its own, so they are only matched after a label
+ * ("Passport No.", "Driver's License #", "Routing Number:")
+ */
+const IDENTIFIER_DETECTORS: IdentifierDetector[] = [
+  {
+    type: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: isValidIban,
+  },
+  {
+    type: "credit_card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isValidCreditCard,
+    parts: creditCardParts,
+  },
+  {
+    type: "passport",
+    pattern: /(?<=\bpassport(?:\s*(?:no\.?|number|num\.?|#))?\s*[:#]?\s*)[A-Z0-9]{6,9}\b/gi,
+    validate: (match) => hasDocumentNumberDigits(match, 5),
+  },
+  {
+    type: "drivers_license",
+    pattern: /(?<=\b(?:(?:driver(?:['’]?s)?|driving)\s+licen[cs]e|DL)(?:\s*(?:no\.?|number|num\.?|#))?\s*[:#]?\s*)[A-Z0-9](?:[A-Z0-9-]{3,18}[A-Z0-9])\b/gi,
+    validate: (match) => hasDocumentNumberDigits(match, 4),
+  },
+  {
+    type: "itin",
+    pattern: /\b9\d{2}-\d{2}-\d{4}\b/g,
+    validate: isValidItin,
+  },
+  {
+    type: "ein",
+    pattern: /\b\d{2}-\d{7}\b/g,
+    validate: isValidEin,
+  },
+  {
+    type: "routing_number",
+    pattern: /(?<=\b(?:routing|ABA|RTN|transit)(?:\s*(?:no\.?|number|num\.?|#))?\s*[:#]?\s*)\d{9}\b/gi,
+    validate: isValidRoutingNumber,
+  },
+  {
+    type: "ip_address",
+    pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b|(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g,
+    validate: (match) => (match.includes(".") ? isValidIPv4(match) : isValidIPv6(match)),
+  },
+];
+
+function getIdentifierDetector(type: SemanticType): IdentifierDetector | undefined {
+  return IDENTIFIER_DETECTORS.find((detector) => detector.type === type);
+}
+
+/**
+ * The valid identifier within a pattern match (offsets into the match), or null
+ */
+function validPart(match: string, detector: IdentifierDetector): TextRange | null {
+  if (detector.validate(match)) return { start: 0, end: match.length };
+  for (const part of detector.parts?.(match) ?? []) {
+    if (detector.validate(match.slice(part.start, part.end))) return part;
+  }
+  return null;
+}
+
+/**
+ * Validated identifier matches in text
+ */
+function findIdentifiers(text: string, detector: IdentifierDetector): string[] {
+  const matches: string[] = [];
+  for (const match of text.matchAll(detector.pattern)) {
+    const part = validPart(match[0], detector);
+    if (part) matches.push(match[0].slice(part.start, part.end));
+  }
+  return matches;
+}
+
+function hasIdentifier(text: string, detector: IdentifierDetector): boolean {
+  for (const match of text.matchAll(detector.pattern)) {
+    if (validPart(match[0], detector)) return true;
+  }
+  return false;
+}
+
 /**
  * Patterns for extracting legal parties
  */
@@ -58,18 +272,23 @@ const NAME_PATTERN = /\b(?:Mr\.|Mrs\.|Ms\.|Dr\.|Prof\.)\s+[A-Z][a-z]+(?:\s+[A-Z]
  * Detect the semantic type of text
  * Returns the first matching type, or "unknown"
  */
-export function detectSemanticType(text: string): SemanticType {
+export function detectSemanticType(text: string, locale?: DocumentLocale): SemanticType {
   if (!text || text.length === 0) return "unknown";
+  const patterns = getLocalePack(locale).patterns;
 
   // Order matters - check more specific patterns first
+  // (validated identifiers before the looser SSN and phone patterns)
+  for (const detector of IDENTIFIER_DETECTORS) {
+    if (hasIdentifier(text, detector)) return detector.type;
+  }
   if (PATTERNS.ssn.test(text)) return "ssn";
   if (PATTERNS.email.test(text)) return "email";
-  if (PATTERNS.phone.test(text)) return "phone";
+  if (patterns.phone.test(text)) return "phone";
   if (PATTERNS.url.test(text)) return "url";
-  if (PATTERNS.currency.test(text)) return "currency";
+  if (patterns.currency.test(text)) return "currency";
   if (PATTERNS.percentage.test(text)) return "percentage";
-  if (PATTERNS.date.test(text)) return "date";
-  if (PATTERNS.address.test(text)) return "address";
+  if (patterns.date.test(text)) return "date";
+  if (patterns.address.test(text)) return "address";
 
   // Check for legal party references
   for (const pattern of PARTY_PATTERNS) {
@@ -92,19 +311,23 @@ export function detectSemanticType(text: string): SemanticType {
  * Detect all semantic types present in text
  * Returns array of types found
  */
-export function detectAllSemanticTypes(text: string): SemanticType[] {
+export function detectAllSemanticTypes(text: string, locale?: DocumentLocale): SemanticType[] {
   if (!text || text.length === 0) return [];
+  const patterns = getLocalePack(locale).patterns;
 
   const types: SemanticType[] = [];
 
+  for (const detector of IDENTIFIER_DETECTORS) {
+    if (hasIdentifier(text, detector)) types.push(detector.type);
+  }
   if (PATTERNS.ssn.test(text)) types.push("ssn");
   if (PATTERNS.email.test(text)) types.push("email");
-  if (PATTERNS.phone.test(text)) types.push("phone");
+  if (patterns.phone.test(text)) types.push("phone");
   if (PATTERNS.url.test(text)) types.push("url");
-  if (PATTERNS.currency.test(text)) types.push("currency");
+  if (patterns.currency.test(text)) types.push("currency");
   if (PATTERNS.percentage.test(text)) types.push("percentage");
-  if (PATTERNS.date.test(text)) types.push("date");
-  if (PATTERNS.address.test(text)) types.push("address");
+  if (patterns.date.test(text)) types.push("date");
+  if (patterns.address.test(text)) types.push("address");
 
   for (const pattern of PARTY_PATTERNS) {
     if (pattern.test(text)) {
@@ -126,8 +349,9 @@ export function detectAllSemanticTypes(text: string): SemanticType[] {
  * Extract entities from text
  * Returns array of extracted entity strings
  */
-export function extractEntities(text: string): string[] {
+export function extractEntities(text: string, locale?: DocumentLocale): string[] {
   if (!text || text.length === 0) return [];
+  const patterns = getLocalePack(locale).patterns;
 
   const entities: string[] = [];
 
@@ -136,7 +360,7 @@ export function extractEntities(text: string): string[] {
   if (emails) entities.push(...emails);
 
   // Extract phone numbers
-  const phones = text.match(PATTERNS.phone);
+  const phones = text.match(patterns.phone);
   if (phones) entities.push(...phones);
 
   // Extract legal parties
@@ -152,11 +376,11 @@ export function extractEntities(text: string): string[] {
   if (ssns) entities.push(...ssns);
 
   // Extract currency values
-  const currencies = text.match(PATTERNS.currency);
+  const currencies = text.match(patterns.currency);
   if (currencies) entities.push(...currencies);
 
   // Extract dates
-  const dates = text.match(PATTERNS.date);
+  const dates = text.match(patterns.date);
   if (dates) entities.push(...dates);
 
   // Extract URLs
@@ -167,6 +391,11 @@ export function extractEntities(text: string): string[] {
   const names = text.match(NAME_PATTERN);
   if (names) entities.push(...names);
 
+  // Extract validated identifiers (cards, IBANs, tax and document numbers...)
+  for (const detector of IDENTIFIER_DETECTORS) {
+    entities.push(...findIdentifiers(text, detector));
+  }
+
   // Deduplicate
   return [...new Set(entities)];
 }
@@ -176,17 +405,19 @@ export function extractEntities(text: string): string[] {
  */
 export function matchesSemanticType(
   text: string,
-  type: SemanticType
+  type: SemanticType,
+  locale?: DocumentLocale
 ): boolean {
+  const patterns = getLocalePack(locale).patterns;
   switch (type) {
     case "email":
       return PATTERNS.email.test(text);
     case "phone":
-      return PATTERNS.phone.test(text);
+      return patterns.phone.test(text);
     case "date":
-      return PATTERNS.date.test(text);
+      return patterns.date.test(text);
     case "currency":
-      return PATTERNS.currency.test(text);
+      return patterns.currency.test(text);
     case "percentage":
       return PATTERNS.percentage.test(text);
     case "ssn":
@@ -194,7 +425,7 @@ export function matchesSemanticType(
     case "url":
       return PATTERNS.url.test(text);
     case "address":
-      return PATTERNS.address.test(text);
+      return patterns.address.test(text);
     case "legal_party":
       for (const pattern of PARTY_PATTERNS) {
         if (pattern.test(text)) {
@@ -207,8 +438,10 @@ export function matchesSemanticType(
       const result = NAME_PATTERN.test(text);
       NAME_PATTERN.lastIndex = 0;
       return result;
-    default:
-      return false;
+    default: {
+      const detector = getIdentifierDetector(type);
+      return detector ? hasIdentifier(text, detector) : false;
+    }
   }
 }
 
@@ -237,26 +470,46 @@ export function getSemanticTypeDescription(type: SemanticType): string {
       return "Social Security Number";
     case "url":
       return "URL/Web address";
+    case "credit_card":
+      return "Credit card number";
+    case "iban":
+      return "IBAN (international bank account number)";
+    case "ein":
+      return "US Employer Identification Number";
+    case "itin":
+      return "US Individual Taxpayer Identification Number";
+    case "passport":
+      return "Passport number";
+    case "drivers_license":
+      return "Driver's license number";
+    case "ip_address":
+      return "IP address";
+    case "routing_number":
+      return "Bank routing number";
     default:
       return "Unknown";
   }
 }
 
 /**
- * Get the regex pattern for a semantic type (for debugging)
+ * Get the regex pattern for a semantic type (for debugging and span finding)
+ * Identifier patterns only find candidates - check each match with
+ * getValidatorForType
  */
 export function getPatternForType(
-  type: SemanticType
+  type: SemanticType,
+  locale?: DocumentLocale
 ): RegExp | RegExp[] | null {
+  const patterns = getLocalePack(locale).patterns;
   switch (type) {
     case "email":
       return PATTERNS.email;
     case "phone":
-      return PATTERNS.phone;
+      return patterns.phone;
     case "date":
-      return PATTERNS.date;
+      return patterns.date;
     case "currency":
-      return PATTERNS.currency;
+      return patterns.currency;
     case "percentage":
       return PATTERNS.percentage;
     case "ssn":
@@ -264,12 +517,23 @@ export function getPatternForType(
     case "url":
       return PATTERNS.url;
     case "address":
-      return PATTERNS.address;
+      return patterns.address;
     case "legal_party":
       return PARTY_PATTERNS;
     case "name":
       return NAME_PATTERN;
     default:
-      return null;
+      return getIdentifierDetector(type)?.pattern ?? null;
   }
 }
+
+/**
+ * Validator for a pattern match of a semantic type (null if every match counts)
+ * Returns the valid part of the match as offsets into it, or null if none is
+ */
+export function getValidatorForType(
+  type: SemanticType
+): ((match: string) => TextRange | null) | null {
+  const detector = getIdentifierDetector(type);
+  return detector ? (match) => validPart(match, detector) : null;
+}
@@ -0,0 +1,74 @@
+/**
+ * GDSM Serialization - JSON-safe form of the document model
+ *
+ * The GDSM uses Maps and Sets, which don't survive JSON. The serialized
+ * form keeps only the source data (pages + elements); lookup maps and the
+ * text index are rebuilt on deserialization.
+ */
+
+import type { DocumentLocale, GDSM, GDSMElement, GDSMPage, GDSMStats, GeometrySource } from "./types";
+import { assembleGDSM } from "./builder";
+import { copyImage } from "./images";
+
+/**
+ * JSON-safe GDSM
+ */
+export interface SerializedGDSM {
+  documentId: string;
+  version: number;
+  createdAt: number;
+  lastModifiedAt: number;
+  pages: GDSMPage[];
+  elements: GDSMElement[];
+  stats: GDSMStats;
+  // Absent in sessions saved before locale packs (their types are en-US)
+  locale?: DocumentLocale;
+  localeSource?: GDSM["localeSource"];
+  // Absent in sessions saved before it was recorded - treated as estimated
+  geometry?: GeometrySource;
+}
+
+/**
+ * Convert a GDSM to its JSON-safe form
+ */
+export function serializeGDSM(gdsm: GDSM): SerializedGDSM {
+  return {
+    documentId: gdsm.documentId,
+    version: gdsm.version,
+    createdAt: gdsm.createdAt,
+    lastModifiedAt: gdsm.lastModifiedAt,
+    pages: gdsm.pages.map((page) => ({ ...page })),
+    elements: Array.from(gdsm.elementsById.values()).map((el) => ({
+      ...el,
+      entities: el.entities ? [...el.entities] : undefined,
+      comment: el.comment ? { ...el.comment } : undefined,
+      ranges: el.ranges ? el.ranges.map((mark) => ({ ...mark })) : undefined,
+      style: el.style ? { ...el.style } : undefined,
+      image: el.image ? copyImage(el.image) : undefined,
+    })),
+    stats: { ...gdsm.stats },
+    locale: gdsm.locale,
+    localeSource: gdsm.localeSource,
+    geometry: gdsm.geometry,
+  };
+}
+
+/**
+ * Rebuild a GDSM (maps, text index, stats) from its serialized form
+ */
+export function deserializeGDSM(data: SerializedGDSM): GDSM {
+  const gdsm = assembleGDSM(
+    data.pages.map((page) => ({ ...page })),
+    data.elements.map((el) => ({ ...el }))
+  );
+
+  gdsm.documentId = data.documentId;
+  gdsm.version = data.version;
+  gdsm.createdAt = data.createdAt;
+  gdsm.lastModifiedAt = data.lastModifiedAt;
+  if (data.locale) gdsm.locale = data.locale;
+  if (data.localeSource) gdsm.localeSource = data.localeSource;
+  gdsm.geometry = data.geometry ?? "estimated";
+
+  return gdsm;
+}
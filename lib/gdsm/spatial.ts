@@ -0,0 +1,237 @@
+/**
+ * Spatial Filters - Select elements by where they sit on the page
+ *
+ * - Regions: a named part of the page ("top_right") or an explicit box; an
+ *   element is inside when its center is
+ * - Relations: elements above, below, left or right of an anchor, or nearest
+ *   to it. The anchor is an element ID or text, found like a phrase (so it
+ *   may span elements); every occurrence is an anchor
+ *
+ * Pages without a size (scanner GDSMs) are measured by their content.
+ */
+
+import type {
+  BoundingBox,
+  GDSM,
+  GDSMElement,
+  PageRegion,
+  SpatialFilter,
+  TextSpan,
+} from "./types";
+import { ElementState } from "./types";
+import { findPhrase } from "./layout";
+
+// Slack when comparing edges (px)
+const EDGE_TOLERANCE = 2;
+// Side-by-side elements share at least this much of the smaller height
+const ROW_OVERLAP_RATIO = 0.5;
+
+/**
+ * One occurrence of an anchor
+ */
+interface SpatialAnchor {
+  page: number;
+  box: BoundingBox;
+  elementIds: string[];
+  // Text anchors: the part of each element the anchor covers
+  spans: Array<TextSpan & { elementId: string }>;
+}
+
+/**
+ * Bounds of a page: its size, or its content's extent when the size is unknown
+ */
+export function getPageBounds(gdsm: GDSM, pageNum: number): BoundingBox {
+  const page = gdsm.pages.find((candidate) => candidate.pageNum === pageNum);
+  if (page && page.width > 0 && page.height > 0) {
+    return { x: 0, y: 0, width: page.width, height: page.height };
+  }
+  const elements = gdsm.elementsByPage.get(pageNum) ?? [];
+  return {
+    x: 0,
+    y: 0,
+    width: Math.max(0, ...elements.map((el) => el.x + el.width)),
+    height: Math.max(0, ...elements.map((el) => el.y + el.height)),
+  };
+}
+
+/**
+ * Box of a region on a page
+ */
+export function getRegionBox(gdsm: GDSM, pageNum: number, region: PageRegion | BoundingBox): BoundingBox {
+  if (typeof region !== "string") return region;
+
+  const bounds = getPageBounds(gdsm, pageNum);
+  const [vertical, horizontal] = region.includes("_")
+    ? region.split("_")
+    : region === "left" || region === "right"
+      ? [undefined, region]
+      : [region, undefined];
+
+  const third = bounds.height / 3;
+  const half = bounds.width / 2;
+  const rows: Record<string, [number, number]> = { top: [0, third], middle: [third, third], bottom: [2 * third, third] };
+  const [y, height] = vertical ? rows[vertical] : [0, bounds.height];
+  const [x, width] = horizontal ? (horizontal === "left" ? [0, half] : [half, half]) : [0, bounds.width];
+  return { x, y, width, height };
+}
+
+/**
+ * True if an element's center is inside a region of its page
+ */
+export function isInRegion(gdsm: GDSM, el: GDSMElement, region: PageRegion | BoundingBox): boolean {
+  const box = getRegionBox(gdsm, el.page, region);
+  const cx = el.x + el.width / 2;
+  const cy = el.y + el.height / 2;
+  return cx >= box.x && cx <= box.x + box.width && cy >= box.y && cy <= box.y + box.height;
+}
+
+function unionBox(boxes: BoundingBox[]): BoundingBox {
+  const x = Math.min(...boxes.map((box) => box.x));
+  const y = Math.min(...boxes.map((box) => box.y));
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map((box) => box.x + box.width)) - x,
+    height: Math.max(...boxes.map((box) => box.y + box.height)) - y,
+  };
+}
+
+/**
+ * Box of part of an element's text, assuming evenly spaced characters
+ */
+function spanBox(el: GDSMElement, span: TextSpan): BoundingBox {
+  const length = el.text.length || 1;
+  return {
+    x: el.x + (el.width * span.start) / length,
+    y: el.y,
+    width: (el.width * (span.end - span.start)) / length,
+    height: el.height,
+  };
+}
+
+/**
+ * Every occurrence of an anchor: the element with that ID, or the text
+ */
+function findAnchors(gdsm: GDSM, anchor: string, pages?: number[]): SpatialAnchor[] {
+  const el = gdsm.elementsById.get(anchor);
+  if (el && !(el.state & ElementState.DELETED)) {
+    return [{ page: el.page, box: el, elementIds: [el.id], spans: [] }];
+  }
+
+  return findPhrase(gdsm, anchor, pages).map((match) => ({
+    page: match.page,
+    box: unionBox(match.spans.map((span) => spanBox(gdsm.elementsById.get(span.elementId)!, span))),
+    elementIds: match.elementIds,
+    spans: match.spans,
+  }));
+}
+
+/**
+ * True if an anchor can be found
+ */
+export function hasAnchor(gdsm: GDSM, anchor: string, pages?: number[]): boolean {
+  return findAnchors(gdsm, anchor, pages).length > 0;
+}
+
+function overlap(startA: number, endA: number, startB: number, endB: number): number {
+  return Math.min(endA, endB) - Math.max(startA, startB);
+}
+
+/**
+ * Gap between two boxes (0 when they touch or overlap)
+ */
+function gapBetween(a: BoundingBox, b: BoundingBox): number {
+  const dx = Math.max(0, a.x - (b.x + b.width), b.x - (a.x + a.width));
+  const dy = Math.max(0, a.y - (b.y + b.height), b.y - (a.y + a.height));
+  return Math.hypot(dx, dy);
+}
+
+function isRelated(box: BoundingBox, anchor: BoundingBox, relation: SpatialFilter["relation"]): boolean {
+  const sameRow = overlap(box.y, box.y + box.height, anchor.y, anchor.y + anchor.height) >=
+    Math.min(box.height, anchor.height) * ROW_OVERLAP_RATIO;
+  const sameColumn = overlap(box.x, box.x + box.width, anchor.x, anchor.x + anchor.width) > 0;
+
+  switch (relation) {
+    case "right_of":
+      return sameRow && box.x >= anchor.x + anchor.width - EDGE_TOLERANCE;
+    case "left_of":
+      return sameRow && box.x + box.width <= anchor.x + EDGE_TOLERANCE;
+    case "below":
+      return sameColumn && box.y >= anchor.y + anchor.height - EDGE_TOLERANCE;
+    case "above":
+      return sameColumn && box.y + box.height <= anchor.y + EDGE_TOLERANCE;
+    case "nearest":
+      return true;
+  }
+}
+
+/**
+ * The rest of an anchor's element on the relation's side ("Account No: 123"
+ * with anchor "Account No:" and right_of → "123")
+ */
+function remainderSpan(el: GDSMElement, anchor: SpatialAnchor, relation: SpatialFilter["relation"]): TextSpan | null {
+  const own = anchor.spans.filter((span) => span.elementId === el.id);
+  if (own.length === 0) return null;
+
+  let start: number;
+  let end: number;
+  if (relation === "right_of") {
+    start = own[own.length - 1].end;
+    end = el.text.length;
+  } else if (relation === "left_of") {
+    start = 0;
+    end = own[0].start;
+  } else {
+    return null;
+  }
+
+  const text = el.text.slice(start, end);
+  const trimmedStart = start + (text.length - text.trimStart().length);
+  const trimmedEnd = end - (text.length - text.trimEnd().length);
+  if (trimmedStart >= trimmedEnd) return null;
+  return { start: trimmedStart, end: trimmedEnd, text: el.text.slice(trimmedStart, trimmedEnd) };
+}
+
+/**
+ * Elements in a relation to an anchor, in their given order
+ * Anchor elements are left out, except the rest of a text anchor's element
+ * beside it, which comes back with its span. keepAll ignores the limit
+ * (candidates to narrow down later)
+ */
+export function selectRelative(
+  gdsm: GDSM,
+  elements: GDSMElement[],
+  filter: SpatialFilter,
+  pages?: number[],
+  keepAll = false
+): { elements: GDSMElement[]; spans: Map<string, TextSpan[]> } {
+  const limit = keepAll ? undefined : (filter.limit ?? (filter.relation === "nearest" ? 1 : undefined));
+  const selected = new Set<string>();
+  const spans = new Map<string, TextSpan[]>();
+
+  findAnchors(gdsm, filter.anchor, pages).forEach((anchor) => {
+    const candidates: Array<{ el: GDSMElement; gap: number; span?: TextSpan }> = [];
+    elements.forEach((el) => {
+      if (el.page !== anchor.page) return;
+      if (anchor.elementIds.includes(el.id)) {
+        const span = remainderSpan(el, anchor, filter.relation);
+        if (span) candidates.push({ el, gap: 0, span });
+        return;
+      }
+      if (!isRelated(el, anchor.box, filter.relation)) return;
+      const gap = gapBetween(el, anchor.box);
+      if (filter.maxDistance !== undefined && gap > filter.maxDistance) return;
+      candidates.push({ el, gap });
+    });
+
+    candidates
+      .sort((a, b) => a.gap - b.gap)
+      .slice(0, limit)
+      .forEach(({ el, span }) => {
+        selected.add(el.id);
+        if (span) spans.set(el.id, [...(spans.get(el.id) ?? []), span]);
+      });
+  });
+
+  return { elements: elements.filter((el) => selected.has(el.id)), spans };
+}
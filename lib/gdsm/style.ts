@@ -0,0 +1,264 @@
+/**
+ * Typography - Resolve and match element font styles
+ *
+ * pdf2htmlEX puts font family, size and color on ff*, fs* and fc* classes,
+ * but embedded fonts get opaque family names ("ff1") with weight and style
+ * left "normal". The server reads each embedded font's real name, weight
+ * and italic flag (embedded-fonts.ts) and stamps them onto the ff* classes
+ * as custom properties, so the viewer's computed style and the server's
+ * class rules resolve the same style.
+ */
+
+import type { ColorName, ElementStyle, GDSM, GDSMElement, StyleFilter } from "./types";
+import { ElementState } from "./types";
+
+export const FONT_NAME_PROPERTY = "--canon-font-name";
+export const FONT_WEIGHT_PROPERTY = "--canon-font-weight";
+export const FONT_STYLE_PROPERTY = "--canon-font-style";
+
+const DEFAULT_WEIGHT = 400;
+const BOLD_WEIGHT = 600;
+// Sizes within this fraction of the body size count as body text
+const BODY_SIZE_TOLERANCE = 0.12;
+// Max RGB distance for a "#rrggbb" color filter
+const COLOR_TOLERANCE = 60;
+
+// Weight words in font names, most specific first
+const WEIGHT_WORDS: Array<[RegExp, number]> = [
+  [/thin|hairline/i, 100],
+  [/(?:extra|ultra)\s*light/i, 200],
+  [/light/i, 300],
+  [/(?:semi|demi)\s*bold|demi/i, 600],
+  [/(?:extra|ultra)\s*bold/i, 800],
+  [/black|heavy/i, 900],
+  [/bold/i, 700],
+  [/medium/i, 500],
+  [/regular|book|roman|normal/i, 400],
+];
+const STYLE_SUFFIX =
+  /(?:(?:semi|demi|extra|ultra)?(?:bold|light|black|heavy|medium|thin|italic|oblique|regular|book))+(?:PS)?(?:MT)?$/i;
+const GENERIC_FAMILY = /^(?:serif|sans-serif|monospace|cursive|fantasy|system-ui|inherit|initial)$/i;
+// pdf2htmlEX's own family names for embedded fonts
+const EMBEDDED_FAMILY = /^ff[0-9a-f]+$/i;
+
+/**
+ * Raw CSS values an element's style is resolved from
+ */
+export interface StyleDeclarations {
+  fontFamily?: string;
+  fontSize?: number; // px, before the line's transform
+  fontWeight?: string;
+  fontStyle?: string;
+  color?: string;
+  // Stamped from the embedded font file
+  embeddedName?: string;
+  embeddedWeight?: string;
+  embeddedStyle?: string;
+}
+
+/**
+ * Family, weight and italic from a font name ("ABCDEF+Arial-BoldItalicMT")
+ * Subset prefixes and "MT" / "PS" suffixes are dropped from the family
+ */
+export function parseFontName(name: string): { family: string; weight?: number; italic: boolean } {
+  const clean = name.trim().replace(/^["']|["']$/g, "").replace(/^[A-Z]{6}\+/, "").trim();
+  const separator = clean.search(/[-,]/);
+  const base = separator > 0 ? clean.slice(0, separator) : clean.replace(STYLE_SUFFIX, "") || clean;
+  const styleName = separator > 0 ? clean.slice(separator + 1) : clean.slice(base.length);
+
+  return {
+    family: base.replace(/(?:PS)?MT$|PS$/, "") || base,
+    weight: WEIGHT_WORDS.find(([pattern]) => pattern.test(styleName))?.[1],
+    italic: /italic|oblique/i.test(styleName) || /(?:^|[a-z])It(?![a-z])/.test(styleName),
+  };
+}
+
+function cssWeight(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === "bold" || trimmed === "bolder") return 700;
+  if (trimmed === "normal") return DEFAULT_WEIGHT;
+  if (trimmed === "lighter") return 300;
+  const numeric = parseInt(trimmed, 10);
+  return Number.isFinite(numeric) ? numeric : undefined;
+}
+
+/**
+ * CSS color ("rgb(255, 0, 0)", "#f00", "#ff0000") as "#rrggbb"
+ */
+export function normalizeColor(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim().toLowerCase();
+
+  const rgb = trimmed.match(/^rgba?\(\s*(\d+(?:\.\d+)?)[\s,]+(\d+(?:\.\d+)?)[\s,]+(\d+(?:\.\d+)?)/);
+  if (rgb) {
+    const hex = rgb.slice(1, 4).map((channel) => {
+      const level = Math.min(255, Math.round(parseFloat(channel)));
+      return level.toString(16).padStart(2, "0");
+    });
+    return `#${hex.join("")}`;
+  }
+
+  const hex = trimmed.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, "$&$&") : hex[1];
+    return `#${digits}`;
+  }
+  return undefined;
+}
+
+/**
+ * Scale of a CSS transform matrix along y (pdf2htmlEX scales text lines)
+ */
+export function transformScale(transform: string | undefined): number {
+  const match = transform?.match(/matrix\(([^)]+)\)/);
+  if (!match) return 1;
+  const [, , c, d] = match[1].split(",").map((n) => parseFloat(n));
+  return Math.hypot(c, d) || 1;
+}
+
+/**
+ * Resolve an element's style from its CSS values (shared by both builders)
+ * Generic ("serif") and pdf2htmlEX ("ff1") family names are left out
+ */
+export function resolveElementStyle(declarations: StyleDeclarations, scale = 1): ElementStyle | undefined {
+  const embedded = declarations.embeddedName?.trim()
+    ? parseFontName(declarations.embeddedName)
+    : undefined;
+  const cssFamily = declarations.fontFamily?.split(",")[0].trim().replace(/^["']|["']$/g, "");
+  const declared = cssFamily && !GENERIC_FAMILY.test(cssFamily) && !EMBEDDED_FAMILY.test(cssFamily)
+    ? parseFontName(cssFamily)
+    : undefined;
+
+  const style: ElementStyle = {};
+  const family = embedded?.family ?? declared?.family;
+  if (family) style.fontFamily = family;
+  if (declarations.fontSize) style.fontSize = Math.round(declarations.fontSize * scale * 10) / 10;
+
+  // The font name is the most reliable; the OS/2 weight class next
+  const weight = embedded?.weight ?? cssWeight(declarations.embeddedWeight) ?? declared?.weight ??
+    cssWeight(declarations.fontWeight);
+  if (weight !== undefined) style.fontWeight = weight;
+
+  if (
+    embedded?.italic ||
+    declared?.italic ||
+    declarations.embeddedStyle?.trim() === "italic" ||
+    /italic|oblique/.test(declarations.fontStyle ?? "")
+  ) {
+    style.italic = true;
+  }
+
+  const color = normalizeColor(declarations.color);
+  if (color) style.color = color;
+
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+function channels(hex: string): [number, number, number] {
+  return [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Nearest named color of a "#rrggbb" color
+ */
+export function colorName(hex: string): ColorName {
+  const [r, g, b] = channels(hex).map((channel) => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const saturation = max === min ? 0 : (max - min) / (1 - Math.abs(2 * lightness - 1));
+
+  if (lightness < 0.15) return "black";
+  if (saturation < 0.2) return lightness > 0.9 ? "white" : lightness < 0.25 ? "black" : "gray";
+
+  let hue = 0;
+  if (max === r) hue = ((g - b) / (max - min)) % 6;
+  else if (max === g) hue = (b - r) / (max - min) + 2;
+  else hue = (r - g) / (max - min) + 4;
+  hue = (hue * 60 + 360) % 360;
+
+  if (hue < 15 || hue >= 345) return "red";
+  if (hue < 45) return lightness < 0.4 ? "brown" : "orange";
+  if (hue < 70) return lightness < 0.35 ? "brown" : "yellow";
+  if (hue < 170) return "green";
+  if (hue < 260) return "blue";
+  if (hue < 300) return "purple";
+  return "pink";
+}
+
+function colorMatches(color: string | undefined, wanted: string): boolean {
+  if (!color) return false;
+  const hex = normalizeColor(wanted);
+  if (!hex) return colorName(color) === wanted.toLowerCase();
+
+  const [r1, g1, b1] = channels(color);
+  const [r2, g2, b2] = channels(hex);
+  return Math.hypot(r1 - r2, g1 - g2, b1 - b2) <= COLOR_TOLERANCE;
+}
+
+/**
+ * Body text size: the font size covering the most characters
+ */
+export function getBodyFontSize(gdsm: GDSM): number | undefined {
+  const characters = new Map<number, number>();
+  gdsm.elementsById.forEach((el) => {
+    const size = el.style?.fontSize;
+    if (!size || el.state & ElementState.DELETED) return;
+    characters.set(size, (characters.get(size) ?? 0) + el.text.length);
+  });
+
+  let body: number | undefined;
+  let most = 0;
+  characters.forEach((count, size) => {
+    if (count > most) {
+      body = size;
+      most = count;
+    }
+  });
+  return body;
+}
+
+/**
+ * True if an element's style passes a filter
+ * bodySize is needed for relativeSize (see getBodyFontSize)
+ */
+export function matchesStyle(el: GDSMElement, filter: StyleFilter, bodySize?: number): boolean {
+  const style = el.style;
+  if (!style) return false;
+
+  if (filter.fontFamily) {
+    const compact = (text: string) => text.toLowerCase().replace(/[\s_-]+/g, "");
+    if (!style.fontFamily || !compact(style.fontFamily).includes(compact(filter.fontFamily))) return false;
+  }
+  if (filter.bold !== undefined && (style.fontWeight ?? DEFAULT_WEIGHT) >= BOLD_WEIGHT !== filter.bold) return false;
+  if (filter.italic !== undefined && !!style.italic !== filter.italic) return false;
+
+  const size = style.fontSize;
+  if (filter.minFontSize !== undefined && (size === undefined || size < filter.minFontSize)) return false;
+  if (filter.maxFontSize !== undefined && (size === undefined || size > filter.maxFontSize)) return false;
+  if (filter.relativeSize) {
+    if (size === undefined || !bodySize) return false;
+    const ratio = size / bodySize;
+    const relative = ratio < 1 - BODY_SIZE_TOLERANCE ? "smaller" : ratio > 1 + BODY_SIZE_TOLERANCE ? "larger" : "body";
+    if (relative !== filter.relativeSize) return false;
+  }
+
+  if (filter.color && !colorMatches(style.color, filter.color)) return false;
+  return true;
+}
+
+/**
+ * Short description of a style for element lists ("9px bold #c00000")
+ * Regular weight, upright and black are left out
+ */
+export function describeStyle(style: ElementStyle): string {
+  return [
+    style.fontSize !== undefined ? `${style.fontSize}px` : "",
+    (style.fontWeight ?? DEFAULT_WEIGHT) >= BOLD_WEIGHT ? "bold" : "",
+    style.italic ? "italic" : "",
+    style.color && style.color !== "#000000" ? style.color : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,346 @@
+/**
+ * Tables - Detect tables from element alignment and address their cells
+ *
+ * Works on the layout's reading-order lines, one layout column at a time:
+ * 1. A line is split into cells at horizontal gaps wider than its text height
+ * 2. Consecutive lines of two or more cells form a candidate run; a single
+ *    cell just below a row continues it (a wrapped cell)
+ * 3. The x-extents of all cells in the run are merged into table columns -
+ *    a run is a table if it has 2+ columns, 3+ rows and no row puts two
+ *    cells in one column
+ * 4. Row 0 is the header when none of its cells is numeric
+ *
+ * Tables are addressed by column header ("Salary") or 1-based index, and
+ * rows by a predicate on one column ("Status is Overdue").
+ */
+
+import type {
+  GDSMElement,
+  GDSMLayout,
+  GDSMTable,
+  LayoutNode,
+  ScanQuery,
+  TableCell,
+  TableColumn,
+  TableRowPredicate,
+} from "./types";
+
+// Gap between fragments (fraction of text height) that separates cells
+const CELL_GAP_RATIO = 1.0;
+// Lines further apart than this (fraction of text height) end a table
+const MAX_ROW_GAP_RATIO = 2.5;
+// A single cell this close below a row continues it
+const CONTINUATION_GAP_RATIO = 0.5;
+const MIN_TABLE_ROWS = 3;
+const MIN_TABLE_COLUMNS = 2;
+
+const NUMERIC_CELL = /^[\s\d$€£¥₹%().,+\-–/:]+$/;
+
+interface DraftCell {
+  x: number;
+  right: number;
+  elementIds: string[];
+  text: string;
+}
+
+function isNumeric(text: string): boolean {
+  return NUMERIC_CELL.test(text) && /\d/.test(text);
+}
+
+interface DraftRow {
+  y: number;
+  bottom: number;
+  height: number;
+  cells: DraftCell[];
+}
+
+/**
+ * A table cell a query selected, with its position
+ */
+export interface TableCellMatch {
+  tableId: string;
+  page: number;
+  row: number;
+  column: number;
+  header?: string;
+  text: string;
+  elementIds: string[];
+}
+
+/**
+ * Split a line into cells at wide gaps
+ */
+function splitCells(line: LayoutNode, elementsById: Map<string, GDSMElement>): DraftCell[] {
+  const fragments = (line.segments ?? [])
+    .map((segment) => ({ segment, el: elementsById.get(segment.elementId) }))
+    .filter((fragment): fragment is { segment: typeof fragment.segment; el: GDSMElement } => !!fragment.el);
+  if (fragments.length === 0) return [];
+
+  // Cells with their offsets into the line text
+  const cells: Array<DraftCell & { start: number; end: number }> = [];
+  fragments.forEach(({ segment, el }, index) => {
+    const prev = fragments[index - 1]?.el;
+    const current = cells[cells.length - 1];
+    if (!current || el.x - (prev!.x + prev!.width) > Math.min(el.height, prev!.height) * CELL_GAP_RATIO) {
+      cells.push({ x: el.x, right: el.x + el.width, elementIds: [el.id], text: "", start: segment.start, end: segment.end });
+    } else {
+      current.right = Math.max(current.right, el.x + el.width);
+      current.elementIds.push(el.id);
+      current.end = segment.end;
+    }
+  });
+
+  // Nested elements (not line segments) go to the cell under their center
+  line.elementIds.forEach((id) => {
+    const el = elementsById.get(id);
+    if (!el || cells.some((cell) => cell.elementIds.includes(id))) return;
+    const center = el.x + el.width / 2;
+    const cell = cells.find((candidate) => center >= candidate.x && center <= candidate.right) ?? cells[0];
+    cell.elementIds.push(id);
+  });
+
+  return cells.map(({ x, right, elementIds, start, end }) => ({
+    x,
+    right,
+    elementIds,
+    text: line.text.slice(start, end).trim(),
+  }));
+}
+
+/**
+ * Merge the x-extents of a run's cells into columns, or null if a row
+ * would put two cells in one column
+ */
+function mergeColumns(rows: DraftRow[]): Array<{ x: number; right: number }> | null {
+  const extents = rows
+    .flatMap((row) => row.cells.map((cell) => ({ x: cell.x, right: cell.right })))
+    .sort((a, b) => a.x - b.x);
+  const columns: Array<{ x: number; right: number }> = [];
+  extents.forEach((extent) => {
+    const last = columns[columns.length - 1];
+    if (last && extent.x < last.right) {
+      last.right = Math.max(last.right, extent.right);
+    } else {
+      columns.push({ ...extent });
+    }
+  });
+
+  const columnOf = (cell: DraftCell) => columns.findIndex((column) => cell.x >= column.x && cell.x < column.right);
+  const consistent = rows.every((row) => {
+    const indices = row.cells.map(columnOf);
+    return new Set(indices).size === indices.length;
+  });
+  return consistent ? columns : null;
+}
+
+function buildTable(id: string, page: number, rows: DraftRow[]): GDSMTable | null {
+  if (rows.length < MIN_TABLE_ROWS) return null;
+  const extents = mergeColumns(rows);
+  if (!extents || extents.length < MIN_TABLE_COLUMNS) return null;
+
+  const hasHeader = rows[0].cells.every((cell) => !isNumeric(cell.text));
+  const cells: TableCell[] = [];
+  rows.forEach((row, rowIndex) => {
+    extents.forEach((extent, columnIndex) => {
+      const inColumn = row.cells.filter((cell) => cell.x >= extent.x && cell.x < extent.right);
+      cells.push({
+        row: rowIndex,
+        column: columnIndex,
+        elementIds: inColumn.flatMap((cell) => cell.elementIds),
+        text: inColumn.map((cell) => cell.text).join(" "),
+      });
+    });
+  });
+
+  const columns: TableColumn[] = extents.map((extent, index) => ({
+    index,
+    ...(hasHeader ? { header: cells[index].text } : {}),
+    x: extent.x,
+    width: extent.right - extent.x,
+  }));
+
+  const x = Math.min(...extents.map((extent) => extent.x));
+  const y = rows[0].y;
+  return {
+    id,
+    page,
+    x,
+    y,
+    width: Math.max(...extents.map((extent) => extent.right)) - x,
+    height: rows[rows.length - 1].bottom - y,
+    hasHeader,
+    columns,
+    rows: rows.map((row, index) => ({ index, isHeader: hasHeader && index === 0, y: row.y, height: row.bottom - row.y })),
+    cells,
+  };
+}
+
+/**
+ * Detect tables in a layout, in reading order
+ */
+export function detectTables(
+  nodesById: Map<string, LayoutNode>,
+  columnsByPage: Map<number, string[]>,
+  elementsById: Map<string, GDSMElement>
+): GDSMTable[] {
+  const tables: GDSMTable[] = [];
+  const counters = new Map<number, number>();
+
+  const pageNums = Array.from(columnsByPage.keys()).sort((a, b) => a - b);
+  pageNums.forEach((page) => {
+    columnsByPage.get(page)!.forEach((columnId) => {
+      const lines = nodesById
+        .get(columnId)!
+        .childIds.filter((blockId) => !nodesById.get(blockId)!.furniture)
+        .flatMap((blockId) => nodesById.get(blockId)!.childIds)
+        .map((lineId) => nodesById.get(lineId)!);
+
+      let run: DraftRow[] = [];
+      const flush = () => {
+        const index = counters.get(page) ?? 0;
+        const table = buildTable(`p${page}-table-${index}`, page, run);
+        if (table) {
+          tables.push(table);
+          counters.set(page, index + 1);
+        }
+        run = [];
+      };
+
+      lines.forEach((line) => {
+        const cells = splitCells(line, elementsById);
+        const last = run[run.length - 1];
+        const gap = last ? line.y - last.bottom : 0;
+        const height = last ? Math.min(line.height, last.height) : line.height;
+
+        if (last && gap > height * MAX_ROW_GAP_RATIO) flush();
+        const previous = run[run.length - 1];
+
+        if (previous && cells.length === 1 && gap <= height * CONTINUATION_GAP_RATIO) {
+          // A wrapped cell: add to the row's cell in the same column
+          const cell = cells[0];
+          const target = previous.cells.find((candidate) => cell.x < candidate.right && cell.x + 1 >= candidate.x);
+          if (target) {
+            target.elementIds.push(...cell.elementIds);
+            target.text = `${target.text} ${cell.text}`;
+            target.right = Math.max(target.right, cell.right);
+          } else {
+            previous.cells.push(cell);
+            previous.cells.sort((a, b) => a.x - b.x);
+          }
+          previous.bottom = Math.max(previous.bottom, line.y + line.height);
+          return;
+        }
+
+        if (cells.length < MIN_TABLE_COLUMNS) {
+          flush();
+          return;
+        }
+        run.push({ y: line.y, bottom: line.y + line.height, height: line.height, cells });
+      });
+      flush();
+    });
+  });
+
+  return tables;
+}
+
+function normalizeLabel(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Column of a table by header label or 1-based index
+ * Labels match exactly first, then as a whole word sequence in the header
+ * ("salary" finds "Annual Salary")
+ */
+export function findTableColumn(table: GDSMTable, ref: string): TableColumn | null {
+  const trimmed = ref.trim();
+  if (/^\d+$/.test(trimmed)) return table.columns[parseInt(trimmed, 10) - 1] ?? null;
+
+  const wanted = normalizeLabel(trimmed);
+  if (!wanted) return null;
+  const labelled = table.columns.filter((column) => column.header);
+  return (
+    labelled.find((column) => normalizeLabel(column.header!) === wanted) ??
+    labelled.find((column) => ` ${normalizeLabel(column.header!)} `.includes(` ${wanted} `)) ??
+    null
+  );
+}
+
+function rowMatches(table: GDSMTable, row: number, column: number, predicate: TableRowPredicate): boolean {
+  const text = normalizeLabel(table.cells[row * table.columns.length + column].text);
+  if (predicate.equals !== undefined) return text === normalizeLabel(predicate.equals);
+  if (predicate.contains !== undefined) return ` ${text} `.includes(` ${normalizeLabel(predicate.contains)} `);
+  return true;
+}
+
+/**
+ * Cells a scan query's table fields select, in reading order
+ * Tables lacking the named column (or predicate column) are skipped
+ */
+export function selectTableCells(
+  layout: GDSMLayout,
+  query: Pick<ScanQuery, "inTable" | "tableColumn" | "tableRowWhere" | "includeTableHeader" | "pages">
+): TableCellMatch[] {
+  const matches: TableCellMatch[] = [];
+
+  layout.tables.forEach((table) => {
+    if (typeof query.inTable === "string" && table.id !== query.inTable) return;
+    if (query.pages && query.pages.length > 0 && !query.pages.includes(table.page)) return;
+
+    const column = query.tableColumn ? findTableColumn(table, query.tableColumn) : null;
+    if (query.tableColumn && !column) return;
+    const predicateColumn = query.tableRowWhere ? findTableColumn(table, query.tableRowWhere.column) : null;
+    if (query.tableRowWhere && !predicateColumn) return;
+
+    table.rows.forEach((row) => {
+      if (row.isHeader && !query.includeTableHeader) return;
+      if (predicateColumn && (row.isHeader || !rowMatches(table, row.index, predicateColumn.index, query.tableRowWhere!))) {
+        return;
+      }
+      table.columns
+        .filter((candidate) => !column || candidate.index === column.index)
+        .forEach((candidate) => {
+          const cell = table.cells[row.index * table.columns.length + candidate.index];
+          if (cell.elementIds.length === 0) return;
+          matches.push({
+            tableId: table.id,
+            page: table.page,
+            row: row.index,
+            column: candidate.index,
+            ...(candidate.header ? { header: candidate.header } : {}),
+            text: cell.text,
+            elementIds: cell.elementIds,
+          });
+        });
+    });
+  });
+
+  return matches;
+}
+
+/**
+ * True if some table has the columns a query names
+ */
+export function hasTableTarget(
+  layout: GDSMLayout,
+  query: Pick<ScanQuery, "inTable" | "tableColumn" | "tableRowWhere">
+): boolean {
+  return layout.tables.some(
+    (table) =>
+      (typeof query.inTable !== "string" || table.id === query.inTable) &&
+      (!query.tableColumn || !!findTableColumn(table, query.tableColumn)) &&
+      (!query.tableRowWhere || !!findTableColumn(table, query.tableRowWhere.column))
+  );
+}
+
+/**
+ * True if a query addresses tables
+ */
+export function isTableQuery(query: ScanQuery): boolean {
+  return !!(query.inTable || query.tableColumn || query.tableRowWhere);
+}
@@ -35,6 +35,14 @@ export type SemanticType =
   | "legal_party"
   | "ssn"
   | "url"
+  | "credit_card"
+  | "iban"
+  | "ein"
+  | "itin"
+  | "passport"
+  | "drivers_license"
+  | "ip_address"
+  | "routing_number"
   | "unknown";
 
 /**
@@ -44,6 +52,58 @@ export interface ElementComment {
   id: string;
   text: string;
   timestamp: number;
+  author?: string;
+}
+
+/**
+ * Character range within an element's text (end exclusive)
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A matched range plus the text it covers (scanner spans)
+ */
+export interface TextSpan extends TextRange {
+  text: string;
+}
+
+/**
+ * A partial redaction or highlight inside an element
+ * Offsets index the element's text; redacted characters stay in place as
+ * mask characters, so offsets of later ranges don't shift
+ */
+export interface ElementRangeMark extends TextRange {
+  id: string; // Shared by the wrapper spans in the DOM (data-canon-range-id)
+  kind: "redact" | "highlight";
+  reason?: string; // Redaction reason code
+}
+
+/**
+ * Kind of element: a run of text, or an embedded image
+ */
+export type ElementType = "text" | "image";
+
+/**
+ * A blacked-out region of an image, in fractions of the image's width and
+ * height (0-1), so it holds at any zoom and pixel size
+ */
+export interface ImageRedaction extends BoundingBox {
+  id: string; // Shared with the overlay in the DOM (data-canon-image-region-id)
+  reason?: string; // Redaction reason code
+}
+
+/**
+ * An embedded image (photo, signature, scanned stamp)
+ */
+export interface ElementImage {
+  source: "img" | "background"; // An <img>, or an element with a CSS background image
+  pageBackground?: boolean; // pdf2htmlEX's whole-page background (.bi)
+  alt?: string;
+  // Burned into the image pixels on export
+  redactions?: ImageRedaction[];
 }
 
 /**
@@ -51,7 +111,8 @@ export interface ElementComment {
  */
 export interface GDSMElement {
   // Identity
-  id: string; // "pf1-el-42"
+  id: string; // "pf1-el-42", or "pf1-img-0" for images
+  type?: ElementType; // Absent for text
 
   // Content
   text: string; // Current text (may be empty if redacted)
@@ -73,6 +134,69 @@ export interface GDSMElement {
 
   // Comment (if present)
   comment?: ElementComment;
+
+  // Partial redactions and highlights, in the order they were applied
+  ranges?: ElementRangeMark[];
+
+  // Set when the element repeats at the same spot across pages
+  furniture?: ElementFurniture;
+
+  // Typography, when the builder could resolve it
+  style?: ElementStyle;
+
+  // Image elements (text is empty)
+  image?: ElementImage;
+}
+
+/**
+ * Resolved typography of an element
+ */
+export interface ElementStyle {
+  fontFamily?: string; // "Arial" (embedded font name without subset prefix or style suffix)
+  fontSize?: number; // Rendered size in px (pdf2htmlEX line scale applied)
+  fontWeight?: number; // 100-900; 700 is bold
+  italic?: boolean;
+  color?: string; // "#rrggbb"
+}
+
+/**
+ * Named colors style queries accept ("the red text")
+ */
+export type ColorName =
+  | "black"
+  | "gray"
+  | "white"
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "blue"
+  | "purple"
+  | "pink"
+  | "brown";
+
+/**
+ * Typography filter - elements without a resolved style never match
+ */
+export interface StyleFilter {
+  fontFamily?: string; // Case-insensitive part of the family ("times" matches "TimesNewRoman")
+  bold?: boolean; // Weight 600 and up (false: lighter)
+  italic?: boolean;
+  minFontSize?: number; // px
+  maxFontSize?: number; // px
+  // Size against the document's body text: "smaller" is footnote-sized
+  relativeSize?: "smaller" | "body" | "larger";
+  color?: ColorName | string; // A color name, or "#rrggbb" (near shades match)
+}
+
+/**
+ * Page furniture: running headers, footers and page numbers
+ */
+export type PageFurnitureKind = "header" | "footer" | "page_number";
+
+export interface ElementFurniture {
+  kind: PageFurnitureKind;
+  group: string; // Shared by every instance of the repeated element ("header-0")
 }
 
 /**
@@ -85,6 +209,111 @@ export interface GDSMPage {
   elementCount: number;
 }
 
+/**
+ * Where an element's text sits in a line (offsets into the line text)
+ */
+export interface LineSegment {
+  elementId: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Layout tree node kinds, outermost first
+ * A page is split into columns (a full-width band is a column of its own);
+ * columns hold headings and paragraphs, which hold lines of elements
+ */
+export type LayoutNodeKind = "column" | "heading" | "paragraph" | "line";
+
+export interface LayoutNode {
+  id: string; // "p1-col-0", "p1-par-3", "p1-line-12"
+  kind: LayoutNodeKind;
+  page: number;
+  parentId?: string;
+  childIds: string[]; // Child nodes (empty for lines - see elementIds)
+  elementIds: string[]; // Elements under this node, in reading order
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Headings and numbered clauses
+  level?: number; // 1 = top level
+  sectionNumber?: string; // "4.2"
+  // Paragraphs of running headers / footers (kept out of sections and tables)
+  furniture?: PageFurnitureKind;
+  // Lines only: where each element sits in the line text
+  segments?: LineSegment[];
+}
+
+/**
+ * A document section: a heading (or numbered clause) and what follows it up
+ * to the next heading at the same or a higher level
+ */
+export interface LayoutSection {
+  id: string; // "sec-3"
+  number?: string; // "4.2"
+  title: string;
+  level: number;
+  page: number;
+  headingNodeId: string; // Heading, or the numbered paragraph opening the section
+  parentId?: string;
+  childIds: string[]; // Subsections
+  blockIds: string[]; // Headings and paragraphs after the opening block, before the first subsection
+  elementIds: string[]; // Everything in the section including subsections, reading order
+}
+
+export interface TableColumn {
+  index: number; // 0-based
+  header?: string; // Header row text, when the table has one
+  x: number;
+  width: number;
+}
+
+export interface TableRow {
+  index: number; // 0-based, header row included
+  isHeader: boolean;
+  y: number;
+  height: number;
+}
+
+export interface TableCell {
+  row: number;
+  column: number;
+  elementIds: string[]; // Empty for an empty cell
+  text: string;
+}
+
+/**
+ * A table detected from element alignment
+ */
+export interface GDSMTable {
+  id: string; // "p3-table-0"
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hasHeader: boolean; // Row 0 holds column labels
+  columns: TableColumn[];
+  rows: TableRow[];
+  cells: TableCell[]; // Row-major, one per row and column
+}
+
+/**
+ * Layout tree of a GDSM (rebuilt by getLayout() once the GDSM version moves on)
+ */
+export interface GDSMLayout {
+  version: number; // GDSM version it was built from
+  nodesById: Map<string, LayoutNode>;
+  columnsByPage: Map<number, string[]>; // Column node IDs in reading order
+  blockOrder: string[]; // Heading and paragraph node IDs in reading order
+  sections: LayoutSection[]; // Reading order
+  readingOrder: string[]; // Element IDs in reading order
+  lineOfElement: Map<string, string>; // Element ID → line node ID
+  tables: GDSMTable[]; // Reading order
+}
+
 /**
  * Inverted text index for fast literal search
  */
@@ -107,6 +336,18 @@ export interface GDSMStats {
   deleted: number;
 }
 
+/**
+ * BCP 47 tag of a registered locale pack ("en-US", "de-DE", ...)
+ */
+export type DocumentLocale = string;
+
+/**
+ * How element boxes were obtained: measured from the rendered page, or
+ * estimated from pdf2htmlEX classes (server builder - widths guessed from
+ * font size and character count)
+ */
+export type GeometrySource = "measured" | "estimated";
+
 /**
  * The Global Document Structure Model
  */
@@ -126,8 +367,18 @@ export interface GDSM {
   // Search index
   textIndex: TextIndex;
 
+  // Lines, paragraphs, columns and sections
+  layout: GDSMLayout;
+
   // Stats
   stats: GDSMStats;
+
+  // Locale whose patterns detected the semantic types (guessed, or set by the user)
+  locale: DocumentLocale;
+  localeSource: "detected" | "user";
+
+  // Spatial, table and layout queries are approximate while "estimated"
+  geometry: GeometrySource;
 }
 
 /**
@@ -138,7 +389,14 @@ export type MutationType =
   | "highlight"
   | "set_text"
   | "add_comment"
-  | "delete";
+  | "delete"
+  | "redact_range"
+  | "highlight_range"
+  | "remove_highlight"
+  | "remove_comment"
+  | "edit_comment"
+  | "unredact"
+  | "redact_region";
 
 /**
  * A mutation to apply to an element
@@ -146,10 +404,65 @@ export type MutationType =
 export interface GDSMMutation {
   type: MutationType;
   elementId: string;
-  // For set_text
+  // For set_text, and unredact (the restored text)
   newText?: string;
-  // For add_comment
+  // For add_comment / edit_comment
   commentText?: string;
+  commentAuthor?: string;
+  // For redact_range / highlight_range
+  range?: TextRange;
+  rangeId?: string;
+  reason?: string;
+  // For redact_region: fractions of the image
+  region?: BoundingBox;
+  regionId?: string;
+}
+
+/**
+ * Row filter on a table column, case-insensitive
+ */
+export interface TableRowPredicate {
+  column: string; // Header label or 1-based index
+  equals?: string;
+  contains?: string;
+}
+
+/**
+ * Rectangle in page coordinates (px from the page's top-left corner)
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Named part of a page: thirds of its height ("top", "middle", "bottom"),
+ * halves of its width ("left", "right"), or a corner ("top_right" is the
+ * right half of the top third)
+ */
+export type PageRegion =
+  | "top"
+  | "middle"
+  | "bottom"
+  | "left"
+  | "right"
+  | "top_left"
+  | "top_right"
+  | "bottom_left"
+  | "bottom_right";
+
+export type SpatialRelation = "above" | "below" | "left_of" | "right_of" | "nearest";
+
+/**
+ * Keep elements positioned relative to an anchor ("to the right of 'Account No:'")
+ */
+export interface SpatialFilter {
+  anchor: string; // Element ID, or text found on reading-order lines (every occurrence)
+  relation: SpatialRelation;
+  maxDistance?: number; // Max gap to the anchor in px
+  limit?: number; // Closest N per anchor occurrence (default: all; 1 for "nearest")
 }
 
 /**
@@ -158,14 +471,47 @@ export interface GDSMMutation {
 export interface ScanQuery {
   // Filter by page(s)
   pages?: number[];
+  lastPage?: boolean; // Only the document's last page
+
+  // Spatial filters: element centers inside a region or box, and position
+  // relative to an anchor (applied after the text and type filters)
+  region?: PageRegion | BoundingBox;
+  relativeTo?: SpatialFilter;
+
+  // Typography filter (font family, weight, italic, size, color)
+  style?: StyleFilter;
+
+  // Element kind; page backgrounds are left out unless asked for
+  elementType?: ElementType;
+  includePageBackgrounds?: boolean;
 
   // State filters
   excludeRedacted?: boolean;
-  onlyHighlighted?: boolean;
+  onlyHighlighted?: boolean; // Whole-element or partial highlight
+  onlyRedacted?: boolean; // Whole-element or partial redaction
+  onlyCommented?: boolean;
+
+  // Page furniture filters
+  furniture?: PageFurnitureKind | "any"; // Only headers, footers or page numbers
+  excludeFurniture?: boolean;
 
   // Literal word search (uses inverted index)
   containsWord?: string;
 
+  // Phrase search on reading-order lines (crosses element boundaries)
+  containsPhrase?: string;
+
+  // Section filter: number ("4.2") or heading text ("Indemnification")
+  inSection?: string;
+  // Part of the section (default: all of it, subsections included)
+  sectionPart?: "heading" | "body" | "first_paragraph";
+
+  // Table filter: cells of detected tables - true for any table, or a table ID
+  inTable?: true | string;
+  tableColumn?: string; // Header label ("Salary") or 1-based index ("3")
+  tableRowWhere?: TableRowPredicate; // Only rows whose cell in a column matches
+  includeTableHeader?: boolean; // Default false: header cells are left out
+
   // Pattern matching (regex)
   pattern?: RegExp;
 
@@ -185,7 +531,9 @@ export interface ScanQuery {
 export interface ScanResult {
   elements: GDSMElement[];
   matchedCount: number;
-  queryType: "index" | "pattern" | "semantic";
+  queryType: "index" | "pattern" | "phrase" | "semantic";
   // For semantic queries, includes the compact representation sent to LLM
   compactRepresentation?: string;
+  // For phrase queries, the part of each element's text the phrase covers
+  spans?: Map<string, TextSpan[]>;
 }
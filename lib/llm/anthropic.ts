@@ -0,0 +1,85 @@
+/**
+ * Anthropic Provider - Main agent model over the streaming Messages API
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  AgentContentBlock,
+  AgentModelProvider,
+  AgentStreamHandlers,
+  AgentTurn,
+  AgentTurnRequest,
+} from "./types";
+
+export function createAnthropicAgentProvider(model: string): AgentModelProvider {
+  // Created on first use so the server starts without ANTHROPIC_API_KEY
+  let client: Anthropic | null = null;
+
+  return {
+    name: `anthropic:${model}`,
+
+    async createTurn(request: AgentTurnRequest, handlers: AgentStreamHandlers = {}): Promise<AgentTurn> {
+      client ??= new Anthropic();
+
+      const stream = client.messages.stream({
+        model,
+        max_tokens: request.maxTokens,
+        system: request.system,
+        tools: request.tools,
+        messages: request.messages,
+      });
+
+      const toolCalls: Map<number, { id: string; name: string; inputJson: string }> = new Map();
+      let currentToolIndex = -1;
+
+      stream.on("text", (text) => handlers.onText?.(text));
+
+      stream.on("streamEvent", (event) => {
+        if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+          currentToolIndex = event.index;
+          const toolBlock = event.content_block;
+          toolCalls.set(currentToolIndex, { id: toolBlock.id, name: toolBlock.name, inputJson: "" });
+          handlers.onToolStart?.({ id: toolBlock.id, name: toolBlock.name });
+        }
+
+        if (event.type === "content_block_stop") {
+          const tool = toolCalls.get(event.index);
+          if (tool) {
+            let input: Record<string, unknown> = {};
+            try {
+              input = tool.inputJson ? JSON.parse(tool.inputJson) : {};
+            } catch {
+              // Partial JSON - the final message still carries the parsed input
+            }
+            handlers.onToolComplete?.({ id: tool.id, name: tool.name, input });
+          }
+        }
+      });
+
+      stream.on("inputJson", (partialJson) => {
+        const tool = toolCalls.get(currentToolIndex);
+        if (tool) {
+          tool.inputJson += partialJson;
+        }
+      });
+
+      const response = await stream.finalMessage();
+
+      const content: AgentContentBlock[] = [];
+      for (const block of response.content) {
+        if (block.type === "text") {
+          content.push({ type: "text", text: block.text });
+        } else if (block.type === "tool_use") {
+          content.push({
+            type: "tool_use",
+            id: block.id,
+            name: block.name,
+            input: block.input as Record<string, unknown>,
+          });
+        }
+      }
+
+      return { content, stopReason: response.stop_reason };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Gemini Provider - Large-context model for scanning and contextual search
+ */
+
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { TextGenerationOptions, TextModelProvider } from "./types";
+
+export function createGeminiTextProvider(model: string): TextModelProvider {
+  let client: GoogleGenerativeAI | null = null;
+
+  return {
+    name: `gemini:${model}`,
+
+    async generate(prompt: string, options: TextGenerationOptions = {}): Promise<string> {
+      client ??= new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+
+      const generativeModel = client.getGenerativeModel({
+        model,
+        generationConfig: {
+          temperature: options.temperature,
+          maxOutputTokens: options.maxTokens,
+        },
+      });
+      const result = await generativeModel.generateContent(prompt);
+      return result.response.text();
+    },
+  };
+}
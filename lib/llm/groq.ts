@@ -0,0 +1,27 @@
+/**
+ * Groq Provider - Fast scanner model (limited context window)
+ */
+
+import Groq from "groq-sdk";
+import type { TextGenerationOptions, TextModelProvider } from "./types";
+
+export function createGroqTextProvider(model: string, maxPromptChars: number): TextModelProvider {
+  let client: Groq | null = null;
+
+  return {
+    name: `groq:${model}`,
+    maxPromptChars,
+
+    async generate(prompt: string, options: TextGenerationOptions = {}): Promise<string> {
+      client ??= new Groq({ apiKey: process.env.GROQ_API_KEY });
+
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+      });
+      return completion.choices[0]?.message?.content || "";
+    },
+  };
+}
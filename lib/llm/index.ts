@@ -0,0 +1,147 @@
+/**
+ * LLM Providers (server-only)
+ *
+ * CANON_LLM_PROVIDER selects the backends used by the agent route:
+ * - "cloud" (default): Anthropic agent, Groq scanner with Gemini fallback
+ * - "local": an OpenAI-compatible endpoint for every role (no network keys)
+ *     CANON_LOCAL_LLM_URL        default http://localhost:11434/v1 (Ollama)
+ *     CANON_LOCAL_LLM_MODEL      default "llama3.1"
+ *     CANON_LOCAL_SCAN_MODEL     scanner model, defaults to CANON_LOCAL_LLM_MODEL
+ *     CANON_LOCAL_LLM_API_KEY    optional bearer token
+ *     CANON_LOCAL_LLM_TIMEOUT_MS per-request timeout, default 300000 (5 min)
+ * - "mock": scripted replay from the JSON file at CANON_MOCK_SCRIPT
+ */
+
+import { createAnthropicAgentProvider } from "./anthropic";
+import { createGeminiTextProvider } from "./gemini";
+import { createGroqTextProvider } from "./groq";
+import { createMockAgentProvider, createMockTextProvider } from "./mock";
+import {
+  createOpenAICompatibleAgentProvider,
+  createOpenAICompatibleTextProvider,
+} from "./openai-compatible";
+import type { LLMProviders, ProviderMode, TextGenerationOptions, TextModelProvider } from "./types";
+
+export type {
+  AgentContentBlock,
+  AgentModelProvider,
+  AgentStopReason,
+  AgentStreamHandlers,
+  AgentTurn,
+  AgentTurnRequest,
+  LLMProviders,
+  ProviderMode,
+  TextGenerationOptions,
+  TextModelProvider,
+} from "./types";
+export type { MockAgentTurn, MockScript, MockScriptSource, MockTextResponse } from "./mock";
+export type { OpenAICompatibleConfig } from "./openai-compatible";
+export { createAnthropicAgentProvider } from "./anthropic";
+export { createGeminiTextProvider } from "./gemini";
+export { createGroqTextProvider } from "./groq";
+export { createMockAgentProvider, createMockTextProvider } from "./mock";
+export {
+  StructuredOutputError,
+  extractJson,
+  generateStructured,
+  type StructuredGenerationOptions,
+  type StructuredParser,
+} from "./structured";
+export {
+  createOpenAICompatibleAgentProvider,
+  createOpenAICompatibleTextProvider,
+} from "./openai-compatible";
+
+// Cloud models: Opus for main reasoning, Groq for fast scanning, Gemini for large documents
+const MAIN_MODEL = "claude-opus-4-5-20251101";
+const GROQ_SCAN_MODEL = "llama-3.3-70b-versatile";
+const GEMINI_MODEL = "gemini-3-flash-preview";
+const GEMINI_FALLBACK_MODEL = "gemini-2.0-flash";
+// Groq context limit is ~128K tokens, roughly ~4 chars per token = ~500K chars safe limit
+const GROQ_CHAR_LIMIT = 400000;
+
+const DEFAULT_LOCAL_URL = "http://localhost:11434/v1";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+function resolveMode(): ProviderMode {
+  const mode = (process.env.CANON_LLM_PROVIDER || "cloud").toLowerCase();
+  if (mode === "cloud" || mode === "local" || mode === "mock") return mode;
+  throw new Error(`Unknown CANON_LLM_PROVIDER "${mode}" (expected cloud, local or mock)`);
+}
+
+function createProviders(mode: ProviderMode): LLMProviders {
+  if (mode === "local") {
+    const baseUrl = process.env.CANON_LOCAL_LLM_URL || DEFAULT_LOCAL_URL;
+    const apiKey = process.env.CANON_LOCAL_LLM_API_KEY;
+    const model = process.env.CANON_LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL;
+    const scanModel = process.env.CANON_LOCAL_SCAN_MODEL || model;
+    const timeout = Number(process.env.CANON_LOCAL_LLM_TIMEOUT_MS);
+    const timeoutMs = timeout > 0 ? timeout : undefined;
+    const scanner = createOpenAICompatibleTextProvider({ baseUrl, apiKey, model: scanModel, timeoutMs });
+
+    return {
+      mode,
+      agent: createOpenAICompatibleAgentProvider({ baseUrl, apiKey, model, timeoutMs }),
+      scanner: [scanner],
+      contextual: [scanner],
+    };
+  }
+
+  if (mode === "mock") {
+    const script = process.env.CANON_MOCK_SCRIPT;
+    const text = createMockTextProvider(script);
+    return { mode, agent: createMockAgentProvider(script), scanner: [text], contextual: [text] };
+  }
+
+  const gemini = createGeminiTextProvider(GEMINI_MODEL);
+  const scanner: TextModelProvider[] = [];
+  if (process.env.GROQ_API_KEY) {
+    scanner.push(createGroqTextProvider(GROQ_SCAN_MODEL, GROQ_CHAR_LIMIT));
+  }
+  scanner.push(gemini, createGeminiTextProvider(GEMINI_FALLBACK_MODEL));
+
+  return {
+    mode,
+    agent: createAnthropicAgentProvider(MAIN_MODEL),
+    scanner,
+    contextual: [gemini],
+  };
+}
+
+let cachedProviders: LLMProviders | null = null;
+
+/**
+ * Providers for the configured mode (created once per server process)
+ */
+export function getLLMProviders(): LLMProviders {
+  cachedProviders ??= createProviders(resolveMode());
+  return cachedProviders;
+}
+
+/**
+ * Generate text with the first provider that accepts the prompt and succeeds
+ * Throws the last error if every provider fails
+ */
+export async function generateWithFallback(
+  providers: TextModelProvider[],
+  prompt: string,
+  options?: TextGenerationOptions
+): Promise<{ text: string; provider: string }> {
+  const candidates = providers.filter(
+    (provider) => !provider.maxPromptChars || prompt.length < provider.maxPromptChars
+  );
+  if (candidates.length === 0) {
+    throw new Error(`No LLM provider accepts a ${prompt.length} char prompt`);
+  }
+
+  let lastError: unknown;
+  for (const provider of candidates) {
+    try {
+      return { text: await provider.generate(prompt, options), provider: provider.name };
+    } catch (error) {
+      console.error(`❌ [LLM] ${provider.name} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,129 @@
+/**
+ * Mock Provider - Deterministic replay of scripted agent turns (offline testing)
+ *
+ * Script (JSON file at CANON_MOCK_SCRIPT):
+ * {
+ *   "agent": [
+ *     { "text": "Scanning...", "toolCalls": [{ "name": "scan_document", "input": { "query": "emails" } }] },
+ *     { "text": "Done.", "toolCalls": [{ "name": "redact_element", "input": { "elementId": "pf1-el-3" } }] }
+ *   ],
+ *   "text": [
+ *     { "match": "<document_scanner>", "response": [{ "elementId": "pf1-el-3", "textContent": "a@b.com" }] }
+ *   ]
+ * }
+ *
+ * Agent turns are picked by position: the Nth assistant turn since the latest
+ * user instruction replays agent[N]. Replay is stateless, so every request
+ * with the same script and messages gets the same answer.
+ */
+
+import { readFile } from "fs/promises";
+import type { MessageParam } from "@anthropic-ai/sdk/resources/messages";
+import type {
+  AgentContentBlock,
+  AgentModelProvider,
+  AgentStreamHandlers,
+  AgentTurn,
+  AgentTurnRequest,
+  TextModelProvider,
+} from "./types";
+
+/**
+ * One scripted agent turn
+ */
+export interface MockAgentTurn {
+  text?: string;
+  toolCalls?: Array<{ name: string; input?: Record<string, unknown> }>;
+}
+
+/**
+ * A scripted text response, used when the prompt contains `match` (or always if unset)
+ */
+export interface MockTextResponse {
+  match?: string;
+  response: unknown; // Non-strings are JSON-encoded
+}
+
+/**
+ * A full mock script
+ */
+export interface MockScript {
+  agent?: MockAgentTurn[];
+  text?: MockTextResponse[];
+}
+
+const UNSCRIPTED_TEXT = "Mock provider: no scripted response for this turn.";
+
+/**
+ * Script source: an object, or a path to a JSON file (re-read on every call
+ * so the script can be edited while the dev server runs)
+ */
+export type MockScriptSource = MockScript | string | undefined;
+
+async function loadScript(source: MockScriptSource): Promise<MockScript> {
+  if (!source) return {};
+  if (typeof source !== "string") return source;
+  return JSON.parse(await readFile(source, "utf-8")) as MockScript;
+}
+
+/**
+ * Number of assistant turns since the latest user instruction
+ * (tool results are user messages with array content; instructions are strings)
+ */
+function currentTurnIndex(messages: MessageParam[]): number {
+  let turns = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === "user" && typeof message.content === "string") break;
+    if (message.role === "assistant") turns++;
+  }
+  return turns;
+}
+
+export function createMockAgentProvider(source: MockScriptSource): AgentModelProvider {
+  return {
+    name: "mock",
+
+    async createTurn(request: AgentTurnRequest, handlers: AgentStreamHandlers = {}): Promise<AgentTurn> {
+      const script = await loadScript(source);
+      const turnIndex = currentTurnIndex(request.messages);
+      const scripted = script.agent?.[turnIndex];
+
+      if (!scripted) {
+        const text = script.agent?.length ? "" : UNSCRIPTED_TEXT;
+        if (text) handlers.onText?.(text);
+        return { content: text ? [{ type: "text", text }] : [], stopReason: "end_turn" };
+      }
+
+      const content: AgentContentBlock[] = [];
+      if (scripted.text) {
+        content.push({ type: "text", text: scripted.text });
+        handlers.onText?.(scripted.text);
+      }
+
+      (scripted.toolCalls ?? []).forEach((call, index) => {
+        const id = `mock-tool-${turnIndex + 1}-${index + 1}`;
+        const input = call.input ?? {};
+        content.push({ type: "tool_use", id, name: call.name, input });
+        handlers.onToolStart?.({ id, name: call.name });
+        handlers.onToolComplete?.({ id, name: call.name, input });
+      });
+
+      const hasToolCalls = content.some((block) => block.type === "tool_use");
+      return { content, stopReason: hasToolCalls ? "tool_use" : "end_turn" };
+    },
+  };
+}
+
+export function createMockTextProvider(source: MockScriptSource): TextModelProvider {
+  return {
+    name: "mock",
+
+    async generate(prompt: string): Promise<string> {
+      const script = await loadScript(source);
+      const entry = script.text?.find((candidate) => !candidate.match || prompt.includes(candidate.match));
+      if (!entry) return "[]";
+      return typeof entry.response === "string" ? entry.response : JSON.stringify(entry.response);
+    },
+  };
+}
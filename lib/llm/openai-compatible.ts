@@ -0,0 +1,223 @@
+/**
+ * OpenAI-Compatible Provider - Local models (llama.cpp server, Ollama, vLLM, LM Studio)
+ *
+ * Talks to POST {baseUrl}/chat/completions without streaming. Anthropic-shaped
+ * messages and tools are converted to the OpenAI chat format:
+ * - tool_use blocks → assistant tool_calls
+ * - tool_result blocks → role "tool" messages
+ * - input_schema → function parameters
+ */
+
+import type { MessageParam, Tool } from "@anthropic-ai/sdk/resources/messages";
+import type {
+  AgentContentBlock,
+  AgentModelProvider,
+  AgentStreamHandlers,
+  AgentTurn,
+  AgentTurnRequest,
+  TextGenerationOptions,
+  TextModelProvider,
+} from "./types";
+
+/**
+ * Connection settings for an OpenAI-compatible endpoint
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. "http://localhost:11434/v1"
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number; // Per request; a stalled server fails the call instead of hanging it
+}
+
+const DEFAULT_TIMEOUT_MS = 300_000;
+
+interface ChatToolCall {
+  id?: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: ChatToolCall[] };
+    finish_reason?: string | null;
+  }>;
+}
+
+function toChatTools(tools: Tool[]) {
+  return tools.map((tool) => ({
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+}
+
+function toChatMessages(system: string, messages: MessageParam[]): ChatMessage[] {
+  const chatMessages: ChatMessage[] = [{ role: "system", content: system }];
+
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      chatMessages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      let text = "";
+      const toolCalls: ChatToolCall[] = [];
+      for (const block of message.content) {
+        if (block.type === "text") {
+          text += block.text;
+        } else if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id,
+            type: "function",
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          });
+        }
+      }
+      chatMessages.push({
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // User turn: tool results become "tool" messages, text stays with the user
+    let text = "";
+    for (const block of message.content) {
+      if (block.type === "tool_result") {
+        const content =
+          typeof block.content === "string"
+            ? block.content
+            : (block.content ?? [])
+                .map((part) => (part.type === "text" ? part.text : ""))
+                .join("");
+        chatMessages.push({ role: "tool", tool_call_id: block.tool_use_id, content });
+      } else if (block.type === "text") {
+        text += block.text;
+      }
+    }
+    if (text) {
+      chatMessages.push({ role: "user", content: text });
+    }
+  }
+
+  return chatMessages;
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function postChatCompletion(
+  config: OpenAICompatibleConfig,
+  body: Record<string, unknown>
+): Promise<ChatCompletionResponse> {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  try {
+    // The signal also covers reading the body
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: config.model, stream: false, ...body }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(
+        `Local LLM request failed (${response.status}): ${detail.substring(0, 500) || response.statusText}`
+      );
+    }
+
+    return (await response.json()) as ChatCompletionResponse;
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new Error(`Local LLM request timed out after ${timeoutMs}ms (${url})`);
+    }
+    throw error;
+  }
+}
+
+export function createOpenAICompatibleAgentProvider(config: OpenAICompatibleConfig): AgentModelProvider {
+  // The counter restarts with the server - the start time keeps IDs from
+  // colliding with those in saved sessions
+  const idPrefix = `call_local_${Date.now()}`;
+  let callCounter = 0;
+
+  return {
+    name: `local:${config.model}`,
+
+    async createTurn(request: AgentTurnRequest, handlers: AgentStreamHandlers = {}): Promise<AgentTurn> {
+      const data = await postChatCompletion(config, {
+        messages: toChatMessages(request.system, request.messages),
+        tools: toChatTools(request.tools),
+        max_tokens: request.maxTokens,
+      });
+
+      const choice = data.choices?.[0];
+      const content: AgentContentBlock[] = [];
+
+      const text = choice?.message?.content ?? "";
+      if (text) {
+        content.push({ type: "text", text });
+        handlers.onText?.(text);
+      }
+
+      for (const call of choice?.message?.tool_calls ?? []) {
+        // Some servers omit tool call IDs - the agent loop needs them to pair results
+        const id = call.id || `${idPrefix}_${++callCounter}`;
+        const input = parseArguments(call.function.arguments);
+        content.push({ type: "tool_use", id, name: call.function.name, input });
+        handlers.onToolStart?.({ id, name: call.function.name });
+        handlers.onToolComplete?.({ id, name: call.function.name, input });
+      }
+
+      const hasToolCalls = content.some((block) => block.type === "tool_use");
+      const stopReason =
+        choice?.finish_reason === "length"
+          ? "max_tokens"
+          : hasToolCalls
+            ? "tool_use"
+            : "end_turn";
+
+      return { content, stopReason };
+    },
+  };
+}
+
+export function createOpenAICompatibleTextProvider(config: OpenAICompatibleConfig): TextModelProvider {
+  return {
+    name: `local:${config.model}`,
+
+    async generate(prompt: string, options: TextGenerationOptions = {}): Promise<string> {
+      const data = await postChatCompletion(config, {
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+      });
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
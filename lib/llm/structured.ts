@@ -0,0 +1,101 @@
+/**
+ * Structured Output - JSON responses validated against a parser, with retries
+ *
+ * Text models are asked for JSON but answer in free text. Each response is
+ * parsed and validated; a rejected response is retried with the validation
+ * error appended to the prompt, so the model can correct itself.
+ */
+
+import { generateWithFallback } from "./index";
+import type { TextGenerationOptions, TextModelProvider } from "./types";
+
+/**
+ * Thrown when a response isn't the JSON the prompt asked for
+ */
+export class StructuredOutputError extends Error {
+  readonly kind: "no_json" | "invalid_json" | "schema";
+  readonly issues: string[];
+
+  constructor(kind: StructuredOutputError["kind"], message: string, issues: string[] = []) {
+    super(message);
+    this.name = "StructuredOutputError";
+    this.kind = kind;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Parse and validate one response
+ * finalAttempt is true on the last try - parsers can accept a partially
+ * valid response then (e.g. drop unknown IDs) instead of failing outright
+ */
+export type StructuredParser<T> = (value: unknown, finalAttempt: boolean) => T;
+
+export interface StructuredGenerationOptions extends TextGenerationOptions {
+  maxAttempts?: number; // Default 3 (the first try plus two retries)
+  label?: string; // Log prefix, e.g. "SCAN"
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Issues quoted back to the model per retry
+const MAX_REPORTED_ISSUES = 10;
+
+/**
+ * Extract the outermost JSON array or object from model text
+ */
+export function extractJson(text: string, shape: "array" | "object"): unknown {
+  const match = shape === "array" ? text.match(/\[[\s\S]*\]/) : text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new StructuredOutputError("no_json", `No JSON ${shape} found in response`);
+  }
+  try {
+    return JSON.parse(match[0]);
+  } catch (error) {
+    throw new StructuredOutputError(
+      "invalid_json",
+      `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function retryPrompt(prompt: string, error: StructuredOutputError): string {
+  const issues = error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `- ${issue}`);
+  if (error.issues.length > MAX_REPORTED_ISSUES) {
+    issues.push(`- ...and ${error.issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+  return `${prompt}
+
+<previous_attempt_rejected>
+Your previous response was rejected: ${error.message}
+${issues.join("\n")}
+Answer again with ONLY the JSON described above.
+</previous_attempt_rejected>`;
+}
+
+/**
+ * Generate JSON of a known shape, retrying with the validation error fed back
+ * Throws the last StructuredOutputError once attempts run out; provider
+ * errors are not retried here (generateWithFallback already tried every
+ * provider)
+ */
+export async function generateStructured<T>(
+  providers: TextModelProvider[],
+  prompt: string,
+  shape: "array" | "object",
+  parse: StructuredParser<T>,
+  options: StructuredGenerationOptions = {}
+): Promise<{ value: T; provider: string; attempts: number }> {
+  const { maxAttempts = DEFAULT_MAX_ATTEMPTS, label = "LLM", ...generation } = options;
+  let currentPrompt = prompt;
+
+  for (let attempt = 1; ; attempt++) {
+    const { text, provider } = await generateWithFallback(providers, currentPrompt, generation);
+    try {
+      return { value: parse(extractJson(text, shape), attempt === maxAttempts), provider, attempts: attempt };
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError) || attempt >= maxAttempts) throw error;
+      console.log(`🔁 [${label}] ${provider} response rejected (attempt ${attempt}/${maxAttempts}): ${error.message}`);
+      currentPrompt = retryPrompt(prompt, error);
+    }
+  }
+}
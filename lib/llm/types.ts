@@ -0,0 +1,89 @@
+import type { MessageParam, Tool } from "@anthropic-ai/sdk/resources/messages";
+
+/**
+ * LLM Provider Types
+ *
+ * Messages and tools use the Anthropic shapes the agent loop already builds;
+ * adapters for other APIs convert at the boundary.
+ */
+
+/**
+ * Which set of providers the server uses (CANON_LLM_PROVIDER)
+ */
+export type ProviderMode = "cloud" | "local" | "mock";
+
+/**
+ * A content block returned by an agent turn
+ */
+export type AgentContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> };
+
+/**
+ * Why an agent turn stopped ("end_turn", "tool_use", "max_tokens", ...)
+ */
+export type AgentStopReason = string | null;
+
+/**
+ * One request to the main agent model
+ */
+export interface AgentTurnRequest {
+  system: string;
+  tools: Tool[];
+  messages: MessageParam[];
+  maxTokens: number;
+}
+
+/**
+ * A completed agent turn
+ */
+export interface AgentTurn {
+  content: AgentContentBlock[];
+  stopReason: AgentStopReason;
+}
+
+/**
+ * Streaming callbacks (providers that don't stream call them once per block)
+ */
+export interface AgentStreamHandlers {
+  onText?: (text: string) => void;
+  onToolStart?: (tool: { id: string; name: string }) => void;
+  onToolComplete?: (tool: { id: string; name: string; input: Record<string, unknown> }) => void;
+}
+
+/**
+ * Main agent model (tool calling)
+ */
+export interface AgentModelProvider {
+  name: string;
+  createTurn(request: AgentTurnRequest, handlers?: AgentStreamHandlers): Promise<AgentTurn>;
+}
+
+/**
+ * Options for plain text generation
+ */
+export interface TextGenerationOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Prompt-in, text-out model (scanner and contextual search)
+ */
+export interface TextModelProvider {
+  name: string;
+  // Prompts larger than this skip the provider (e.g. Groq's context window)
+  maxPromptChars?: number;
+  generate(prompt: string, options?: TextGenerationOptions): Promise<string>;
+}
+
+/**
+ * Providers for each role in the agent route
+ * Text providers are tried in order until one succeeds
+ */
+export interface LLMProviders {
+  mode: ProviderMode;
+  agent: AgentModelProvider;
+  scanner: TextModelProvider[];
+  contextual: TextModelProvider[];
+}
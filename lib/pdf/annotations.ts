@@ -0,0 +1,126 @@
+/**
+ * PDF Annotation Extraction - Read comments, highlights and redaction marks
+ *
+ * pdf2htmlEX ignores annotation dictionaries, so they are read from the
+ * source PDF with pdf.js. Rects are converted to top-left origin page units;
+ * since /api/convert runs pdf2htmlEX at zoom 1.0, PDF points equal the
+ * HTML page's CSS pixels and map directly onto GDSM element coordinates.
+ */
+
+import { getDocument, PDFDateString } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type {
+  AnnotationRect,
+  ImportedAnnotation,
+  ImportedAnnotationKind,
+} from "@/lib/gdsm/annotations";
+
+/**
+ * PDF annotation subtypes we import, by kind
+ */
+const SUBTYPE_KINDS: Record<string, ImportedAnnotationKind> = {
+  Text: "comment",
+  FreeText: "comment",
+  Highlight: "highlight",
+  Underline: "highlight",
+  StrikeOut: "highlight",
+  Squiggly: "highlight",
+  Redact: "redaction",
+};
+
+/**
+ * The subset of pdf.js annotation data we read
+ */
+interface RawAnnotation {
+  id?: string;
+  subtype?: string;
+  rect?: number[];
+  quadPoints?: ArrayLike<number> | null;
+  contentsObj?: { str?: string };
+  titleObj?: { str?: string };
+  modificationDate?: string | null;
+  creationDate?: string | null;
+  overlayText?: string;
+}
+
+/**
+ * Convert a PDF-space box to top-left origin, sorting the corners
+ */
+function toTopLeftRect(
+  points: number[],
+  convert: (x: number, y: number) => number[]
+): AnnotationRect {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const [x, y] = convert(points[i], points[i + 1]);
+    xs.push(x);
+    ys.push(y);
+  }
+
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(...xs) - left,
+    height: Math.max(...ys) - top,
+  };
+}
+
+function parsePdfDate(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  return PDFDateString.toDateObject(value)?.getTime();
+}
+
+/**
+ * Extract importable annotations from a PDF
+ */
+export async function extractAnnotations(pdfBytes: Uint8Array): Promise<ImportedAnnotation[]> {
+  // pdf.js may detach the buffer it is given, so pass a copy
+  const pdf = await getDocument({
+    data: new Uint8Array(pdfBytes),
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  const annotations: ImportedAnnotation[] = [];
+
+  try {
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1 });
+      const convert = (x: number, y: number) => viewport.convertToViewportPoint(x, y);
+
+      const rawAnnotations = (await page.getAnnotations()) as RawAnnotation[];
+      rawAnnotations.forEach((raw, index) => {
+        const kind = raw.subtype ? SUBTYPE_KINDS[raw.subtype] : undefined;
+        if (!kind || !raw.rect) return;
+
+        // Text markup: one rect per quad (4 points); otherwise the annotation rect
+        const quadPoints = raw.quadPoints ? Array.from(raw.quadPoints) : [];
+        const rects: AnnotationRect[] = [];
+        for (let i = 0; i + 8 <= quadPoints.length; i += 8) {
+          rects.push(toTopLeftRect(quadPoints.slice(i, i + 8), convert));
+        }
+        if (rects.length === 0) {
+          rects.push(toTopLeftRect(raw.rect, convert));
+        }
+
+        annotations.push({
+          id: `pdf-annot-${pageNum}-${raw.id ?? index}`,
+          kind,
+          subtype: raw.subtype as string,
+          page: pageNum,
+          rects,
+          text: raw.contentsObj?.str || raw.overlayText || undefined,
+          author: raw.titleObj?.str || undefined,
+          timestamp: parsePdfDate(raw.modificationDate) ?? parsePdfDate(raw.creationDate),
+        });
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return annotations;
+}
@@ -0,0 +1,55 @@
+/**
+ * PDF → HTML Conversion - Runs pdf2htmlEX on a PDF
+ *
+ * Produces a single self-contained HTML file (fonts, images, CSS and the
+ * outline embedded) at zoom 1.0, so CSS pixels equal PDF points.
+ */
+
+import { writeFile, readFile, mkdir, rm } from "fs/promises";
+import { exec } from "child_process";
+import { promisify } from "util";
+import path from "path";
+import { randomUUID } from "crypto";
+
+const execAsync = promisify(exec);
+
+const PDF2HTMLEX_PATH = path.join(process.cwd(), "bin", "pdf2htmlEX");
+
+/**
+ * Convert PDF bytes to pdf2htmlEX HTML
+ */
+export async function convertPdfToHtml(pdfBytes: Uint8Array): Promise<string> {
+  const tempDir = path.join("/tmp", `canon-${randomUUID()}`);
+
+  try {
+    await mkdir(tempDir, { recursive: true });
+
+    const pdfPath = path.join(tempDir, "input.pdf");
+    await writeFile(pdfPath, pdfBytes);
+
+    // Run pdf2htmlEX with all embedding enabled for self-contained HTML
+    // Using zoom 1.0 for pixel-perfect accuracy (72 DPI matches PDF standard)
+    const outputFileName = "output.html";
+    const command = [
+      PDF2HTMLEX_PATH,
+      "--zoom", "1.0",
+      "--embed-css", "1",
+      "--embed-font", "1",
+      "--embed-image", "1",
+      "--embed-javascript", "1",
+      "--embed-outline", "1",
+      "--printing", "0",
+      "--dest-dir", tempDir,
+      pdfPath,
+      outputFileName,
+    ].join(" ");
+
+    await execAsync(command, { timeout: 60000 });
+
+    return await readFile(path.join(tempDir, outputFileName), "utf-8");
+  } finally {
+    await rm(tempDir, { recursive: true, force: true }).catch(() => {
+      // Ignore cleanup errors
+    });
+  }
+}
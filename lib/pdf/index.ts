@@ -0,0 +1,3 @@
+// PDF parsing exports (server-only)
+export { extractAnnotations } from "./annotations";
+export { convertPdfToHtml } from "./convert";
@@ -0,0 +1,14 @@
+// Redaction reason codes and log exports
+export {
+  REDACTION_REASONS,
+  DEFAULT_REDACTION_REASON,
+  UNSPECIFIED_REDACTION_REASON,
+  normalizeRedactionReason,
+  type RedactionReason,
+} from "./reasons";
+
+export {
+  formatRedactionLogCSV,
+  formatRedactionLogJSON,
+  type RedactionLogEntry,
+} from "./log";
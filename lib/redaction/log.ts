@@ -0,0 +1,83 @@
+/**
+ * Redaction Log - Page, position, reason and provenance for every redaction
+ *
+ * Entries never carry the redacted text, so the log can be shared with the
+ * requester alongside the redacted PDF.
+ *
+ * Coordinates are CSS pixels relative to the top-left corner of the page,
+ * the same space as GDSM element boxes.
+ */
+
+/**
+ * One redaction in the log
+ */
+export interface RedactionLogEntry {
+  index: number; // 1-based, in document order
+  elementId: string;
+  page: number; // 1-based
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  reason: string;
+  appliedBy: string;
+  appliedAt: string | null; // ISO 8601, null if unknown
+}
+
+const CSV_COLUMNS: Array<keyof RedactionLogEntry> = [
+  "index",
+  "page",
+  "x",
+  "y",
+  "width",
+  "height",
+  "reason",
+  "appliedBy",
+  "appliedAt",
+  "elementId",
+];
+
+/**
+ * Quote a CSV field when needed
+ * Fields starting with a formula character are prefixed with a quote so
+ * spreadsheet apps don't evaluate them
+ */
+function escapeCsvField(value: string | number | null): string {
+  if (value === null) return "";
+  let field = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Format log entries as CSV (header row plus one row per redaction)
+ */
+export function formatRedactionLogCSV(entries: RedactionLogEntry[]): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  for (const entry of entries) {
+    rows.push(CSV_COLUMNS.map((column) => escapeCsvField(entry[column])).join(","));
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+/**
+ * Format log entries as JSON with document-level metadata
+ */
+export function formatRedactionLogJSON(
+  entries: RedactionLogEntry[],
+  documentName: string | null
+): string {
+  return JSON.stringify(
+    {
+      document: documentName,
+      generatedAt: new Date().toISOString(),
+      units: "css-px, page top-left origin",
+      count: entries.length,
+      redactions: entries,
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Redaction Reasons - Exemption codes attached to every redaction
+ *
+ * The code is stamped on the redacted element (data-canon-redaction-reason),
+ * printed inside the exported black box and listed in the redaction log.
+ * Presets cover common privacy, privilege and FOIA exemptions; any other
+ * short code is accepted as-is.
+ */
+
+/**
+ * A preset reason code
+ */
+export interface RedactionReason {
+  code: string;
+  label: string;
+}
+
+export const REDACTION_REASONS: RedactionReason[] = [
+  { code: "PII", label: "Personally identifiable information" },
+  { code: "PHI", label: "Protected health information" },
+  { code: "Attorney-Client", label: "Attorney-client privilege" },
+  { code: "Work Product", label: "Attorney work product" },
+  { code: "Confidential", label: "Confidential business information" },
+  { code: "(b)(4)", label: "FOIA: trade secrets and commercial information" },
+  { code: "(b)(5)", label: "FOIA: privileged inter/intra-agency records" },
+  { code: "(b)(6)", label: "FOIA: personal privacy" },
+  { code: "(b)(7)(C)", label: "FOIA: law enforcement personal privacy" },
+];
+
+export const DEFAULT_REDACTION_REASON = "PII";
+
+/**
+ * Shown in the log for redactions made before reasons were recorded
+ */
+export const UNSPECIFIED_REDACTION_REASON = "Unspecified";
+
+/**
+ * Longest reason code kept (it has to fit inside a redaction box)
+ */
+const MAX_REASON_LENGTH = 40;
+
+/**
+ * Normalize a reason code from user or model input
+ * Collapses whitespace, matches presets case-insensitively (so "pii" becomes
+ * "PII") and truncates long codes. Returns "" when no reason was given.
+ */
+export function normalizeRedactionReason(value: unknown): string {
+  if (typeof value !== "string") return "";
+
+  const reason = value.replace(/\s+/g, " ").trim();
+  if (!reason) return "";
+
+  const preset = REDACTION_REASONS.find(
+    (r) => r.code.toLowerCase() === reason.toLowerCase()
+  );
+  return preset ? preset.code : reason.slice(0, MAX_REASON_LENGTH);
+}
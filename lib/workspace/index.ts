@@ -0,0 +1,17 @@
+// Workspace module exports
+// Types are client-safe; the store functions are server-only (filesystem)
+export type {
+  DocumentSummary,
+  DocumentSession,
+  SavedLedgerEntry,
+  SessionUpdate,
+} from "./types";
+
+export {
+  createDocument,
+  listDocuments,
+  loadSession,
+  saveSession,
+  deleteDocument,
+  DocumentNotFoundError,
+} from "./store";
@@ -0,0 +1,228 @@
+/**
+ * Document Workspace - Filesystem store (server-only)
+ *
+ * Layout, one directory per document:
+ *   <root>/<documentId>/meta.json     - DocumentSummary (cheap to list)
+ *   <root>/<documentId>/document.html - edited HTML
+ *   <root>/<documentId>/session.json  - GDSM, journal, ledger, conversation
+ *
+ * The root defaults to .canon-workspace in the project directory and can be
+ * moved with CANON_WORKSPACE_DIR.
+ *
+ * Saves merge into the stored session (read-modify-write), so writes to a
+ * document are serialized in-process - an autosave overlapping an explicit
+ * save would otherwise drop one of them.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { SerializedGDSM } from "@/lib/gdsm";
+import type { DocumentSession, DocumentSummary, SessionUpdate } from "./types";
+
+const WORKSPACE_ROOT =
+  process.env.CANON_WORKSPACE_DIR || path.join(process.cwd(), ".canon-workspace");
+
+/**
+ * Document IDs are used as directory names - only allow safe characters
+ */
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Persisted session fields other than the summary and HTML
+ */
+type SessionData = Pick<DocumentSession, "gdsm" | "journal" | "changeLedger" | "conversationHistory">;
+
+/**
+ * Error thrown when a document doesn't exist (or the ID is invalid)
+ */
+export class DocumentNotFoundError extends Error {
+  constructor(documentId: string) {
+    super(`Document not found: ${documentId}`);
+    this.name = "DocumentNotFoundError";
+  }
+}
+
+function documentDir(documentId: string): string {
+  if (!DOCUMENT_ID_PATTERN.test(documentId)) {
+    throw new DocumentNotFoundError(documentId);
+  }
+  return path.join(WORKSPACE_ROOT, documentId);
+}
+
+/**
+ * Tail of each document's write queue
+ */
+const documentQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a write after every earlier write to the same document has finished
+ */
+async function withDocumentLock<T>(documentId: string, write: () => Promise<T>): Promise<T> {
+  const previous = documentQueues.get(documentId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(write);
+  const tail = run.catch(() => undefined);
+  documentQueues.set(documentId, tail);
+
+  try {
+    return await run;
+  } finally {
+    // Drop the queue once nothing else is waiting on it
+    if (documentQueues.get(documentId) === tail) documentQueues.delete(documentId);
+  }
+}
+
+/**
+ * Write a file atomically (write to a temp file, then rename)
+ */
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, content, "utf-8");
+  await rename(tempPath, filePath);
+}
+
+async function readJson<T>(filePath: string, documentId: string): Promise<T> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new DocumentNotFoundError(documentId);
+    }
+    throw error;
+  }
+}
+
+function summarize(
+  summary: DocumentSummary,
+  gdsm: SerializedGDSM | null | undefined
+): DocumentSummary {
+  if (!gdsm) return summary;
+  return { ...summary, pageCount: gdsm.pages.length, stats: { ...gdsm.stats } };
+}
+
+/**
+ * Create a new document from freshly converted HTML
+ */
+export async function createDocument(input: {
+  name: string;
+  html: string;
+  gdsm?: SerializedGDSM | null;
+}): Promise<DocumentSummary> {
+  const id = randomUUID();
+  const dir = documentDir(id);
+  await mkdir(dir, { recursive: true });
+
+  const now = Date.now();
+  const summary = summarize(
+    { id, name: input.name, createdAt: now, updatedAt: now, pageCount: 0 },
+    input.gdsm
+  );
+  const session: SessionData = {
+    gdsm: input.gdsm ?? null,
+    journal: null,
+    changeLedger: [],
+    conversationHistory: [],
+  };
+
+  await writeFileAtomic(path.join(dir, "document.html"), input.html);
+  await writeFileAtomic(path.join(dir, "session.json"), JSON.stringify(session));
+  await writeFileAtomic(path.join(dir, "meta.json"), JSON.stringify(summary));
+
+  return summary;
+}
+
+/**
+ * List saved documents, most recently updated first
+ */
+export async function listDocuments(): Promise<DocumentSummary[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(WORKSPACE_ROOT);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const summaries = await Promise.all(
+    entries
+      .filter((entry) => DOCUMENT_ID_PATTERN.test(entry))
+      .map(async (entry) => {
+        try {
+          return await readJson<DocumentSummary>(
+            path.join(WORKSPACE_ROOT, entry, "meta.json"),
+            entry
+          );
+        } catch {
+          // Skip partially written or corrupt documents
+          return null;
+        }
+      })
+  );
+
+  return summaries
+    .filter((summary): summary is DocumentSummary => summary !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Load a full session
+ */
+export async function loadSession(documentId: string): Promise<DocumentSession> {
+  const dir = documentDir(documentId);
+  const summary = await readJson<DocumentSummary>(path.join(dir, "meta.json"), documentId);
+  const session = await readJson<SessionData>(path.join(dir, "session.json"), documentId);
+  const html = await readFile(path.join(dir, "document.html"), "utf-8");
+
+  return { ...summary, ...session, html };
+}
+
+/**
+ * Save changes to a session
+ * Only the provided fields are replaced
+ */
+export async function saveSession(
+  documentId: string,
+  update: SessionUpdate
+): Promise<DocumentSummary> {
+  const dir = documentDir(documentId);
+  return withDocumentLock(documentId, () => writeSession(dir, documentId, update));
+}
+
+async function writeSession(
+  dir: string,
+  documentId: string,
+  update: SessionUpdate
+): Promise<DocumentSummary> {
+  const summary = await readJson<DocumentSummary>(path.join(dir, "meta.json"), documentId);
+  const session = await readJson<SessionData>(path.join(dir, "session.json"), documentId);
+
+  const nextSession: SessionData = {
+    gdsm: update.gdsm !== undefined ? update.gdsm : session.gdsm,
+    journal: update.journal !== undefined ? update.journal : session.journal,
+    changeLedger: update.changeLedger ?? session.changeLedger,
+    conversationHistory: update.conversationHistory ?? session.conversationHistory,
+  };
+  const nextSummary = summarize(
+    { ...summary, name: update.name ?? summary.name, updatedAt: Date.now() },
+    nextSession.gdsm
+  );
+
+  if (update.html !== undefined) {
+    await writeFileAtomic(path.join(dir, "document.html"), update.html);
+  }
+  await writeFileAtomic(path.join(dir, "session.json"), JSON.stringify(nextSession));
+  await writeFileAtomic(path.join(dir, "meta.json"), JSON.stringify(nextSummary));
+
+  return nextSummary;
+}
+
+/**
+ * Delete a document and its session
+ */
+export async function deleteDocument(documentId: string): Promise<void> {
+  const dir = documentDir(documentId);
+  await withDocumentLock(documentId, async () => {
+    await readJson<DocumentSummary>(path.join(dir, "meta.json"), documentId);
+    await rm(dir, { recursive: true, force: true });
+  });
+}
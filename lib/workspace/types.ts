@@ -0,0 +1,52 @@
+/**
+ * Document Workspace - Types
+ *
+ * A saved session is everything needed to reopen a document and keep working:
+ * the edited HTML, the GDSM, the undo/redo journal, the change ledger and the
+ * agent conversation.
+ */
+
+import type { GDSMStats, MutationJournal, SerializedGDSM } from "@/lib/gdsm";
+import type { ConversationMessage } from "@/lib/agent";
+
+/**
+ * Listing entry for the document picker
+ */
+export interface DocumentSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  pageCount: number;
+  stats?: GDSMStats;
+}
+
+/**
+ * A change ledger entry in JSON-safe form (timestamp as epoch ms)
+ */
+export interface SavedLedgerEntry {
+  id: string;
+  type: string;
+  description: string;
+  page?: number;
+  timestamp: number;
+  journalEntryId?: string;
+}
+
+/**
+ * A full saved session
+ */
+export interface DocumentSession extends DocumentSummary {
+  html: string;
+  gdsm: SerializedGDSM | null;
+  journal: MutationJournal | null;
+  changeLedger: SavedLedgerEntry[];
+  conversationHistory: ConversationMessage[];
+}
+
+/**
+ * Fields that can be updated when saving a session
+ */
+export type SessionUpdate = Partial<
+  Pick<DocumentSession, "name" | "html" | "gdsm" | "journal" | "changeLedger" | "conversationHistory">
+>;
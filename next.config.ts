@@ -4,6 +4,8 @@ const nextConfig: NextConfig = {
   // Enable Turbopack (default in Next.js 16)
   // Assets are copied via postinstall script in package.json
   turbopack: {},
+  // pdf.js sets up its own (fake) worker on the server; load it from node_modules
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;